@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+
+/**
+ * Combat Balance Simulation CLI
+ * Usage: tsx server/src/cli/simulate.ts <config.json> [--fights N] [--seed N] [--format json|csv]
+ */
+
+import { readFileSync } from 'fs';
+import { CombatSimulator } from '../services/CombatSimulator';
+import { getErrorMessage } from '../utils/errorUtils';
+import {
+  SimulationCombatant,
+  SimulationConfig,
+  SimulationOutputFormat,
+  SimulationReport,
+  SIMULATION_CONSTANTS
+} from '../types/simulation.types';
+
+const USAGE = `
+📚 Usage: tsx server/src/cli/simulate.ts <config.json> [options]
+
+The config file holds the two stat blocks:
+  {
+    "attacker": { "name": "Warrior", "stats": { "level": 10, "hp": 200, "mp": 40, "strength": 30,
+                  "vitality": 20, "dexterity": 15, "intelligence": 8, "wisdom": 8 },
+                  "weaponCoefficient": 1.2, "weaponAffinityTier": 3, "magicAffinityTier": 0 },
+    "defender": { ..., "ability": { "name": "fireball", "basePower": 25,
+                  "scaling": { "intelligence": 1.5 }, "manaCost": 15, "isHeal": false } }
+  }
+
+Options:
+  --fights N         Fights to simulate (default: ${SIMULATION_CONSTANTS.DEFAULT_FIGHTS})
+  --seed N           Seed for the rolls (default: 1)
+  --format json|csv  Report format (default: json)
+
+Examples:
+  tsx server/src/cli/simulate.ts warrior-vs-mage.json
+  tsx server/src/cli/simulate.ts warrior-vs-mage.json --fights 10000 --format csv
+`;
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseCombatant(value: any, label: string): SimulationCombatant {
+  const stats = value?.stats;
+  const statNames = ['level', 'hp', 'mp', 'strength', 'vitality', 'dexterity', 'intelligence', 'wisdom'];
+  if (!stats || statNames.some(stat => typeof stats[stat] !== 'number')) {
+    throw new Error(`${label} needs numeric stats: ${statNames.join(', ')}`);
+  }
+
+  return {
+    name: value.name || label,
+    stats,
+    weaponCoefficient: value.weaponCoefficient ?? 1,
+    weaponAffinityTier: value.weaponAffinityTier ?? 0,
+    magicAffinityTier: value.magicAffinityTier ?? 0,
+    ...(value.ability && {
+      ability: {
+        name: value.ability.name || 'ability',
+        basePower: value.ability.basePower ?? 0,
+        scaling: value.ability.scaling || {},
+        manaCost: value.ability.manaCost ?? 0,
+        isHeal: value.ability.isHeal === true
+      }
+    })
+  };
+}
+
+function parseConfig(args: string[]): SimulationConfig {
+  const file = JSON.parse(readFileSync(args[0]!, 'utf8'));
+  const fights = parseInt(getOption(args, 'fights') ?? '') || file.fights || SIMULATION_CONSTANTS.DEFAULT_FIGHTS;
+  if (fights < 1 || fights > SIMULATION_CONSTANTS.MAX_FIGHTS) {
+    throw new Error(`Fights must be between 1 and ${SIMULATION_CONSTANTS.MAX_FIGHTS}`);
+  }
+
+  return {
+    attacker: parseCombatant(file.attacker, 'attacker'),
+    defender: parseCombatant(file.defender, 'defender'),
+    fights,
+    seed: parseInt(getOption(args, 'seed') ?? '') || file.seed || 1
+  };
+}
+
+/**
+ * One row per side, with the fight-wide columns repeated
+ */
+function toCsv(report: SimulationReport): string {
+  const header = [
+    'side', 'name', 'fights', 'seed', 'draws', 'wins', 'win_rate',
+    'ttk_avg_turns', 'ttk_median_turns', 'ttk_p90_turns',
+    'hits', 'misses', 'blocks', 'crits', 'crit_rate', 'crits_per_fight',
+    'damage_p10', 'damage_p25', 'damage_p50', 'damage_p75', 'damage_p90', 'damage_p99',
+    'avg_damage_per_fight', 'avg_healing_per_fight'
+  ];
+
+  const rows = (['attacker', 'defender'] as const).map(side => {
+    const sideReport = report[side];
+    const critsPerFight = Object.entries(sideReport.critsPerFight)
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([crits, fights]) => `${crits}:${fights}`)
+      .join(' ');
+
+    return [
+      side, `"${sideReport.name.replace(/"/g, '""')}"`, report.fights, report.seed, report.draws,
+      sideReport.wins, sideReport.winRate,
+      report.timeToKill.averageTurns, report.timeToKill.medianTurns, report.timeToKill.p90Turns,
+      sideReport.hits, sideReport.misses, sideReport.blocks, sideReport.crits, sideReport.critRate, critsPerFight,
+      sideReport.damage.p10, sideReport.damage.p25, sideReport.damage.p50,
+      sideReport.damage.p75, sideReport.damage.p90, sideReport.damage.p99,
+      sideReport.averageDamagePerFight, sideReport.averageHealingPerFight
+    ].join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (!args[0] || args[0].startsWith('--')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  try {
+    const format = (getOption(args, 'format') ?? 'json') as SimulationOutputFormat;
+    if (format !== 'json' && format !== 'csv') {
+      throw new Error(`Unknown format: ${format}`);
+    }
+
+    const report = new CombatSimulator().run(parseConfig(args));
+
+    // Only the report goes to stdout so it can be piped into a file
+    console.log(format === 'csv' ? toCsv(report) : JSON.stringify(report, null, 2));
+    process.exit(0);
+
+  } catch (error) {
+    console.error('\n❌ Simulation failed:', error instanceof Error ? getErrorMessage(error) : error);
+    process.exit(1);
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main();
+}
+
+export default main;
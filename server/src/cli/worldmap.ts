@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * World Map CLI
+ * Usage: tsx server/src/cli/worldmap.ts [--format json|dot] [--check]
+ */
+
+import { getDatabase, closeConnections } from '../config/database';
+import { CacheManager } from '../services/CacheManager';
+import { WorldMapService } from '../services/WorldMapService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { WorldMapFormat } from '../types/zone.types';
+
+const USAGE = `
+📚 Usage: tsx server/src/cli/worldmap.ts [options]
+
+Exports every zone and exit and validates the graph: exits whose way back does not match,
+zones unreachable from the starter zone, duplicate directions and level cliffs.
+
+Options:
+  --format json|dot  Export format (default: json)
+  --check            Only validate; exit with 1 if there are errors
+
+Examples:
+  tsx server/src/cli/worldmap.ts --format dot > world.dot && dot -Tsvg world.dot -o world.svg
+  tsx server/src/cli/worldmap.ts --check
+`;
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  try {
+    const format = (getOption(args, 'format') ?? 'json') as WorldMapFormat;
+    if (format !== 'json' && format !== 'dot') {
+      throw new Error(`Unknown format: ${format}`);
+    }
+
+    const worldMapService = new WorldMapService(getDatabase(), CacheManager.getInstance());
+    const map = await worldMapService.buildMap();
+
+    // Only the export goes to stdout so it can be piped into a file; issues go to stderr
+    if (!args.includes('--check')) {
+      console.log(format === 'dot' ? worldMapService.toDot(map) : JSON.stringify(map, null, 2));
+    }
+
+    for (const issue of map.issues) {
+      console.error(`${issue.severity === 'error' ? '❌' : '⚠️ '} [${issue.type}] ${issue.message}`);
+    }
+    const errors = map.issues.filter(issue => issue.severity === 'error').length;
+    console.error(`\n${map.zones.length} zones, ${map.exits.length} exits, ${errors} error(s), ` +
+      `${map.issues.length - errors} warning(s)`);
+
+    await closeConnections();
+    process.exit(args.includes('--check') && errors > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error('\n❌ World map export failed:', error instanceof Error ? getErrorMessage(error) : error);
+    process.exit(1);
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main();
+}
+
+export default main;
@@ -0,0 +1,340 @@
+/**
+ * Arena Controller
+ * REST API endpoints for the ranked arena queue, ratings, leaderboard and seasons
+ */
+
+import { Request, Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { logger } from '../utils/logger';
+import { ArenaMatchmakingService } from '../services/ArenaMatchmakingService';
+import { ArenaRatingService } from '../services/ArenaRatingService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { CombatErrorCode } from '../types/combat.types';
+import { ARENA_CONSTANTS } from '../types/arena.types';
+
+interface AuthenticatedRequest extends Request {
+  session?: {
+    characterId?: string;
+    userId?: string;
+    [key: string]: any;
+  };
+}
+
+export class ArenaController {
+  private matchmakingService: ArenaMatchmakingService;
+  private ratingService: ArenaRatingService;
+
+  constructor(matchmakingService: ArenaMatchmakingService, ratingService: ArenaRatingService) {
+    this.matchmakingService = matchmakingService;
+    this.ratingService = ratingService;
+  }
+
+  /**
+   * Validation middleware for joining the queue
+   */
+  static joinQueueValidation = [
+    body('teamSize')
+      .isInt()
+      .toInt()
+      .isIn(ARENA_CONSTANTS.TEAM_SIZES)
+      .withMessage(`Team size must be one of ${ARENA_CONSTANTS.TEAM_SIZES.join(', ')}`)
+  ];
+
+  /**
+   * Validation middleware for the leaderboard
+   */
+  static leaderboardValidation = [
+    query('teamSize')
+      .optional()
+      .isInt()
+      .toInt()
+      .isIn(ARENA_CONSTANTS.TEAM_SIZES)
+      .withMessage(`Team size must be one of ${ARENA_CONSTANTS.TEAM_SIZES.join(', ')}`),
+    query('seasonId')
+      .optional()
+      .isUUID()
+      .withMessage('Season ID must be a valid UUID'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .toInt()
+      .withMessage('Limit must be between 1 and 100'),
+    query('offset')
+      .optional()
+      .isInt({ min: 0 })
+      .toInt()
+      .withMessage('Offset must be a non-negative integer')
+  ];
+
+  /**
+   * Validation middleware for a character's ratings
+   */
+  static ratingValidation = [
+    param('characterId')
+      .isUUID()
+      .withMessage('Character ID must be a valid UUID')
+  ];
+
+  /**
+   * Validation middleware for starting a season
+   */
+  static newSeasonValidation = [
+    body('name')
+      .optional()
+      .isString()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Season name must be between 1 and 100 characters')
+  ];
+
+  /**
+   * POST /api/arena/queue
+   * Queue the current character for ranked matches
+   */
+  async joinQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.validate(req, res)) {
+        return;
+      }
+
+      const characterId = this.requireCharacter(req, res);
+      if (!characterId) {
+        return;
+      }
+
+      const result = await this.matchmakingService.joinQueue(characterId, req.body.teamSize);
+      if (!result.success) {
+        res.status(result.error === CombatErrorCode.INVALID_TEAM_SIZE ? 400 : 409).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: result.entry
+      });
+
+    } catch (error) {
+      logger.error('Failed to join arena queue', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to join arena queue'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/arena/queue
+   * Leave the queue
+   */
+  async leaveQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = this.requireCharacter(req, res);
+      if (!characterId) {
+        return;
+      }
+
+      const result = await this.matchmakingService.leaveQueue(characterId);
+      if (!result.success) {
+        res.status(404).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message
+      });
+
+    } catch (error) {
+      logger.error('Failed to leave arena queue', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to leave arena queue'
+      });
+    }
+  }
+
+  /**
+   * GET /api/arena/queue
+   * Queue status of the current character
+   */
+  async getQueueStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = this.requireCharacter(req, res);
+      if (!characterId) {
+        return;
+      }
+
+      const entry = await this.matchmakingService.getQueueEntry(characterId);
+
+      res.status(200).json({
+        success: true,
+        message: entry ? 'Character is queued' : 'Character is not queued',
+        data: {
+          queued: entry !== null,
+          ...(entry && { entry, waitedMs: Date.now() - entry.queuedAt })
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to get arena queue status', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve arena queue status'
+      });
+    }
+  }
+
+  /**
+   * GET /api/arena/leaderboard
+   * Highest rated players of a season and team size
+   */
+  async getLeaderboard(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.validate(req, res)) {
+        return;
+      }
+
+      const teamSize = Number(req.query.teamSize ?? 1);
+      const leaderboard = await this.ratingService.getLeaderboard(teamSize, {
+        ...(req.query.seasonId && { seasonId: String(req.query.seasonId) }),
+        ...(req.query.limit && { limit: Number(req.query.limit) }),
+        ...(req.query.offset && { offset: Number(req.query.offset) })
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Arena leaderboard retrieved successfully',
+        data: {
+          teamSize,
+          ...leaderboard
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to get arena leaderboard', {
+        query: req.query,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve arena leaderboard'
+      });
+    }
+  }
+
+  /**
+   * GET /api/arena/ratings/:characterId
+   * A character's current-season rating for every team size
+   */
+  async getRatings(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.validate(req, res)) {
+        return;
+      }
+
+      const characterId = req.params.characterId!;
+      const season = await this.ratingService.getCurrentSeason();
+      const ratings = await Promise.all(
+        ARENA_CONSTANTS.TEAM_SIZES.map(teamSize => this.ratingService.getRating(characterId, teamSize, season.id))
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Arena ratings retrieved successfully',
+        data: { season, ratings }
+      });
+
+    } catch (error) {
+      logger.error('Failed to get arena ratings', {
+        characterId: req.params.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve arena ratings'
+      });
+    }
+  }
+
+  /**
+   * POST /api/arena/seasons
+   * End the running season and start the next one (admin endpoint)
+   */
+  async startSeason(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.validate(req, res)) {
+        return;
+      }
+
+      const season = await this.ratingService.startNewSeason(req.body.name);
+
+      logger.info('Arena season started via API', {
+        seasonId: season.id,
+        userId: req.user?.id
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `${season.name} has begun`,
+        data: season
+      });
+
+    } catch (error) {
+      logger.error('Failed to start arena season', {
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start arena season'
+      });
+    }
+  }
+
+  private validate(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+      return false;
+    }
+    return true;
+  }
+
+  private requireCharacter(req: AuthenticatedRequest, res: Response): string | null {
+    const characterId = req.session?.characterId;
+    if (!characterId) {
+      res.status(401).json({
+        success: false,
+        message: 'No active character selected'
+      });
+      return null;
+    }
+    return characterId;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Combat Analytics Controller
+ * REST API endpoints for per-character combat analytics and combat log exports
+ */
+
+import { Request, Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { logger } from '../utils/logger';
+import { CombatAnalyticsService } from '../services/CombatAnalyticsService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { CombatErrorCode } from '../types/combat.types';
+import { CombatLogFormat } from '../types/analytics.types';
+
+export class CombatAnalyticsController {
+  private analyticsService: CombatAnalyticsService;
+
+  constructor(analyticsService: CombatAnalyticsService) {
+    this.analyticsService = analyticsService;
+  }
+
+  /**
+   * Validation middleware for character analytics
+   */
+  static analyticsValidation = [
+    param('id')
+      .isUUID()
+      .withMessage('Character ID must be a valid UUID'),
+    query('from')
+      .optional()
+      .isISO8601()
+      .withMessage('From must be an ISO 8601 date'),
+    query('to')
+      .optional()
+      .isISO8601()
+      .withMessage('To must be an ISO 8601 date')
+  ];
+
+  /**
+   * Validation middleware for combat log exports
+   */
+  static exportValidation = [
+    param('sessionId')
+      .isUUID()
+      .withMessage('Session ID must be a valid UUID'),
+    query('format')
+      .optional()
+      .isIn(['json', 'transcript'])
+      .withMessage('Format must be json or transcript')
+  ];
+
+  /**
+   * GET /api/characters/:id/combat-analytics
+   * DPS, HPS, crit rate, win/loss by combat type, most-used abilities and deadliest monsters
+   */
+  async getCharacterAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.validate(req, res)) {
+        return;
+      }
+
+      if (!req.user?.id) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+      const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+      if (from && to && from >= to) {
+        res.status(400).json({
+          success: false,
+          message: 'From must be before to'
+        });
+        return;
+      }
+
+      const analytics = await this.analyticsService.getCharacterAnalytics(req.params.id!, String(req.user.id), {
+        ...(from && { from }),
+        ...(to && { to })
+      });
+
+      if (!analytics) {
+        res.status(404).json({
+          success: false,
+          message: 'Character not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Combat analytics retrieved successfully',
+        data: analytics
+      });
+
+    } catch (error) {
+      logger.error('Failed to get combat analytics', {
+        characterId: req.params.id,
+        userId: req.user?.id,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve combat analytics'
+      });
+    }
+  }
+
+  /**
+   * GET /api/combat/:sessionId/export?format=json|transcript
+   * A session's full action log as JSON or as a plain-text transcript (participants only)
+   */
+  async exportCombatLog(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.validate(req, res)) {
+        return;
+      }
+
+      if (!req.user?.id) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required'
+        });
+        return;
+      }
+
+      const sessionId = req.params.sessionId!;
+      const log = await this.analyticsService.exportSessionLog(sessionId);
+      if (!log) {
+        res.status(404).json({
+          success: false,
+          message: 'Combat session not found',
+          errorCode: CombatErrorCode.COMBAT_NOT_FOUND
+        });
+        return;
+      }
+
+      if (!await this.analyticsService.canExport(sessionId, String(req.user.id))) {
+        res.status(403).json({
+          success: false,
+          message: 'Only participants can export this combat log',
+          errorCode: CombatErrorCode.NOT_PARTICIPANT
+        });
+        return;
+      }
+
+      const format = (req.query.format ?? 'json') as CombatLogFormat;
+      if (format === 'transcript') {
+        res.status(200)
+          .type('text/plain')
+          .attachment(`combat-${sessionId}.txt`)
+          .send(this.analyticsService.formatTranscript(log));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Combat log exported successfully',
+        data: log
+      });
+
+    } catch (error) {
+      logger.error('Failed to export combat log', {
+        sessionId: req.params.sessionId,
+        userId: req.user?.id,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to export combat log'
+      });
+    }
+  }
+
+  private validate(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+      return false;
+    }
+    return true;
+  }
+}
@@ -14,7 +14,9 @@ import { getErrorMessage } from '../utils/errorUtils';
   ActionType,
   ParticipantType,
   CombatSide,
-  CombatErrorCode
+  CombatErrorCode,
+  CombatSession,
+  CombatStatus
 } from '../types/combat.types';
 
 interface AuthenticatedRequest extends Request {
@@ -46,7 +48,8 @@ export class CombatController {
     body('zoneId');
       .isUUID();
       .withMessage('Zone ID must be a valid UUID'),
-    body('participants');
+    body('participants')
+      .if(body('sessionType').not().isIn(['pve', 'boss']));
       .isArray({ min: 1, max: 8 });
       .withMessage('Must have between 1 and 8 participants'),
     body('participants.*.characterId');
@@ -120,20 +123,21 @@ export class CombatController {
       });
       }
 
-      const sessionData: CreateCombatSessionDto = {
-        sessionType: req.body.sessionType as CombatType,
-        initiatorId: characterId,
-        targetId: req.body.targetId,
-        zoneId: req.body.zoneId,
-        participants: req.body.participants.map((p: any) => ({
-          characterId: p.characterId,
-          participantType: p.participantType as ParticipantType,
-          side: p.side as CombatSide,
-          position: p.position
-        }))
-      };
+      // PVE and boss fights are against the zone's spawn table (or the character's instance),
+      // never against participants the client lists
+      const sessionType = req.body.sessionType as CombatType;
+      const session = sessionType === CombatType.PVE || sessionType === CombatType.BOSS
+        ? await this.combatService.startMonsterEncounter(characterId, req.body.zoneId)
+        : await this.combatService.startEncounter(this.toSessionData(characterId, req.body));
 
-      const session = await this.combatService.startEncounter(sessionData);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          message: 'There is nothing to fight here',
+          errorCode: CombatErrorCode.NO_ENCOUNTER
+        });
+        return;
+      }
 
       logger.info('Combat started via API', {
         sessionId: session.id,
@@ -145,7 +149,7 @@ export class CombatController {
         success: true,
         message: 'Combat encounter started successfully',
         data: {
-          session,
+          session: this.toPublicSession(session),
           participants: await this.combatService.getSessionParticipants(session.id);
         }
       });
@@ -282,7 +286,7 @@ export class CombatController {
         success: true,
         message: 'Combat session retrieved successfully',
         data: {
-          session,
+          session: this.toPublicSession(session),
           participants,
           currentTurn: session.turnOrder[session.currentTurn],
           isActive: session.status === 'active'
@@ -349,6 +353,73 @@ export class CombatController {
     }
   }
 
+  /**
+   * GET /api/combat/:sessionId/replay
+   * Re-simulate a finished session from its action log and verify the recorded outcomes (GM tool)
+   */
+  async replayCombat(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const sessionId = req.params.sessionId!;
+      const session = await this.combatService.getSession(sessionId);
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          message: 'Combat session not found',
+          errorCode: CombatErrorCode.COMBAT_NOT_FOUND
+        });
+        return;
+      }
+
+      if (session.status === CombatStatus.ACTIVE || session.status === CombatStatus.WAITING) {
+        res.status(409).json({
+          success: false,
+          message: 'Only finished combat sessions can be replayed',
+          errorCode: CombatErrorCode.COMBAT_IN_PROGRESS
+        });
+        return;
+      }
+
+      const replay = await this.combatService.replaySession(session);
+
+      logger.info('Combat session replayed', {
+        sessionId,
+        userId: req.user?.id,
+        verified: replay.verified,
+        mismatchCount: replay.mismatchCount
+      });
+
+      res.status(200).json({
+        success: true,
+        message: replay.verified ?
+          'Replay matches the recorded combat' :
+          'Replay diverges from the recorded combat',
+        data: replay
+      });
+
+    } catch (error) {
+      logger.error('Failed to replay combat session', {
+        sessionId: req.params.sessionId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to replay combat session'
+      });
+    }
+  }
+
   /**
    * POST /api/combat/:sessionId/flee
    * Attempt to flee from combat
@@ -452,7 +523,7 @@ export class CombatController {
           success: true,
           message: 'Active combat session found',
           data: {
-            session,
+            session: session && this.toPublicSession(session),
             participants,
             currentTurn: session?.turnOrder[session.currentTurn]
           }
@@ -519,4 +590,30 @@ export class CombatController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Session request for fights between listed participants (PVP, duel, arena)
+   */
+  private toSessionData(initiatorId: string, body: any): CreateCombatSessionDto {
+    return {
+      sessionType: body.sessionType as CombatType,
+      initiatorId,
+      targetId: body.targetId,
+      zoneId: body.zoneId,
+      participants: body.participants.map((p: any) => ({
+        characterId: p.characterId,
+        participantType: p.participantType as ParticipantType,
+        side: p.side as CombatSide,
+        position: p.position
+      }))
+    };
+  }
+
+  /**
+   * Session as sent to players: the RNG seed would let clients predict every roll
+   */
+  private toPublicSession(session: CombatSession): Omit<CombatSession, 'rngSeed'> {
+    const { rngSeed, ...publicSession } = session;
+    return publicSession;
+  }
+}
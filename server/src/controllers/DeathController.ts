@@ -0,0 +1,217 @@
+/**
+ * Death Controller
+ * REST API endpoints for death state, respawning, city bindings and corpse recovery
+ */
+
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { DeathService } from '../services/DeathService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { DeathErrorCode } from '../types/death.types';
+
+interface AuthenticatedRequest extends Request {
+  session?: {
+    characterId?: string;
+    userId?: string;
+    [key: string]: any;
+  };
+}
+
+export class DeathController {
+  private deathService: DeathService;
+
+  constructor(deathService: DeathService) {
+    this.deathService = deathService;
+  }
+
+  /**
+   * GET /api/death/status
+   * Whether the current character is dead, when they can respawn, their debt and corpses
+   */
+  async getDeathState(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const state = await this.deathService.getDeathState(characterId);
+      if (!state) {
+        res.status(404).json({
+          success: false,
+          message: 'Character not found',
+          errorCode: DeathErrorCode.CHARACTER_NOT_FOUND
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Death state retrieved successfully',
+        data: state
+      });
+
+    } catch (error) {
+      logger.error('Failed to get death state', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve death state'
+      });
+    }
+  }
+
+  /**
+   * POST /api/death/respawn
+   * Bring the current character back to life once their respawn timer has run out
+   */
+  async respawn(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const result = await this.deathService.respawn(characterId);
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error,
+          ...(result.respawnAt && { data: { respawnAt: result.respawnAt } })
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: { zoneId: result.zoneId }
+      });
+
+    } catch (error) {
+      logger.error('Failed to respawn character', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to respawn'
+      });
+    }
+  }
+
+  /**
+   * POST /api/death/bind
+   * Bind the current character to the city they are standing in
+   */
+  async bind(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const result = await this.deathService.bindToCity(characterId);
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: { zoneId: result.zoneId }
+      });
+
+    } catch (error) {
+      logger.error('Failed to bind character', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to bind to city'
+      });
+    }
+  }
+
+  /**
+   * POST /api/death/corpse/recover
+   * Recover the current character's corpse in the zone they are standing in
+   */
+  async recoverCorpse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const result = await this.deathService.recoverCorpse(characterId);
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: {
+          goldRecovered: result.goldRecovered,
+          experienceDebtForgiven: result.experienceDebtForgiven
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to recover corpse', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to recover corpse'
+      });
+    }
+  }
+
+  private getErrorStatus(error: DeathErrorCode | undefined): number {
+    switch (error) {
+      case DeathErrorCode.CHARACTER_NOT_FOUND:
+      case DeathErrorCode.CORPSE_NOT_FOUND:
+      case DeathErrorCode.NO_RESPAWN_ZONE:
+        return 404;
+      default:
+        return 409;
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Duel Controller
+ * REST API endpoints for duel challenges and PVP records
+ */
+
+import { Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { logger } from '../utils/logger';
+import { DuelService } from '../services/DuelService';
+import { PvpService } from '../services/PvpService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { CombatErrorCode } from '../types/combat.types';
+import { DuelResult } from '../types/duel.types';
+
+interface AuthenticatedRequest extends Request {
+  session?: {
+    characterId?: string;
+    userId?: string;
+    [key: string]: any;
+  };
+}
+
+const ERROR_STATUS: Partial<Record<CombatErrorCode, number>> = {
+  [CombatErrorCode.DUEL_NOT_FOUND]: 404,
+  [CombatErrorCode.SAFE_ZONE]: 403,
+  [CombatErrorCode.PVP_DISABLED]: 403,
+  [CombatErrorCode.DUEL_EXPIRED]: 409,
+  [CombatErrorCode.DUEL_ALREADY_PENDING]: 409,
+  [CombatErrorCode.ALREADY_IN_COMBAT]: 409
+};
+
+export class DuelController {
+  private duelService: DuelService;
+  private pvpService: PvpService;
+
+  constructor(duelService: DuelService, pvpService: PvpService) {
+    this.duelService = duelService;
+    this.pvpService = pvpService;
+  }
+
+  /**
+   * Validation middleware for issuing a challenge
+   */
+  static challengeValidation = [
+    body('targetId')
+      .isUUID()
+      .withMessage('Target ID must be a valid UUID')
+  ];
+
+  /**
+   * Validation middleware for challenge ID parameter
+   */
+  static challengeIdValidation = [
+    param('challengeId')
+      .isUUID()
+      .withMessage('Challenge ID must be a valid UUID')
+  ];
+
+  /**
+   * Validation middleware for character ID parameter
+   */
+  static characterIdValidation = [
+    param('characterId')
+      .isUUID()
+      .withMessage('Character ID must be a valid UUID')
+  ];
+
+  /**
+   * POST /api/duels
+   * Challenge a character in the same zone
+   */
+  async challenge(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respond(req, res, 201, 'Failed to issue duel challenge', characterId =>
+      this.duelService.challenge(characterId, req.body.targetId)
+    );
+  }
+
+  /**
+   * POST /api/duels/:challengeId/accept
+   * Accept a challenge and start the duel
+   */
+  async accept(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respond(req, res, 200, 'Failed to accept duel challenge', characterId =>
+      this.duelService.accept(req.params.challengeId!, characterId)
+    );
+  }
+
+  /**
+   * POST /api/duels/:challengeId/decline
+   * Decline a challenge
+   */
+  async decline(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respond(req, res, 200, 'Failed to decline duel challenge', characterId =>
+      this.duelService.decline(req.params.challengeId!, characterId)
+    );
+  }
+
+  /**
+   * GET /api/duels
+   * Pending challenges issued or received by the current character
+   */
+  async getPendingChallenges(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const challenges = await this.duelService.getPendingChallenges(characterId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Pending duel challenges retrieved successfully',
+        data: { challenges }
+      });
+
+    } catch (error) {
+      logger.error('Failed to get pending duel challenges', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve duel challenges'
+      });
+    }
+  }
+
+  /**
+   * GET /api/duels/records/:characterId
+   * A character's duel and PVP wins and losses
+   */
+  async getPvpRecord(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const record = await this.pvpService.getRecord(req.params.characterId!);
+
+      res.status(200).json({
+        success: true,
+        message: 'PVP record retrieved successfully',
+        data: record
+      });
+
+    } catch (error) {
+      logger.error('Failed to get PVP record', {
+        characterId: req.params.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve PVP record'
+      });
+    }
+  }
+
+  /**
+   * Validate the request, run a duel operation for the current character and send its result
+   */
+  private async respond(
+    req: AuthenticatedRequest,
+    res: Response,
+    successStatus: number,
+    failureMessage: string,
+    operation: (characterId: string) => Promise<DuelResult>
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const result = await operation(characterId);
+      if (!result.success) {
+        res.status((result.error && ERROR_STATUS[result.error]) || 400).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error
+        });
+        return;
+      }
+
+      res.status(successStatus).json({
+        success: true,
+        message: result.message,
+        data: {
+          challenge: result.challenge,
+          ...(result.session && { sessionId: result.session.id })
+        }
+      });
+
+    } catch (error) {
+      logger.error(failureMessage, {
+        characterId: req.session?.characterId,
+        params: req.params,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: failureMessage
+      });
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Loot Controller
+ * REST API endpoints for the overflow loot window
+ */
+
+import { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import { logger } from '../utils/logger';
+import { LootService } from '../services/LootService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { LootErrorCode } from '../types/loot.types';
+
+interface AuthenticatedRequest extends Request {
+  session?: {
+    characterId?: string;
+    userId?: string;
+    [key: string]: any;
+  };
+}
+
+export class LootController {
+  private lootService: LootService;
+
+  constructor(lootService: LootService) {
+    this.lootService = lootService;
+  }
+
+  /**
+   * Validation middleware for claiming loot
+   */
+  static claimValidation = [
+    param('lootId')
+      .isUUID()
+      .withMessage('Loot ID must be a valid UUID')
+  ];
+
+  /**
+   * GET /api/loot/window
+   * Loot waiting for the current character because their bags were full
+   */
+  async getLootWindow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const items = await this.lootService.getLootWindow(characterId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Loot window retrieved successfully',
+        data: items
+      });
+
+    } catch (error) {
+      logger.error('Failed to get loot window', {
+        characterId: req.session?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve loot window'
+      });
+    }
+  }
+
+  /**
+   * POST /api/loot/window/:lootId/claim
+   * Move an item from the loot window into the current character's bags
+   */
+  async claimLoot(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character selected'
+        });
+        return;
+      }
+
+      const result = await this.lootService.claimLoot(characterId, req.params.lootId!);
+      if (!result.success) {
+        res.status(result.error === LootErrorCode.LOOT_NOT_FOUND ? 404 : 409).json({
+          success: false,
+          message: result.message,
+          errorCode: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: result.item
+      });
+
+    } catch (error) {
+      logger.error('Failed to claim loot', {
+        characterId: req.session?.characterId,
+        lootId: req.params.lootId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to claim loot'
+      });
+    }
+  }
+}
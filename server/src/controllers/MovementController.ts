@@ -36,50 +36,56 @@ export class MovementController {
    * Validation middleware for movement direction
    */
   static moveValidation = [
-    body('direction');
-      .notEmpty();
-      .withMessage('Direction is required');
-      .isString();
-      .withMessage('Direction must be a string');
-      .isLength({ min: 1, max: 20 });
-      .withMessage('Direction must be between 1 and 20 characters');
+    body('direction')
+      .notEmpty()
+      .withMessage('Direction is required')
+      .isString()
+      .withMessage('Direction must be a string')
+      .isLength({ min: 1, max: 20 })
+      .withMessage('Direction must be between 1 and 20 characters')
       .custom((value: string) => {
         const validDirections = [
           'north', 'south', 'east', 'west', 'n', 's', 'e', 'w',
           'northeast', 'northwest', 'southeast', 'southwest', 'ne', 'nw', 'se', 'sw',
-          'up', 'down', 'u', 'd', 'enter', 'exit';
+          'up', 'down', 'u', 'd', 'enter', 'exit'
         ];
         
         if (!validDirections.includes(value.toLowerCase())) {
           throw new Error('Invalid direction. Valid directions are: north, south, east, west, northeast, northwest, southeast, southwest, up, down, enter, exit (or their abbreviations)');
         }
         return true;
-      })
+      }),
+    body('password')
+      .optional()
+      .isString()
+      .withMessage('Password must be a string')
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Password must be between 1 and 100 characters')
   ];
 
   /**
    * Validation middleware for zone ID parameter
    */
   static zoneIdValidation = [
-    param('zoneId');
-      .isUUID();
-      .withMessage('Zone ID must be a valid UUID');
+    param('zoneId')
+      .isUUID()
+      .withMessage('Zone ID must be a valid UUID')
   ];
 
   /**
    * Validation middleware for look direction
    */
   static lookValidation = [
-    param('direction');
-      .notEmpty();
-      .withMessage('Direction is required');
-      .isString();
-      .withMessage('Direction must be a string');
+    param('direction')
+      .notEmpty()
+      .withMessage('Direction is required')
+      .isString()
+      .withMessage('Direction must be a string')
       .custom((value: string) => {
         const validDirections = [
           'north', 'south', 'east', 'west', 'n', 's', 'e', 'w',
           'northeast', 'northwest', 'southeast', 'southwest', 'ne', 'nw', 'se', 'sw',
-          'up', 'down', 'u', 'd', 'enter', 'exit';
+          'up', 'down', 'u', 'd', 'enter', 'exit'
         ];
         
         if (!validDirections.includes(value.toLowerCase())) {
@@ -89,6 +95,33 @@ export class MovementController {
       })
   ];
 
+  /**
+   * Validation middleware for route planning and auto-travel destinations
+   */
+  static pathValidation = [
+    query('to')
+      .isString()
+      .withMessage('Destination zone is required')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Destination zone must be between 1 and 100 characters')
+  ];
+
+  static travelValidation = [
+    body('to')
+      .isString()
+      .withMessage('Destination zone is required')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Destination zone must be between 1 and 100 characters')
+  ];
+
+  static instanceInviteValidation = [
+    body('characterId')
+      .isUUID()
+      .withMessage('Character ID must be a valid UUID')
+  ];
+
   /**
    * POST /api/game/move
    * Move character in a cardinal direction
@@ -112,10 +145,10 @@ export class MovementController {
       });
       }
 
-      const { direction } = req.body;
+      const { direction, password } = req.body;
 
       // Perform movement
-      const result = await this.movementService.moveCharacter(characterId, direction);
+      const result = await this.movementService.moveCharacter(characterId, direction, 'normal', password);
 
       if (result.success) {
         res.status(200).json({
@@ -137,7 +170,7 @@ export class MovementController {
           newZoneId: result.newZoneId
         });
       } else {
-        const statusCode = this.getStatusCodeForError(result.error || '');
+        const statusCode = this.getStatusCodeForError(result.error || '', result.errorCode);
         res.status(statusCode).json({
           success: false,
           message: result.travelMessage || result.error,
@@ -145,6 +178,7 @@ export class MovementController {
             oldZoneId: result.oldZoneId,
             newZoneId: result.newZoneId,
             direction: result.direction,
+            errorCode: result.errorCode,
             cooldownRemaining: result.cooldownRemaining
           }
         });
@@ -375,6 +409,222 @@ export class MovementController {
     }
   }
 
+  /**
+   * GET /api/game/movement/path?to=zoneName
+   * Quickest route to a zone through exits the character can use
+   */
+  async findPath(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character. Please select a character first.'
+        });
+        return;
+      }
+
+      const zone = await this.zoneService.getZoneByName(req.query.to as string);
+      if (!zone) {
+        res.status(404).json({
+          success: false,
+          message: 'Zone not found'
+        });
+        return;
+      }
+
+      const path = await this.movementService.findPath(characterId, zone.id);
+      if (!path) {
+        res.status(404).json({
+          success: false,
+          message: `You know of no way to reach ${zone.displayName} from here.`
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Path found',
+        data: {
+          destination: zone,
+          path
+        }
+      });
+    } catch (error) {
+      logger.error('Find path API error', {
+        characterId: req.session?.characterId,
+        to: req.query?.to,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'An error occurred while finding a path',
+        error: process.env.NODE_ENV === 'development' ? error : undefined
+      });
+    }
+  }
+
+  /**
+   * POST /api/game/movement/travel
+   * Start walking the character to a zone, one exit at a time
+   */
+  async startAutoTravel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character. Please select a character first.'
+        });
+        return;
+      }
+
+      const zone = await this.zoneService.getZoneByName(req.body.to);
+      if (!zone) {
+        res.status(404).json({
+          success: false,
+          message: 'Zone not found'
+        });
+        return;
+      }
+
+      const path = await this.movementService.startAutoTravel(characterId, zone.id);
+      if (!path) {
+        res.status(404).json({
+          success: false,
+          message: `You know of no way to reach ${zone.displayName} from here.`
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: path.steps.length > 0
+          ? `You set off towards ${zone.displayName}.`
+          : `You are already in ${zone.displayName}.`,
+        data: {
+          destination: zone,
+          path
+        }
+      });
+    } catch (error) {
+      logger.error('Start auto-travel API error', {
+        characterId: req.session?.characterId,
+        to: req.body?.to,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'An error occurred while starting travel',
+        error: process.env.NODE_ENV === 'development' ? error : undefined
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/game/movement/travel
+   * Stop the character's auto-travel where they stand
+   */
+  async cancelAutoTravel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const characterId = req.session?.characterId;
+    if (!characterId) {
+      res.status(401).json({
+        success: false,
+        message: 'No active character. Please select a character first.'
+      });
+      return;
+    }
+
+    if (!this.movementService.cancelAutoTravel(characterId)) {
+      res.status(404).json({
+        success: false,
+        message: 'You are not travelling anywhere.'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'You stop travelling.'
+    });
+  }
+
+  /**
+   * POST /api/game/instance/members
+   * Let another character into the instance the active character owns and stands in
+   */
+  async inviteToInstance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const characterId = req.session?.characterId;
+      if (!characterId) {
+        res.status(401).json({
+          success: false,
+          message: 'No active character. Please select a character first.'
+        });
+        return;
+      }
+
+      const instance = await this.movementService.inviteToInstance(characterId, req.body.characterId);
+      if (!instance) {
+        res.status(403).json({
+          success: false,
+          message: 'You can only invite others into an instance you lead and are standing in.'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Character added to your instance',
+        data: { instance }
+      });
+    } catch (error) {
+      logger.error('Instance invite API error', {
+        characterId: req.session?.characterId,
+        inviteeId: req.body?.characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'An error occurred while inviting to the instance',
+        error: process.env.NODE_ENV === 'development' ? error : undefined
+      });
+    }
+  }
+
   /**
    * GET /api/game/location
    * Get character's current location
@@ -496,7 +746,23 @@ export class MovementController {
   /**
    * Get appropriate HTTP status code for movement error
    */
-  private getStatusCodeForError(error: string): number {
+  private getStatusCodeForError(error: string, errorCode?: MovementErrorCode): number {
+    switch (errorCode) {
+      case MovementErrorCode.COOLDOWN_ACTIVE: return 429;
+      case MovementErrorCode.NO_EXIT: return 404;
+      case MovementErrorCode.EXIT_LOCKED:
+      case MovementErrorCode.LEVEL_TOO_LOW:
+      case MovementErrorCode.MISSING_ITEM:
+      case MovementErrorCode.QUEST_INCOMPLETE:
+      case MovementErrorCode.NOT_GUILD_MEMBER:
+      case MovementErrorCode.PASSWORD_REQUIRED:
+      case MovementErrorCode.WRONG_PASSWORD:
+      case MovementErrorCode.AFFINITY_TOO_LOW:
+      case MovementErrorCode.SKILL_TOO_LOW:
+      case MovementErrorCode.PORTAL_REQUIRED:
+        return 403;
+    }
+
     if (error.includes('cooldown') || error.includes('wait')) return 429; // Too Many Requests
     if (error.includes('level') || error.includes('required')) return 403; // Forbidden
     if (error.includes('not found')) return 404; // Not Found
@@ -0,0 +1,78 @@
+/**
+ * World Map Controller
+ * REST API endpoint for exporting and validating the zone graph (admins only)
+ */
+
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { logger } from '../utils/logger';
+import { WorldMapService } from '../services/WorldMapService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { WorldMapFormat } from '../types/zone.types';
+
+export class WorldMapController {
+  private worldMapService: WorldMapService;
+
+  constructor(worldMapService: WorldMapService) {
+    this.worldMapService = worldMapService;
+  }
+
+  /**
+   * Validation middleware for world map exports
+   */
+  static exportValidation = [
+    query('format')
+      .optional()
+      .isIn(['json', 'dot'])
+      .withMessage('Format must be json or dot')
+  ];
+
+  /**
+   * GET /api/admin/world-map?format=json|dot
+   * Every zone and exit with the issues validation found, as JSON or a Graphviz DOT file
+   */
+  async exportWorldMap(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+        return;
+      }
+
+      const map = await this.worldMapService.buildMap();
+
+      const format = (req.query.format ?? 'json') as WorldMapFormat;
+      if (format === 'dot') {
+        // attachment() guesses the type from the extension, and .dot reads as a Word template
+        res.status(200)
+          .attachment('world-map.dot')
+          .type('text/vnd.graphviz')
+          .send(this.worldMapService.toDot(map));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: map.issues.length > 0 ?
+          `World map exported with ${map.issues.length} issue(s)` :
+          'World map exported successfully',
+        data: map
+      });
+
+    } catch (error) {
+      logger.error('Failed to export world map', {
+        userId: req.user?.id,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to export world map'
+      });
+    }
+  }
+}
@@ -0,0 +1,19 @@
+-- UP
+-- Server-authoritative turn deadlines and AFK tracking for combat sessions
+
+-- Deadline for the participant whose turn it currently is
+ALTER TABLE combat_sessions ADD COLUMN turn_deadline TIMESTAMP WITH TIME ZONE;
+
+-- Number of turns in a row a participant let expire
+ALTER TABLE combat_participants ADD COLUMN consecutive_timeouts INTEGER DEFAULT 0;
+ALTER TABLE combat_participants ADD CONSTRAINT combat_participants_consecutive_timeouts_check
+    CHECK (consecutive_timeouts >= 0);
+
+-- Index for finding active sessions with an expired deadline
+CREATE INDEX idx_combat_sessions_turn_deadline ON combat_sessions (turn_deadline) WHERE status = 'active';
+
+-- DOWN
+DROP INDEX IF EXISTS idx_combat_sessions_turn_deadline;
+ALTER TABLE combat_participants DROP CONSTRAINT IF EXISTS combat_participants_consecutive_timeouts_check;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS consecutive_timeouts;
+ALTER TABLE combat_sessions DROP COLUMN IF EXISTS turn_deadline;
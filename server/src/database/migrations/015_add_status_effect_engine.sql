@@ -0,0 +1,15 @@
+-- UP
+-- Status effect engine support: per-participant immunities and status tick logging
+
+-- Effects a participant can never receive (in addition to participant type immunities)
+ALTER TABLE combat_participants ADD COLUMN immunities JSONB DEFAULT '[]'::jsonb;
+
+-- Distinguish damage/heal over time ticks from actions taken by a participant
+ALTER TABLE combat_actions_log ADD COLUMN is_status_tick BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX idx_combat_actions_status_ticks ON combat_actions_log (session_id, turn_number) WHERE is_status_tick = TRUE;
+
+-- DOWN
+DROP INDEX IF EXISTS idx_combat_actions_status_ticks;
+ALTER TABLE combat_actions_log DROP COLUMN IF EXISTS is_status_tick;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS immunities;
@@ -0,0 +1,49 @@
+-- UP
+-- Data-driven ability catalog used to resolve spells and special actions in combat
+
+CREATE TABLE abilities (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    action_type VARCHAR(20) NOT NULL,
+    targeting VARCHAR(20) NOT NULL DEFAULT 'single',
+    mana_cost INTEGER NOT NULL DEFAULT 0,
+    cooldown_ms INTEGER NOT NULL DEFAULT 0,
+    base_power INTEGER NOT NULL DEFAULT 0,
+    scaling JSONB NOT NULL DEFAULT '{}'::jsonb,
+    affinity_name VARCHAR(50) REFERENCES affinities(name) ON UPDATE CASCADE,
+    required_affinity_tier INTEGER NOT NULL DEFAULT 1,
+    status_effects JSONB NOT NULL DEFAULT '[]'::jsonb,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (id ~ '^[a-z_]+$'),
+    CHECK (action_type IN ('spell', 'heal', 'special')),
+    CHECK (targeting IN ('single', 'self', 'all_enemies', 'all_allies')),
+    CHECK (mana_cost >= 0),
+    CHECK (cooldown_ms >= 0),
+    CHECK (base_power >= 0),
+    CHECK (required_affinity_tier >= 1 AND required_affinity_tier <= 7),
+    CHECK (jsonb_typeof(scaling) = 'object'),
+    CHECK (jsonb_typeof(status_effects) = 'array')
+);
+
+CREATE INDEX idx_abilities_active ON abilities(is_active);
+
+-- Seed the spells that used to be hard-coded in the combat engine
+INSERT INTO abilities (id, name, description, action_type, targeting, mana_cost, cooldown_ms, base_power, scaling, affinity_name, required_affinity_tier, status_effects) VALUES
+    ('fireball', 'Fireball', 'Hurls a ball of flame that sets the target alight', 'spell', 'single', 15, 3000, 5, '{"intelligence": 2.25}', 'fire', 1, '[{"type": "burn", "chance": 1}]'),
+    ('lightning', 'Lightning', 'A bolt of lightning that can leave the target stunned', 'spell', 'single', 12, 3000, 3, '{"intelligence": 1.95}', 'lightning', 1, '[{"type": "stun", "chance": 1}]'),
+    ('poison', 'Poison', 'Coats the target in a lingering venom', 'spell', 'single', 6, 3000, 0, '{"intelligence": 1.2}', 'shadow', 1, '[{"type": "poison", "chance": 1}]'),
+    ('freeze', 'Freeze', 'Encases the target in ice', 'spell', 'single', 10, 3000, 0, '{"intelligence": 1.5}', 'ice', 1, '[{"type": "freeze", "chance": 1}]'),
+    ('shield', 'Shield', 'Wraps the caster in a protective barrier', 'spell', 'self', 8, 3000, 0, '{}', 'arcane', 1, '[{"type": "shield", "chance": 1}]'),
+    ('heal', 'Heal', 'Mends the wounds of a single ally', 'heal', 'single', 10, 2000, 0, '{"wisdom": 1.2}', 'light', 1, '[]'),
+    ('greater_heal', 'Greater Heal', 'A powerful restoration for a single ally', 'heal', 'single', 20, 2000, 10, '{"wisdom": 2.0}', 'light', 3, '[]'),
+    ('chain_lightning', 'Chain Lightning', 'Lightning arcs between every enemy', 'spell', 'all_enemies', 25, 6000, 2, '{"intelligence": 1.1}', 'lightning', 4, '[{"type": "stun", "chance": 0.25}]'),
+    ('sanctuary', 'Sanctuary', 'Bathes all allies in restoring light', 'heal', 'all_allies', 30, 8000, 5, '{"wisdom": 0.8}', 'light', 5, '[{"type": "regeneration", "chance": 1}]');
+
+-- DOWN
+DROP INDEX IF EXISTS idx_abilities_active;
+DROP TABLE IF EXISTS abilities;
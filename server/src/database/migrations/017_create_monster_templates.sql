@@ -0,0 +1,105 @@
+-- UP
+-- Monster templates and per-zone spawn tables for PVE encounters
+
+CREATE TABLE monster_templates (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    participant_type VARCHAR(20) NOT NULL DEFAULT 'monster',
+    base_level INTEGER NOT NULL DEFAULT 1,
+    max_hp INTEGER NOT NULL,
+    max_mp INTEGER NOT NULL DEFAULT 0,
+    strength INTEGER NOT NULL DEFAULT 10,
+    vitality INTEGER NOT NULL DEFAULT 10,
+    dexterity INTEGER NOT NULL DEFAULT 10,
+    intelligence INTEGER NOT NULL DEFAULT 10,
+    wisdom INTEGER NOT NULL DEFAULT 10,
+    abilities JSONB NOT NULL DEFAULT '[]'::jsonb,
+    loot_table_id VARCHAR(50),
+    experience INTEGER NOT NULL DEFAULT 0,
+    gold INTEGER NOT NULL DEFAULT 0,
+    immunities JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (id ~ '^[a-z_]+$'),
+    CHECK (participant_type IN ('monster', 'npc', 'boss')),
+    CHECK (base_level >= 1),
+    CHECK (max_hp > 0),
+    CHECK (max_mp >= 0),
+    CHECK (experience >= 0),
+    CHECK (gold >= 0),
+    CHECK (jsonb_typeof(abilities) = 'array'),
+    CHECK (jsonb_typeof(immunities) = 'array')
+);
+
+CREATE TABLE zone_spawn_tables (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    zone_id UUID NOT NULL REFERENCES zones(id) ON DELETE CASCADE,
+    template_id VARCHAR(50) NOT NULL REFERENCES monster_templates(id) ON DELETE CASCADE,
+    weight INTEGER NOT NULL DEFAULT 1,
+    level_range INT4RANGE NOT NULL,
+    max_group_size INTEGER NOT NULL DEFAULT 1,
+
+    -- Constraints
+    UNIQUE (zone_id, template_id),
+    CHECK (weight > 0),
+    CHECK (lower(level_range) >= 1),
+    CHECK (max_group_size >= 1 AND max_group_size <= 4)
+);
+
+CREATE INDEX idx_zone_spawn_tables_zone ON zone_spawn_tables (zone_id);
+
+-- Monster participants use a generated id in character_id that is not a character row,
+-- so the character foreign keys on combat tables no longer apply to every participant
+ALTER TABLE combat_participants DROP CONSTRAINT IF EXISTS combat_participants_character_id_fkey;
+ALTER TABLE combat_actions_log DROP CONSTRAINT IF EXISTS combat_actions_log_actor_id_fkey;
+ALTER TABLE combat_actions_log DROP CONSTRAINT IF EXISTS combat_actions_log_target_id_fkey;
+ALTER TABLE combat_sessions DROP CONSTRAINT IF EXISTS combat_sessions_winner_fkey;
+
+ALTER TABLE combat_participants ADD COLUMN monster_template_id VARCHAR(50) REFERENCES monster_templates(id) ON DELETE SET NULL;
+ALTER TABLE combat_participants ADD COLUMN monster_level INTEGER;
+ALTER TABLE combat_participants ADD CONSTRAINT combat_participants_monster_template_check
+    CHECK (participant_type = 'player' OR monster_template_id IS NOT NULL);
+
+-- Seed templates
+INSERT INTO monster_templates (id, name, description, participant_type, base_level, max_hp, max_mp, strength, vitality, dexterity, intelligence, wisdom, abilities, loot_table_id, experience, gold, immunities) VALUES
+    ('meadow_rabbit', 'Feral Rabbit', 'A rabbit with an unusually bad temper', 'monster', 1, 30, 0, 6, 5, 14, 2, 2, '[]', 'meadow_critters', 15, 3, '[]'),
+    ('giant_bee', 'Giant Bee', 'An oversized bee guarding the meadow flowers', 'monster', 3, 45, 10, 8, 6, 16, 4, 4, '["poison"]', 'meadow_critters', 25, 5, '[]'),
+    ('forest_wolf', 'Shadow Wolf', 'A lean wolf that hunts in packs beneath the trees', 'monster', 10, 140, 0, 24, 18, 22, 6, 8, '[]', 'forest_beasts', 80, 20, '[]'),
+    ('forest_bandit', 'Woodland Bandit', 'A desperate outlaw lying in wait for travellers', 'npc', 12, 170, 40, 22, 20, 20, 14, 12, '["poison"]', 'bandit_stash', 110, 45, '[]'),
+    ('crystal_golem', 'Crystal Golem', 'A hulking construct of living crystal', 'monster', 20, 420, 60, 40, 45, 10, 20, 20, '["shield"]', 'crystal_hoard', 260, 70, '["poison", "blind"]'),
+    ('cave_shaman', 'Glowcap Shaman', 'A cave dweller channelling the power of the crystals', 'npc', 22, 260, 180, 16, 22, 18, 38, 34, '["lightning", "heal"]', 'crystal_hoard', 300, 90, '[]'),
+    ('frost_wyrm', 'Frost Wyrm', 'An ancient dragon nesting on the frozen summit', 'boss', 45, 2400, 400, 70, 65, 30, 55, 50, '["freeze", "chain_lightning"]', 'wyrm_hoard', 3000, 1200, '["freeze", "stun"]');
+
+-- Seed spawn tables for the starter world
+INSERT INTO zone_spawn_tables (zone_id, template_id, weight, level_range, max_group_size)
+SELECT z.id, s.template_id, s.weight, s.level_range::INT4RANGE, s.max_group_size
+FROM (VALUES
+    ('meadow_path', 'meadow_rabbit', 70, '[1,8]', 2),
+    ('meadow_path', 'giant_bee', 30, '[3,15]', 1),
+    ('dark_forest', 'forest_wolf', 60, '[10,25]', 3),
+    ('dark_forest', 'forest_bandit', 40, '[12,25]', 2),
+    ('crystal_caves', 'crystal_golem', 50, '[15,40]', 1),
+    ('crystal_caves', 'cave_shaman', 50, '[18,40]', 2),
+    ('iron_peak', 'frost_wyrm', 5, '[40,50]', 1)
+) AS s (zone_name, template_id, weight, level_range, max_group_size)
+JOIN zones z ON z.internal_name = s.zone_name;
+
+-- DOWN
+DELETE FROM combat_participants WHERE monster_template_id IS NOT NULL;
+ALTER TABLE combat_participants DROP CONSTRAINT IF EXISTS combat_participants_monster_template_check;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS monster_level;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS monster_template_id;
+ALTER TABLE combat_sessions ADD CONSTRAINT combat_sessions_winner_fkey
+    FOREIGN KEY (winner) REFERENCES characters(id) ON DELETE SET NULL NOT VALID;
+ALTER TABLE combat_actions_log ADD CONSTRAINT combat_actions_log_target_id_fkey
+    FOREIGN KEY (target_id) REFERENCES characters(id) ON DELETE SET NULL NOT VALID;
+ALTER TABLE combat_actions_log ADD CONSTRAINT combat_actions_log_actor_id_fkey
+    FOREIGN KEY (actor_id) REFERENCES characters(id) ON DELETE CASCADE NOT VALID;
+ALTER TABLE combat_participants ADD CONSTRAINT combat_participants_character_id_fkey
+    FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE;
+DROP INDEX IF EXISTS idx_zone_spawn_tables_zone;
+DROP TABLE IF EXISTS zone_spawn_tables;
+DROP TABLE IF EXISTS monster_templates;
@@ -0,0 +1,13 @@
+-- UP
+-- AI behaviour used to pick a monster template's actions in combat
+
+ALTER TABLE monster_templates ADD COLUMN ai_behavior VARCHAR(20) NOT NULL DEFAULT 'aggressive';
+ALTER TABLE monster_templates ADD CONSTRAINT monster_templates_ai_behavior_check
+    CHECK (ai_behavior IN ('aggressive', 'defensive', 'boss'));
+
+UPDATE monster_templates SET ai_behavior = 'boss' WHERE participant_type = 'boss';
+UPDATE monster_templates SET ai_behavior = 'defensive' WHERE id IN ('crystal_golem', 'cave_shaman');
+
+-- DOWN
+ALTER TABLE monster_templates DROP CONSTRAINT IF EXISTS monster_templates_ai_behavior_check;
+ALTER TABLE monster_templates DROP COLUMN IF EXISTS ai_behavior;
@@ -0,0 +1,18 @@
+-- UP
+-- Deterministic combat: a per-session RNG seed and the inputs needed to replay each logged action
+
+ALTER TABLE combat_sessions ADD COLUMN rng_seed BIGINT NOT NULL DEFAULT floor(random() * 4294967295)::BIGINT;
+ALTER TABLE combat_sessions ADD CONSTRAINT combat_sessions_rng_seed_check
+    CHECK (rng_seed >= 0 AND rng_seed <= 4294967295);
+
+-- Position in turn_order of the acting participant; with turn_number it identifies the roll stream
+ALTER TABLE combat_actions_log ADD COLUMN turn_index INTEGER;
+
+-- Stats, chances and shields the rolls were made against (NULL for actions without rolls)
+ALTER TABLE combat_actions_log ADD COLUMN roll_inputs JSONB;
+
+-- DOWN
+ALTER TABLE combat_actions_log DROP COLUMN IF EXISTS roll_inputs;
+ALTER TABLE combat_actions_log DROP COLUMN IF EXISTS turn_index;
+ALTER TABLE combat_sessions DROP CONSTRAINT IF EXISTS combat_sessions_rng_seed_check;
+ALTER TABLE combat_sessions DROP COLUMN IF EXISTS rng_seed;
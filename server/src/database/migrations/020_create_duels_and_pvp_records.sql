@@ -0,0 +1,51 @@
+-- UP
+-- Duel challenges (challenge, accept, decline, expire) and per-character PVP records
+
+CREATE TABLE duel_challenges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    challenger_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    target_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    zone_id UUID NOT NULL REFERENCES zones(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    session_id UUID REFERENCES combat_sessions(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled')),
+    CHECK (challenger_id != target_id)
+);
+
+-- One open challenge per pair of characters
+CREATE UNIQUE INDEX idx_duel_challenges_pending_pair ON duel_challenges
+    (LEAST(challenger_id, target_id), GREATEST(challenger_id, target_id))
+    WHERE status = 'pending';
+CREATE INDEX idx_duel_challenges_target ON duel_challenges (target_id) WHERE status = 'pending';
+CREATE INDEX idx_duel_challenges_expiry ON duel_challenges (expires_at) WHERE status = 'pending';
+
+CREATE TABLE pvp_records (
+    character_id UUID PRIMARY KEY REFERENCES characters(id) ON DELETE CASCADE,
+    duel_wins INTEGER NOT NULL DEFAULT 0,
+    duel_losses INTEGER NOT NULL DEFAULT 0,
+    pvp_wins INTEGER NOT NULL DEFAULT 0,
+    pvp_losses INTEGER NOT NULL DEFAULT 0,
+    last_match_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (duel_wins >= 0 AND duel_losses >= 0 AND pvp_wins >= 0 AND pvp_losses >= 0)
+);
+
+CREATE TRIGGER update_pvp_records_updated_at
+    BEFORE UPDATE ON pvp_records
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- DOWN
+DROP TRIGGER IF EXISTS update_pvp_records_updated_at ON pvp_records;
+DROP TABLE IF EXISTS pvp_records;
+DROP INDEX IF EXISTS idx_duel_challenges_expiry;
+DROP INDEX IF EXISTS idx_duel_challenges_target;
+DROP INDEX IF EXISTS idx_duel_challenges_pending_pair;
+DROP TABLE IF EXISTS duel_challenges;
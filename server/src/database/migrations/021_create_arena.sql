@@ -0,0 +1,73 @@
+-- UP
+-- Ranked arena: seasons, Glicko-2 ratings per team size, and the matches ratings were applied for
+
+CREATE TABLE arena_seasons (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    season_number INTEGER NOT NULL UNIQUE,
+    name VARCHAR(100) NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- Constraints
+    CHECK (season_number >= 1),
+    CHECK (ends_at > started_at)
+);
+
+-- Only one season runs at a time
+CREATE UNIQUE INDEX idx_arena_seasons_active ON arena_seasons (is_active) WHERE is_active = TRUE;
+
+CREATE TABLE arena_ratings (
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    season_id UUID NOT NULL REFERENCES arena_seasons(id) ON DELETE CASCADE,
+    team_size INTEGER NOT NULL,
+    rating DOUBLE PRECISION NOT NULL DEFAULT 1500,
+    deviation DOUBLE PRECISION NOT NULL DEFAULT 350,
+    volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06,
+    wins INTEGER NOT NULL DEFAULT 0,
+    losses INTEGER NOT NULL DEFAULT 0,
+    last_match_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (character_id, season_id, team_size),
+
+    -- Constraints
+    CHECK (team_size BETWEEN 1 AND 4),
+    CHECK (deviation > 0),
+    CHECK (volatility > 0),
+    CHECK (wins >= 0 AND losses >= 0)
+);
+
+CREATE INDEX idx_arena_ratings_leaderboard ON arena_ratings (season_id, team_size, rating DESC)
+    WHERE wins + losses > 0;
+
+CREATE TRIGGER update_arena_ratings_updated_at
+    BEFORE UPDATE ON arena_ratings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A session's ratings are applied exactly once
+CREATE TABLE arena_matches (
+    session_id UUID PRIMARY KEY REFERENCES combat_sessions(id) ON DELETE CASCADE,
+    season_id UUID NOT NULL REFERENCES arena_seasons(id) ON DELETE CASCADE,
+    team_size INTEGER NOT NULL,
+    winner UUID REFERENCES characters(id) ON DELETE SET NULL,
+    rating_changes JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_arena_matches_season ON arena_matches (season_id);
+
+-- Season 1 starts with the migration
+INSERT INTO arena_seasons (season_number, name, ends_at)
+VALUES (1, 'Season 1', CURRENT_TIMESTAMP + INTERVAL '90 days');
+
+-- DOWN
+DROP INDEX IF EXISTS idx_arena_matches_season;
+DROP TABLE IF EXISTS arena_matches;
+DROP TRIGGER IF EXISTS update_arena_ratings_updated_at ON arena_ratings;
+DROP INDEX IF EXISTS idx_arena_ratings_leaderboard;
+DROP TABLE IF EXISTS arena_ratings;
+DROP INDEX IF EXISTS idx_arena_seasons_active;
+DROP TABLE IF EXISTS arena_seasons;
@@ -0,0 +1,61 @@
+-- UP
+-- Boss phases, enrage timers, scripted abilities and weekly loot lockouts
+
+CREATE TABLE boss_definitions (
+    template_id VARCHAR(50) PRIMARY KEY REFERENCES monster_templates(id) ON DELETE CASCADE,
+    phases JSONB NOT NULL DEFAULT '[]',
+    enrage_turn INTEGER NOT NULL,
+    enrage_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.5,
+    enrage_message TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (enrage_turn > 0),
+    CHECK (enrage_multiplier >= 1)
+);
+
+CREATE TRIGGER update_boss_definitions_updated_at
+    BEFORE UPDATE ON boss_definitions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One rewarded kill per boss, character and weekly reset
+CREATE TABLE boss_lockouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    template_id VARCHAR(50) NOT NULL REFERENCES monster_templates(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL,
+    session_id UUID REFERENCES combat_sessions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (character_id, template_id, week_start)
+);
+
+CREATE INDEX idx_boss_lockouts_character ON boss_lockouts (character_id, week_start);
+
+-- Phase and enrage state of boss participants
+ALTER TABLE combat_participants ADD COLUMN boss_phase SMALLINT;
+ALTER TABLE combat_participants ADD COLUMN boss_enraged BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Seed the starter world's boss
+INSERT INTO boss_definitions (template_id, phases, enrage_turn, enrage_multiplier, enrage_message) VALUES
+    ('frost_wyrm', '[
+        {"phase": 1, "hpThreshold": 1, "name": "Sentinel of the Summit", "message": "The Frost Wyrm uncoils from its nest, frost spilling from its jaws.", "damageMultiplier": 1, "script": [
+            {"abilityId": "freeze", "everyTurns": 4, "announcement": "The Frost Wyrm draws in a long, freezing breath..."}
+        ]},
+        {"phase": 2, "hpThreshold": 0.66, "name": "Storm Caller", "message": "The Frost Wyrm takes to the air and the sky crackles with lightning!", "damageMultiplier": 1.2, "script": [
+            {"abilityId": "chain_lightning", "everyTurns": 3, "announcement": "Lightning gathers between the Frost Wyrm''s horns..."}
+        ]},
+        {"phase": 3, "hpThreshold": 0.33, "name": "Death Throes", "message": "Wounded and furious, the Frost Wyrm crashes back onto the ice!", "damageMultiplier": 1.4, "script": [
+            {"abilityId": "chain_lightning", "everyTurns": 2, "announcement": "The storm around the Frost Wyrm reaches a deafening roar..."},
+            {"abilityId": "freeze", "everyTurns": 3, "announcement": "The Frost Wyrm exhales a blizzard across the summit..."}
+        ]}
+    ]', 15, 2.0, 'The Frost Wyrm has grown tired of this fight. It is enraged!');
+
+-- DOWN
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS boss_enraged;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS boss_phase;
+DROP INDEX IF EXISTS idx_boss_lockouts_character;
+DROP TABLE IF EXISTS boss_lockouts;
+DROP TRIGGER IF EXISTS update_boss_definitions_updated_at ON boss_definitions;
+DROP TABLE IF EXISTS boss_definitions;
@@ -0,0 +1,167 @@
+-- UP
+-- Item catalog, weighted loot tables, character inventories, overflow loot windows and the drop audit log
+
+CREATE TABLE items (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    item_type VARCHAR(20) NOT NULL,
+    rarity VARCHAR(20) NOT NULL DEFAULT 'common',
+    max_stack INTEGER NOT NULL DEFAULT 1,
+    value INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (item_type IN ('material', 'consumable', 'weapon', 'armor', 'trinket')),
+    CHECK (rarity IN ('common', 'uncommon', 'rare', 'epic', 'legendary')),
+    CHECK (max_stack > 0),
+    CHECK (value >= 0)
+);
+
+CREATE TABLE loot_tables (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    rolls INTEGER NOT NULL DEFAULT 1,
+    drop_chance NUMERIC(4,3) NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (rolls >= 0),
+    CHECK (drop_chance >= 0 AND drop_chance <= 1)
+);
+
+CREATE TABLE loot_table_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loot_table_id VARCHAR(50) NOT NULL REFERENCES loot_tables(id) ON DELETE CASCADE,
+    item_id VARCHAR(50) NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    weight INTEGER NOT NULL DEFAULT 1,
+    min_quantity INTEGER NOT NULL DEFAULT 1,
+    max_quantity INTEGER NOT NULL DEFAULT 1,
+    guaranteed BOOLEAN NOT NULL DEFAULT FALSE,
+    min_level INTEGER NOT NULL DEFAULT 1,
+
+    -- Constraints
+    CHECK (weight >= 0),
+    CHECK (min_quantity > 0 AND max_quantity >= min_quantity),
+    CHECK (min_level > 0)
+);
+
+CREATE INDEX idx_loot_table_entries_table ON loot_table_entries (loot_table_id);
+
+-- Each row is one bag slot holding a stack of one item
+CREATE TABLE character_inventory (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    item_id VARCHAR(50) NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL DEFAULT 1,
+    item_level INTEGER NOT NULL DEFAULT 1,
+    rarity VARCHAR(20) NOT NULL,
+    acquired_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_character_inventory_character ON character_inventory (character_id, item_id);
+
+-- Drops that did not fit in the character's bags, claimable until they expire
+CREATE TABLE loot_windows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    session_id UUID REFERENCES combat_sessions(id) ON DELETE SET NULL,
+    item_id VARCHAR(50) NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL,
+    item_level INTEGER NOT NULL,
+    rarity VARCHAR(20) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_loot_windows_character ON loot_windows (character_id, expires_at) WHERE claimed_at IS NULL;
+
+-- Every item that enters the economy through a drop
+CREATE TABLE loot_drop_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID REFERENCES combat_sessions(id) ON DELETE SET NULL,
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    item_id VARCHAR(50) NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    source_template_id VARCHAR(50) REFERENCES monster_templates(id) ON DELETE SET NULL,
+    quantity INTEGER NOT NULL,
+    item_level INTEGER NOT NULL,
+    rarity VARCHAR(20) NOT NULL,
+    value INTEGER NOT NULL DEFAULT 0,
+    destination VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (destination IN ('inventory', 'loot_window'))
+);
+
+CREATE INDEX idx_loot_drop_log_character ON loot_drop_log (character_id, created_at);
+CREATE INDEX idx_loot_drop_log_session ON loot_drop_log (session_id);
+CREATE INDEX idx_loot_drop_log_item ON loot_drop_log (item_id, created_at);
+
+-- Seed the starter world's items
+INSERT INTO items (id, name, description, item_type, rarity, max_stack, value) VALUES
+    ('rabbit_pelt', 'Rabbit Pelt', 'A soft pelt, prized by tailors', 'material', 'common', 20, 2),
+    ('honeycomb', 'Honeycomb', 'Sticky, sweet and slightly buzzing', 'consumable', 'common', 20, 4),
+    ('bee_stinger', 'Giant Stinger', 'Still faintly venomous', 'material', 'uncommon', 20, 10),
+    ('wolf_fang', 'Wolf Fang', 'A long, curved fang', 'material', 'common', 20, 8),
+    ('shadow_pelt', 'Shadow Pelt', 'A dark pelt that drinks the light', 'material', 'uncommon', 10, 25),
+    ('moonlit_fang_necklace', 'Moonlit Fang Necklace', 'Fangs strung on silver thread', 'trinket', 'rare', 1, 120),
+    ('stolen_coin_purse', 'Stolen Coin Purse', 'Someone will be glad to see this again', 'material', 'common', 10, 15),
+    ('bandit_dagger', 'Bandit''s Dagger', 'A short, wicked blade', 'weapon', 'uncommon', 1, 60),
+    ('outlaw_cloak', 'Outlaw''s Cloak', 'A cloak that blends into the undergrowth', 'armor', 'rare', 1, 150),
+    ('crystal_shard', 'Crystal Shard', 'A shard humming with faint energy', 'material', 'common', 50, 12),
+    ('glowcap_mushroom', 'Glowcap Mushroom', 'A luminous mushroom used in potions', 'consumable', 'uncommon', 20, 20),
+    ('golem_core', 'Golem Core', 'The pulsing heart of a crystal golem', 'material', 'rare', 5, 300),
+    ('prism_staff', 'Prism Staff', 'A staff that splits spells into light', 'weapon', 'epic', 1, 900),
+    ('frost_scale', 'Frost Scale', 'A scale as cold as the summit wind', 'material', 'rare', 20, 250),
+    ('wyrm_heart', 'Heart of the Wyrm', 'Still cold to the touch', 'material', 'epic', 1, 2000),
+    ('wyrmfang_blade', 'Wyrmfang Blade', 'A sword carved from the wyrm''s fang', 'weapon', 'legendary', 1, 6000),
+    ('rimeguard_plate', 'Rimeguard Plate', 'Armour that frost will not cross', 'armor', 'legendary', 1, 5500);
+
+INSERT INTO loot_tables (id, name, rolls, drop_chance) VALUES
+    ('meadow_critters', 'Meadow Critters', 1, 0.6),
+    ('forest_beasts', 'Forest Beasts', 1, 0.7),
+    ('bandit_stash', 'Bandit Stash', 2, 0.6),
+    ('crystal_hoard', 'Crystal Hoard', 2, 0.75),
+    ('wyrm_hoard', 'Wyrm Hoard', 2, 1);
+
+INSERT INTO loot_table_entries (loot_table_id, item_id, weight, min_quantity, max_quantity, guaranteed, min_level) VALUES
+    ('meadow_critters', 'rabbit_pelt', 60, 1, 2, FALSE, 1),
+    ('meadow_critters', 'honeycomb', 30, 1, 3, FALSE, 3),
+    ('meadow_critters', 'bee_stinger', 10, 1, 1, FALSE, 3),
+    ('forest_beasts', 'wolf_fang', 60, 1, 3, FALSE, 1),
+    ('forest_beasts', 'shadow_pelt', 35, 1, 1, FALSE, 10),
+    ('forest_beasts', 'moonlit_fang_necklace', 5, 1, 1, FALSE, 15),
+    ('bandit_stash', 'stolen_coin_purse', 60, 1, 2, FALSE, 1),
+    ('bandit_stash', 'bandit_dagger', 30, 1, 1, FALSE, 10),
+    ('bandit_stash', 'outlaw_cloak', 10, 1, 1, FALSE, 15),
+    ('crystal_hoard', 'crystal_shard', 0, 2, 5, TRUE, 1),
+    ('crystal_hoard', 'glowcap_mushroom', 55, 1, 3, FALSE, 1),
+    ('crystal_hoard', 'golem_core', 35, 1, 1, FALSE, 20),
+    ('crystal_hoard', 'prism_staff', 10, 1, 1, FALSE, 25),
+    ('wyrm_hoard', 'frost_scale', 0, 3, 6, TRUE, 1),
+    ('wyrm_hoard', 'wyrm_heart', 0, 1, 1, TRUE, 1),
+    ('wyrm_hoard', 'crystal_shard', 80, 5, 10, FALSE, 1),
+    ('wyrm_hoard', 'wyrmfang_blade', 10, 1, 1, FALSE, 40),
+    ('wyrm_hoard', 'rimeguard_plate', 10, 1, 1, FALSE, 40);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_loot_drop_log_item;
+DROP INDEX IF EXISTS idx_loot_drop_log_session;
+DROP INDEX IF EXISTS idx_loot_drop_log_character;
+DROP TABLE IF EXISTS loot_drop_log;
+DROP INDEX IF EXISTS idx_loot_windows_character;
+DROP TABLE IF EXISTS loot_windows;
+DROP INDEX IF EXISTS idx_character_inventory_character;
+DROP TABLE IF EXISTS character_inventory;
+DROP INDEX IF EXISTS idx_loot_table_entries_table;
+DROP TABLE IF EXISTS loot_table_entries;
+DROP TABLE IF EXISTS loot_tables;
+DROP TABLE IF EXISTS items;
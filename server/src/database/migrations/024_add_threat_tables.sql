@@ -0,0 +1,19 @@
+-- UP
+-- Per-monster threat tables and taunt abilities
+
+ALTER TABLE combat_participants ADD COLUMN threat JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE combat_participants ADD CONSTRAINT combat_participants_threat_check
+    CHECK (jsonb_typeof(threat) = 'object');
+
+ALTER TABLE abilities ADD COLUMN taunts BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Seed taunts for tanks
+INSERT INTO abilities (id, name, description, action_type, targeting, mana_cost, cooldown_ms, base_power, scaling, affinity_name, required_affinity_tier, status_effects, taunts) VALUES
+    ('taunt', 'Taunt', 'Goads a single enemy into attacking you', 'special', 'single', 5, 6000, 0, '{}', NULL, 1, '[]', TRUE),
+    ('challenging_shout', 'Challenging Shout', 'A bellow that draws every enemy''s attention', 'special', 'all_enemies', 15, 15000, 0, '{}', NULL, 1, '[]', TRUE);
+
+-- DOWN
+DELETE FROM abilities WHERE id IN ('taunt', 'challenging_shout');
+ALTER TABLE abilities DROP COLUMN IF EXISTS taunts;
+ALTER TABLE combat_participants DROP CONSTRAINT IF EXISTS combat_participants_threat_check;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS threat;
@@ -0,0 +1,50 @@
+-- UP
+-- Death, respawn, experience debt and corpse recovery
+
+-- Death state of a character; experience debt is paid off from future experience
+ALTER TABLE characters ADD COLUMN experience_debt NUMERIC(40,0) NOT NULL DEFAULT 0;
+ALTER TABLE characters ADD COLUMN died_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE characters ADD COLUMN respawn_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE characters ADD COLUMN death_zone_id UUID REFERENCES zones(id) ON DELETE SET NULL;
+ALTER TABLE characters ADD CONSTRAINT characters_experience_debt_check CHECK (experience_debt >= 0);
+
+-- Cities a character has bound to; they respawn at the one nearest to where they died
+CREATE TABLE character_bindings (
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    zone_id UUID NOT NULL REFERENCES zones(id) ON DELETE CASCADE,
+    bound_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (character_id, zone_id)
+);
+
+-- Corpses left where a character died, holding what walking back to them recovers
+CREATE TABLE corpses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    zone_id UUID NOT NULL REFERENCES zones(id) ON DELETE CASCADE,
+    session_id UUID REFERENCES combat_sessions(id) ON DELETE SET NULL,
+    gold INTEGER NOT NULL DEFAULT 0,
+    experience_debt NUMERIC(40,0) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    recovered_at TIMESTAMP WITH TIME ZONE,
+
+    -- Constraints
+    CHECK (gold >= 0),
+    CHECK (experience_debt >= 0),
+    CHECK (expires_at > created_at)
+);
+
+CREATE INDEX idx_corpses_character_zone ON corpses (character_id, zone_id) WHERE recovered_at IS NULL;
+CREATE INDEX idx_corpses_expires_at ON corpses (expires_at);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_corpses_expires_at;
+DROP INDEX IF EXISTS idx_corpses_character_zone;
+DROP TABLE IF EXISTS corpses;
+DROP TABLE IF EXISTS character_bindings;
+ALTER TABLE characters DROP CONSTRAINT IF EXISTS characters_experience_debt_check;
+ALTER TABLE characters DROP COLUMN IF EXISTS death_zone_id;
+ALTER TABLE characters DROP COLUMN IF EXISTS respawn_at;
+ALTER TABLE characters DROP COLUMN IF EXISTS died_at;
+ALTER TABLE characters DROP COLUMN IF EXISTS experience_debt;
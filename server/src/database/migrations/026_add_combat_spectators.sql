@@ -0,0 +1,22 @@
+-- UP
+-- Read-only spectators of combat sessions
+
+-- Whether anyone may watch the fight; arena matches allow it by default
+ALTER TABLE combat_sessions ADD COLUMN allow_spectators BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Characters watching a fight; left_at is set when they stop watching
+CREATE TABLE combat_spectators (
+    session_id UUID NOT NULL REFERENCES combat_sessions(id) ON DELETE CASCADE,
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    left_at TIMESTAMP WITH TIME ZONE,
+
+    PRIMARY KEY (session_id, character_id)
+);
+
+CREATE INDEX idx_combat_spectators_watching ON combat_spectators (session_id) WHERE left_at IS NULL;
+
+-- DOWN
+DROP INDEX IF EXISTS idx_combat_spectators_watching;
+DROP TABLE IF EXISTS combat_spectators;
+ALTER TABLE combat_sessions DROP COLUMN IF EXISTS allow_spectators;
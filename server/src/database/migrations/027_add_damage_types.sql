@@ -0,0 +1,73 @@
+-- UP
+-- Elemental damage types and per-participant resistances from race, gear and monster templates
+
+-- Resistances are fractions of incoming damage keyed by damage type; negative values are vulnerabilities
+ALTER TABLE races ADD COLUMN resistances JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE races SET resistances = '{"frost": 0.1, "shadow": 0.1}' WHERE name = 'Elf';
+UPDATE races SET resistances = '{"poison": 0.25, "frost": 0.1}' WHERE name = 'Dwarf';
+UPDATE races SET resistances = '{"physical": 0.05, "holy": -0.1}' WHERE name = 'Orc';
+UPDATE races SET resistances = '{"poison": 0.15}' WHERE name = 'Halfling';
+UPDATE races SET resistances = '{"fire": 0.3, "frost": -0.1}' WHERE name = 'Dragonborn';
+UPDATE races SET resistances = '{"fire": 0.2, "shadow": 0.2, "holy": -0.15}' WHERE name = 'Tiefling';
+UPDATE races SET resistances = '{"lightning": 0.15}' WHERE name = 'Gnome';
+
+-- Weapons deal their damage type; worn gear adds its resistances while equipped
+ALTER TABLE items ADD COLUMN damage_type VARCHAR(20);
+ALTER TABLE items ADD COLUMN resistances JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE items ADD CONSTRAINT items_damage_type_check
+    CHECK (damage_type IN ('physical', 'fire', 'frost', 'lightning', 'holy', 'shadow', 'poison') OR damage_type IS NULL);
+
+UPDATE items SET damage_type = 'physical' WHERE item_type = 'weapon';
+UPDATE items SET damage_type = 'poison' WHERE id = 'bandit_dagger';
+UPDATE items SET damage_type = 'lightning' WHERE id = 'prism_staff';
+UPDATE items SET damage_type = 'frost' WHERE id = 'wyrmfang_blade';
+UPDATE items SET resistances = '{"shadow": 0.1}' WHERE id = 'moonlit_fang_necklace';
+UPDATE items SET resistances = '{"poison": 0.1, "shadow": 0.1}' WHERE id = 'outlaw_cloak';
+UPDATE items SET resistances = '{"frost": 0.5, "physical": 0.1, "fire": -0.1}' WHERE id = 'rimeguard_plate';
+
+ALTER TABLE character_inventory ADD COLUMN equipped BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX idx_character_inventory_equipped ON character_inventory (character_id) WHERE equipped = TRUE;
+
+-- Damaging abilities; heals and utility abilities have no damage type
+ALTER TABLE abilities ADD COLUMN damage_type VARCHAR(20);
+ALTER TABLE abilities ADD CONSTRAINT abilities_damage_type_check
+    CHECK (damage_type IN ('physical', 'fire', 'frost', 'lightning', 'holy', 'shadow', 'poison') OR damage_type IS NULL);
+
+UPDATE abilities SET damage_type = 'fire' WHERE id = 'fireball';
+UPDATE abilities SET damage_type = 'lightning' WHERE id IN ('lightning', 'chain_lightning');
+UPDATE abilities SET damage_type = 'poison' WHERE id = 'poison';
+UPDATE abilities SET damage_type = 'frost' WHERE id = 'freeze';
+
+ALTER TABLE monster_templates ADD COLUMN resistances JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE monster_templates SET resistances = '{"poison": 0.25}' WHERE id = 'giant_bee';
+UPDATE monster_templates SET resistances = '{"shadow": 0.25, "holy": -0.25}' WHERE id = 'forest_wolf';
+UPDATE monster_templates SET resistances = '{"physical": 0.3, "lightning": -0.25}' WHERE id = 'crystal_golem';
+UPDATE monster_templates SET resistances = '{"lightning": 0.3}' WHERE id = 'cave_shaman';
+UPDATE monster_templates SET resistances = '{"frost": 0.75, "fire": -0.5}' WHERE id = 'frost_wyrm';
+
+-- Snapshot of the participant's resistances when they entered the fight
+ALTER TABLE combat_participants ADD COLUMN resistances JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Damage type of the action and how much of it the target resisted (negative for a vulnerability)
+ALTER TABLE combat_actions_log ADD COLUMN damage_type VARCHAR(20);
+ALTER TABLE combat_actions_log ADD COLUMN resisted INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE combat_actions_log ADD CONSTRAINT combat_actions_log_damage_type_check
+    CHECK (damage_type IN ('physical', 'fire', 'frost', 'lightning', 'holy', 'shadow', 'poison') OR damage_type IS NULL);
+
+-- DOWN
+ALTER TABLE combat_actions_log DROP CONSTRAINT IF EXISTS combat_actions_log_damage_type_check;
+ALTER TABLE combat_actions_log DROP COLUMN IF EXISTS resisted;
+ALTER TABLE combat_actions_log DROP COLUMN IF EXISTS damage_type;
+ALTER TABLE combat_participants DROP COLUMN IF EXISTS resistances;
+ALTER TABLE monster_templates DROP COLUMN IF EXISTS resistances;
+ALTER TABLE abilities DROP CONSTRAINT IF EXISTS abilities_damage_type_check;
+ALTER TABLE abilities DROP COLUMN IF EXISTS damage_type;
+DROP INDEX IF EXISTS idx_character_inventory_equipped;
+ALTER TABLE character_inventory DROP COLUMN IF EXISTS equipped;
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_damage_type_check;
+ALTER TABLE items DROP COLUMN IF EXISTS resistances;
+ALTER TABLE items DROP COLUMN IF EXISTS damage_type;
+ALTER TABLE races DROP COLUMN IF EXISTS resistances;
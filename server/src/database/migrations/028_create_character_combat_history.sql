@@ -0,0 +1,34 @@
+-- UP
+-- Per-character summary of every finished fight, kept for combat analytics over time
+
+CREATE TABLE character_combat_history (
+    session_id UUID NOT NULL REFERENCES combat_sessions(id) ON DELETE CASCADE,
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    session_type VARCHAR(20) NOT NULL,
+    result VARCHAR(10) NOT NULL,
+    damage_dealt INTEGER NOT NULL DEFAULT 0,
+    damage_taken INTEGER NOT NULL DEFAULT 0,
+    healing_done INTEGER NOT NULL DEFAULT 0,
+    actions_used INTEGER NOT NULL DEFAULT 0,
+    hits_landed INTEGER NOT NULL DEFAULT 0, -- Attacks and abilities that were not missed
+    critical_hits INTEGER NOT NULL DEFAULT 0,
+    turns INTEGER NOT NULL DEFAULT 0,
+    duration_seconds INTEGER NOT NULL DEFAULT 0,
+    ended_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (session_id, character_id),
+
+    -- Constraints
+    CHECK (session_type IN ('pve', 'pvp', 'boss', 'arena', 'duel')),
+    CHECK (result IN ('win', 'loss', 'draw', 'fled')),
+    CHECK (damage_dealt >= 0),
+    CHECK (damage_taken >= 0),
+    CHECK (healing_done >= 0),
+    CHECK (duration_seconds >= 0)
+);
+
+CREATE INDEX idx_character_combat_history_character ON character_combat_history (character_id, ended_at);
+
+-- DOWN
+DROP INDEX IF EXISTS idx_character_combat_history_character;
+DROP TABLE IF EXISTS character_combat_history;
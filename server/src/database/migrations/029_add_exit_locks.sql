@@ -0,0 +1,64 @@
+-- UP
+-- What each exit lock type asks of a character: keys, quests, guilds, passwords, magic and skills
+
+-- Keys are inventory items, whose IDs are not UUIDs
+ALTER TABLE zone_exits ALTER COLUMN required_item_id TYPE VARCHAR(50) USING required_item_id::text;
+ALTER TABLE zone_exits ADD CONSTRAINT zone_exits_required_item_fkey
+    FOREIGN KEY (required_item_id) REFERENCES items(id) ON DELETE SET NULL;
+
+ALTER TABLE zone_exits ADD COLUMN required_quest_id VARCHAR(50);
+ALTER TABLE zone_exits ADD COLUMN required_guild_id INTEGER; -- NULL lets any guild member through
+ALTER TABLE zone_exits ADD COLUMN lock_password_hash VARCHAR(255);
+ALTER TABLE zone_exits ADD COLUMN required_affinity VARCHAR(50) REFERENCES affinities(name) ON DELETE SET NULL;
+ALTER TABLE zone_exits ADD COLUMN required_affinity_tier INTEGER;
+ALTER TABLE zone_exits ADD COLUMN required_skill VARCHAR(20);
+ALTER TABLE zone_exits ADD COLUMN required_skill_value INTEGER;
+ALTER TABLE zone_exits ADD COLUMN lock_hint TEXT; -- Replaces the default hint shown when looking at the exit
+
+ALTER TABLE zone_exits ADD CONSTRAINT zone_exits_required_affinity_tier_check
+    CHECK (required_affinity_tier >= 1 AND required_affinity_tier <= 7 OR required_affinity_tier IS NULL);
+ALTER TABLE zone_exits ADD CONSTRAINT zone_exits_required_skill_check
+    CHECK (required_skill IN ('strength', 'vitality', 'dexterity', 'intelligence', 'wisdom') OR required_skill IS NULL);
+ALTER TABLE zone_exits ADD CONSTRAINT zone_exits_required_skill_value_check
+    CHECK (required_skill_value > 0 OR required_skill_value IS NULL);
+
+-- Guild membership; matches chat_channels.guild_id
+ALTER TABLE characters ADD COLUMN guild_id INTEGER;
+
+CREATE INDEX idx_characters_guild_id ON characters (guild_id) WHERE guild_id IS NOT NULL;
+
+-- Quest state per character
+CREATE TABLE character_quests (
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    quest_id VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    -- Constraints
+    PRIMARY KEY (character_id, quest_id),
+    CHECK (status IN ('active', 'completed', 'failed'))
+);
+
+-- DOWN
+DROP TABLE IF EXISTS character_quests;
+DROP INDEX IF EXISTS idx_characters_guild_id;
+ALTER TABLE characters DROP COLUMN IF EXISTS guild_id;
+ALTER TABLE zone_exits DROP CONSTRAINT IF EXISTS zone_exits_required_skill_value_check;
+ALTER TABLE zone_exits DROP CONSTRAINT IF EXISTS zone_exits_required_skill_check;
+ALTER TABLE zone_exits DROP CONSTRAINT IF EXISTS zone_exits_required_affinity_tier_check;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS lock_hint;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS required_skill_value;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS required_skill;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS required_affinity_tier;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS required_affinity;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS lock_password_hash;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS required_guild_id;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS required_quest_id;
+ALTER TABLE zone_exits DROP CONSTRAINT IF EXISTS zone_exits_required_item_fkey;
+-- UUID column again: UUID-shaped IDs survive, item keys that are not UUIDs cannot and are cleared
+ALTER TABLE zone_exits ALTER COLUMN required_item_id TYPE UUID USING (
+    CASE WHEN required_item_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN required_item_id::uuid
+    END
+);
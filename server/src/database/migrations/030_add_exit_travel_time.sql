@@ -0,0 +1,12 @@
+-- UP
+-- Travel time per exit, used to weight routes and pace auto-travel
+
+ALTER TABLE zone_exits ADD COLUMN travel_time INTEGER NOT NULL DEFAULT 5; -- Seconds
+ALTER TABLE zone_exits ADD CONSTRAINT zone_exits_travel_time_check CHECK (travel_time > 0);
+
+-- Climbs take longer than walking along a path
+UPDATE zone_exits SET travel_time = 10 WHERE exit_type IN ('stairs', 'ladder');
+
+-- DOWN
+ALTER TABLE zone_exits DROP CONSTRAINT IF EXISTS zone_exits_travel_time_check;
+ALTER TABLE zone_exits DROP COLUMN IF EXISTS travel_time;
@@ -0,0 +1,113 @@
+-- UP
+-- Private copies of instance and dungeon zones, one per party
+
+CREATE TABLE zone_instances (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_zone_id UUID NOT NULL REFERENCES zones(id) ON DELETE CASCADE,
+    owner_character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_zone_instances_template ON zone_instances (template_zone_id);
+CREATE INDEX idx_zone_instances_last_activity ON zone_instances (last_activity_at);
+
+-- The party an instance belongs to
+CREATE TABLE zone_instance_members (
+    instance_id UUID NOT NULL REFERENCES zone_instances(id) ON DELETE CASCADE,
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    PRIMARY KEY (instance_id, character_id)
+);
+
+CREATE INDEX idx_zone_instance_members_character ON zone_instance_members (character_id);
+
+-- Monsters spawned for an instance; each group is one encounter. Defeated monsters stay dead.
+CREATE TABLE zone_instance_monsters (
+    id UUID PRIMARY KEY, -- The monster's combat participant id
+    instance_id UUID NOT NULL REFERENCES zone_instances(id) ON DELETE CASCADE,
+    group_number INTEGER NOT NULL,
+    template_id VARCHAR(50) NOT NULL REFERENCES monster_templates(id) ON DELETE CASCADE,
+    level INTEGER NOT NULL,
+    defeated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_zone_instance_monsters_instance ON zone_instance_monsters (instance_id, group_number);
+
+-- Characters inside an instance point at it; tearing it down sends nobody anywhere, so
+-- instances are only removed once empty
+ALTER TABLE character_locations ADD CONSTRAINT character_locations_instance_id_fkey
+    FOREIGN KEY (instance_id) REFERENCES zone_instances(id) ON DELETE SET NULL;
+
+-- Characters present in a zone, or in one copy of it
+DROP FUNCTION IF EXISTS get_characters_in_zone(UUID);
+CREATE OR REPLACE FUNCTION get_characters_in_zone(p_zone_id UUID, p_instance_id UUID DEFAULT NULL)
+RETURNS TABLE (
+    character_id UUID,
+    character_name VARCHAR,
+    level INTEGER,
+    race_name VARCHAR,
+    active_title VARCHAR,
+    x INTEGER,
+    y INTEGER,
+    last_movement TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        c.id as character_id,
+        c.name as character_name,
+        c.level,
+        r.name as race_name,
+        c.active_title,
+        cl.x,
+        cl.y,
+        cl.last_movement
+    FROM character_locations cl
+    JOIN characters c ON cl.character_id = c.id
+    JOIN races r ON c.race_id = r.id
+    WHERE cl.zone_id = p_zone_id
+    AND cl.instance_id IS NOT DISTINCT FROM p_instance_id
+    AND c.deleted_at IS NULL
+    ORDER BY cl.last_movement DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- DOWN
+DROP FUNCTION IF EXISTS get_characters_in_zone(UUID, UUID);
+CREATE OR REPLACE FUNCTION get_characters_in_zone(p_zone_id UUID)
+RETURNS TABLE (
+    character_id UUID,
+    character_name VARCHAR,
+    level INTEGER,
+    race_name VARCHAR,
+    active_title VARCHAR,
+    x INTEGER,
+    y INTEGER,
+    last_movement TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        c.id as character_id,
+        c.name as character_name,
+        c.level,
+        r.name as race_name,
+        c.active_title,
+        cl.x,
+        cl.y,
+        cl.last_movement
+    FROM character_locations cl
+    JOIN characters c ON cl.character_id = c.id
+    JOIN races r ON c.race_id = r.id
+    WHERE cl.zone_id = p_zone_id
+    AND c.deleted_at IS NULL
+    ORDER BY cl.last_movement DESC;
+END;
+$$ LANGUAGE plpgsql;
+ALTER TABLE character_locations DROP CONSTRAINT IF EXISTS character_locations_instance_id_fkey;
+DROP TABLE IF EXISTS zone_instance_monsters;
+DROP TABLE IF EXISTS zone_instance_members;
+DROP TABLE IF EXISTS zone_instances;
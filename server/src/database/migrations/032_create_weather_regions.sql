@@ -0,0 +1,33 @@
+-- UP
+-- Regions of the open world that share one sky; zones outside a region are under cover
+
+CREATE TABLE weather_regions (
+    name VARCHAR(50) PRIMARY KEY,
+    display_name VARCHAR(100) NOT NULL,
+    climate VARCHAR(50) NOT NULL,
+    weather VARCHAR(20) NOT NULL DEFAULT 'clear',
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    next_change_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    CHECK (climate IN ('temperate', 'tropical', 'arctic', 'desert', 'underground', 'magical', 'void')),
+    CHECK (weather IN ('clear', 'rain', 'storm', 'fog', 'snow'))
+);
+
+CREATE INDEX idx_weather_regions_next_change ON weather_regions (next_change_at);
+
+ALTER TABLE zones ADD COLUMN region VARCHAR(50) REFERENCES weather_regions(name) ON DELETE SET NULL;
+CREATE INDEX idx_zones_region ON zones (region);
+
+INSERT INTO weather_regions (name, display_name, climate, weather) VALUES
+('heartlands', 'The Heartlands', 'temperate', 'clear'),
+('iron_peaks', 'The Iron Peaks', 'arctic', 'snow');
+
+UPDATE zones SET region = 'heartlands'
+WHERE internal_name IN ('starting_village', 'meadow_path', 'dark_forest', 'pvp_arena', 'merchant_quarter');
+UPDATE zones SET region = 'iron_peaks' WHERE internal_name = 'iron_peak';
+
+-- DOWN
+DROP INDEX IF EXISTS idx_zones_region;
+ALTER TABLE zones DROP COLUMN IF EXISTS region;
+DROP TABLE IF EXISTS weather_regions;
@@ -0,0 +1,34 @@
+-- UP
+-- Parties formed by invitation; only members of a fight's initiator's party may join it
+
+CREATE TABLE parties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    leader_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_parties_leader ON parties (leader_id);
+
+-- A character belongs to at most one party
+CREATE TABLE party_members (
+    character_id UUID PRIMARY KEY REFERENCES characters(id) ON DELETE CASCADE,
+    party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_party_members_party ON party_members (party_id);
+
+CREATE TABLE party_invites (
+    party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Constraints
+    PRIMARY KEY (party_id, character_id)
+);
+
+-- DOWN
+DROP TABLE IF EXISTS party_invites;
+DROP TABLE IF EXISTS party_members;
+DROP TABLE IF EXISTS parties;
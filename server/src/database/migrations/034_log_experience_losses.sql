@@ -0,0 +1,11 @@
+-- UP
+-- Experience losses (flee penalties) are logged as negative amounts so they never read as gains
+
+ALTER TABLE experience_log DROP CONSTRAINT IF EXISTS experience_log_amount_check;
+ALTER TABLE experience_log ADD CONSTRAINT experience_log_amount_check CHECK (amount <> 0);
+
+-- DOWN
+-- The old check only allows gains, so logged losses are dropped on rollback
+DELETE FROM experience_log WHERE amount < 0;
+ALTER TABLE experience_log DROP CONSTRAINT IF EXISTS experience_log_amount_check;
+ALTER TABLE experience_log ADD CONSTRAINT experience_log_amount_check CHECK (amount > 0);
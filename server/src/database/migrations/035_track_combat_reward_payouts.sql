@@ -0,0 +1,7 @@
+-- UP
+-- Rewards are paid after the fight's end is committed; the payout stamp keeps a session from paying twice
+
+ALTER TABLE combat_sessions ADD COLUMN rewards_paid_at TIMESTAMP WITH TIME ZONE;
+
+-- DOWN
+ALTER TABLE combat_sessions DROP COLUMN IF EXISTS rewards_paid_at;
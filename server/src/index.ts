@@ -9,8 +9,19 @@ import { logger } from './utils/logger';
 import { createApp } from './app';
 import { SocketServer } from './sockets/SocketServer';
 import { RealtimeService } from './services/RealtimeService';
+import { CacheManager } from './services/CacheManager';
+import { AffinityService } from './services/AffinityService';
+import { CombatService } from './services/CombatService';
+import { PartyService } from './services/PartyService';
+import { DuelService } from './services/DuelService';
+import { ZoneInstanceService } from './services/ZoneInstanceService';
+import { WeatherService } from './services/WeatherService';
+import { setPartyService } from './sockets/handlers/party.handler';
+import { setDuelService } from './sockets/handlers/duel.handler';
+import { setCombatService } from './sockets/handlers';
 import { getErrorMessage } from '../utils/errorUtils';
   initializeDatabase, 
+  getDatabase,
   testDatabaseConnection, 
   testRedisConnection, 
   closeConnections 
@@ -69,6 +80,40 @@ const startServer = async (): Promise<void> => {
     // Make realtime service globally available
     (global as any).realtimeService = realtimeService;
 
+    // Game services and their background timers need the database
+    let combatService: CombatService | null = null;
+    let duelService: DuelService | null = null;
+    let instanceService: ZoneInstanceService | null = null;
+    let weatherService: WeatherService | null = null;
+    if (dbHealthy) {
+      const db = getDatabase();
+      const cacheManager = CacheManager.getInstance();
+      combatService = new CombatService(db, cacheManager, realtimeService,
+        new AffinityService(db, cacheManager, realtimeService));
+      setPartyService(new PartyService(db, realtimeService));
+
+      duelService = new DuelService(db, realtimeService, combatService);
+      setDuelService(duelService);
+      setCombatService(combatService);
+
+      // Resume or cancel fights left open by the last shutdown before timers run
+      const recovery = await combatService.recoverSessions();
+      logger.info('Combat sessions recovered', {
+        resumed: recovery.resumed.length,
+        cancelled: recovery.cancelled.length,
+        failed: recovery.failed.length,
+      });
+
+      combatService.startTurnTimers();
+      duelService.startExpiryTimer();
+
+      instanceService = new ZoneInstanceService(db, cacheManager);
+      instanceService.startIdleSweep();
+
+      weatherService = new WeatherService(db, cacheManager, realtimeService);
+      weatherService.startWeatherCycle();
+    }
+
     // Start HTTP server
     const server = httpServer.listen(config.PORT, config.HOST, () => {
       logger.info('🚀 Aeturnis Online Server started successfully', {
@@ -109,6 +154,11 @@ const startServer = async (): Promise<void> => {
     // Graceful Shutdown Handlers
     const gracefulShutdown = async (signal: string): Promise<void> => {;
       logger.info(`${signal} received. Shutting down gracefully...`);
+
+      combatService?.stopTurnTimers();
+      duelService?.stopExpiryTimer();
+      instanceService?.stopIdleSweep();
+      weatherService?.stopWeatherCycle();
       
       server.close(async () => {
         logger.info('HTTP server closed');
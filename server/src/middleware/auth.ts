@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import winston from 'winston';
-import { AccessTokenPayload, SafeUser } from '../types/index';
+import { AccessTokenPayload, SafeUser, UserRole } from '../types/index';
 import { AuthService } from '../services/AuthService';
 import { getErrorMessage } from '../utils/errorUtils';
 
@@ -107,11 +107,13 @@ export class AuthMiddleware {
   };
 
   // Optional authentication (doesn't fail if no token)
-  optionalAuthenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => { const authHeader = req.headers.authorization;
+  optionalAuthenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       // No token provided, continue without user
-      next(); }
+      next();
+      return;
     }
 
     // If token is provided, validate it
@@ -139,6 +141,22 @@ export class AuthMiddleware {
     next();
   };
 
+  // Middleware to restrict a route to staff roles (use after authenticate)
+  requireRole = (...roles: UserRole[]) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!req.user || !roles.includes(req.user.role)) {
+        res.status(403).json({
+          error: 'Insufficient permissions',
+          message: 'You do not have permission to access this resource',
+          requestId: req.requestId
+        });
+        return;
+      }
+
+      next();
+    };
+  };
+
   // Rate limiting middleware for authentication endpoints
   createAuthRateLimit = () => {
     const attempts = new Map<string, { count: number; resetTime: number }>();
@@ -166,7 +184,8 @@ export class AuthMiddleware {
           message: `Too many authentication attempts. Try again in ${timeRemaining} minutes.`,
           requestId: req.requestId,
           retryAfter: timeRemaining * 60
-        });`
+        });
+        return;
       }
 
       // Record this attempt
@@ -196,6 +215,7 @@ const authMiddleware = new AuthMiddleware();
 export const authenticate = authMiddleware.authenticate;
 export const optionalAuthenticate = authMiddleware.optionalAuthenticate;
 export const requireVerified = authMiddleware.requireVerified;
+export const requireRole = authMiddleware.requireRole;
 export const authRateLimit = authMiddleware.createAuthRateLimit();
 
 export default authMiddleware;
\ No newline at end of file
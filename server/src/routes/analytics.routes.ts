@@ -0,0 +1,39 @@
+/**
+ * Combat Analytics Routes
+ * API routes for per-character combat analytics and combat log exports (mounted under /api)
+ */
+
+import { Router } from 'express';
+import { CombatAnalyticsController } from '../controllers/CombatAnalyticsController';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiRateLimit } from '../middleware/rateLimitRedis';
+
+export function createCombatAnalyticsRoutes(analyticsController: CombatAnalyticsController): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware();
+
+  // Apply authentication to all analytics routes
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * GET /api/characters/:id/combat-analytics?from=&to=
+   * Combat analytics of one of the user's characters, optionally within a date range
+   */
+  router.get('/characters/:id/combat-analytics',
+    apiRateLimit, // Standard API rate limiting
+    CombatAnalyticsController.analyticsValidation,
+    analyticsController.getCharacterAnalytics.bind(analyticsController)
+  );
+
+  /**
+   * GET /api/combat/:sessionId/export?format=json|transcript
+   * Full action log of a session as JSON or a plain-text transcript
+   */
+  router.get('/combat/:sessionId/export',
+    apiRateLimit, // Standard API rate limiting
+    CombatAnalyticsController.exportValidation,
+    analyticsController.exportCombatLog.bind(analyticsController)
+  );
+
+  return router;
+}
@@ -0,0 +1,78 @@
+/**
+ * Arena Routes
+ * API routes for ranked arena matchmaking, ratings and seasons
+ */
+
+import { Router } from 'express';
+import { ArenaController } from '../controllers/ArenaController';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiRateLimit, combatRateLimit } from '../middleware/rateLimitRedis';
+
+export function createArenaRoutes(arenaController: ArenaController): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware();
+
+  // Apply authentication to all arena routes
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * POST /api/arena/queue
+   * Queue for ranked matches of a team size
+   */
+  router.post('/queue',
+    combatRateLimit, // Queueing leads to combat
+    ArenaController.joinQueueValidation,
+    arenaController.joinQueue.bind(arenaController)
+  );
+
+  /**
+   * DELETE /api/arena/queue
+   * Leave the queue
+   */
+  router.delete('/queue',
+    apiRateLimit, // Standard API rate limiting
+    arenaController.leaveQueue.bind(arenaController)
+  );
+
+  /**
+   * GET /api/arena/queue
+   * Queue status of the current character
+   */
+  router.get('/queue',
+    apiRateLimit, // Standard API rate limiting
+    arenaController.getQueueStatus.bind(arenaController)
+  );
+
+  /**
+   * GET /api/arena/leaderboard
+   * Season leaderboard for a team size
+   */
+  router.get('/leaderboard',
+    apiRateLimit, // Standard API rate limiting
+    ArenaController.leaderboardValidation,
+    arenaController.getLeaderboard.bind(arenaController)
+  );
+
+  /**
+   * GET /api/arena/ratings/:characterId
+   * A character's ratings in the running season
+   */
+  router.get('/ratings/:characterId',
+    apiRateLimit, // Standard API rate limiting
+    ArenaController.ratingValidation,
+    arenaController.getRatings.bind(arenaController)
+  );
+
+  /**
+   * POST /api/arena/seasons
+   * Start the next season (admins only)
+   */
+  router.post('/seasons',
+    apiRateLimit, // Standard API rate limiting
+    authMiddleware.requireRole('admin'),
+    ArenaController.newSeasonValidation,
+    arenaController.startSeason.bind(arenaController)
+  );
+
+  return router;
+}
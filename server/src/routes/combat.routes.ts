@@ -56,6 +56,17 @@ export function createCombatRoutes(combatController: CombatController): Router {
     combatController.getCombatStatistics.bind(combatController);
   );
 
+  /**
+   * GET /api/combat/:sessionId/replay
+   * Re-simulate a finished session and verify its recorded outcomes (moderators and admins)
+   */
+  router.get('/:sessionId/replay',
+    apiRateLimit, // Standard API rate limiting
+    authMiddleware.requireRole('moderator', 'admin'),
+    CombatController.sessionIdValidation,
+    combatController.replayCombat.bind(combatController)
+  );
+
   /**
    * POST /api/combat/:sessionId/flee
    * Attempt to flee from combat
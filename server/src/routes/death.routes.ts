@@ -0,0 +1,55 @@
+/**
+ * Death Routes
+ * API routes for death state, respawning, city bindings and corpse recovery
+ */
+
+import { Router } from 'express';
+import { DeathController } from '../controllers/DeathController';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiRateLimit } from '../middleware/rateLimitRedis';
+
+export function createDeathRoutes(deathController: DeathController): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware();
+
+  // Apply authentication to all death routes
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * GET /api/death/status
+   * Death state, experience debt and corpses of the current character
+   */
+  router.get('/status',
+    apiRateLimit, // Standard API rate limiting
+    deathController.getDeathState.bind(deathController)
+  );
+
+  /**
+   * POST /api/death/respawn
+   * Respawn once the respawn timer has run out
+   */
+  router.post('/respawn',
+    apiRateLimit, // Standard API rate limiting
+    deathController.respawn.bind(deathController)
+  );
+
+  /**
+   * POST /api/death/bind
+   * Bind to the city the character is standing in
+   */
+  router.post('/bind',
+    apiRateLimit, // Standard API rate limiting
+    deathController.bind.bind(deathController)
+  );
+
+  /**
+   * POST /api/death/corpse/recover
+   * Recover a corpse in the character's current zone
+   */
+  router.post('/corpse/recover',
+    apiRateLimit, // Standard API rate limiting
+    deathController.recoverCorpse.bind(deathController)
+  );
+
+  return router;
+}
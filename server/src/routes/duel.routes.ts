@@ -0,0 +1,68 @@
+/**
+ * Duel Routes
+ * API routes for duel challenges and PVP records
+ */
+
+import { Router } from 'express';
+import { DuelController } from '../controllers/DuelController';
+import { AuthMiddleware } from '../middleware/auth';
+import { combatRateLimit, apiRateLimit } from '../middleware/rateLimitRedis';
+
+export function createDuelRoutes(duelController: DuelController): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware();
+
+  // Apply authentication to all duel routes
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * POST /api/duels
+   * Challenge a character in the same zone to a duel
+   */
+  router.post('/',
+    combatRateLimit, // Challenges are rate limited like combat starts
+    DuelController.challengeValidation,
+    duelController.challenge.bind(duelController)
+  );
+
+  /**
+   * GET /api/duels
+   * Pending challenges for the current character
+   */
+  router.get('/',
+    apiRateLimit, // Standard API rate limiting
+    duelController.getPendingChallenges.bind(duelController)
+  );
+
+  /**
+   * GET /api/duels/records/:characterId
+   * Duel and PVP record of a character
+   */
+  router.get('/records/:characterId',
+    apiRateLimit, // Standard API rate limiting
+    DuelController.characterIdValidation,
+    duelController.getPvpRecord.bind(duelController)
+  );
+
+  /**
+   * POST /api/duels/:challengeId/accept
+   * Accept a challenge and start the duel
+   */
+  router.post('/:challengeId/accept',
+    combatRateLimit, // Starts a combat session
+    DuelController.challengeIdValidation,
+    duelController.accept.bind(duelController)
+  );
+
+  /**
+   * POST /api/duels/:challengeId/decline
+   * Decline a challenge
+   */
+  router.post('/:challengeId/decline',
+    apiRateLimit, // Standard API rate limiting
+    DuelController.challengeIdValidation,
+    duelController.decline.bind(duelController)
+  );
+
+  return router;
+}
@@ -0,0 +1,38 @@
+/**
+ * Loot Routes
+ * API routes for the overflow loot window
+ */
+
+import { Router } from 'express';
+import { LootController } from '../controllers/LootController';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiRateLimit } from '../middleware/rateLimitRedis';
+
+export function createLootRoutes(lootController: LootController): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware();
+
+  // Apply authentication to all loot routes
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * GET /api/loot/window
+   * Loot that did not fit in the character's bags
+   */
+  router.get('/window',
+    apiRateLimit, // Standard API rate limiting
+    lootController.getLootWindow.bind(lootController)
+  );
+
+  /**
+   * POST /api/loot/window/:lootId/claim
+   * Move loot into the character's bags
+   */
+  router.post('/window/:lootId/claim',
+    apiRateLimit, // Standard API rate limiting
+    LootController.claimValidation,
+    lootController.claimLoot.bind(lootController)
+  );
+
+  return router;
+}
@@ -64,6 +64,45 @@ export function createMovementRoutes(movementController: MovementController): Ro
     movementController.getMovementHistory.bind(movementController);
   );
 
+  /**
+   * GET /api/game/movement/path?to=zoneName
+   * Quickest route to a zone the character can take
+   */
+  router.get('/movement/path',
+    apiRateLimit, // Standard API rate limiting
+    MovementController.pathValidation,
+    movementController.findPath.bind(movementController)
+  );
+
+  /**
+   * POST /api/game/movement/travel
+   * Auto-travel to a zone along the quickest route
+   */
+  router.post('/movement/travel',
+    apiRateLimit, // Standard API rate limiting
+    MovementController.travelValidation,
+    movementController.startAutoTravel.bind(movementController)
+  );
+
+  /**
+   * DELETE /api/game/movement/travel
+   * Cancel auto-travel
+   */
+  router.delete('/movement/travel',
+    apiRateLimit, // Standard API rate limiting
+    movementController.cancelAutoTravel.bind(movementController)
+  );
+
+  /**
+   * POST /api/game/instance/members
+   * Invite a character into the active character's instance
+   */
+  router.post('/instance/members',
+    apiRateLimit, // Standard API rate limiting
+    MovementController.instanceInviteValidation,
+    movementController.inviteToInstance.bind(movementController)
+  );
+
   /**
    * GET /api/game/location
    * Get character's current location
@@ -0,0 +1,30 @@
+/**
+ * World Map Routes
+ * Admin API routes for exporting and validating the zone graph (mounted under /api)
+ */
+
+import { Router } from 'express';
+import { WorldMapController } from '../controllers/WorldMapController';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiRateLimit } from '../middleware/rateLimitRedis';
+
+export function createWorldMapRoutes(worldMapController: WorldMapController): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware();
+
+  // Apply authentication to all world map routes
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * GET /api/admin/world-map?format=json|dot
+   * Export the zone graph with its validation issues (admins only)
+   */
+  router.get('/admin/world-map',
+    apiRateLimit, // Standard API rate limiting
+    authMiddleware.requireRole('admin'),
+    WorldMapController.exportValidation,
+    worldMapController.exportWorldMap.bind(worldMapController)
+  );
+
+  return router;
+}
@@ -0,0 +1,123 @@
+/**
+ * Ability Service
+ * Loads the data-driven ability catalog so spells can be added without code changes
+ */
+
+import { Pool } from 'pg';
+import { CacheManager } from './CacheManager';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errorUtils';
+import {
+  Ability,
+  AbilityTargeting,
+  ABILITY_CONSTANTS
+} from '../types/ability.types';
+import { ActionType, CombatParticipant, ParticipantStatus } from '../types/combat.types';
+
+export class AbilityService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+
+  constructor(db: Pool, cacheManager: CacheManager) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Get every active ability in the catalog
+   */
+  async getAllAbilities(): Promise<Ability[]> {
+    const cached = await this.cacheManager.get<Ability[]>(ABILITY_CONSTANTS.CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.db.query(`
+      SELECT * FROM abilities
+      WHERE is_active = TRUE
+      ORDER BY id
+    `);
+
+    const abilities = result.rows.map(row => this.mapAbilityRow(row));
+    await this.cacheManager.set(ABILITY_CONSTANTS.CACHE_KEY, abilities, { ttl: ABILITY_CONSTANTS.CACHE_TTL });
+
+    logger.debug('Ability catalog loaded', { count: abilities.length });
+
+    return abilities;
+  }
+
+  /**
+   * Get a single ability by id, or null when it is unknown or disabled
+   */
+  async getAbility(abilityId: string): Promise<Ability | null> {
+    const abilities = await this.getAllAbilities();
+    return abilities.find(ability => ability.id === abilityId) || null;
+  }
+
+  /**
+   * Drop the cached catalog so edits to the abilities table take effect
+   */
+  async reload(): Promise<void> {
+    try {
+      await this.cacheManager.delete(ABILITY_CONSTANTS.CACHE_KEY);
+      await this.getAllAbilities();
+    } catch (error) {
+      logger.error('Failed to reload ability catalog', {
+        error: getErrorMessage(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the participants an ability lands on
+   * @returns an empty list when a single-target ability has no valid target
+   */
+  resolveTargets(
+    ability: Ability,
+    actor: CombatParticipant,
+    participants: CombatParticipant[],
+    targetId?: string
+  ): CombatParticipant[] {
+    const alive = participants.filter(p => p.status === ParticipantStatus.ALIVE);
+
+    switch (ability.targeting) {
+      case AbilityTargeting.SELF:
+        return [actor];
+
+      case AbilityTargeting.ALL_ENEMIES:
+        return alive.filter(p => p.side !== actor.side);
+
+      case AbilityTargeting.ALL_ALLIES:
+        return alive.filter(p => p.side === actor.side);
+
+      case AbilityTargeting.SINGLE:
+      default: {
+        // Heals without an explicit target default to the caster
+        const resolvedId = targetId || (ability.actionType === ActionType.HEAL ? actor.characterId : undefined);
+        const target = alive.find(p => p.characterId === resolvedId);
+        return target ? [target] : [];
+      }
+    }
+  }
+
+  private mapAbilityRow(row: any): Ability {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || '',
+      actionType: row.action_type,
+      targeting: row.targeting,
+      manaCost: row.mana_cost,
+      cooldownMs: row.cooldown_ms,
+      basePower: row.base_power,
+      scaling: row.scaling || {},
+      ...(row.affinity_name && { affinityName: row.affinity_name }),
+      ...(row.damage_type && { damageType: row.damage_type }),
+      requiredAffinityTier: row.required_affinity_tier,
+      statusEffects: row.status_effects || [],
+      ...(row.taunts && { taunts: true }),
+      isActive: row.is_active
+    };
+  }
+}
@@ -292,6 +292,20 @@ export class AffinityService {
     return bonus;
   }
 
+  /**
+   * Get a character's current tier in an affinity (tier 1 when never trained)
+   */
+  async getAffinityTier(characterId: string, affinityName: string): Promise<number> {
+    const result = await this.db.query(`
+      SELECT ca.tier
+      FROM character_affinities ca
+      JOIN affinities a ON ca.affinity_id = a.id
+      WHERE ca.character_id = $1 AND a.name = $2
+    `, [characterId, affinityName]);
+
+    return result.rows[0]?.tier ?? AFFINITY_CONSTANTS.MIN_TIER;
+  }
+
   /**
    * Get a single affinity by name
    */
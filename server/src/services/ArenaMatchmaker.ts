@@ -0,0 +1,71 @@
+/**
+ * Arena Matchmaker
+ * Forms balanced matches from a queue whose rating window widens the longer a player waits
+ */
+
+import { ARENA_CONSTANTS, ArenaMatch, ArenaQueueEntry } from '../types/arena.types';
+
+export class ArenaMatchmaker {
+  /**
+   * Rating difference a player accepts after waiting for waitMs
+   */
+  getRatingWindow(waitMs: number): number {
+    const waitedSeconds = Math.max(0, Math.floor(waitMs / 1000));
+    return Math.min(
+      ARENA_CONSTANTS.MAX_RATING_WINDOW,
+      ARENA_CONSTANTS.INITIAL_RATING_WINDOW + waitedSeconds * ARENA_CONSTANTS.RATING_WINDOW_GROWTH
+    );
+  }
+
+  /**
+   * Match players longest-waiting first. Each match gathers the players closest in rating
+   * to the longest-waiting one, within that player's window, and splits them into two teams.
+   */
+  findMatches(entries: ArenaQueueEntry[], teamSize: number, now: number): ArenaMatch[] {
+    const playersNeeded = teamSize * 2;
+    const waiting = entries
+      .filter(entry => entry.teamSize === teamSize)
+      .sort((a, b) => a.queuedAt - b.queuedAt || a.characterId.localeCompare(b.characterId));
+    const matched = new Set<string>();
+    const matches: ArenaMatch[] = [];
+
+    for (const anchor of waiting) {
+      if (matched.has(anchor.characterId)) {
+        continue;
+      }
+
+      const window = this.getRatingWindow(now - anchor.queuedAt);
+      const candidates = waiting
+        .filter(entry => entry !== anchor && !matched.has(entry.characterId) &&
+          Math.abs(entry.rating - anchor.rating) <= window)
+        .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating) ||
+          a.queuedAt - b.queuedAt);
+
+      if (candidates.length < playersNeeded - 1) {
+        continue;
+      }
+
+      const players = [anchor, ...candidates.slice(0, playersNeeded - 1)];
+      players.forEach(player => matched.add(player.characterId));
+      matches.push({ teamSize, teams: this.splitTeams(players) });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Snake draft by rating (A B B A A B ...) so both teams end up with similar totals
+   */
+  splitTeams(players: ArenaQueueEntry[]): [ArenaQueueEntry[], ArenaQueueEntry[]] {
+    const teams: [ArenaQueueEntry[], ArenaQueueEntry[]] = [[], []];
+    const ordered = [...players].sort((a, b) => b.rating - a.rating);
+
+    ordered.forEach((player, index) => {
+      const firstPickOfRound = index % 2 === 0;
+      const evenRound = Math.floor(index / 2) % 2 === 0;
+      (firstPickOfRound === evenRound ? teams[0] : teams[1]).push(player);
+    });
+
+    return teams;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Arena Matchmaking Service
+ * Redis-backed ranked queue per team size. Matched players are put into an ARENA
+ * combat session in an arena zone; ratings are settled when the fight ends.
+ */
+
+import { Pool } from 'pg';
+import { redisService } from './RedisService';
+import { distributedLock } from '../utils/distributedLock';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errorUtils';
+import { RealtimeService } from './RealtimeService';
+import { CombatService } from './CombatService';
+import { ArenaRatingService } from './ArenaRatingService';
+import { ArenaMatchmaker } from './ArenaMatchmaker';
+import {
+  CombatErrorCode,
+  CombatSide,
+  CombatType,
+  ParticipantType
+} from '../types/combat.types';
+import {
+  ArenaMatch,
+  ArenaMatchFoundEvent,
+  ArenaQueueEntry,
+  ArenaQueueResult,
+  ARENA_CONSTANTS
+} from '../types/arena.types';
+
+export class ArenaMatchmakingService {
+  private readonly entriesKey = 'arena:queue:entries';
+  private readonly lockTtl = 10000; // 10 seconds
+  private db: Pool;
+  private realtimeService: RealtimeService;
+  private combatService: CombatService;
+  private ratingService: ArenaRatingService;
+  private matchmaker: ArenaMatchmaker;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    db: Pool,
+    realtimeService: RealtimeService,
+    combatService: CombatService,
+    ratingService: ArenaRatingService = new ArenaRatingService(db),
+    matchmaker: ArenaMatchmaker = new ArenaMatchmaker()
+  ) {
+    this.db = db;
+    this.realtimeService = realtimeService;
+    this.combatService = combatService;
+    this.ratingService = ratingService;
+    this.matchmaker = matchmaker;
+  }
+
+  /**
+   * Start forming matches from the queue
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.runMatchmaking();
+    }, ARENA_CONSTANTS.MATCHMAKING_INTERVAL);
+
+    logger.info('Arena matchmaking started', { interval: ARENA_CONSTANTS.MATCHMAKING_INTERVAL });
+  }
+
+  /**
+   * Stop forming matches. Queued players stay queued in Redis.
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logger.info('Arena matchmaking stopped');
+    }
+  }
+
+  /**
+   * Queue a character for ranked matches of a team size
+   */
+  async joinQueue(characterId: string, teamSize: number): Promise<ArenaQueueResult> {
+    if (!ARENA_CONSTANTS.TEAM_SIZES.includes(teamSize)) {
+      return {
+        success: false,
+        message: `Team size must be one of ${ARENA_CONSTANTS.TEAM_SIZES.join(', ')}`,
+        error: CombatErrorCode.INVALID_TEAM_SIZE
+      };
+    }
+
+    if (await this.combatService.getActiveCombatForCharacter(characterId)) {
+      return {
+        success: false,
+        message: 'Character is already in combat',
+        error: CombatErrorCode.ALREADY_IN_COMBAT
+      };
+    }
+
+    const rating = await this.ratingService.getRating(characterId, teamSize);
+    const entry: ArenaQueueEntry = {
+      characterId,
+      teamSize,
+      rating: rating.rating,
+      deviation: rating.deviation,
+      queuedAt: Date.now()
+    };
+
+    const redis = redisService.getClient();
+    const added = await redis.hsetnx(this.entriesKey, characterId, JSON.stringify(entry));
+    if (added !== 1) {
+      return {
+        success: false,
+        message: 'Character is already queued for the arena',
+        error: CombatErrorCode.ARENA_ALREADY_QUEUED
+      };
+    }
+    await redis.zadd(this.queueKey(teamSize), entry.queuedAt, characterId);
+
+    logger.info('Character queued for arena', {
+      characterId,
+      teamSize,
+      rating: Math.round(entry.rating)
+    });
+
+    return { success: true, message: 'Queued for the arena', entry };
+  }
+
+  /**
+   * Remove a character from the queue
+   */
+  async leaveQueue(characterId: string): Promise<ArenaQueueResult> {
+    const entry = await this.getQueueEntry(characterId);
+    if (!entry) {
+      return {
+        success: false,
+        message: 'Character is not queued for the arena',
+        error: CombatErrorCode.ARENA_NOT_QUEUED
+      };
+    }
+
+    await this.removeEntries([entry]);
+
+    return { success: true, message: 'Left the arena queue', entry };
+  }
+
+  async getQueueEntry(characterId: string): Promise<ArenaQueueEntry | null> {
+    const raw = await redisService.getClient().hget(this.entriesKey, characterId);
+    return raw ? JSON.parse(raw) as ArenaQueueEntry : null;
+  }
+
+  /**
+   * Form and start every match the queues allow. One instance matches at a time.
+   * @returns the number of arena sessions started
+   */
+  async runMatchmaking(): Promise<number> {
+    try {
+      return await distributedLock.withLock('arena:matchmaking', this.lockTtl, async () => {
+        await this.ratingService.rolloverExpiredSeason();
+
+        let started = 0;
+        for (const teamSize of ARENA_CONSTANTS.TEAM_SIZES) {
+          const entries = await this.getQueuedEntries(teamSize);
+          const matches = this.matchmaker.findMatches(entries, teamSize, Date.now());
+
+          for (const match of matches) {
+            if (await this.startMatch(match)) {
+              started++;
+            }
+          }
+        }
+        return started;
+      }, { retryCount: 0 });
+    } catch (error) {
+      // Also reached when another instance holds the matchmaking lock
+      logger.warn('Arena matchmaking pass skipped', { error: getErrorMessage(error) });
+      return 0;
+    }
+  }
+
+  /**
+   * Start an ARENA session for a match. If it cannot start, players who are still
+   * free go back into the queue with their original queue time.
+   */
+  private async startMatch(match: ArenaMatch): Promise<boolean> {
+    const [teamA, teamB] = match.teams;
+    const players = [...teamA, ...teamB];
+    await this.removeEntries(players);
+
+    try {
+      const zoneId = await this.getArenaZoneId();
+      const session = await this.combatService.startEncounter({
+        sessionType: CombatType.ARENA,
+        initiatorId: teamA[0]!.characterId,
+        targetId: teamB[0]!.characterId,
+        zoneId,
+        participants: players.map((player, index) => ({
+          characterId: player.characterId,
+          participantType: ParticipantType.PLAYER,
+          side: teamA.includes(player) ? CombatSide.ATTACKERS : CombatSide.DEFENDERS,
+          position: index
+        }))
+      });
+
+      for (const [team, opponents] of [[teamA, teamB], [teamB, teamA]]) {
+        for (const player of team!) {
+          const event: ArenaMatchFoundEvent = {
+            sessionId: session.id,
+            teamSize: match.teamSize,
+            teammates: team!.filter(p => p !== player).map(p => p.characterId),
+            opponents: opponents!.map(p => p.characterId),
+            message: 'Your arena match is ready!'
+          };
+          this.realtimeService.broadcastToCharacter(player.characterId, 'arena:match_found', event);
+        }
+      }
+
+      logger.info('Arena match started', {
+        sessionId: session.id,
+        teamSize: match.teamSize,
+        teams: match.teams.map(team => team.map(p => p.characterId))
+      });
+
+      return true;
+    } catch (error) {
+      logger.warn('Failed to start arena match', {
+        teamSize: match.teamSize,
+        error: getErrorMessage(error)
+      });
+
+      for (const player of players) {
+        if (!(await this.combatService.getActiveCombatForCharacter(player.characterId))) {
+          await this.requeue(player);
+        }
+      }
+      return false;
+    }
+  }
+
+  private async getQueuedEntries(teamSize: number): Promise<ArenaQueueEntry[]> {
+    const redis = redisService.getClient();
+    const characterIds = await redis.zrange(this.queueKey(teamSize), 0, -1);
+    if (characterIds.length === 0) {
+      return [];
+    }
+
+    const raw = await redis.hmget(this.entriesKey, ...characterIds);
+    return raw
+      .filter((value): value is string => value !== null)
+      .map(value => JSON.parse(value) as ArenaQueueEntry);
+  }
+
+  private async removeEntries(entries: ArenaQueueEntry[]): Promise<void> {
+    const pipeline = redisService.getClient().multi();
+    for (const entry of entries) {
+      pipeline.zrem(this.queueKey(entry.teamSize), entry.characterId);
+      pipeline.hdel(this.entriesKey, entry.characterId);
+    }
+    await pipeline.exec();
+  }
+
+  private async requeue(entry: ArenaQueueEntry): Promise<void> {
+    await redisService.getClient().multi()
+      .hset(this.entriesKey, entry.characterId, JSON.stringify(entry))
+      .zadd(this.queueKey(entry.teamSize), entry.queuedAt, entry.characterId)
+      .exec();
+  }
+
+  private async getArenaZoneId(): Promise<string> {
+    const result = await this.db.query(`
+      SELECT id FROM zones WHERE zone_type = 'arena' ORDER BY created_at LIMIT 1
+    `);
+    if (!result.rows[0]) {
+      throw new Error('No arena zone configured');
+    }
+    return result.rows[0].id;
+  }
+
+  private queueKey(teamSize: number): string {
+    return `arena:queue:${teamSize}`;
+  }
+}
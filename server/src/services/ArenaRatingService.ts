@@ -0,0 +1,342 @@
+/**
+ * Arena Rating Service
+ * Seasons, Glicko-2 ratings per team size and the arena leaderboard
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+import { Glicko2 } from './Glicko2';
+import { CombatParticipant, CombatRatingChange, ParticipantStatus } from '../types/combat.types';
+import {
+  ArenaLeaderboardEntry,
+  ArenaRating,
+  ArenaSeason,
+  GlickoRating,
+  ARENA_CONSTANTS
+} from '../types/arena.types';
+
+export class ArenaRatingService {
+  private db: Pool;
+  private glicko: Glicko2;
+
+  constructor(db: Pool, glicko: Glicko2 = new Glicko2()) {
+    this.db = db;
+    this.glicko = glicko;
+  }
+
+  /**
+   * The running season (season 1 is created by the arena migration)
+   */
+  async getCurrentSeason(): Promise<ArenaSeason> {
+    const result = await this.db.query('SELECT * FROM arena_seasons WHERE is_active = TRUE');
+    if (result.rows[0]) {
+      return this.mapSeasonRow(result.rows[0]);
+    }
+
+    return this.startNewSeason();
+  }
+
+  /**
+   * End the running season and start the next one. Ratings carry over softly:
+   * each rating moves SEASON_RESET_FACTOR of the way back to the default and
+   * deviations rise so everyone re-settles quickly. Records start from zero.
+   */
+  async startNewSeason(name?: string): Promise<ArenaSeason> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const previous = await client.query(`
+        UPDATE arena_seasons SET is_active = FALSE, ended_at = CURRENT_TIMESTAMP
+        WHERE is_active = TRUE
+        RETURNING id, season_number
+      `);
+      const previousSeason = previous.rows[0];
+      const seasonNumber = (previousSeason?.season_number ?? 0) + 1;
+
+      const created = await client.query(`
+        INSERT INTO arena_seasons (season_number, name, ends_at)
+        VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(days => $3))
+        RETURNING *
+      `, [seasonNumber, name || `Season ${seasonNumber}`, ARENA_CONSTANTS.SEASON_LENGTH_DAYS]);
+      const season = this.mapSeasonRow(created.rows[0]);
+
+      if (previousSeason) {
+        await client.query(`
+          INSERT INTO arena_ratings (character_id, season_id, team_size, rating, deviation, volatility)
+          SELECT character_id, $1, team_size,
+                 $2 + (rating - $2) * $3,
+                 LEAST($4, GREATEST(deviation, $5)),
+                 volatility
+          FROM arena_ratings
+          WHERE season_id = $6 AND wins + losses > 0
+        `, [
+          season.id,
+          ARENA_CONSTANTS.DEFAULT_RATING,
+          ARENA_CONSTANTS.SEASON_RESET_FACTOR,
+          ARENA_CONSTANTS.DEFAULT_DEVIATION,
+          ARENA_CONSTANTS.SEASON_START_DEVIATION,
+          previousSeason.id
+        ]);
+      }
+
+      await client.query('COMMIT');
+
+      logger.info('Arena season started', {
+        seasonId: season.id,
+        seasonNumber: season.seasonNumber,
+        previousSeasonId: previousSeason?.id
+      });
+
+      return season;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Start the next season when the running one has reached its end date
+   * @returns the new season, or null when the current one is still running
+   */
+  async rolloverExpiredSeason(): Promise<ArenaSeason | null> {
+    const season = await this.getCurrentSeason();
+    if (season.endsAt > new Date()) {
+      return null;
+    }
+
+    return this.startNewSeason();
+  }
+
+  /**
+   * A character's rating for a team size (the defaults before their first match)
+   */
+  async getRating(characterId: string, teamSize: number, seasonId?: string): Promise<ArenaRating> {
+    const season = seasonId ?? (await this.getCurrentSeason()).id;
+    const result = await this.db.query(`
+      SELECT * FROM arena_ratings
+      WHERE character_id = $1 AND season_id = $2 AND team_size = $3
+    `, [characterId, season, teamSize]);
+
+    return result.rows[0] ?
+      this.mapRatingRow(result.rows[0]) :
+      this.defaultRating(characterId, season, teamSize);
+  }
+
+  /**
+   * Apply Glicko-2 to everyone in a finished arena session. Each player is rated
+   * against a composite opponent: the average rating and deviation of the other team.
+   * @returns the rating changes, or an empty list when the session was already rated
+   */
+  async recordMatch(
+    sessionId: string,
+    participants: CombatParticipant[],
+    winner: string
+  ): Promise<CombatRatingChange[]> {
+    const players = participants.filter(p => !p.monsterTemplateId);
+    const winningSide = players.find(p => p.characterId === winner)?.side;
+    const teamSize = Math.max(
+      players.filter(p => p.side === winningSide).length,
+      players.filter(p => p.side !== winningSide).length
+    );
+    const season = await this.getCurrentSeason();
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const claimed = await client.query(`
+        INSERT INTO arena_matches (session_id, season_id, team_size, winner)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (session_id) DO NOTHING
+        RETURNING session_id
+      `, [sessionId, season.id, teamSize, winner]);
+
+      if (claimed.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return [];
+      }
+
+      const ratings = new Map<string, ArenaRating>();
+      for (const player of players) {
+        ratings.set(player.characterId, await this.getRatingForUpdate(client, player.characterId, season.id, teamSize));
+      }
+
+      const changes: CombatRatingChange[] = [];
+      for (const player of players) {
+        const current = ratings.get(player.characterId)!;
+        const opponents = players
+          .filter(p => p.side !== player.side)
+          .map(p => ratings.get(p.characterId)!);
+        const won = player.side === winningSide && player.status !== ParticipantStatus.FLED; // Fleeing is a loss
+
+        const updated = this.glicko.rate(current, [{
+          opponentRating: this.average(opponents.map(o => o.rating)),
+          opponentDeviation: this.average(opponents.map(o => o.deviation)),
+          score: won ? 1 : 0
+        }]);
+
+        await this.saveRating(client, current, updated, won);
+        changes.push({
+          characterId: player.characterId,
+          previousRating: Math.round(current.rating),
+          rating: Math.round(updated.rating),
+          deviation: Math.round(updated.deviation)
+        });
+      }
+
+      await client.query(
+        'UPDATE arena_matches SET rating_changes = $1 WHERE session_id = $2',
+        [JSON.stringify(changes), sessionId]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Arena ratings updated', {
+        sessionId,
+        seasonId: season.id,
+        teamSize,
+        changes
+      });
+
+      return changes;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Highest rated players of a season and team size; only players with a match are ranked
+   */
+  async getLeaderboard(
+    teamSize: number,
+    options: { seasonId?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ season: ArenaSeason; entries: ArenaLeaderboardEntry[] }> {
+    const season = options.seasonId ?
+      await this.getSeason(options.seasonId) :
+      await this.getCurrentSeason();
+    if (!season) {
+      throw new Error('Arena season not found');
+    }
+
+    const limit = options.limit ?? ARENA_CONSTANTS.LEADERBOARD_PAGE_SIZE;
+    const offset = options.offset ?? 0;
+    const result = await this.db.query(`
+      SELECT ar.character_id, c.name, ar.rating, ar.deviation, ar.wins, ar.losses
+      FROM arena_ratings ar
+      JOIN characters c ON c.id = ar.character_id
+      WHERE ar.season_id = $1 AND ar.team_size = $2 AND ar.wins + ar.losses > 0
+      ORDER BY ar.rating DESC, ar.deviation ASC, ar.character_id
+      LIMIT $3 OFFSET $4
+    `, [season.id, teamSize, limit, offset]);
+
+    return {
+      season,
+      entries: result.rows.map((row, index) => ({
+        rank: offset + index + 1,
+        characterId: row.character_id,
+        characterName: row.name,
+        rating: Math.round(row.rating),
+        deviation: Math.round(row.deviation),
+        wins: row.wins,
+        losses: row.losses
+      }))
+    };
+  }
+
+  private async getSeason(seasonId: string): Promise<ArenaSeason | null> {
+    const result = await this.db.query('SELECT * FROM arena_seasons WHERE id = $1', [seasonId]);
+    return result.rows[0] ? this.mapSeasonRow(result.rows[0]) : null;
+  }
+
+  private async getRatingForUpdate(
+    client: PoolClient,
+    characterId: string,
+    seasonId: string,
+    teamSize: number
+  ): Promise<ArenaRating> {
+    const result = await client.query(`
+      SELECT * FROM arena_ratings
+      WHERE character_id = $1 AND season_id = $2 AND team_size = $3
+      FOR UPDATE
+    `, [characterId, seasonId, teamSize]);
+
+    return result.rows[0] ?
+      this.mapRatingRow(result.rows[0]) :
+      this.defaultRating(characterId, seasonId, teamSize);
+  }
+
+  private async saveRating(client: PoolClient, current: ArenaRating, updated: GlickoRating, won: boolean): Promise<void> {
+    await client.query(`
+      INSERT INTO arena_ratings (
+        character_id, season_id, team_size, rating, deviation, volatility, wins, losses, last_match_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+      ON CONFLICT (character_id, season_id, team_size) DO UPDATE
+      SET rating = EXCLUDED.rating,
+          deviation = EXCLUDED.deviation,
+          volatility = EXCLUDED.volatility,
+          wins = arena_ratings.wins + EXCLUDED.wins,
+          losses = arena_ratings.losses + EXCLUDED.losses,
+          last_match_at = CURRENT_TIMESTAMP
+    `, [
+      current.characterId,
+      current.seasonId,
+      current.teamSize,
+      updated.rating,
+      updated.deviation,
+      updated.volatility,
+      won ? 1 : 0,
+      won ? 0 : 1
+    ]);
+  }
+
+  private defaultRating(characterId: string, seasonId: string, teamSize: number): ArenaRating {
+    return {
+      characterId,
+      seasonId,
+      teamSize,
+      rating: ARENA_CONSTANTS.DEFAULT_RATING,
+      deviation: ARENA_CONSTANTS.DEFAULT_DEVIATION,
+      volatility: ARENA_CONSTANTS.DEFAULT_VOLATILITY,
+      wins: 0,
+      losses: 0
+    };
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ?
+      values.reduce((sum, value) => sum + value, 0) / values.length :
+      ARENA_CONSTANTS.DEFAULT_RATING;
+  }
+
+  private mapSeasonRow(row: any): ArenaSeason {
+    return {
+      id: row.id,
+      seasonNumber: row.season_number,
+      name: row.name,
+      startedAt: new Date(row.started_at),
+      endsAt: new Date(row.ends_at),
+      ...(row.ended_at && { endedAt: new Date(row.ended_at) }),
+      isActive: row.is_active
+    };
+  }
+
+  private mapRatingRow(row: any): ArenaRating {
+    return {
+      characterId: row.character_id,
+      seasonId: row.season_id,
+      teamSize: row.team_size,
+      rating: Number(row.rating),
+      deviation: Number(row.deviation),
+      volatility: Number(row.volatility),
+      wins: row.wins,
+      losses: row.losses,
+      ...(row.last_match_at && { lastMatchAt: new Date(row.last_match_at) })
+    };
+  }
+}
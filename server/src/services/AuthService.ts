@@ -75,7 +75,7 @@ export class AuthService {
       const result = await client.query(;
         `INSERT INTO users (email, username, password_hash, email_verification_token);
          VALUES ($1, $2, $3, $4)
-         RETURNING id, email, username, email_verified, created_at, updated_at, last_login`,
+         RETURNING id, email, username, email_verified, role, created_at, updated_at, last_login`,
         [email.toLowerCase(), username.toLowerCase(), passwordHash, emailVerificationToken]
       );
 
@@ -429,7 +429,7 @@ export class AuthService {
   async getUserById(userId: number): AsyncServiceResult<SafeUser> {
     try {
       const result = await this.db.query(
-        'SELECT id, email, username, email_verified, created_at, updated_at, last_login FROM users WHERE id = $1',
+        'SELECT id, email, username, email_verified, role, created_at, updated_at, last_login FROM users WHERE id = $1',
         [userId];
       );
 
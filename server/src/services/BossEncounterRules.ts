@@ -0,0 +1,125 @@
+/**
+ * Boss Encounter Rules
+ * Phase transitions, enrage timers, scripted ability rotations and the weekly lockout reset
+ */
+
+import { CharacterCombatStats, CombatParticipant } from '../types/combat.types';
+import {
+  BossDefinition,
+  BossPhase,
+  BossScriptedAbility,
+  BossState,
+  BossTransition,
+  BOSS_CONSTANTS
+} from '../types/boss.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BossEncounterRules {
+  /**
+   * Phase and enrage state of a boss participant; bosses start in their first phase
+   */
+  getState(participant: CombatParticipant): BossState {
+    return {
+      phase: participant.bossPhase ?? 1,
+      enraged: participant.bossEnraged ?? false
+    };
+  }
+
+  /**
+   * Deepest phase whose HP threshold the boss has reached
+   */
+  getPhase(definition: BossDefinition, hpRatio: number): BossPhase | undefined {
+    return definition.phases
+      .filter(phase => hpRatio <= phase.hpThreshold)
+      .sort((a, b) => b.phase - a.phase)[0];
+  }
+
+  isEnraged(definition: BossDefinition, turnNumber: number): boolean {
+    return turnNumber >= definition.enrageTurn;
+  }
+
+  /**
+   * Advance a boss's state. Phases only move forward, so healing a boss does not
+   * replay a transition, and a burst through several thresholds announces each phase.
+   */
+  evaluate(
+    definition: BossDefinition,
+    state: BossState,
+    hpRatio: number,
+    turnNumber: number
+  ): { state: BossState; transitions: BossTransition[] } {
+    const transitions: BossTransition[] = [];
+    const reached = this.getPhase(definition, hpRatio)?.phase ?? state.phase;
+
+    const entered = definition.phases
+      .filter(phase => phase.phase > state.phase && phase.phase <= reached)
+      .sort((a, b) => a.phase - b.phase);
+    for (const phase of entered) {
+      transitions.push({ type: 'phase', phase, message: phase.message });
+    }
+
+    const nextState: BossState = {
+      phase: Math.max(state.phase, reached),
+      enraged: state.enraged || this.isEnraged(definition, turnNumber)
+    };
+
+    const currentPhase = this.findPhase(definition, nextState.phase);
+    if (nextState.enraged && !state.enraged && currentPhase) {
+      transitions.push({ type: 'enrage', phase: currentPhase, message: definition.enrageMessage });
+    }
+
+    return { state: nextState, transitions };
+  }
+
+  /**
+   * Damage multiplier of the current phase, compounded by enrage
+   */
+  getDamageMultiplier(definition: BossDefinition, state: BossState): number {
+    const phaseMultiplier = this.findPhase(definition, state.phase)?.damageMultiplier ?? 1;
+    return phaseMultiplier * (state.enraged ? definition.enrageMultiplier : 1);
+  }
+
+  /**
+   * Boss stats with its offensive stats raised by the phase and enrage multiplier
+   */
+  scaleStats(stats: CharacterCombatStats, definition: BossDefinition, state: BossState): CharacterCombatStats {
+    const multiplier = this.getDamageMultiplier(definition, state);
+    return {
+      ...stats,
+      strength: Math.round(stats.strength * multiplier),
+      intelligence: Math.round(stats.intelligence * multiplier)
+    };
+  }
+
+  /**
+   * Scripted ability due this round in the current phase; the first listed wins a tie
+   */
+  getScriptedAbility(definition: BossDefinition, state: BossState, turnNumber: number): BossScriptedAbility | null {
+    const phase = this.findPhase(definition, state.phase);
+    return phase?.script.find(step => step.everyTurns > 0 && turnNumber % step.everyTurns === 0) ?? null;
+  }
+
+  /**
+   * Start of the lockout week containing `now` (the latest weekly reset at or before it)
+   */
+  getLockoutWeekStart(now: Date): Date {
+    const start = new Date(Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+      BOSS_CONSTANTS.LOCKOUT_RESET_HOUR
+    ));
+    const daysSinceReset = (now.getUTCDay() - BOSS_CONSTANTS.LOCKOUT_RESET_DAY + 7) % 7;
+    start.setTime(start.getTime() - daysSinceReset * DAY_MS);
+
+    if (start.getTime() > now.getTime()) {
+      start.setTime(start.getTime() - 7 * DAY_MS);
+    }
+    return start;
+  }
+
+  private findPhase(definition: BossDefinition, phaseNumber: number): BossPhase | undefined {
+    return definition.phases.find(phase => phase.phase === phaseNumber);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Boss Service
+ * Boss definitions and the weekly per-character loot lockouts
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { CacheManager } from './CacheManager';
+import { BossEncounterRules } from './BossEncounterRules';
+import { logger } from '../utils/logger';
+import { BossDefinition, BOSS_CONSTANTS } from '../types/boss.types';
+
+export class BossService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+  private rules: BossEncounterRules;
+
+  constructor(db: Pool, cacheManager: CacheManager, rules: BossEncounterRules = new BossEncounterRules()) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+    this.rules = rules;
+  }
+
+  /**
+   * Get the boss definition of a monster template
+   * @returns null when the template is not scripted as a boss
+   */
+  async getDefinition(templateId: string): Promise<BossDefinition | null> {
+    const cacheKey = `boss:definition:${templateId}`;
+    const cached = await this.cacheManager.get<BossDefinition>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.db.query(
+      'SELECT * FROM boss_definitions WHERE template_id = $1',
+      [templateId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const definition = this.mapDefinitionRow(result.rows[0]);
+    await this.cacheManager.set(cacheKey, definition, { ttl: BOSS_CONSTANTS.CACHE_TTL });
+
+    return definition;
+  }
+
+  /**
+   * Lock characters out of the bosses' loot until the next reset. Characters who are
+   * already locked out this week keep their original lockout. Runs in the transaction
+   * that ends the fight, so a rolled-back end locks nobody out.
+   */
+  async recordLockouts(
+    client: PoolClient,
+    sessionId: string,
+    templateIds: string[],
+    characterIds: string[],
+    now: Date = new Date()
+  ): Promise<void> {
+    if (templateIds.length === 0 || characterIds.length === 0) {
+      return;
+    }
+
+    const result = await client.query(`
+      INSERT INTO boss_lockouts (character_id, template_id, week_start, session_id)
+      SELECT character_id, template_id, $3, $4
+      FROM UNNEST($1::uuid[]) AS character_id
+      CROSS JOIN UNNEST($2::varchar[]) AS template_id
+      ON CONFLICT (character_id, template_id, week_start) DO NOTHING
+      RETURNING character_id, template_id
+    `, [characterIds, templateIds, this.getWeekStart(now), sessionId]);
+
+    if (result.rows.length > 0) {
+      logger.info('Boss lockouts recorded', {
+        sessionId,
+        templateIds,
+        lockouts: result.rows.length
+      });
+    }
+  }
+
+  /**
+   * Characters who already earned loot from any of the bosses this week in another fight
+   */
+  async getLockedOutCharacters(
+    sessionId: string,
+    templateIds: string[],
+    characterIds: string[],
+    now: Date = new Date()
+  ): Promise<Set<string>> {
+    if (templateIds.length === 0 || characterIds.length === 0) {
+      return new Set();
+    }
+
+    const result = await this.db.query(`
+      SELECT DISTINCT character_id FROM boss_lockouts
+      WHERE week_start = $1
+        AND template_id = ANY($2::varchar[])
+        AND character_id = ANY($3::uuid[])
+        AND session_id IS DISTINCT FROM $4
+    `, [this.getWeekStart(now), templateIds, characterIds, sessionId]);
+
+    return new Set(result.rows.map(row => row.character_id));
+  }
+
+  private getWeekStart(now: Date): string {
+    return this.rules.getLockoutWeekStart(now).toISOString().slice(0, 10);
+  }
+
+  private mapDefinitionRow(row: any): BossDefinition {
+    return {
+      templateId: row.template_id,
+      phases: row.phases || [],
+      enrageTurn: row.enrage_turn,
+      enrageMultiplier: Number(row.enrage_multiplier), // NUMERIC arrives as a string
+      enrageMessage: row.enrage_message
+    };
+  }
+}
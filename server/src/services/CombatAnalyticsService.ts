@@ -0,0 +1,310 @@
+/**
+ * Combat Analytics Service
+ * Keeps a summary of every finished fight per character and aggregates them into
+ * combat analytics, and exports a session's full action log
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+import { CombatTranscript } from './CombatTranscript';
+import {
+  CombatParticipant,
+  CombatSession,
+  CombatType,
+  ParticipantStatus
+} from '../types/combat.types';
+import {
+  CharacterCombatAnalytics,
+  CombatAnalyticsFilters,
+  CombatLogExport,
+  CombatResult,
+  CombatTypeRecord,
+  ANALYTICS_CONSTANTS
+} from '../types/analytics.types';
+
+export class CombatAnalyticsService {
+  private db: Pool;
+  private transcript: CombatTranscript;
+
+  constructor(db: Pool, transcript: CombatTranscript = new CombatTranscript()) {
+    this.db = db;
+    this.transcript = transcript;
+  }
+
+  /**
+   * Record each player's summary of a fight that just ended. Runs inside the
+   * transaction that ends the encounter.
+   */
+  async recordSession(
+    client: PoolClient,
+    session: CombatSession,
+    participants: CombatParticipant[],
+    winner: string | undefined
+  ): Promise<void> {
+    const winningSide = participants.find(p => p.characterId === winner)?.side;
+    const durationSeconds = Math.max(0, Math.floor((Date.now() - new Date(session.startedAt).getTime()) / 1000));
+
+    for (const participant of participants.filter(p => !p.monsterTemplateId)) {
+      await client.query(`
+        INSERT INTO character_combat_history (
+          session_id, character_id, session_type, result, damage_dealt, damage_taken, healing_done,
+          actions_used, hits_landed, critical_hits, turns, duration_seconds
+        )
+        SELECT $1, $2, $3, $4,
+          COALESCE(SUM(damage) FILTER (WHERE actor_id = $2), 0),
+          COALESCE(SUM(damage) FILTER (WHERE target_id = $2), 0),
+          COALESCE(SUM(healing) FILTER (WHERE actor_id = $2), 0),
+          COUNT(*) FILTER (WHERE actor_id = $2 AND is_status_tick = FALSE),
+          COUNT(*) FILTER (WHERE actor_id = $2 AND is_status_tick = FALSE AND is_missed = FALSE
+                           AND action_type IN ('attack', 'spell', 'heal', 'special')),
+          COUNT(*) FILTER (WHERE actor_id = $2 AND is_critical = TRUE),
+          $5, $6
+        FROM combat_actions_log
+        WHERE session_id = $1
+        ON CONFLICT (session_id, character_id) DO NOTHING
+      `, [
+        session.id,
+        participant.characterId,
+        session.sessionType,
+        this.getResult(participant, winningSide),
+        session.turnNumber,
+        durationSeconds
+      ]);
+    }
+
+    logger.debug('Combat history recorded', {
+      sessionId: session.id,
+      playerCount: participants.filter(p => !p.monsterTemplateId).length
+    });
+  }
+
+  /**
+   * Fled beats everything else; without a winner the fight is a draw
+   */
+  getResult(participant: CombatParticipant, winningSide: string | undefined): CombatResult {
+    if (participant.status === ParticipantStatus.FLED) {
+      return 'fled';
+    }
+    if (!winningSide) {
+      return 'draw';
+    }
+    return participant.side === winningSide ? 'win' : 'loss';
+  }
+
+  /**
+   * Aggregate a character's fights, optionally within a date range
+   * @returns null when the character does not exist or belongs to another user
+   */
+  async getCharacterAnalytics(
+    characterId: string,
+    userId: string,
+    filters: CombatAnalyticsFilters = {}
+  ): Promise<CharacterCombatAnalytics | null> {
+    const owner = await this.db.query(`
+      SELECT 1 FROM characters WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
+    `, [characterId, userId]);
+    if (owner.rows.length === 0) {
+      return null;
+    }
+
+    const range = [characterId, filters.from ?? null, filters.to ?? null];
+    const inRange = `
+      h.character_id = $1
+      AND ($2::timestamptz IS NULL OR h.ended_at >= $2)
+      AND ($3::timestamptz IS NULL OR h.ended_at < $3)
+    `;
+
+    const [totals, abilities, monsters] = await Promise.all([
+      this.db.query(`
+        SELECT h.session_type, h.result, COUNT(*) AS fights,
+               SUM(h.turns) AS turns, SUM(h.duration_seconds) AS seconds,
+               SUM(h.damage_dealt) AS damage_dealt, SUM(h.damage_taken) AS damage_taken,
+               SUM(h.healing_done) AS healing_done, SUM(h.hits_landed) AS hits_landed,
+               SUM(h.critical_hits) AS critical_hits
+        FROM character_combat_history h
+        WHERE ${inRange}
+        GROUP BY h.session_type, h.result
+      `, range),
+      this.db.query(`
+        SELECT cal.action_name,
+               COUNT(DISTINCT (cal.session_id, cal.turn_number, cal.turn_index)) AS uses,
+               SUM(cal.damage) AS damage, SUM(cal.healing) AS healing
+        FROM combat_actions_log cal
+        JOIN character_combat_history h ON h.session_id = cal.session_id AND h.character_id = cal.actor_id
+        WHERE ${inRange}
+          AND cal.is_status_tick = FALSE
+          AND cal.action_type IN ('spell', 'heal', 'special')
+        GROUP BY cal.action_name
+        ORDER BY uses DESC, damage DESC
+        LIMIT ${ANALYTICS_CONSTANTS.MOST_USED_ABILITIES}
+      `, range),
+      this.db.query(`
+        SELECT mt.id, mt.name,
+               COUNT(DISTINCT cal.session_id) AS fights,
+               COUNT(DISTINCT cal.session_id) FILTER (WHERE h.result = 'loss') AS defeats,
+               SUM(cal.damage) AS damage_taken
+        FROM combat_actions_log cal
+        JOIN character_combat_history h ON h.session_id = cal.session_id AND h.character_id = cal.target_id
+        JOIN combat_participants p ON p.session_id = cal.session_id AND p.character_id = cal.actor_id
+        JOIN monster_templates mt ON mt.id = p.monster_template_id
+        WHERE ${inRange}
+        GROUP BY mt.id, mt.name
+        ORDER BY defeats DESC, damage_taken DESC
+        LIMIT ${ANALYTICS_CONSTANTS.DEADLIEST_MONSTERS}
+      `, range)
+    ]);
+
+    const sum = (column: string) => totals.rows.reduce((total, row) => total + Number(row[column] || 0), 0);
+    const fights = sum('fights');
+    const seconds = sum('seconds');
+    const turns = sum('turns');
+    const damageDealt = sum('damage_dealt');
+    const healingDone = sum('healing_done');
+    const hitsLanded = sum('hits_landed');
+
+    const byType: Partial<Record<CombatType, CombatTypeRecord>> = {};
+    for (const row of totals.rows) {
+      const sessionType = row.session_type as CombatType;
+      const record = byType[sessionType] ?? { fights: 0, wins: 0, losses: 0, draws: 0, fled: 0, winRate: 0 };
+      byType[sessionType] = record;
+      const count = Number(row.fights);
+      record.fights += count;
+      if (row.result === 'win') record.wins += count;
+      if (row.result === 'loss') record.losses += count;
+      if (row.result === 'draw') record.draws += count;
+      if (row.result === 'fled') record.fled += count;
+      record.winRate = this.round(record.wins / record.fights);
+    }
+
+    return {
+      characterId,
+      ...(filters.from && { from: filters.from }),
+      ...(filters.to && { to: filters.to }),
+      fights,
+      turns,
+      combatSeconds: seconds,
+      damageDealt,
+      damageTaken: sum('damage_taken'),
+      healingDone,
+      damagePerSecond: seconds > 0 ? this.round(damageDealt / seconds) : 0,
+      healingPerSecond: seconds > 0 ? this.round(healingDone / seconds) : 0,
+      damagePerTurn: turns > 0 ? this.round(damageDealt / turns) : 0,
+      critRate: hitsLanded > 0 ? this.round(sum('critical_hits') / hitsLanded) : 0,
+      byType,
+      mostUsedAbilities: abilities.rows.map(row => ({
+        actionName: row.action_name,
+        uses: Number(row.uses),
+        damage: Number(row.damage || 0),
+        healing: Number(row.healing || 0)
+      })),
+      deadliestMonsters: monsters.rows.map(row => ({
+        templateId: row.id,
+        name: row.name,
+        fights: Number(row.fights),
+        defeats: Number(row.defeats),
+        damageTaken: Number(row.damage_taken || 0)
+      }))
+    };
+  }
+
+  /**
+   * Whether a user may export a session's log: only those who fought in it
+   */
+  async canExport(sessionId: string, userId: string): Promise<boolean> {
+    const result = await this.db.query(`
+      SELECT 1
+      FROM combat_participants p
+      JOIN characters c ON c.id = p.character_id
+      WHERE p.session_id = $1 AND c.user_id = $2
+      LIMIT 1
+    `, [sessionId, userId]);
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * The session's participants and full action log, status ticks included
+   * @returns null when the session does not exist
+   */
+  async exportSessionLog(sessionId: string): Promise<CombatLogExport | null> {
+    const sessionResult = await this.db.query(`
+      SELECT cs.*, z.display_name AS zone_name
+      FROM combat_sessions cs
+      LEFT JOIN zones z ON z.id = cs.zone_id
+      WHERE cs.id = $1
+    `, [sessionId]);
+
+    const session = sessionResult.rows[0];
+    if (!session) {
+      return null;
+    }
+
+    const [participants, actions] = await Promise.all([
+      this.db.query(`
+        SELECT p.*, COALESCE(c.name, mt.name, 'Unknown') AS name, COALESCE(p.monster_level, c.level, 1) AS level
+        FROM combat_participants p
+        LEFT JOIN characters c ON c.id = p.character_id AND p.monster_template_id IS NULL
+        LEFT JOIN monster_templates mt ON mt.id = p.monster_template_id
+        WHERE p.session_id = $1
+        ORDER BY p.side, p.position
+      `, [sessionId]),
+      this.db.query(`
+        SELECT *
+        FROM combat_actions_log
+        WHERE session_id = $1
+        ORDER BY turn_number, turn_index NULLS LAST, created_at
+      `, [sessionId])
+    ]);
+
+    return {
+      sessionId,
+      sessionType: session.session_type,
+      status: session.status,
+      zoneName: session.zone_name || 'an unknown place',
+      startedAt: session.started_at,
+      ...(session.ended_at && { endedAt: session.ended_at }),
+      ...(session.winner && { winner: session.winner }),
+      turns: session.turn_number,
+      participants: participants.rows.map(row => ({
+        characterId: row.character_id,
+        name: row.name,
+        participantType: row.participant_type,
+        side: row.side,
+        level: row.level,
+        status: row.status,
+        damageDealt: row.damage_dealt || 0,
+        damageTaken: row.damage_taken || 0
+      })),
+      actions: actions.rows.map(row => ({
+        id: row.id,
+        turnNumber: row.turn_number,
+        actorId: row.actor_id,
+        ...(row.target_id && { targetId: row.target_id }),
+        actionType: row.action_type,
+        actionName: row.action_name,
+        damage: row.damage || 0,
+        healing: row.healing || 0,
+        isCritical: row.is_critical,
+        isBlocked: row.is_blocked,
+        isMissed: row.is_missed,
+        ...(row.status_effect_applied && { statusEffectApplied: row.status_effect_applied }),
+        ...(row.damage_type && { damageType: row.damage_type }),
+        resisted: row.resisted || 0,
+        isStatusTick: row.is_status_tick === true,
+        description: row.description || '',
+        createdAt: row.created_at
+      }))
+    };
+  }
+
+  /**
+   * Plain-text transcript of an exported log
+   */
+  formatTranscript(log: CombatLogExport): string {
+    return this.transcript.format(log);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Combat Formulas
+ * Damage and healing before variance and crits. Pure functions of stats, gear and affinity
+ * bonuses, so the balance simulator can run them without a database.
+ */
+
+import { CharacterCombatStats } from '../types/combat.types';
+import { Ability } from '../types/ability.types';
+import { AFFINITY_CONSTANTS } from '../types/affinity.types';
+
+export type AbilityPowerSource = Pick<Ability, 'basePower' | 'scaling'>;
+
+export class CombatFormulas {
+  /**
+   * Weapon attack damage: strength past the target's vitality, scaled by the weapon
+   * coefficient and the weapon affinity bonus
+   */
+  calculateAttackDamage(
+    strength: number,
+    targetVitality: number,
+    weaponCoefficient: number,
+    affinityBonus: number = 0
+  ): number {
+    const baseDamage = Math.max(1, (strength - targetVitality) * weaponCoefficient);
+
+    // Apply affinity bonus (percentage increase)
+    return Math.floor(baseDamage * (1 + affinityBonus / 100));
+  }
+
+  /**
+   * Damage of a spell or special ability: base power plus level and stat scaling,
+   * boosted by the caster's magic affinity bonus
+   */
+  calculateSpellDamage(stats: CharacterCombatStats, ability: AbilityPowerSource, affinityBonus: number = 0): number {
+    return this.calculateAbilityPower(stats, ability, affinityBonus);
+  }
+
+  /**
+   * Healing of a heal ability; heals scale exactly like spells
+   */
+  calculateHealingAmount(stats: CharacterCombatStats, ability: AbilityPowerSource, affinityBonus: number = 0): number {
+    return this.calculateAbilityPower(stats, ability, affinityBonus);
+  }
+
+  /**
+   * Percentage bonus granted by an affinity tier
+   */
+  getAffinityBonus(tier: number): number {
+    return Math.max(0, tier) * AFFINITY_CONSTANTS.BONUS_PER_TIER;
+  }
+
+  private calculateAbilityPower(stats: CharacterCombatStats, ability: AbilityPowerSource, affinityBonus: number): number {
+    const scalingEntries = Object.entries(ability.scaling) as Array<[keyof CharacterCombatStats, number]>;
+    if (ability.basePower === 0 && scalingEntries.length === 0) {
+      return 0; // Pure utility ability
+    }
+
+    const basePower = scalingEntries.reduce(
+      (total, [stat, coefficient]) => total + stats[stat] * coefficient,
+      ability.basePower + stats.level
+    );
+
+    // Apply affinity bonus (percentage increase)
+    return Math.floor(basePower * (1 + affinityBonus / 100));
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Combat Recovery Rules
+ * Deciding what happens to a fight that was still running when the server went down
+ */
+
+import {
+  CombatRecoveryPlan,
+  CombatSession,
+  CombatStatus,
+  COMBAT_CONSTANTS
+} from '../types/combat.types';
+
+export class CombatRecoveryRules {
+  /**
+   * Fights nobody has touched for RECOVERY_MAX_IDLE are cancelled; the rest carry on.
+   * An active fight's current turn never ends sooner than a full grace period after
+   * the restart, so nobody defends or forfeits for the downtime.
+   */
+  planRecovery(
+    session: Pick<CombatSession, 'status' | 'turnDeadline'>,
+    lastActivityAt: Date,
+    now: Date
+  ): CombatRecoveryPlan {
+    if (now.getTime() - lastActivityAt.getTime() >= COMBAT_CONSTANTS.RECOVERY_MAX_IDLE) {
+      return { action: 'cancel' };
+    }
+
+    if (session.status !== CombatStatus.ACTIVE) {
+      return { action: 'resume' };
+    }
+
+    const graceDeadline = now.getTime() + COMBAT_CONSTANTS.RECOVERY_TURN_GRACE;
+    const deadline = session.turnDeadline ? new Date(session.turnDeadline).getTime() : 0;
+
+    return { action: 'resume', turnDeadline: new Date(Math.max(deadline, graceDeadline)) };
+  }
+}
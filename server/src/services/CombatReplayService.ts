@@ -0,0 +1,209 @@
+/**
+ * Combat Replay Service
+ * Re-simulates a finished session from combat_actions_log and checks that every
+ * logged outcome follows from the session seed and the action's roll inputs.
+ */
+
+import { Pool } from 'pg';
+import { CombatRolls } from './CombatRolls';
+import {
+  CombatReplay,
+  CombatReplayAction,
+  CombatRollInputs
+} from '../types/combat.types';
+
+export interface CombatLogRow {
+  id: string;
+  actor_id: string;
+  target_id: string | null;
+  action_name: string;
+  damage: number;
+  healing: number;
+  is_critical: boolean;
+  is_blocked: boolean;
+  is_missed: boolean;
+  status_effect_applied: string | null;
+  resisted?: number; // Missing on rows logged before damage types
+  turn_number: number;
+  turn_index: number | null;
+  roll_inputs: CombatRollInputs | null;
+}
+
+export class CombatReplayService {
+  private db: Pool;
+  private combatRolls: CombatRolls;
+
+  constructor(db: Pool, combatRolls: CombatRolls = new CombatRolls()) {
+    this.db = db;
+    this.combatRolls = combatRolls;
+  }
+
+  /**
+   * Replay every action of a session
+   */
+  async replaySession(sessionId: string, rngSeed: number): Promise<CombatReplay> {
+    const client = await this.db.connect();
+    try {
+      const result = await client.query(`
+        SELECT id, actor_id, target_id, action_name, damage, healing,
+               is_critical, is_blocked, is_missed, status_effect_applied, resisted,
+               turn_number, turn_index, roll_inputs
+        FROM combat_actions_log
+        WHERE session_id = $1 AND is_status_tick = FALSE
+        ORDER BY turn_number, turn_index NULLS LAST, created_at
+      `, [sessionId]);
+
+      return this.replay(sessionId, rngSeed, result.rows);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replay logged rows. Rows sharing a turn slot belong to one action (area abilities log one row per target).
+   */
+  replay(sessionId: string, rngSeed: number, rows: CombatLogRow[]): CombatReplay {
+    const groups: CombatLogRow[][] = [];
+    const slots = new Map<string, CombatLogRow[]>();
+
+    for (const row of rows) {
+      if (row.turn_index === null || row.turn_index === undefined) {
+        groups.push([row]);
+        continue;
+      }
+
+      const slot = `${row.turn_number}:${row.turn_index}`;
+      const group = slots.get(slot);
+      if (group) {
+        group.push(row);
+      } else {
+        const newGroup = [row];
+        slots.set(slot, newGroup);
+        groups.push(newGroup);
+      }
+    }
+
+    const actions = groups.map(group => this.replayAction(rngSeed, group));
+    const mismatchCount = actions.filter(action => action.status === 'mismatch').length;
+    const actionsUnverified = actions.filter(action => action.status === 'unverified').length;
+
+    return {
+      sessionId,
+      rngSeed,
+      verified: mismatchCount === 0,
+      actionsReplayed: actions.length - actionsUnverified,
+      actionsUnverified,
+      mismatchCount,
+      actions
+    };
+  }
+
+  private replayAction(rngSeed: number, rows: CombatLogRow[]): CombatReplayAction {
+    const [first] = rows as [CombatLogRow, ...CombatLogRow[]];
+    const inputs = first.roll_inputs;
+    const action: CombatReplayAction = {
+      actionIds: rows.map(row => row.id),
+      turnNumber: first.turn_number,
+      ...(first.turn_index !== null && first.turn_index !== undefined && { turnIndex: first.turn_index }),
+      actorId: first.actor_id,
+      actionName: first.action_name,
+      status: 'unverified',
+      mismatches: []
+    };
+
+    if (!inputs || action.turnIndex === undefined) {
+      return action;
+    }
+
+    const random = CombatRolls.createTurnRandom(rngSeed, action.turnNumber, action.turnIndex);
+    const mismatches = inputs.kind === 'attack' ? this.verifyAttack(inputs, random, rows) :
+      inputs.kind === 'ability' ? this.verifyAbility(inputs, random, rows) :
+      this.verifyFlee(inputs, random, rows);
+
+    return {
+      ...action,
+      status: mismatches.length > 0 ? 'mismatch' : 'match',
+      mismatches
+    };
+  }
+
+  private verifyAttack(
+    inputs: Extract<CombatRollInputs, { kind: 'attack' }>,
+    random: () => number,
+    rows: CombatLogRow[]
+  ): string[] {
+    const outcome = this.combatRolls.rollAttack(inputs, random);
+    const mismatches: string[] = [];
+    const row = rows[0]!;
+
+    const expectedDamage = this.capDamage(Math.max(0, outcome.damage - inputs.targetShield), inputs.damageCap);
+    this.compare(mismatches, 'damage', row.damage, expectedDamage);
+    this.compare(mismatches, 'isCritical', row.is_critical, outcome.isCritical);
+    this.compare(mismatches, 'isMissed', row.is_missed, outcome.isMissed);
+    this.compare(mismatches, 'isBlocked', row.is_blocked, outcome.isBlocked);
+    this.compare(mismatches, 'resisted', row.resisted ?? 0, outcome.resisted);
+
+    if (rows.length > 1) {
+      mismatches.push(`expected 1 log row for an attack, found ${rows.length}`);
+    }
+
+    return mismatches;
+  }
+
+  private verifyAbility(
+    inputs: Extract<CombatRollInputs, { kind: 'ability' }>,
+    random: () => number,
+    rows: CombatLogRow[]
+  ): string[] {
+    const outcome = this.combatRolls.rollAbility(inputs, random);
+    const mismatches: string[] = [];
+
+    for (const row of rows) {
+      const target = outcome.targets.find(t => t.targetId === row.target_id);
+      const targetInputs = inputs.targets.find(t => t.targetId === row.target_id);
+      const shield = targetInputs?.shield ?? 0;
+      if (!target) {
+        mismatches.push(`${row.target_id ?? 'no target'}: not a target of ${inputs.abilityId}`);
+        continue;
+      }
+
+      const label = (field: string) => `${target.targetId} ${field}`;
+      this.compare(mismatches, label('damage'), row.damage, inputs.isHeal ? 0 :
+        this.capDamage(Math.max(0, target.amount - shield), targetInputs?.damageCap));
+      this.compare(mismatches, label('healing'), row.healing, inputs.isHeal ? target.amount : 0);
+      this.compare(mismatches, label('isCritical'), row.is_critical, target.isCritical);
+      this.compare(mismatches, label('resisted'), row.resisted ?? 0, target.resisted);
+
+      // Rolled effects may still be resisted, so a logged effect only has to be one that was rolled
+      if (row.status_effect_applied &&
+          !target.statusEffectsApplied.some(type => type === row.status_effect_applied)) {
+        mismatches.push(`${label('statusEffect')}: recorded ${row.status_effect_applied}, not rolled`);
+      }
+    }
+
+    return mismatches;
+  }
+
+  private verifyFlee(
+    inputs: Extract<CombatRollInputs, { kind: 'flee' }>,
+    random: () => number,
+    rows: CombatLogRow[]
+  ): string[] {
+    const escaped = this.combatRolls.rollFlee(inputs.fleeChance, random);
+    const mismatches: string[] = [];
+
+    this.compare(mismatches, 'isMissed', rows[0]!.is_missed, !escaped);
+
+    return mismatches;
+  }
+
+  private capDamage(damage: number, cap: number | undefined): number {
+    return cap === undefined ? damage : Math.min(damage, cap);
+  }
+
+  private compare(mismatches: string[], field: string, recorded: unknown, replayed: unknown): void {
+    if (recorded !== replayed) {
+      mismatches.push(`${field}: recorded ${recorded}, replayed ${replayed}`);
+    }
+  }
+}
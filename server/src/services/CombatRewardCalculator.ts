@@ -0,0 +1,65 @@
+/**
+ * Combat Reward Calculator
+ * Splits a fight's experience and gold among the winning side by contribution
+ */
+
+import { CombatRewardShare } from '../types/combat.types';
+
+export interface RewardContribution {
+  characterId: string;
+  damageDealt: number;
+  healingDone: number;
+}
+
+export class CombatRewardCalculator {
+  /**
+   * Split the pool in proportion to damage dealt plus healing done.
+   * Nobody contributing means an even split; rounding never loses or creates a point.
+   */
+  splitRewards(
+    pool: { experience: number; gold: number },
+    contributors: RewardContribution[]
+  ): CombatRewardShare[] {
+    if (contributors.length === 0) {
+      return [];
+    }
+
+    const ordered = [...contributors].sort((a, b) => a.characterId.localeCompare(b.characterId));
+    const contributions = ordered.map(c => Math.max(0, c.damageDealt) + Math.max(0, c.healingDone));
+    const total = contributions.reduce((sum, value) => sum + value, 0);
+    const weights = total > 0 ? contributions.map(value => value / total) : ordered.map(() => 1 / ordered.length);
+
+    const experience = this.allocate(pool.experience, weights);
+    const gold = this.allocate(pool.gold, weights);
+
+    return ordered.map((contributor, index) => ({
+      characterId: contributor.characterId,
+      contribution: contributions[index] ?? 0,
+      experience: experience[index] ?? 0,
+      gold: gold[index] ?? 0
+    }));
+  }
+
+  /**
+   * Largest remainder apportionment of an integer amount
+   */
+  private allocate(amount: number, weights: number[]): number[] {
+    const exact = weights.map(weight => amount * weight);
+    const shares = exact.map(value => Math.floor(value));
+    let remaining = amount - shares.reduce((sum, value) => sum + value, 0);
+
+    const byRemainder = exact
+      .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (const { index } of byRemainder) {
+      if (remaining <= 0) {
+        break;
+      }
+      shares[index] = (shares[index] ?? 0) + 1;
+      remaining--;
+    }
+
+    return shares;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Combat Rolls
+ * Every random outcome of a combat action. Rolls are pure functions of their inputs and a
+ * RandomSource, so replaying logged inputs against the session seed reproduces the fight.
+ */
+
+import { createSeededRandom, RandomSource } from '../utils/random';
+import {
+  AttackRollInputs,
+  AbilityRollInputs,
+  StatusEffectType,
+  COMBAT_CONSTANTS
+} from '../types/combat.types';
+import { ABILITY_CONSTANTS } from '../types/ability.types';
+
+export interface AttackRollOutcome {
+  damage: number;
+  isCritical: boolean;
+  isMissed: boolean;
+  isBlocked: boolean;
+  resisted: number; // Negative when the target was vulnerable
+}
+
+export interface AbilityRollOutcome {
+  power: number;
+  targets: Array<{
+    targetId: string;
+    amount: number;
+    isCritical: boolean;
+    resisted: number;
+    statusEffectsApplied: StatusEffectType[];
+  }>;
+}
+
+export interface FleeParticipant {
+  dexterity: number;
+  speed: number; // HASTE/SLOW speed multiplier
+}
+
+export class CombatRolls {
+  /**
+   * Independent random stream for one purpose within a session, e.g. a turn's action rolls.
+   * Streams never share draws, so adding a roll to one cannot shift the outcome of another.
+   */
+  static createRandom(seed: number, ...stream: Array<string | number>): RandomSource {
+    return createSeededRandom([seed, ...stream].join(':'));
+  }
+
+  /**
+   * Roll stream of the action taken at a turn slot
+   */
+  static createTurnRandom(seed: number, turnNumber: number, turnIndex: number): RandomSource {
+    return CombatRolls.createRandom(seed, 'turn', turnNumber, turnIndex);
+  }
+
+  /**
+   * Weapon attack: variance, then crit, miss and block, then the target's resistance
+   */
+  rollAttack(inputs: AttackRollInputs, random: RandomSource): AttackRollOutcome {
+    const variance = Math.floor(random() * (inputs.baseDamage * COMBAT_CONSTANTS.DAMAGE_VARIANCE)) + 1;
+    let damage = inputs.baseDamage + variance;
+
+    const isCritical = random() < inputs.critChance;
+    if (isCritical) damage *= COMBAT_CONSTANTS.CRITICAL_DAMAGE_MULTIPLIER;
+    damage = Math.floor(damage * inputs.damageMultiplier);
+
+    const isMissed = random() < inputs.missChance;
+    if (isMissed) damage = 0;
+
+    const isBlocked = random() < inputs.blockChance;
+    if (isBlocked) damage = Math.floor(damage * COMBAT_CONSTANTS.BLOCKED_DAMAGE_FACTOR);
+
+    const resisted = this.calculateResisted(damage, inputs.resistance);
+
+    return { damage: damage - resisted, isCritical, isMissed, isBlocked, resisted };
+  }
+
+  /**
+   * Ability: one power variance roll, then a crit roll and status effect rolls per target
+   */
+  rollAbility(inputs: AbilityRollInputs, random: RandomSource): AbilityRollOutcome {
+    const power = inputs.basePower > 0 ?
+      inputs.basePower + Math.floor(random() * (inputs.basePower * ABILITY_CONSTANTS.POWER_VARIANCE)) + 1 :
+      0;
+
+    const targets = inputs.targets.map(({ targetId, resistance }) => {
+      const isCritical = power > 0 && random() < inputs.critChance;
+      const rolled = Math.floor(
+        power * (isCritical ? COMBAT_CONSTANTS.CRITICAL_DAMAGE_MULTIPLIER : 1) * inputs.damageMultiplier
+      );
+      const resisted = inputs.isHeal ? 0 : this.calculateResisted(rolled, resistance);
+
+      return {
+        targetId,
+        amount: rolled - resisted,
+        isCritical,
+        resisted,
+        statusEffectsApplied: inputs.statusEffects
+          .filter(effect => random() < effect.chance)
+          .map(effect => effect.type)
+      };
+    });
+
+    return { power, targets };
+  }
+
+  /**
+   * Damage soaked by a resistance; a vulnerability gives a negative amount, i.e. extra damage
+   */
+  calculateResisted(damage: number, resistance: number = 0): number {
+    // Whole percentages keep the result free of floating point drift
+    return damage - Math.floor(damage * Math.round((1 - resistance) * 100) / 100);
+  }
+
+  rollFlee(fleeChance: number, random: RandomSource): boolean {
+    return random() < fleeChance;
+  }
+
+  /**
+   * Chance to escape: dexterity and speed against the quickest pursuer, less for every
+   * pursuer after the first
+   */
+  calculateFleeChance(runner: FleeParticipant, pursuers: FleeParticipant[]): number {
+    if (pursuers.length === 0) {
+      return COMBAT_CONSTANTS.FLEE_MAX_CHANCE;
+    }
+
+    const dexterity = Math.max(...pursuers.map(pursuer => pursuer.dexterity));
+    const speed = Math.max(...pursuers.map(pursuer => pursuer.speed));
+    const chance = COMBAT_CONSTANTS.FLEE_CHANCE +
+      (runner.dexterity - dexterity) * COMBAT_CONSTANTS.FLEE_DEXTERITY_FACTOR +
+      (runner.speed - speed) * COMBAT_CONSTANTS.FLEE_SPEED_FACTOR -
+      (pursuers.length - 1) * COMBAT_CONSTANTS.FLEE_PURSUER_PENALTY;
+
+    return Math.min(COMBAT_CONSTANTS.FLEE_MAX_CHANCE, Math.max(COMBAT_CONSTANTS.FLEE_MIN_CHANCE, chance));
+  }
+
+  /**
+   * Initiative based on dexterity and level plus 1d20
+   */
+  rollInitiative(dexterity: number, level: number, random: RandomSource): number {
+    return dexterity * 2 + level + Math.floor(random() * 20) + 1;
+  }
+
+  calculateCriticalChance(dexterity: number): number {
+    return COMBAT_CONSTANTS.BASE_CRITICAL_CHANCE + (dexterity / COMBAT_CONSTANTS.DEXTERITY_CRIT_FACTOR);
+  }
+}
@@ -3,36 +3,89 @@
  * Core turn-based combat engine with initiative, damage calculation, and state management
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
+import { randomInt } from 'crypto';
 import { logger } from '../utils/logger';
 import { CacheManager } from './CacheManager';
 import { RealtimeService } from './RealtimeService';
 import { EquipmentService } from './EquipmentService';
 import { AffinityService } from './AffinityService';
+import { CombatTurnScheduler } from './CombatTurnScheduler';
+import { StatusEffectEngine } from './StatusEffectEngine';
+import { AbilityService } from './AbilityService';
+import { MonsterService } from './MonsterService';
+import { MonsterAI } from './MonsterAI';
+import { CombatRolls } from './CombatRolls';
+import { CombatFormulas } from './CombatFormulas';
+import { CombatReplayService } from './CombatReplayService';
+import { CombatRewardCalculator } from './CombatRewardCalculator';
+import { ProgressionService } from './ProgressionService';
+import { PvpService } from './PvpService';
+import { ArenaRatingService } from './ArenaRatingService';
+import { BossService } from './BossService';
+import { BossEncounterRules } from './BossEncounterRules';
+import { LootService } from './LootService';
+import { ThreatTracker } from './ThreatTracker';
+import { ZoneService } from './ZoneService';
+import { MovementService } from './MovementService';
+import { DeathService } from './DeathService';
+import { PartyService } from './PartyService';
+import { ZoneInstanceService } from './ZoneInstanceService';
+import { CombatAnalyticsService } from './CombatAnalyticsService';
+import { CombatRecoveryRules } from './CombatRecoveryRules';
+import { WeatherRules } from './WeatherRules';
 import { getErrorMessage } from '../utils/errorUtils';
+import { distributedLock } from '../utils/distributedLock';
+import { RandomSource } from '../utils/random';
+import {
   CombatSession,
   CombatParticipant,
   CombatAction,
   CombatActionRequest,
   CombatActionResult,
+  CombatFleeResult,
   CombatStats,
   CreateCombatSessionDto,
   CreateCombatParticipantDto,
   CombatType,
   CombatStatus,
+  CombatSide,
+  ParticipantType,
   ParticipantStatus,
   ActionType,
   CombatValidation,
   CombatErrorCode,
   CombatStartEvent,
   CombatUpdateEvent,
+  CombatTurnTimeoutEvent,
+  CombatStateEvent,
   CombatEndEvent,
   CombatEndReason,
+  CombatRecoveryReport,
   CombatRewards,
+  RewardItem,
+  CombatRatingChange,
   StatusEffect,
   StatusEffectType,
+  StatusEffectTick,
+  CombatActionTarget,
+  CharacterCombatStats,
+  DamageType,
+  Resistances,
+  AttackRollInputs,
+  AbilityRollInputs,
+  CombatRollInputs,
+  CombatReplay,
+  CombatJoinResult,
+  CombatSpectateResult,
   COMBAT_CONSTANTS
 } from '../types/combat.types';
+import { Ability, AbilityTargeting, ABILITY_CONSTANTS } from '../types/ability.types';
+import { WeatherCombatModifiers, WORLD_CONSTANTS } from '../types/world.types';
+import { DUEL_CONSTANTS } from '../types/duel.types';
+import { BossTransition, CombatBossAbilityEvent, CombatBossPhaseEvent } from '../types/boss.types';
+import { CharacterLootDrop, LootDrop, LootSource, LootWindowEvent, LOOT_CONSTANTS } from '../types/loot.types';
+import { AFFINITY_CONSTANTS } from '../types/affinity.types';
 
 export class CombatService {
   private db: Pool;
@@ -40,6 +93,30 @@ export class CombatService {
   private realtimeService: RealtimeService;
   private equipmentService: EquipmentService;
   private affinityService: AffinityService;
+  private turnScheduler: CombatTurnScheduler;
+  private statusEffectEngine: StatusEffectEngine;
+  private abilityService: AbilityService;
+  private monsterService: MonsterService;
+  private monsterAI: MonsterAI;
+  private combatRolls: CombatRolls;
+  private combatFormulas: CombatFormulas;
+  private replayService: CombatReplayService;
+  private rewardCalculator: CombatRewardCalculator;
+  private progressionService: ProgressionService;
+  private pvpService: PvpService;
+  private arenaRatingService: ArenaRatingService;
+  private zoneService: ZoneService;
+  private weatherRules: WeatherRules;
+  private movementService: MovementService;
+  private bossService: BossService;
+  private bossRules: BossEncounterRules;
+  private lootService: LootService;
+  private threatTracker: ThreatTracker;
+  private deathService: DeathService;
+  private partyService: PartyService;
+  private instanceService: ZoneInstanceService;
+  private analyticsService: CombatAnalyticsService;
+  private recoveryRules: CombatRecoveryRules;
 
   constructor(
     db: Pool,
@@ -52,12 +129,114 @@ export class CombatService {
     this.realtimeService = realtimeService;
     this.equipmentService = new EquipmentService(db);
     this.affinityService = affinityService;
+    this.statusEffectEngine = new StatusEffectEngine();
+    this.abilityService = new AbilityService(db, cacheManager);
+    this.monsterService = new MonsterService(db, cacheManager);
+    this.threatTracker = new ThreatTracker();
+    this.monsterAI = new MonsterAI(this.statusEffectEngine, this.threatTracker);
+    this.combatRolls = new CombatRolls();
+    this.combatFormulas = new CombatFormulas();
+    this.replayService = new CombatReplayService(db, this.combatRolls);
+    this.rewardCalculator = new CombatRewardCalculator();
+    this.progressionService = new ProgressionService(db, cacheManager);
+    this.pvpService = new PvpService(db);
+    this.arenaRatingService = new ArenaRatingService(db);
+    this.zoneService = new ZoneService(db, cacheManager);
+    this.weatherRules = new WeatherRules();
+    this.movementService = new MovementService(db, this.zoneService, cacheManager, realtimeService);
+    this.bossRules = new BossEncounterRules();
+    this.bossService = new BossService(db, cacheManager, this.bossRules);
+    this.lootService = new LootService(db, cacheManager);
+    this.deathService = new DeathService(db, cacheManager, realtimeService);
+    this.partyService = new PartyService(db, realtimeService);
+    this.instanceService = new ZoneInstanceService(db, cacheManager, this.monsterService);
+    this.analyticsService = new CombatAnalyticsService(db);
+    this.recoveryRules = new CombatRecoveryRules();
+    this.turnScheduler = new CombatTurnScheduler(
+      (sessionId, turnKey) => this.handleTurnTimeout(sessionId, turnKey),
+      COMBAT_CONSTANTS.TURN_TIMER_POLL_INTERVAL,
+      sessionId => this.runAiTurns(sessionId)
+    );
+  }
+
+  /**
+   * Start resolving expired turns. Deadlines live in Redis, so turns that
+   * expired while the server was down are resolved on the first poll.
+   */
+  startTurnTimers(): void {
+    this.turnScheduler.start();
+  }
+
+  /**
+   * Stop resolving expired turns (graceful shutdown)
+   */
+  stopTurnTimers(): void {
+    this.turnScheduler.stop();
+  }
+
+  /**
+   * Pick up the fights a restart left unfinished. Run once on startup, before
+   * startTurnTimers(): long-idle fights are cancelled as a draw, the rest get their
+   * turn deadline rebuilt and wait for their players to reconnect.
+   */
+  async recoverSessions(now: Date = new Date()): Promise<CombatRecoveryReport> {
+    const report: CombatRecoveryReport = { resumed: [], cancelled: [], failed: [] };
+
+    const client = await this.db.connect();
+    let rows: any[];
+    try {
+      const result = await client.query(`
+        SELECT cs.*, GREATEST(cs.started_at, cs.updated_at, MAX(cal.created_at)) AS last_activity_at
+        FROM combat_sessions cs
+        LEFT JOIN combat_actions_log cal ON cal.session_id = cs.id
+        WHERE cs.status IN ('waiting', 'active', 'paused')
+        GROUP BY cs.id
+      `);
+      rows = result.rows;
+    } finally {
+      client.release();
+    }
+
+    for (const row of rows) {
+      const session = this.mapSessionRow(row);
+      try {
+        const plan = this.recoveryRules.planRecovery(session, new Date(row.last_activity_at), now);
+        if (plan.action === 'cancel') {
+          await this.endEncounter(session.id, undefined, CombatEndReason.CANCELLED);
+          report.cancelled.push(session.id);
+          continue;
+        }
+
+        if (plan.turnDeadline) {
+          await this.db.query(`
+            UPDATE combat_sessions SET turn_deadline = $2 WHERE id = $1
+          `, [session.id, plan.turnDeadline]);
+          await this.scheduleTurnDeadline({ ...session, turnDeadline: plan.turnDeadline });
+        }
+        await this.clearCombatCache(session.id);
+        report.resumed.push(session.id);
+      } catch (error) {
+        report.failed.push(session.id);
+        logger.error('Failed to recover combat session', {
+          sessionId: session.id,
+          error: getErrorMessage(error)
+        });
+      }
+    }
+
+    logger.info('Combat sessions recovered', {
+      resumed: report.resumed.length,
+      cancelled: report.cancelled.length,
+      failed: report.failed.length
+    });
+
+    return report;
   }
 
   /**
    * Start a new combat encounter
    */
-  async startEncounter(req: Request, res: Response): Promise<void> {
+  async startEncounter(sessionData: CreateCombatSessionDto): Promise<CombatSession> {
     const client = await this.db.connect();
     
     try {
@@ -65,18 +244,34 @@ export class CombatService {
 
       // Validate participants are not already in combat
       for (const participant of sessionData.participants) {
+        if (participant.monsterTemplateId) {
+          continue; // Monsters are spawned fresh for every encounter
+        }
+
         const existingCombat = await this.getActiveCombatForCharacter(participant.characterId);
         if (existingCombat) {
           throw new Error(`Character ${participant.characterId} is already in combat`);
         }
+
+        if (await this.deathService.isDead(participant.characterId)) {
+          throw new Error(`Character ${participant.characterId} is dead`);
+        }
+      }
+
+      // Players only fight each other where the zone allows it
+      if (sessionData.sessionType === CombatType.PVP || sessionData.sessionType === CombatType.DUEL) {
+        const restriction = await this.pvpService.getZoneRestriction(sessionData.zoneId, sessionData.sessionType);
+        if (restriction) {
+          throw new Error(restriction.message);
+        }
       }
 
       // Create combat session
       const sessionResult = await client.query(`
         INSERT INTO combat_sessions (
           session_type, status, initiator_id, target_id, zone_id,
-          turn_order, current_turn, turn_number
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          turn_order, current_turn, turn_number, rng_seed, allow_spectators
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         RETURNING *
       `, [
         sessionData.sessionType,
@@ -86,24 +281,44 @@ export class CombatService {
         sessionData.zoneId,
         [],
         0,
-        1;
+        1,
+        randomInt(0, 0xffffffff),
+        sessionData.allowSpectators ?? sessionData.sessionType === CombatType.ARENA
       ]);
 
       const session: CombatSession = this.mapSessionRow(sessionResult.rows[0]);
+      const initiativeRandom = CombatRolls.createRandom(session.rngSeed, 'initiative');
 
       // Create participants and calculate initiative
       const participants: CombatParticipant[] = [];
       for (let i = 0; i < sessionData.participants.length; i++) {
         const participantData = sessionData.participants[i];
-        const characterStats = await this.getCharacterCombatStats(participantData?.characterId);
+        if (!participantData) {
+          continue;
+        }
+
+        const template = participantData.monsterTemplateId ?
+          await this.monsterService.getTemplate(participantData.monsterTemplateId) : null;
+        if (participantData.monsterTemplateId && !template) {
+          throw new Error(`Monster template ${participantData.monsterTemplateId} not found`);
+        }
+
+        const characterStats = template ?
+          this.monsterService.scaleStats(template, participantData.monsterLevel ?? template.baseLevel) :
+          await this.getCharacterCombatStats(participantData.characterId);
         
-        const initiative = this.calculateInitiative(characterStats.dexterity, characterStats.level);
+        const initiative = this.combatRolls.rollInitiative(
+          characterStats.dexterity,
+          characterStats.level,
+          initiativeRandom
+        );
         
         const participantResult = await client.query(`
           INSERT INTO combat_participants (
             session_id, character_id, participant_type, side, initiative, position,
-            current_hp, max_hp, current_mp, max_mp, status
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            current_hp, max_hp, current_mp, max_mp, status,
+            monster_template_id, monster_level, immunities, resistances
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
           RETURNING *
         `, [
           session.id,
@@ -116,7 +331,11 @@ export class CombatService {
           characterStats.hp,
           characterStats.mp,
           characterStats.mp,
-          'alive';
+          'alive',
+          template?.id ?? null,
+          template ? characterStats.level : null,
+          JSON.stringify(template?.immunities ?? []),
+          JSON.stringify(template ? template.resistances : await this.getCharacterResistances(participantData.characterId))
         ]);
 
         participants.push(this.mapParticipantRow(participantResult.rows[0]));
@@ -124,28 +343,32 @@ export class CombatService {
 
       // Determine turn order based on initiative
       const turnOrder = participants
-        .sort((a, b) => b.initiative - a.initiative);
+        .sort((a, b) => b.initiative - a.initiative)
         .map(p => p.characterId);
 
-      // Update session with turn order and activate
+      // Update session with turn order, first turn deadline and activate
+      const turnDeadline = new Date(Date.now() + COMBAT_CONSTANTS.TURN_TIME_LIMIT);
       await client.query(`
         UPDATE combat_sessions 
-        SET turn_order = $1, status = $2, started_at = CURRENT_TIMESTAMP
-        WHERE id = $3
-      `, [turnOrder, 'active', session.id]);
+        SET turn_order = $1, status = $2, started_at = CURRENT_TIMESTAMP, turn_deadline = $3
+        WHERE id = $4
+      `, [turnOrder, 'active', turnDeadline, session.id]);
 
       session.turnOrder = turnOrder;
       session.status = 'active' as CombatStatus;
       session.startedAt = new Date();
+      session.turnDeadline = turnDeadline;
 
       await client.query('COMMIT');
 
+      await this.scheduleTurnDeadline(session);
+
       // Clear cache and broadcast start
       await this.clearCombatCache(session.id);
       await this.broadcastCombatStart(session, participants);
 
       // Update character status to 'combat'
-      for (const participant of participants) {
+      for (const participant of participants.filter(p => !p.monsterTemplateId)) {
         await this.updateCharacterCombatStatus(participant.characterId, 'combat');
       }
 
@@ -156,6 +379,9 @@ export class CombatService {
         turnOrder
       });
 
+      // Monsters that won initiative act straight away
+      await this.runAiTurns(session.id);
+
       return session;
     } catch (error) {
       await client.query('ROLLBACK');
@@ -170,10 +396,258 @@ export class CombatService {
   }
 
   /**
-   * Perform a combat action
+   * Start a PVE encounter against monsters generated from the zone's spawn table, or
+   * against the next living group of the character's instance
+   * @returns null when the spawn table has nothing for the character's level, or the instance is cleared
+   */
+  async startMonsterEncounter(characterId: string, zoneId: string): Promise<CombatSession | null> {
+    const characterStats = await this.getCharacterCombatStats(characterId);
+    const location = await this.movementService.getCharacterLocation(characterId);
+    const monsters = location?.instanceId
+      ? await this.instanceService.getNextEncounter(location.instanceId)
+      : await this.monsterService.generateEncounter(zoneId, characterStats.level);
+
+    if (monsters.length === 0) {
+      return null;
+    }
+
+    const isBossFight = monsters.some(monster => monster.template.participantType === ParticipantType.BOSS);
+
+    return this.startEncounter({
+      sessionType: isBossFight ? CombatType.BOSS : CombatType.PVE,
+      initiatorId: characterId,
+      zoneId,
+      participants: [
+        {
+          characterId,
+          participantType: ParticipantType.PLAYER,
+          side: CombatSide.ATTACKERS,
+          position: 0
+        },
+        ...this.monsterService.buildParticipants(monsters, CombatSide.DEFENDERS, 1)
+      ]
+    });
+  }
+
+  /**
+   * A party member of the fight's initiator joins an active PVE or boss fight in their zone instance on the players' side.
+   * The newcomer rolls initiative and the turn order is re-sorted around the current actor.
+   * Takes the session lock, so a join never rewrites the turn order under an action or an expiring turn.
+   */
+  async joinEncounter(sessionId: string, characterId: string): Promise<CombatJoinResult> {
+    return distributedLock.withLock(
+      CombatTurnScheduler.buildLockKey(sessionId),
+      COMBAT_CONSTANTS.SESSION_LOCK_TTL,
+      () => this.addToEncounter(sessionId, characterId)
+    );
+  }
+
+  /**
+   * Add a character to a running fight; the caller holds the session lock
+   */
+  private async addToEncounter(sessionId: string, characterId: string): Promise<CombatJoinResult> {
+    await this.clearCombatCache(sessionId);
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        message: 'Combat session not found',
+        error: CombatErrorCode.COMBAT_NOT_FOUND
+      };
+    }
+
+    if (session.status !== CombatStatus.ACTIVE ||
+        (session.sessionType !== CombatType.PVE && session.sessionType !== CombatType.BOSS)) {
+      return {
+        success: false,
+        message: 'Only active PVE and boss fights can be joined',
+        error: CombatErrorCode.SESSION_NOT_JOINABLE
+      };
+    }
+
+    const participants = await this.getSessionParticipants(sessionId);
+    if (participants.some(p => p.characterId === characterId)) {
+      return {
+        success: false,
+        message: 'Character has already taken part in this fight',
+        error: CombatErrorCode.ALREADY_IN_COMBAT
+      };
+    }
+
+    const existingCombat = await this.getActiveCombatForCharacter(characterId);
+    if (existingCombat) {
+      return {
+        success: false,
+        message: 'Character is already in combat',
+        error: CombatErrorCode.ALREADY_IN_COMBAT
+      };
+    }
+
+    if (await this.deathService.isDead(characterId)) {
+      return {
+        success: false,
+        message: 'The dead cannot fight',
+        error: CombatErrorCode.CHARACTER_DEAD
+      };
+    }
+
+    if (!(await this.partyService.areInSameParty(session.initiatorId, characterId))) {
+      return {
+        success: false,
+        message: 'Only members of the party that started this fight can join it',
+        error: CombatErrorCode.NOT_IN_PARTY
+      };
+    }
+
+    // Sessions record only the zone; the initiator cannot leave the fight's instance mid-fight
+    const locationResult = await this.db.query(`
+      SELECT joiner.zone_id, joiner.instance_id IS NOT DISTINCT FROM initiator.instance_id AS same_instance
+      FROM character_locations joiner, character_locations initiator
+      WHERE joiner.character_id = $1 AND initiator.character_id = $2
+    `, [characterId, session.initiatorId]);
+    const location = locationResult.rows[0];
+    if (location?.zone_id !== session.zoneId || !location.same_instance) {
+      return {
+        success: false,
+        message: 'Character must be in the same zone instance as the fight',
+        error: CombatErrorCode.ZONE_MISMATCH
+      };
+    }
+
+    const side = participants.find(p => p.characterId === session.initiatorId)?.side ?? CombatSide.ATTACKERS;
+    const present = participants.filter(p => p.status !== ParticipantStatus.FLED);
+    if (present.length >= COMBAT_CONSTANTS.MAX_PARTICIPANTS ||
+        present.filter(p => p.side === side).length >= COMBAT_CONSTANTS.MAX_PARTICIPANTS_PER_SIDE) {
+      return {
+        success: false,
+        message: 'That side of the fight is full',
+        error: CombatErrorCode.SIDE_FULL
+      };
+    }
+
+    const client = await this.db.connect();
+    let participant: CombatParticipant;
+    let turnMoved = false;
+    try {
+      await client.query('BEGIN');
+
+      const characterStats = await this.getCharacterCombatStats(characterId);
+      const initiative = this.combatRolls.rollInitiative(
+        characterStats.dexterity,
+        characterStats.level,
+        CombatRolls.createRandom(session.rngSeed, 'initiative', characterId)
+      );
+
+      const participantResult = await client.query(`
+        INSERT INTO combat_participants (
+          session_id, character_id, participant_type, side, initiative, position,
+          current_hp, max_hp, current_mp, max_mp, status, resistances
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *
+      `, [
+        sessionId,
+        characterId,
+        ParticipantType.PLAYER,
+        side,
+        initiative,
+        participants.length,
+        characterStats.hp,
+        characterStats.hp,
+        characterStats.mp,
+        characterStats.mp,
+        'alive',
+        JSON.stringify(await this.getCharacterResistances(characterId))
+      ]);
+      participant = this.mapParticipantRow(participantResult.rows[0]);
+
+      // Re-sort by initiative, keeping the turn with whoever is acting right now
+      const initiatives = new Map(
+        [...participants, participant].map(p => [p.characterId, this.statusEffectEngine.getEffectiveInitiative(p)])
+      );
+      const currentActor = session.turnOrder[session.currentTurn];
+      const turnOrder = [...session.turnOrder, characterId].sort(
+        (a, b) => (initiatives.get(b) ?? 0) - (initiatives.get(a) ?? 0)
+      );
+      const currentTurn = currentActor ? turnOrder.indexOf(currentActor) : 0;
+
+      await client.query(`
+        UPDATE combat_sessions SET turn_order = $1, current_turn = $2 WHERE id = $3
+      `, [turnOrder, currentTurn, sessionId]);
+
+      await client.query('COMMIT');
+
+      turnMoved = currentTurn !== session.currentTurn;
+      session.turnOrder = turnOrder;
+      session.currentTurn = currentTurn;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to join combat encounter', {
+        sessionId,
+        characterId,
+        error: getErrorMessage(error)
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await this.updateCharacterCombatStatus(characterId, 'combat');
+    await this.clearCombatCache(sessionId);
+
+    // The current actor keeps their deadline; it is only re-keyed when their place in the order moved
+    if (turnMoved) {
+      await this.scheduleTurnDeadline(session);
+    }
+
+    logger.info('Character joined combat encounter', {
+      sessionId,
+      characterId,
+      side,
+      turnOrder: session.turnOrder
+    });
+
+    return {
+      success: true,
+      message: 'Joined combat',
+      participant,
+      session
+    };
+  }
+
+  /**
+   * Perform a combat action. Takes the session lock the turn scheduler holds while it
+   * resolves a timeout, so a player's action and an expiring turn never both play the same turn.
+   * Monster turns that follow are played once the lock is released.
+   */
+  async performAction(
+    sessionId: string,
+    actorId: string,
+    actionRequest: CombatActionRequest
+  ): Promise<CombatActionResult> {
+    const result = await distributedLock.withLock(
+      CombatTurnScheduler.buildLockKey(sessionId),
+      COMBAT_CONSTANTS.SESSION_LOCK_TTL,
+      () => this.resolveAction(sessionId, actorId, actionRequest)
+    );
+
+    if (result.success && !result.combatEnded) {
+      await this.runAiTurns(sessionId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve a combat action; the caller holds the session lock
    */
-  async performAction(req: Request, res: Response): Promise<void> {
+  private async resolveAction(
+    sessionId: string,
+    actorId: string,
+    actionRequest: CombatActionRequest,
+    options: { timedOut?: boolean } = {}
+  ): Promise<CombatActionResult> {
     const client = await this.db.connect();
+    let committed = false;
     
     try {
       await client.query('BEGIN');
@@ -184,7 +658,7 @@ export class CombatService {
         return {
           success: false,
           message: validation.errorMessage || 'Action not allowed',
-          error: validation.errorCode};
+          ...(validation.errorCode && { error: validation.errorCode })};
       }
 
       const session = await this.getSession(sessionId);
@@ -199,18 +673,25 @@ export class CombatService {
       const actionResult = await this.calculateActionResult(
         sessionId,
         actorId,
-        actionRequest;
+        actionRequest
       );
 
+      // Shields soak the hit and the action's status effect lands (or is resisted)
+      await this.resolveActionStatusEffects(client, sessionId, actorId, actionResult);
+
+      // Duels stop short of a kill
+      const duelHits = session.sessionType === CombatType.DUEL ?
+        await this.applyDuelDamageCap(sessionId, actionResult) : [];
+
       // Process the action using stored procedure
       const actionId = await client.query(`;
         SELECT process_combat_action($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13);
       `, [
         sessionId,
         actorId,
-        actionRequest.targetId,
+        actionResult.targetId,
         actionRequest.actionType,
-        actionRequest.actionName,
+        actionResult.actionName,
         actionResult.damage || 0,
         actionResult.healing || 0,
         actionResult.mpCost || 0,
@@ -221,26 +702,114 @@ export class CombatService {
         actionResult.description
       ]);
 
+      const loggedActionIds: string[] = [actionId.rows[0]?.process_combat_action];
+
+      // Area abilities resolve against every other target; MP is only spent once
+      for (const extraTarget of actionResult.additionalTargets || []) {
+        const extraActionId = await client.query(`
+          SELECT process_combat_action($1, $2, $3, $4, $5, $6, $7, 0, $8, FALSE, FALSE, $9, $10)
+        `, [
+          sessionId,
+          actorId,
+          extraTarget.targetId,
+          actionRequest.actionType,
+          actionResult.actionName,
+          extraTarget.damage,
+          extraTarget.healing,
+          extraTarget.isCritical,
+          extraTarget.statusEffectsApplied[0],
+          actionResult.description
+        ]);
+        loggedActionIds.push(extraActionId.rows[0]?.process_combat_action);
+      }
+
+      // Record the turn slot and roll inputs so the replay can re-run this action,
+      // and the damage type and amount each target resisted
+      await client.query(`
+        UPDATE combat_actions_log l
+        SET turn_index = $1, roll_inputs = $2, damage_type = $3, resisted = r.resisted
+        FROM unnest($4::uuid[], $5::int[]) AS r(id, resisted)
+        WHERE l.id = r.id
+      `, [
+        session.currentTurn,
+        actionResult.rollInputs ? JSON.stringify(actionResult.rollInputs) : null,
+        actionResult.damageType ?? null,
+        loggedActionIds,
+        [actionResult.resisted ?? 0, ...(actionResult.additionalTargets || []).map(target => target.resisted ?? 0)]
+      ]);
+
+      // A duelist brought down to the defeat threshold is out of the fight
+      if (duelHits.length > 0) {
+        await client.query(`
+          UPDATE combat_participants SET status = $1
+          WHERE session_id = $2 AND status = 'alive' AND current_hp <= $3
+            AND character_id = ANY($4::uuid[])
+        `, [ParticipantStatus.INCAPACITATED, sessionId, DUEL_CONSTANTS.DEFEAT_HP, duelHits]);
+      }
+
+      await this.recordActionCooldown(client, sessionId, actorId, actionResult);
+      await this.recordThreat(client, sessionId, actionResult);
+
+      // A successful flee takes the actor out of the fight; a failed one has cost the turn
+      if (actionResult.fled) {
+        await client.query(`
+          UPDATE combat_participants SET status = $1, left_at = CURRENT_TIMESTAMP
+          WHERE session_id = $2 AND character_id = $3
+        `, [ParticipantStatus.FLED, sessionId, actorId]);
+      }
+
+      // A deliberate action clears the actor's AFK streak
+      if (!options.timedOut) {
+        await client.query(`
+          UPDATE combat_participants SET consecutive_timeouts = 0
+          WHERE session_id = $1 AND character_id = $2
+        `, [sessionId, actorId]);
+      }
+
+      // Commit the action before the turn moves on: advancing the turn, ticking status
+      // effects and ending the fight update these participants on their own connections
+      await client.query('COMMIT');
+      committed = true;
+
       // Get updated participants
-      const participants = await this.getSessionParticipants(sessionId);
+      let participants = await this.getSessionParticipants(sessionId);
 
       // Check for combat end conditions
       const combatEndCheck = this.checkCombatEndConditions(participants);
       let combatEnded = false;
       let winner: string | undefined;
+      let endReason = combatEndCheck.reason;
+      let statusTicks: StatusEffectTick[] = [];
 
       if (combatEndCheck.ended) {
         combatEnded = true;
         winner = combatEndCheck.winner;
-        
-        await this.endEncounter(sessionId, winner, combatEndCheck.reason);
+        if (actionResult.fled) {
+          endReason = CombatEndReason.FLEE;
+        }
+
+        await this.endEncounter(sessionId, winner, endReason);
       } else {
-        // Advance turn
-        await this.advanceTurn(sessionId);
+        // Advance turn, ticking the next actor's status effects
+        const turnStart = await this.advanceToNextActor(sessionId);
+        statusTicks = turnStart.ticks;
+
+        if (statusTicks.length > 0) {
+          participants = await this.getSessionParticipants(sessionId);
+        }
+
+        if (turnStart.ended) {
+          combatEnded = true;
+          winner = turnStart.winner;
+          endReason = turnStart.reason;
+
+          await this.endEncounter(sessionId, winner, endReason);
+        }
       }
 
-      // Award affinity experience for the action
-      if (actionResult.damage > 0 || actionResult.healing > 0) {
+      // Award affinity experience for the action (monsters have no affinities)
+      const isMonsterActor = participants.some(p => p.characterId === actorId && p.monsterTemplateId);
+      if (!isMonsterActor && (actionResult.damage > 0 || actionResult.healing > 0)) {
         try {
           await this.affinityService.awardCombatAffinityExp(
             actorId,
@@ -264,30 +833,42 @@ export class CombatService {
       const updatedSession = await this.getSession(sessionId);
       const nextTurn = combatEnded ? undefined : updatedSession?.turnOrder[updatedSession.currentTurn];
 
-      await client.query('COMMIT');
-
-      // Clear cache and broadcast update
+      // Clear cache and broadcast update (timeouts are announced by handleTurnTimeout)
       await this.clearCombatCache(sessionId);
-      await this.broadcastCombatUpdate(sessionId, actionResult, participants, nextTurn || '');
+      if (!options.timedOut) {
+        await this.broadcastCombatUpdate(sessionId, actionResult, participants, nextTurn || '', 'combat:update', {
+          statusTicks
+        });
+
+        if (!combatEnded) {
+          await this.advanceBossPhases(sessionId);
+        }
+      }
 
       // If combat ended, broadcast end event
       if (combatEnded && winner) {
         const stats = await this.getCombatStatistics(sessionId);
         const rewards = await this.calculateRewards(sessionId, winner);
-        await this.broadcastCombatEnd(sessionId, winner, combatEndCheck.reason, stats, rewards);
+        await this.broadcastCombatEnd(sessionId, winner, endReason, stats, rewards);
       }
 
+      const flee = actionResult.fled && !isMonsterActor ? await this.resolveFlee(session, actorId) : undefined;
+
       return {
         success: true,
         action: actionResult,
+        ...(flee && { flee }),
         message: actionResult.description,
-        nextTurn,
+        statusTicks,
+        ...(nextTurn && { nextTurn }),
         combatEnded,
-        winner
+        ...(winner && { winner })
       };
 
     } catch (error) {
-      await client.query('ROLLBACK');
+      if (!committed) {
+        await client.query('ROLLBACK');
+      }
       logger.error('Failed to perform combat action', {
         sessionId,
         actorId,
@@ -303,7 +884,7 @@ export class CombatService {
   /**
    * Get combat session by ID
    */
-  async getSession(req: Request, res: Response): Promise<void> {
+  async getSession(sessionId: string): Promise<CombatSession | null> {
     const cacheKey = `combat:session:${sessionId}`;
     const cached = await this.cacheManager.get<CombatSession>(cacheKey);
     
@@ -331,10 +912,12 @@ export class CombatService {
   }
 
   /**
-   * End combat encounter
+   * End combat encounter. A cancelled fight is called off without a result:
+   * nobody is rewarded and nobody who fell in it dies.
    */
-  async endEncounter(req: Request, res: Response): Promise<void> {
+  async endEncounter(sessionId: string, winner: string | undefined, reason: CombatEndReason): Promise<void> {
     const client = await this.db.connect();
+    const cancelled = reason === CombatEndReason.CANCELLED;
     
     try {
       await client.query('BEGIN');
@@ -344,21 +927,57 @@ export class CombatService {
         UPDATE combat_sessions 
         SET status = $1, ended_at = CURRENT_TIMESTAMP, winner = $2
         WHERE id = $3
-      `, ['ended', winner, sessionId]);
+      `, [cancelled ? CombatStatus.CANCELLED : CombatStatus.ENDED, winner, sessionId]);
+
+      // Spectators stop watching once the fight is over
+      await client.query(`
+        UPDATE combat_spectators SET left_at = CURRENT_TIMESTAMP
+        WHERE session_id = $1 AND left_at IS NULL
+      `, [sessionId]);
 
       // Update all participants to remove from combat
       const participants = await this.getSessionParticipants(sessionId);
-      for (const participant of participants) {
-        await this.updateCharacterCombatStatus(participant.characterId, 'idle');`
-}
+      for (const participant of participants.filter(p => !p.monsterTemplateId)) {
+        await this.updateCharacterCombatStatus(participant.characterId, 'normal');
+      }
+
+      // Award experience and rewards if there's a winner; running away hands the fight to the other side
+      const session = await this.getSession(sessionId);
+      if (winner && (reason === CombatEndReason.VICTORY || reason === CombatEndReason.FLEE)) {
+        // Claim the boss lockouts first so concurrent kills cannot both pay out
+        if (session?.sessionType === CombatType.BOSS) {
+          await this.recordBossLockouts(client, sessionId, participants, winner);
+        }
 
-      // Award experience and rewards if there's a winner
-      if (winner && reason === CombatEndReason.VICTORY) {
-        await this.awardCombatRewards(sessionId, winner);
+        if (session) {
+          await this.pvpService.recordResult(client, session.sessionType, participants, winner);
+        }
+      }
+
+      // Keep each player's summary of the fight for combat analytics
+      if (session) {
+        await this.analyticsService.recordSession(client, session, participants, winner);
       }
 
       await client.query('COMMIT');
       await this.clearCombatCache(sessionId);
+      await this.turnScheduler.cancel(sessionId);
+
+      // Rewards are paid once the end is committed, so a rolled-back end pays nothing
+      if (winner && (reason === CombatEndReason.VICTORY || reason === CombatEndReason.FLEE)) {
+        try {
+          await this.awardCombatRewards(sessionId, winner);
+        } catch (error) {
+          logger.error('Failed to pay out combat rewards', { sessionId, error: getErrorMessage(error) });
+        }
+      }
+
+      if (session && !cancelled) {
+        await this.instanceService.recordMonsterDeaths(participants
+          .filter(p => p.monsterTemplateId && p.status === ParticipantStatus.DEAD)
+          .map(p => p.characterId));
+        await this.handleParticipantDeaths(session, participants);
+      }
 
       logger.info('Combat encounter ended', {
         sessionId,
@@ -375,10 +994,101 @@ export class CombatService {
     }
   }
 
+  /**
+   * Snapshot of a fight for `combat:state`, with every monster's threat table
+   */
+  async getCombatState(sessionId: string): Promise<CombatStateEvent | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const participants = await this.getSessionParticipants(sessionId);
+
+    return {
+      sessionId,
+      sessionType: session.sessionType,
+      status: session.status,
+      participants,
+      turnOrder: session.turnOrder,
+      currentTurn: session.turnOrder[session.currentTurn] || '',
+      turnNumber: session.turnNumber,
+      ...(session.status === CombatStatus.ACTIVE && session.turnDeadline && { turnDeadline: session.turnDeadline }),
+      threat: this.threatTracker.getThreatTables(participants),
+      spectatorCount: await this.getSpectatorCount(sessionId)
+    };
+  }
+
+  /**
+   * Start watching a fight read-only. Only sessions that allow spectators can be
+   * watched, and never by someone fighting in them.
+   */
+  async startSpectating(sessionId: string, characterId: string): Promise<CombatSpectateResult> {
+    const session = await this.getSession(sessionId);
+    if (!session || session.status === CombatStatus.ENDED || session.status === CombatStatus.CANCELLED) {
+      return {
+        success: false,
+        message: 'Combat session not found',
+        error: CombatErrorCode.COMBAT_NOT_FOUND
+      };
+    }
+
+    if (!session.allowSpectators) {
+      return {
+        success: false,
+        message: 'This fight does not allow spectators',
+        error: CombatErrorCode.SPECTATORS_NOT_ALLOWED
+      };
+    }
+
+    const participants = await this.getSessionParticipants(sessionId);
+    if (participants.some(p => p.characterId === characterId)) {
+      return {
+        success: false,
+        message: 'Character is fighting in this session',
+        error: CombatErrorCode.ALREADY_IN_COMBAT
+      };
+    }
+
+    await this.db.query(`
+      INSERT INTO combat_spectators (session_id, character_id)
+      VALUES ($1, $2)
+      ON CONFLICT (session_id, character_id)
+      DO UPDATE SET joined_at = CURRENT_TIMESTAMP, left_at = NULL
+    `, [sessionId, characterId]);
+
+    logger.debug('Spectator joined combat', { sessionId, characterId });
+
+    return { success: true, message: 'Now spectating', session };
+  }
+
+  async stopSpectating(sessionId: string, characterId: string): Promise<void> {
+    await this.db.query(`
+      UPDATE combat_spectators SET left_at = CURRENT_TIMESTAMP
+      WHERE session_id = $1 AND character_id = $2 AND left_at IS NULL
+    `, [sessionId, characterId]);
+  }
+
+  async isSpectating(sessionId: string, characterId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM combat_spectators WHERE session_id = $1 AND character_id = $2 AND left_at IS NULL',
+      [sessionId, characterId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async getSpectatorCount(sessionId: string): Promise<number> {
+    const result = await this.db.query(
+      'SELECT COUNT(*) AS count FROM combat_spectators WHERE session_id = $1 AND left_at IS NULL',
+      [sessionId]
+    );
+    return parseInt(result.rows[0]?.count ?? '0');
+  }
+
   /**
    * Get session participants
    */
-  async getSessionParticipants(req: Request, res: Response): Promise<void> {
+  async getSessionParticipants(sessionId: string): Promise<CombatParticipant[]> {
     const client = await this.db.connect();
     try {
       const result = await client.query(`
@@ -396,10 +1106,10 @@ export class CombatService {
   /**
    * Get combat statistics
    */
-  async getCombatStatistics(req: Request, res: Response): Promise<void> {
+  async getCombatStatistics(sessionId: string): Promise<CombatStats> {
     const client = await this.db.connect();
     try {
-      const result = await client.query(`;
+      const result = await client.query(`
         SELECT * FROM get_combat_statistics($1);
       `, [sessionId]);
 
@@ -418,6 +1128,7 @@ export class CombatService {
         misses: parseInt(stats.misses),
         statusEffectsApplied: parseInt(stats.status_effects_applied),
         turnsDuration: parseInt(stats.turns_duration),
+        spectatorCount: await this.getSpectatorCount(sessionId),
         participantStats: stats.participant_stats
       };
     } finally {
@@ -426,18 +1137,30 @@ export class CombatService {
   }
 
   /**
-   * Calculate initiative based on dexterity and level
+   * Re-simulate a session's logged actions from its seed and report any divergence
    */
-  private calculateInitiative(dexterity: number, level: number): number {
-    const baseInitiative = dexterity * 2 + level;
-    const randomBonus = Math.floor(Math.random() * 20) + 1; // 1d20
-    return baseInitiative + randomBonus;
+  async replaySession(session: CombatSession): Promise<CombatReplay> {
+    const replay = await this.replayService.replaySession(session.id, session.rngSeed);
+
+    if (!replay.verified) {
+      logger.warn('Combat replay diverged from the recorded outcome', {
+        sessionId: session.id,
+        mismatchCount: replay.mismatchCount
+      });
+    }
+
+    return replay;
   }
 
   /**
-   * Validate combat action
+   * Validate combat action. The socket anti-cheat also runs this before
+   * performing an action, to tell cheats apart from ordinary refusals.
    */
-  private async validateAction(req: Request, res: Response): Promise<void> {
+  async validateAction(
+    sessionId: string,
+    actorId: string,
+    actionRequest: CombatActionRequest
+  ): Promise<CombatValidation> {
     const session = await this.getSession(sessionId);
     if (!session) {
       return {
@@ -485,9 +1208,20 @@ export class CombatService {
       };
     }
 
+    // Spells, heals and specials are resolved from the ability catalog
+    const ability = this.isAbilityAction(actionRequest.actionType) ?
+      await this.abilityService.getAbility(actionRequest.spellId || actionRequest.actionName) : null;
+
+    if (this.isAbilityAction(actionRequest.actionType) && (!ability || ability.actionType !== actionRequest.actionType)) {
+      return {
+        canAct: false,
+        errorCode: CombatErrorCode.UNKNOWN_ABILITY,
+        errorMessage: 'Unknown ability'
+      };
+    }
+
     // Check action cooldown
-    const cooldownKey = actionRequest.actionType.toUpperCase() as keyof typeof COMBAT_CONSTANTS.ACTION_COOLDOWNS;
-    const cooldownDuration = COMBAT_CONSTANTS.ACTION_COOLDOWNS[cooldownKey];
+    const cooldownKey = ability ? ability.id : actionRequest.actionType.toUpperCase();
     
     if (actor.actionCooldowns[cooldownKey]) {
       const cooldownEnd = new Date(actor.actionCooldowns[cooldownKey]);
@@ -499,28 +1233,36 @@ export class CombatService {
           canAct: false,
           errorCode: CombatErrorCode.ACTION_ON_COOLDOWN,
           errorMessage: 'Action is on cooldown',
-          cooldownRemaining: Math.ceil(remainingMs / 1000);
+          cooldownRemaining: Math.ceil(remainingMs / 1000)
         };
       }
     }
 
-    // Check MP requirements for spells
-    if (actionRequest.actionType === 'spell') {
-      const mpCost = this.calculateMpCost(actionRequest.actionName);
-      if (actor.currentMp < mpCost) {
+    if (ability) {
+      // Check MP requirements
+      if (actor.currentMp < ability.manaCost) {
         return {
           canAct: false,
           errorCode: CombatErrorCode.INSUFFICIENT_MP,
           errorMessage: 'Insufficient MP',
-          requiredMp: mpCost
+          requiredMp: ability.manaCost
         };
       }
-    }
 
-    // Validate target if required
-    if (actionRequest.targetId && actionRequest.actionType !== 'heal') {
-      const target = participants.find(p => p.characterId === actionRequest.targetId);
-      if (!target) {
+      // Check affinity tier requirements (monster abilities come from their template)
+      if (!actor.monsterTemplateId && ability.affinityName && ability.requiredAffinityTier > AFFINITY_CONSTANTS.MIN_TIER) {
+        const tier = await this.affinityService.getAffinityTier(actorId, ability.affinityName);
+        if (tier < ability.requiredAffinityTier) {
+          return {
+            canAct: false,
+            errorCode: CombatErrorCode.AFFINITY_TIER_TOO_LOW,
+            errorMessage: `Requires ${ability.affinityName} affinity tier ${ability.requiredAffinityTier}`
+          };
+        }
+      }
+
+      if (ability.targeting === AbilityTargeting.SINGLE &&
+          this.abilityService.resolveTargets(ability, actor, participants, actionRequest.targetId).length === 0) {
         return {
           canAct: false,
           errorCode: CombatErrorCode.INVALID_TARGET,
@@ -528,7 +1270,21 @@ export class CombatService {
         };
       }
 
-      if (target.status === 'dead') {
+      return { canAct: true };
+    }
+
+    // Validate target if required
+    if (actionRequest.targetId) {
+      const target = participants.find(p => p.characterId === actionRequest.targetId);
+      if (!target) {
+        return {
+          canAct: false,
+          errorCode: CombatErrorCode.INVALID_TARGET,
+          errorMessage: 'Invalid target'
+        };
+      }
+
+      if (target.status === 'dead') {
         return {
           canAct: false,
           errorCode: CombatErrorCode.TARGET_DEAD,
@@ -543,76 +1299,86 @@ export class CombatService {
   /**
    * Calculate action result with damage, healing, and effects
    */
-  private async calculateActionResult(req: Request, res: Response): Promise<void> {
+  private async calculateActionResult(
+    sessionId: string,
+    actorId: string,
+    requestedAction: CombatActionRequest
+  ): Promise<CombatAction> {
     const participants = await this.getSessionParticipants(sessionId);
     const actor = participants.find(p => p.characterId === actorId);
-    const target = actionRequest.targetId ? ;
-      participants.find(p => p.characterId === actionRequest.targetId) : null;
 
     if (!actor) {
       throw new Error('Actor not found');
     }
 
-    const actorStats = await this.getCharacterCombatStats(actorId);
+    // A monster's untargeted attack or spell goes to whoever holds the most threat on it
+    const isOffensive = requestedAction.actionType === ActionType.ATTACK || requestedAction.actionType === ActionType.SPELL;
+    const threatTarget = !requestedAction.targetId && actor.monsterTemplateId && isOffensive ?
+      this.threatTracker.getTopThreat(actor, participants.filter(p => p.side !== actor.side)) : undefined;
+    const actionRequest = threatTarget ?
+      { ...requestedAction, targetId: threatTarget.characterId } : requestedAction;
+
+    const target = actionRequest.targetId ?
+      participants.find(p => p.characterId === actionRequest.targetId) : null;
+
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    // Each turn slot rolls from its own stream of the session seed, so the action can be replayed
+    const random = CombatRolls.createTurnRandom(session.rngSeed, session.turnNumber, session.currentTurn);
+
+    const actorStats = await this.getParticipantCombatStats(actor);
     let targetStats = null;
     if (target) {
-      targetStats = await this.getCharacterCombatStats(target.characterId);
+      targetStats = await this.getParticipantCombatStats(target);
     }
     
     let damage = 0;
-    let healing = 0;
-    let mpCost = 0;
+    const healing = 0;
+    const mpCost = 0;
     let isCritical = false;
     let isBlocked = false;
     let isMissed = false;
     let statusEffect: string | undefined;
     let description = '';
+    let rollInputs: CombatRollInputs | undefined;
+    let fled = false;
+    let damageType: DamageType | undefined;
+    let resisted = 0;
 
-    switch (actionRequest.actionType) {
-      case 'attack':
-        damage = await this.calculateAttackDamage(
-          actorId, 
-          actorStats.strength, 
-          targetStats?.vitality || 0,
-          actionRequest.actionName
-        );
-        isCritical = Math.random() < this.calculateCriticalChance(actorStats.dexterity);
-        if (isCritical) damage *= COMBAT_CONSTANTS.CRITICAL_DAMAGE_MULTIPLIER;
-        
-        isMissed = Math.random() < COMBAT_CONSTANTS.MISS_CHANCE;
-        if (isMissed) damage = 0;
-        
-        isBlocked = Math.random() < COMBAT_CONSTANTS.BLOCK_CHANCE;
-        if (isBlocked) damage = Math.floor(damage  * 0.3);
-        
-        description = this.generateActionDescription('attack', actor, target || null, damage, isCritical, isBlocked, isMissed);
-        break;
+    if (this.isAbilityAction(actionRequest.actionType)) {
+      return this.calculateAbilityResult(session, actor, participants, actorStats, actionRequest, random);
+    }
 
-      case 'spell':
-        mpCost = this.calculateMpCost(actionRequest.actionName);
-        damage = await this.calculateSpellDamage(
-          actorId,
-          actorStats.intelligence, 
-          actorStats.level, 
-          actionRequest.actionName
-        );
-        isCritical = Math.random() < this.calculateCriticalChance(actorStats.dexterity) * 1.5; // Spells have higher crit chance
-        if (isCritical) damage *= COMBAT_CONSTANTS.CRITICAL_DAMAGE_MULTIPLIER;
-        
-        statusEffect = this.determineStatusEffect(actionRequest.actionName);
-        description = this.generateActionDescription('spell', actor, target || null, damage, isCritical, false, false, statusEffect);
-        break;
+    switch (actionRequest.actionType) {
+      case 'attack': {
+        damageType = (await this.equipmentService.getEquippedWeapon(actorId))?.damageType ?? DamageType.PHYSICAL;
+        const weather = await this.getWeatherModifiers(session.zoneId);
+        rollInputs = {
+          kind: 'attack',
+          baseDamage: await this.calculateAttackDamage(
+            actorId,
+            actorStats.strength,
+            targetStats?.vitality || 0,
+            actionRequest.actionName
+          ),
+          critChance: this.combatRolls.calculateCriticalChance(actorStats.dexterity),
+          missChance: COMBAT_CONSTANTS.MISS_CHANCE + this.statusEffectEngine.getMissChanceBonus(actor) +
+            weather.missChanceBonus,
+          blockChance: COMBAT_CONSTANTS.BLOCK_CHANCE,
+          damageMultiplier: this.statusEffectEngine.getDamageMultiplier(actor) * (weather.damageMultipliers[damageType] ?? 1),
+          targetShield: this.getShieldValue(target),
+          damageType,
+          resistance: target ? this.statusEffectEngine.getResistance(target, damageType) : 0
+        };
+        ({ damage, isCritical, isMissed, isBlocked, resisted } = this.combatRolls.rollAttack(rollInputs, random));
 
-      case 'heal':
-        mpCost = this.calculateMpCost(actionRequest.actionName);
-        healing = await this.calculateHealingAmount(
-          actorId,
-          actorStats.wisdom, 
-          actorStats.level,
-          actionRequest.actionName
-        );
-        description = this.generateActionDescription('heal', actor, target || null, 0, false, false, false, undefined, healing);
+        description = this.generateActionDescription('attack', actor, target || null, damage, isCritical, isBlocked, isMissed) +
+          this.describeResisted(damageType, resisted);
         break;
+      }
 
       case 'defend':
         // Defend reduces incoming damage next turn (handled in status effects)
@@ -620,28 +1386,38 @@ export class CombatService {
         description = `${actor.characterId} takes a defensive stance.`;
         break;
 
-      case 'flee':
-        // Flee has a chance to succeed
-        const fleeSuccess = Math.random() < COMBAT_CONSTANTS.FLEE_CHANCE;
-        description = fleeSuccess ? 
+      case 'flee': {
+        // Every enemy still standing gives chase
+        const pursuers = participants.filter(p => p.side !== actor.side && p.status === ParticipantStatus.ALIVE);
+        const pursuerStats = await Promise.all(pursuers.map(pursuer => this.getParticipantCombatStats(pursuer)));
+        rollInputs = {
+          kind: 'flee',
+          fleeChance: this.combatRolls.calculateFleeChance(
+            { dexterity: actorStats.dexterity, speed: this.statusEffectEngine.getSpeedMultiplier(actor) },
+            pursuers.map((pursuer, index) => ({
+              dexterity: pursuerStats[index]!.dexterity,
+              speed: this.statusEffectEngine.getSpeedMultiplier(pursuer)
+            }))
+          )
+        };
+        fled = this.combatRolls.rollFlee(rollInputs.fleeChance, random);
+        isMissed = !fled;
+
+        description = fled ?
           `${actor.characterId} successfully flees from combat!` :
           `${actor.characterId} fails to flee!`;
         break;
+      }
 
       default:
         description = `${actor.characterId} performs ${actionRequest.actionName}.`;
     }
 
-    const session = await this.getSession(sessionId);
-    if (!session) {
-      throw new Error('Session not found');
-    }
-
     return {
       id: '', // Will be set by database
       sessionId,
       actorId,
-      targetId: actionRequest.targetId,
+      ...(actionRequest.targetId && { targetId: actionRequest.targetId }),
       actionType: actionRequest.actionType,
       actionName: actionRequest.actionName,
       damage,
@@ -650,17 +1426,38 @@ export class CombatService {
       isCritical,
       isBlocked,
       isMissed,
-      statusEffectApplied: statusEffect,
+      ...(statusEffect && { statusEffectApplied: statusEffect }),
+      ...(damageType && { damageType, resisted }),
+      ...(rollInputs && { rollInputs }),
+      ...(fled && { fled }),
       description,
       turnNumber: session.turnNumber,
-      createdAt: new Date();
+      createdAt: new Date()
     };
   }
 
   /**
-   * Helper methods for damage calculations
+   * How the weather and light in a fight's zone bend its rolls. Applied to the roll inputs,
+   * so replays reproduce the weather the fight was fought in.
+   */
+  private async getWeatherModifiers(zoneId: string): Promise<WeatherCombatModifiers> {
+    const zone = WORLD_CONSTANTS.WEATHER_AFFECTS_COMBAT ? await this.zoneService.getZoneById(zoneId) : null;
+    if (!zone) {
+      return { missChanceBonus: 0, damageMultipliers: {} };
+    }
+
+    return this.weatherRules.getCombatModifiers(await this.zoneService.getZoneConditions(zone));
+  }
+
+  /**
+   * Weapon attack damage before variance, crits and status modifiers
    */
-  private async calculateAttackDamage(req: Request, res: Response): Promise<void> {
+  private async calculateAttackDamage(
+    actorId: string,
+    strength: number,
+    targetVitality: number,
+    actionName: string
+  ): Promise<number> {
     const weaponCoef = await this.equipmentService.getWeaponCoefficient(actorId);
     
     // Get weapon affinity from action name mapping
@@ -680,14 +1477,14 @@ export class CombatService {
       }
     }
     
-    const baseDamage = Math.max(1, (strength  - targetVitality) * weaponCoef);
-    
-    // Apply affinity bonus (percentage increase)
-    const affinityMultiplier = 1 + (affinityBonus / 100);
-    const enhancedDamage = Math.floor(baseDamage  * affinityMultiplier);
-    
-    const variance = Math.floor(Math.random() * (enhancedDamage * COMBAT_CONSTANTS.DAMAGE_VARIANCE)) + 1;
-    return enhancedDamage + variance;
+    return this.combatFormulas.calculateAttackDamage(strength, targetVitality, weaponCoef, affinityBonus);
+  }
+
+  /**
+   * Remaining value of the shield that would soak the next hit
+   */
+  private getShieldValue(participant: CombatParticipant | null | undefined): number {
+    return participant?.statusEffects.find(e => e.type === StatusEffectType.SHIELD)?.value ?? 0;
   }
 
   /**
@@ -710,118 +1507,163 @@ export class CombatService {
   }
 
   /**
-   * Get magic affinity from spell name
+   * Resolve a spell, heal or special ability from the catalog against all of its targets
    */
-  private getMagicAffinityFromSpell(spellName: string): string | null {
-    const magicMap: Record<string, string> = {
-      'fireball': 'fire',
-      'heal': 'light',
-      'lightning_bolt': 'lightning',
-      'ice_shard': 'ice',
-      'stone_armor': 'earth',
-      'water_healing': 'water',
-      'shadow_strike': 'shadow',
-      'arcane_missile': 'arcane'
+  private async calculateAbilityResult(
+    session: CombatSession,
+    actor: CombatParticipant,
+    participants: CombatParticipant[],
+    actorStats: CharacterCombatStats,
+    actionRequest: CombatActionRequest,
+    random: RandomSource
+  ): Promise<CombatAction> {
+    const ability = await this.abilityService.getAbility(actionRequest.spellId || actionRequest.actionName);
+    if (!ability) {
+      throw new Error('Ability not found');
+    }
+
+    const isHeal = ability.actionType === ActionType.HEAL;
+    const damageType = isHeal || ability.basePower === 0 && Object.keys(ability.scaling).length === 0 ?
+      undefined : ability.damageType ?? DamageType.PHYSICAL;
+    const weatherMultiplier = damageType ?
+      (await this.getWeatherModifiers(session.zoneId)).damageMultipliers[damageType] ?? 1 : 1;
+    const rollInputs: AbilityRollInputs = {
+      kind: 'ability',
+      abilityId: ability.id,
+      basePower: await this.calculateAbilityPower(actor.characterId, actorStats, ability),
+      critChance: this.combatRolls.calculateCriticalChance(actorStats.dexterity) * ABILITY_CONSTANTS.SPELL_CRIT_MULTIPLIER,
+      damageMultiplier: isHeal ? 1 : this.statusEffectEngine.getDamageMultiplier(actor) * weatherMultiplier,
+      isHeal,
+      ...(damageType && { damageType }),
+      targets: this.abilityService
+        .resolveTargets(ability, actor, participants, actionRequest.targetId)
+        .map(target => ({
+          targetId: target.characterId,
+          shield: isHeal ? 0 : this.getShieldValue(target),
+          ...(damageType && { resistance: this.statusEffectEngine.getResistance(target, damageType) })
+        })),
+      statusEffects: ability.statusEffects.map(effect => ({ type: effect.type, chance: effect.chance }))
+    };
+
+    const outcomes: CombatActionTarget[] = this.combatRolls
+      .rollAbility(rollInputs, random)
+      .targets.map(target => ({
+        targetId: target.targetId,
+        damage: isHeal ? 0 : target.amount,
+        healing: isHeal ? target.amount : 0,
+        isCritical: target.isCritical,
+        statusEffectsApplied: target.statusEffectsApplied,
+        ...(damageType && { resisted: target.resisted })
+      }));
+
+    const [primary, ...additionalTargets] = outcomes;
+
+    return {
+      id: '', // Will be set by database
+      sessionId: session.id,
+      actorId: actor.characterId,
+      ...(primary && { targetId: primary.targetId }),
+      actionType: actionRequest.actionType,
+      actionName: ability.id,
+      damage: primary?.damage ?? 0,
+      healing: primary?.healing ?? 0,
+      mpCost: ability.manaCost,
+      isCritical: primary?.isCritical ?? false,
+      isBlocked: false,
+      isMissed: false,
+      ...(primary?.statusEffectsApplied[0] && { statusEffectApplied: primary.statusEffectsApplied[0] }),
+      statusEffectsApplied: primary?.statusEffectsApplied ?? [],
+      abilityId: ability.id,
+      ...(additionalTargets.length > 0 && { additionalTargets }),
+      ...(damageType && { damageType, resisted: primary?.resisted ?? 0 }),
+      rollInputs,
+      description: this.generateAbilityDescription(ability, actor, outcomes, damageType),
+      turnNumber: session.turnNumber,
+      createdAt: new Date()
     };
-    
-    return magicMap[spellName] || null;
   }
 
   /**
-   * Calculate critical hit chance based on dexterity
+   * Damage or healing of an ability before variance and crits: base power plus
+   * level and stat scaling, boosted by the caster's affinity tier
    */
-  private calculateCriticalChance(dexterity: number): number {
-    return COMBAT_CONSTANTS.BASE_CRITICAL_CHANCE + (dexterity / COMBAT_CONSTANTS.DEXTERITY_CRIT_FACTOR);
-  }
-
-  private async calculateSpellDamage(req: Request, res: Response): Promise<void> {
-    const baseDamage = intelligence * 1.5 + level;
-    const spellMultiplier = this.getSpellMultiplier(spellName);
-    
-    // Get magic affinity from spell name mapping
-    const magicAffinity = this.getMagicAffinityFromSpell(spellName);
+  private async calculateAbilityPower(
+    actorId: string,
+    actorStats: CharacterCombatStats,
+    ability: Ability
+  ): Promise<number> {
     let affinityBonus = 0;
-    
-    if (magicAffinity) {
+    if (ability.affinityName) {
       try {
-        affinityBonus = await this.affinityService.getAffinityBonus(actorId, magicAffinity);
+        affinityBonus = await this.affinityService.getAffinityBonus(actorId, ability.affinityName);
       } catch (error) {
         // Log error but continue without bonus
         logger.warn('Failed to get magic affinity bonus', {
           actorId,
-          magicAffinity,
-          error: error instanceof Error ? getErrorMessage(error) : 'Unknown error'
+          magicAffinity: ability.affinityName,
+          error: getErrorMessage(error)
         });
       }
     }
-    
-    // Apply affinity bonus (percentage increase)
-    const affinityMultiplier = 1 + (affinityBonus / 100);
-    const enhancedBaseDamage = Math.floor(baseDamage  * affinityMultiplier);
-    
-    const variance = Math.floor(Math.random() * (enhancedBaseDamage * 0.2)) + 1;
-    return Math.floor((enhancedBaseDamage + variance) * spellMultiplier);
+
+    return ability.actionType === ActionType.HEAL ?
+      this.combatFormulas.calculateHealingAmount(actorStats, ability, affinityBonus) :
+      this.combatFormulas.calculateSpellDamage(actorStats, ability, affinityBonus);
   }
 
-  private async calculateHealingAmount(req: Request, res: Response): Promise<void> {
-    const baseHealing = wisdom * 1.2 + level;
-    
-    // Get magic affinity from spell name mapping
-    const magicAffinity = this.getMagicAffinityFromSpell(spellName);
-    let affinityBonus = 0;
-    
-    if (magicAffinity) {
-      try {
-        affinityBonus = await this.affinityService.getAffinityBonus(actorId, magicAffinity);
-      } catch (error) {
-        // Log error but continue without bonus
-        logger.warn('Failed to get magic affinity bonus for healing', {
-          actorId,
-          magicAffinity,
-          error: error instanceof Error ? getErrorMessage(error) : 'Unknown error'
-        });
+  /**
+   * Spells, heals and specials are resolved from the ability catalog
+   */
+  private isAbilityAction(actionType: ActionType): boolean {
+    return actionType === ActionType.SPELL ||
+      actionType === ActionType.HEAL ||
+      actionType === ActionType.SPECIAL;
+  }
+
+  private generateAbilityDescription(
+    ability: Ability,
+    actor: CombatParticipant,
+    outcomes: CombatActionTarget[],
+    damageType?: DamageType
+  ): string {
+    const actorName = actor.characterId; // In real implementation, get character name
+    const totalDamage = outcomes.reduce((total, outcome) => total + outcome.damage, 0);
+    const totalHealing = outcomes.reduce((total, outcome) => total + outcome.healing, 0);
+
+    if (outcomes.length > 1) {
+      if (totalHealing > 0) {
+        return `${actorName} casts ${ability.name}, restoring ${totalHealing} HP across ${outcomes.length} allies.`;
       }
+      return `${actorName} casts ${ability.name}, dealing ${totalDamage} damage across ${outcomes.length} enemies!`;
     }
-    
-    // Apply affinity bonus (percentage increase)
-    const affinityMultiplier = 1 + (affinityBonus / 100);
-    const enhancedHealing = Math.floor(baseHealing  * affinityMultiplier);
-    
-    const variance = Math.floor(Math.random() * (enhancedHealing * 0.2)) + 1;
-    return Math.floor(enhancedHealing + variance);
-  }
-
-  private calculateMpCost(actionName: string): number {
-    const mpCosts: Record<string, number> = {
-      'fireball': 15,
-      'heal': 10,
-      'lightning': 12,
-      'shield': 8,
-      'poison': 6,
-      'greater_heal': 20
-    };
-    return mpCosts[actionName] || 5;
-  }
 
-  private getSpellMultiplier(spellName: string): number {
-    const multipliers: Record<string, number> = {
-      'fireball': 1.5,
-      'lightning': 1.3,
-      'poison': 0.8,
-      'heal': 1.0,
-      'shield': 0.5
-    };
-    return multipliers[spellName] || 1.0;
+    const outcome = outcomes[0];
+    if (!outcome) {
+      return `${actorName} casts ${ability.name}, but it finds no target.`;
+    }
+
+    const critical = outcome.isCritical ? ' Critical hit!' : '';
+    if (outcome.healing > 0) {
+      return `${actorName} casts ${ability.name} on ${outcome.targetId}, restoring ${outcome.healing} HP.${critical}`;
+    }
+    if (outcome.damage > 0) {
+      const damageText = damageType ? `${outcome.damage} ${damageType} damage` : `${outcome.damage} damage`;
+      return `${actorName} casts ${ability.name} on ${outcome.targetId} for ${damageText}.${critical}` +
+        this.describeResisted(damageType, outcome.resisted ?? 0);
+    }
+    return `${actorName} casts ${ability.name} on ${outcome.targetId}.`;
   }
 
-  private determineStatusEffect(spellName: string): string | undefined {
-    const effects: Record<string, string> = {
-      'fireball': 'burn',
-      'lightning': 'stun',
-      'poison': 'poison',
-      'freeze': 'freeze'
-    };
-    return effects[spellName];
+  /**
+   * Resist text appended to a hit, e.g. " (12 fire resisted)" or " (8 extra from frost vulnerability)"
+   */
+  private describeResisted(damageType: DamageType | undefined, resisted: number): string {
+    if (!damageType || resisted === 0) {
+      return '';
+    }
+    return resisted > 0 ?
+      ` (${resisted} ${damageType} resisted)` :
+      ` (${-resisted} extra from ${damageType} vulnerability)`;
   }
 
   private generateActionDescription(
@@ -865,10 +1707,29 @@ export class CombatService {
     return `${actorName} performs an action.`;
   }
 
+  /**
+   * Race resistances plus those of every equipped item
+   */
+  private async getCharacterResistances(characterId: string): Promise<Resistances> {
+    const result = await this.db.query(`
+      SELECT r.resistances
+      FROM characters c
+      JOIN races r ON r.id = c.race_id
+      WHERE c.id = $1
+    `, [characterId]);
+
+    const resistances: Resistances = { ...(result.rows[0]?.resistances || {}) };
+    const gear = await this.equipmentService.getGearResistances(characterId);
+    for (const [damageType, value] of Object.entries(gear) as Array<[DamageType, number]>) {
+      resistances[damageType] = (resistances[damageType] ?? 0) + value;
+    }
+    return resistances;
+  }
+
   /**
    * Get character combat stats
    */
-  private async getCharacterCombatStats(req: Request, res: Response): Promise<void> {
+  private async getCharacterCombatStats(characterId: string): Promise<CharacterCombatStats> {
     const client = await this.db.connect();
     try {
       const result = await client.query(`
@@ -898,6 +1759,25 @@ export class CombatService {
     }
   }
 
+  /**
+   * Combat stats of a participant: scaled template stats for monsters, character stats otherwise
+   */
+  private async getParticipantCombatStats(participant: CombatParticipant): Promise<CharacterCombatStats> {
+    if (participant.monsterTemplateId) {
+      const template = await this.monsterService.getTemplate(participant.monsterTemplateId);
+      if (!template) {
+        throw new Error(`Monster template ${participant.monsterTemplateId} not found`);
+      }
+      const stats = this.monsterService.scaleStats(template, participant.monsterLevel ?? template.baseLevel);
+      const definition = participant.participantType === ParticipantType.BOSS ?
+        await this.bossService.getDefinition(template.id) : null;
+      return definition ?
+        this.bossRules.scaleStats(stats, definition, this.bossRules.getState(participant)) : stats;
+    }
+
+    return this.getCharacterCombatStats(participant.characterId);
+  }
+
   /**
    * Check if combat should end
    */
@@ -916,7 +1796,7 @@ export class CombatService {
       
       return {
         ended: true,
-        winner,
+        ...(winner && { winner }),
         reason: CombatEndReason.VICTORY
       };
     }
@@ -930,34 +1810,768 @@ export class CombatService {
   /**
    * Advance to next turn
    */
-  private async advanceTurn(req: Request, res: Response): Promise<void> {
+  private async advanceTurn(sessionId: string): Promise<void> {
     const client = await this.db.connect();
     try {
-      await client.query(`
+      const result = await client.query(`
         UPDATE combat_sessions 
         SET current_turn = (current_turn + 1) % array_length(turn_order, 1),
             turn_number = CASE 
               WHEN (current_turn + 1) % array_length(turn_order, 1) = 0 
               THEN turn_number + 1 
               ELSE turn_number 
-            END
+            END,
+            turn_deadline = CURRENT_TIMESTAMP + ($2 || ' milliseconds')::INTERVAL
         WHERE id = $1
-      `, [sessionId]);`
-} finally {
+        RETURNING *
+      `, [sessionId, COMBAT_CONSTANTS.TURN_TIME_LIMIT]);
+
+      if (result.rows.length > 0) {
+        await this.scheduleTurnDeadline(this.mapSessionRow(result.rows[0]));
+      }
+    } finally {
       client.release();
     }
   }
 
   /**
-   * Get active combat for character
+   * Register the current turn's deadline with the turn scheduler
+   */
+  private async scheduleTurnDeadline(session: CombatSession): Promise<void> {
+    if (!session.turnDeadline) {
+      return;
+    }
+
+    try {
+      await this.turnScheduler.schedule(
+        session.id,
+        CombatTurnScheduler.buildTurnKey(session.turnNumber, session.currentTurn),
+        new Date(session.turnDeadline)
+      );
+    } catch (error) {
+      // Never fail the turn itself; without a deadline the turn simply waits for the player
+      logger.warn('Failed to schedule combat turn deadline', {
+        sessionId: session.id,
+        error: getErrorMessage(error)
+      });
+    }
+  }
+
+  /**
+   * Resolve an expired turn: the idle participant defends, and forfeits
+   * once they have let MAX_CONSECUTIVE_TIMEOUTS turns expire in a row.
+   * Called by the turn scheduler while it holds the session lock.
    */
-  private async getActiveCombatForCharacter(req: Request, res: Response): Promise<void> {
+  async handleTurnTimeout(sessionId: string, turnKey: string): Promise<void> {
+    await this.clearCombatCache(sessionId);
+    const session = await this.getSession(sessionId);
+    if (!session || session.status !== CombatStatus.ACTIVE) {
+      return;
+    }
+
+    // Ignore deadlines for a turn that has already been played
+    if (CombatTurnScheduler.buildTurnKey(session.turnNumber, session.currentTurn) !== turnKey) {
+      return;
+    }
+
+    const actorId = session.turnOrder[session.currentTurn];
+    if (!actorId) {
+      return;
+    }
+
+    const client = await this.db.connect();
+    let consecutiveTimeouts = 0;
+    try {
+      const result = await client.query(`
+        UPDATE combat_participants
+        SET consecutive_timeouts = consecutive_timeouts + 1
+        WHERE session_id = $1 AND character_id = $2
+        RETURNING consecutive_timeouts
+      `, [sessionId, actorId]);
+      consecutiveTimeouts = result.rows[0]?.consecutive_timeouts ?? 0;
+    } finally {
+      client.release();
+    }
+
+    const forfeited = consecutiveTimeouts >= COMBAT_CONSTANTS.MAX_CONSECUTIVE_TIMEOUTS;
+    let action: CombatAction;
+    let statusTicks: StatusEffectTick[] = [];
+
+    if (forfeited) {
+      ({ action, statusTicks } = await this.forfeitParticipant(session, actorId));
+    } else {
+      const result = await this.resolveAction(sessionId, actorId, {
+        actionType: COMBAT_CONSTANTS.TURN_TIMEOUT_ACTION as ActionType,
+        actionName: COMBAT_CONSTANTS.TURN_TIMEOUT_ACTION
+      }, { timedOut: true });
+
+      if (!result.success || !result.action) {
+        logger.warn('Default action for expired turn was rejected', {
+          sessionId,
+          actorId,
+          error: result.error
+        });
+        return;
+      }
+      action = result.action;
+      action.description = `${actorId} hesitates too long and takes a defensive stance.`;
+      statusTicks = result.statusTicks || [];
+    }
+
+    await this.clearCombatCache(sessionId);
+    const updatedSession = await this.getSession(sessionId);
+    const participants = await this.getSessionParticipants(sessionId);
+    const nextTurn = updatedSession && updatedSession.status === CombatStatus.ACTIVE
+      ? updatedSession.turnOrder[updatedSession.currentTurn] || ''
+      : '';
+
+    await this.broadcastCombatUpdate(sessionId, action, participants, nextTurn, 'combat:turn_timeout', {
+      timedOutId: actorId,
+      consecutiveTimeouts,
+      forfeited,
+      statusTicks
+    });
+
+    if (updatedSession?.status === CombatStatus.ACTIVE) {
+      await this.advanceBossPhases(sessionId);
+    }
+
+    logger.info('Combat turn expired', {
+      sessionId,
+      actorId,
+      consecutiveTimeouts,
+      forfeited
+    });
+  }
+
+  /**
+   * Play every consecutive MONSTER/NPC/BOSS turn until a player is up or combat ends.
+   * Runs once the previous action has committed and advanced the turn, so each
+   * decision sees the state the players see. Each turn takes the session lock on
+   * its own, so a long run of monster turns never outlives the lock's TTL.
+   */
+  private async runAiTurns(sessionId: string): Promise<void> {
+    for (let turn = 0; turn < COMBAT_CONSTANTS.MAX_TURNS; turn++) {
+      const played = await distributedLock.withLock(
+        CombatTurnScheduler.buildLockKey(sessionId),
+        COMBAT_CONSTANTS.SESSION_LOCK_TTL,
+        () => this.playAiTurn(sessionId)
+      );
+      if (!played) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Play the current turn if it belongs to a living monster; the caller holds the session lock
+   * @returns whether a turn was played and the fight goes on
+   */
+  private async playAiTurn(sessionId: string): Promise<boolean> {
+    await this.clearCombatCache(sessionId);
+    const session = await this.getSession(sessionId);
+    if (!session || session.status !== CombatStatus.ACTIVE) {
+      return false;
+    }
+
+    const participants = await this.getSessionParticipants(sessionId);
+    const actor = participants.find(p => p.characterId === session.turnOrder[session.currentTurn]);
+    if (!actor || !actor.monsterTemplateId || actor.status !== ParticipantStatus.ALIVE) {
+      return false;
+    }
+
+    const actionRequest = await this.decideMonsterAction(session, actor, participants);
+    let result = await this.resolveAction(sessionId, actor.characterId, actionRequest);
+
+    if (!result.success) {
+      logger.warn('Monster action rejected, defending instead', {
+        sessionId,
+        actorId: actor.characterId,
+        actionRequest,
+        error: result.error
+      });
+      result = await this.resolveAction(sessionId, actor.characterId, {
+        actionType: ActionType.DEFEND,
+        actionName: 'defend'
+      });
+    }
+
+    // A turn that still cannot be played is left to the turn timer
+    return result.success && !result.combatEnded;
+  }
+
+  /**
+   * Ask the monster's AI policy for an action. The RNG is seeded from the
+   * session and turn, so the same state always produces the same decision.
+   */
+  private async decideMonsterAction(
+    session: CombatSession,
+    actor: CombatParticipant,
+    participants: CombatParticipant[]
+  ): Promise<CombatActionRequest> {
+    const template = await this.monsterService.getTemplate(actor.monsterTemplateId!);
+    const now = Date.now();
+
+    const abilities: Ability[] = [];
+    for (const abilityId of template?.abilities || []) {
+      const ability = await this.abilityService.getAbility(abilityId);
+      const cooldownEnd = actor.actionCooldowns[abilityId];
+      if (ability && actor.currentMp >= ability.manaCost &&
+          !(cooldownEnd && new Date(cooldownEnd).getTime() > now)) {
+        abilities.push(ability);
+      }
+    }
+
+    const alive = participants.filter(p => p.status === ParticipantStatus.ALIVE);
+    const definition = actor.participantType === ParticipantType.BOSS ?
+      await this.bossService.getDefinition(actor.monsterTemplateId!) : null;
+    const scripted = definition ?
+      this.bossRules.getScriptedAbility(definition, this.bossRules.getState(actor), session.turnNumber) : null;
+
+    const actionRequest = this.monsterAI.decide(template?.aiBehavior, {
+      self: actor,
+      allies: alive.filter(p => p.side === actor.side),
+      enemies: alive.filter(p => p.side !== actor.side),
+      abilities,
+      turnNumber: session.turnNumber,
+      random: CombatRolls.createRandom(session.rngSeed, 'ai', session.turnNumber, session.currentTurn),
+      ...(scripted && { scriptedAbilityId: scripted.abilityId })
+    });
+
+    // Warn the room before a scripted ability lands so players can react to it in the log
+    if (scripted && actionRequest.actionName === scripted.abilityId) {
+      const event: CombatBossAbilityEvent = {
+        sessionId: session.id,
+        bossId: actor.characterId,
+        abilityId: scripted.abilityId,
+        turnNumber: session.turnNumber,
+        message: scripted.announcement
+      };
+      this.realtimeService.broadcastToCombat(session.id, 'combat:boss_ability', event);
+    }
+
+    return actionRequest;
+  }
+
+  /**
+   * Move bosses into the phase their HP has reached and enrage them once the
+   * fight runs long. Each transition is broadcast as its own update.
+   */
+  private async advanceBossPhases(sessionId: string): Promise<void> {
+    await this.clearCombatCache(sessionId);
+    const session = await this.getSession(sessionId);
+    if (!session || session.sessionType !== CombatType.BOSS || session.status !== CombatStatus.ACTIVE) {
+      return;
+    }
+
+    const participants = await this.getSessionParticipants(sessionId);
+    const bosses = participants.filter(p =>
+      p.participantType === ParticipantType.BOSS && p.monsterTemplateId && p.status === ParticipantStatus.ALIVE
+    );
+
+    for (const boss of bosses) {
+      const definition = await this.bossService.getDefinition(boss.monsterTemplateId!);
+      if (!definition) {
+        continue;
+      }
+
+      const hpRatio = boss.maxHp > 0 ? boss.currentHp / boss.maxHp : 0;
+      const { state, transitions } = this.bossRules.evaluate(
+        definition,
+        this.bossRules.getState(boss),
+        hpRatio,
+        session.turnNumber
+      );
+      if (transitions.length === 0) {
+        continue;
+      }
+
+      await this.db.query(`
+        UPDATE combat_participants SET boss_phase = $1, boss_enraged = $2
+        WHERE id = $3
+      `, [state.phase, state.enraged, boss.id]);
+      boss.bossPhase = state.phase;
+      boss.bossEnraged = state.enraged;
+
+      logger.info('Boss transition', {
+        sessionId,
+        bossId: boss.characterId,
+        phase: state.phase,
+        enraged: state.enraged,
+        transitions: transitions.map(transition => transition.type)
+      });
+
+      for (const transition of transitions) {
+        this.broadcastBossTransition(session, boss, participants, transition);
+      }
+    }
+
+    await this.clearCombatCache(sessionId);
+  }
+
+  /**
+   * Aftermath of a successful flee: the character is out of combat, pays the PVE penalty
+   * and runs through a random exit. PVP flights count as losses when the result is recorded.
+   */
+  private async resolveFlee(session: CombatSession, characterId: string): Promise<CombatFleeResult> {
+    const result: CombatFleeResult = { experienceLost: 0 };
+
+    try {
+      await this.updateCharacterCombatStatus(characterId, 'normal');
+
+      if (session.sessionType === CombatType.PVE || session.sessionType === CombatType.BOSS) {
+        const lost = await this.progressionService.applyExperiencePenalty(
+          characterId,
+          COMBAT_CONSTANTS.FLEE_EXPERIENCE_PENALTY,
+          'flee_penalty',
+          { sessionId: session.id }
+        );
+        result.experienceLost = Number(lost);
+      }
+
+      const move = await this.movementService.fleeToAdjacentZone(
+        characterId,
+        CombatRolls.createRandom(session.rngSeed, 'flee', characterId)
+      );
+      if (move) {
+        result.escapedTo = {
+          zoneId: move.newZoneId,
+          direction: move.direction,
+          travelMessage: move.travelMessage
+        };
+      }
+    } catch (error) {
+      // The flee itself is already committed; a failed penalty or move must not undo it
+      logger.error('Failed to resolve flee', {
+        sessionId: session.id,
+        characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+    }
+
+    this.realtimeService.broadcastToCharacter(characterId, 'combat:fled', {
+      sessionId: session.id,
+      ...result
+    });
+
+    return result;
+  }
+
+  /**
+   * Remove an AFK participant from the fight and end it if only one side remains.
+   * A forfeit counts as running away: the side left standing wins and is rewarded.
+   */
+  private async forfeitParticipant(
+    session: CombatSession,
+    actorId: string
+  ): Promise<{ action: CombatAction; statusTicks: StatusEffectTick[] }> {
+    const client = await this.db.connect();
+    try {
+      await client.query(`
+        UPDATE combat_participants
+        SET status = 'fled', left_at = CURRENT_TIMESTAMP
+        WHERE session_id = $1 AND character_id = $2
+      `, [session.id, actorId]);
+    } finally {
+      client.release();
+    }
+
+    const participants = await this.getSessionParticipants(session.id);
+    if (!participants.find(p => p.characterId === actorId)?.monsterTemplateId) {
+      await this.updateCharacterCombatStatus(actorId, 'normal');
+    }
+
+    let combatEndCheck = this.checkCombatEndConditions(participants);
+    let endReason = CombatEndReason.FLEE;
+    let statusTicks: StatusEffectTick[] = [];
+
+    if (!combatEndCheck.ended) {
+      const turnStart = await this.advanceToNextActor(session.id);
+      statusTicks = turnStart.ticks;
+      combatEndCheck = turnStart;
+      endReason = turnStart.reason;
+    }
+
+    if (combatEndCheck.ended) {
+      await this.endEncounter(session.id, combatEndCheck.winner, endReason);
+      if (combatEndCheck.winner) {
+        const stats = await this.getCombatStatistics(session.id);
+        const rewards = await this.calculateRewards(session.id, combatEndCheck.winner);
+        await this.broadcastCombatEnd(session.id, combatEndCheck.winner, endReason, stats, rewards);
+      }
+    }
+
+    const action: CombatAction = {
+      id: '',
+      sessionId: session.id,
+      actorId,
+      actionType: ActionType.FLEE,
+      actionName: 'forfeit',
+      damage: 0,
+      healing: 0,
+      mpCost: 0,
+      isCritical: false,
+      isBlocked: false,
+      isMissed: false,
+      description: `${actorId} has been idle for too long and forfeits the fight.`,
+      turnNumber: session.turnNumber,
+      createdAt: new Date()
+    };
+
+    return { action, statusTicks };
+  }
+
+  /**
+   * Advance the turn and start it: re-sort turn order by HASTE/SLOW at the
+   * top of each round, tick the new actor's status effects, and pass over
+   * anyone who is dead, fled, stunned or frozen.
+   */
+  private async advanceToNextActor(sessionId: string): Promise<{
+    ticks: StatusEffectTick[];
+    ended: boolean;
+    winner?: string;
+    reason: CombatEndReason;
+  }> {
+    const ticks: StatusEffectTick[] = [];
+
+    await this.advanceTurn(sessionId);
+
+    const initialSession = await this.getSession(sessionId);
+    const maxSkips = initialSession ? initialSession.turnOrder.length : 0;
+
+    for (let skips = 0; skips <= maxSkips; skips++) {
+      await this.clearCombatCache(sessionId);
+      const session = await this.getSession(sessionId);
+      if (!session || session.status !== CombatStatus.ACTIVE) {
+        break;
+      }
+
+      let participants = await this.getSessionParticipants(sessionId);
+      if (session.currentTurn === 0 && skips === 0) {
+        await this.reorderTurnOrder(session, participants);
+        await this.clearCombatCache(sessionId);
+        const reordered = await this.getSession(sessionId);
+        if (reordered) {
+          session.turnOrder = reordered.turnOrder;
+        }
+      }
+
+      const actor = participants.find(p => p.characterId === session.turnOrder[session.currentTurn]);
+      if (!actor || actor.status !== ParticipantStatus.ALIVE) {
+        await this.advanceTurn(sessionId);
+        continue;
+      }
+
+      // Monsters lose interest over time: their threat decays at the start of each of their turns
+      if (actor.monsterTemplateId && actor.threat && Object.keys(actor.threat).length > 0) {
+        await this.db.query(
+          'UPDATE combat_participants SET threat = $1 WHERE id = $2',
+          [JSON.stringify(this.threatTracker.decay(actor.threat)), actor.id]
+        );
+      }
+
+      const tickResult = this.statusEffectEngine.tick(
+        actor,
+        session.sessionType === CombatType.DUEL ? DUEL_CONSTANTS.DEFEAT_HP : 0
+      );
+      if (tickResult.ticks.length > 0) {
+        await this.persistStatusTicks(session, actor, tickResult.ticks);
+        ticks.push(...tickResult.ticks);
+      }
+
+      if (tickResult.died) {
+        participants = await this.getSessionParticipants(sessionId);
+        const combatEndCheck = this.checkCombatEndConditions(participants);
+        if (combatEndCheck.ended) {
+          return { ticks, ...combatEndCheck };
+        }
+      }
+
+      if (tickResult.died || tickResult.skipTurn) {
+        await this.advanceTurn(sessionId);
+        continue;
+      }
+
+      break;
+    }
+
+    return { ticks, ended: false, reason: CombatEndReason.VICTORY };
+  }
+
+  /**
+   * Re-sort the turn order by initiative after HASTE/SLOW modifiers
+   */
+  private async reorderTurnOrder(session: CombatSession, participants: CombatParticipant[]): Promise<void> {
+    const initiatives = new Map(
+      participants.map(p => [p.characterId, this.statusEffectEngine.getEffectiveInitiative(p)])
+    );
+    const turnOrder = [...session.turnOrder].sort(
+      (a, b) => (initiatives.get(b) ?? 0) - (initiatives.get(a) ?? 0)
+    );
+
+    if (turnOrder.every((id, index) => id === session.turnOrder[index])) {
+      return;
+    }
+
+    const client = await this.db.connect();
+    try {
+      await client.query(`
+        UPDATE combat_sessions SET turn_order = $1 WHERE id = $2
+      `, [turnOrder, session.id]);
+    } finally {
+      client.release();
+    }
+
+    await this.scheduleTurnDeadline({ ...session, turnOrder });
+  }
+
+  /**
+   * Apply shield absorption to the action's damage and land its status effects
+   * on the primary target and every additional target of an area ability
+   */
+  private async resolveActionStatusEffects(
+    client: PoolClient,
+    sessionId: string,
+    actorId: string,
+    action: CombatAction
+  ): Promise<void> {
+    const participants = await this.getSessionParticipants(sessionId);
+    const actor = participants.find(p => p.characterId === actorId);
+    const changed = new Set<CombatParticipant>();
+
+    const primaryEffects = action.statusEffectsApplied ??
+      (action.statusEffectApplied ? [action.statusEffectApplied as StatusEffectType] : []);
+    const outcomes: CombatActionTarget[] = [
+      {
+        targetId: action.targetId || actorId,
+        damage: action.damage,
+        healing: action.healing,
+        isCritical: action.isCritical,
+        statusEffectsApplied: primaryEffects
+      },
+      ...(action.additionalTargets || [])
+    ];
+
+    for (const outcome of outcomes) {
+      const target = participants.find(p => p.characterId === outcome.targetId);
+
+      if (target && outcome.damage > 0) {
+        const { damage, absorbed } = this.statusEffectEngine.absorbDamage(target, outcome.damage);
+        if (absorbed > 0) {
+          outcome.damage = damage;
+          action.description += ` ${target.characterId}'s shield absorbs ${absorbed} damage.`;
+          changed.add(target);
+        }
+      }
+
+      if (action.isMissed) {
+        outcome.statusEffectsApplied = [];
+        continue;
+      }
+
+      outcome.statusEffectsApplied = outcome.statusEffectsApplied.filter(effectType => {
+        // Outside the ability catalog, defensive effects land on the caster
+        const recipient = !action.abilityId && effectType === StatusEffectType.SHIELD ? actor : target;
+        if (!recipient) {
+          return false;
+        }
+
+        const effect = this.statusEffectEngine.createEffect(effectType, actorId, recipient, outcome.damage);
+        const application = this.statusEffectEngine.applyEffect(recipient, effect);
+
+        if (application.applied) {
+          changed.add(recipient);
+          return true;
+        }
+
+        if (application.reason === 'immune') {
+          action.description += ` ${recipient.characterId} is immune to ${effectType}.`;
+        } else if (application.reason === 'cancelled') {
+          action.description += ` The ${effectType} cancels out ${application.removed?.join(', ')}.`;
+          changed.add(recipient);
+        }
+        return false;
+      });
+    }
+
+    const [primary] = outcomes;
+    if (primary) {
+      action.damage = primary.damage;
+      action.statusEffectsApplied = primary.statusEffectsApplied;
+      if (primary.statusEffectsApplied[0]) {
+        action.statusEffectApplied = primary.statusEffectsApplied[0];
+      } else {
+        delete action.statusEffectApplied;
+      }
+    }
+
+    for (const participant of changed) {
+      await client.query(`
+        UPDATE combat_participants SET status_effects = $1
+        WHERE session_id = $2 AND character_id = $3
+      `, [JSON.stringify(participant.statusEffects), sessionId, participant.characterId]);
+    }
+  }
+
+  /**
+   * Cap every hit so no duelist drops below DUEL_CONSTANTS.DEFEAT_HP, and log the caps
+   * with the roll inputs so the replay expects the reduced damage
+   * @returns the targets that took damage
+   */
+  private async applyDuelDamageCap(sessionId: string, action: CombatAction): Promise<string[]> {
+    const participants = await this.getSessionParticipants(sessionId);
+    const damageCap = (targetId: string) => Math.max(
+      0,
+      (participants.find(p => p.characterId === targetId)?.currentHp ?? 0) - DUEL_CONSTANTS.DEFEAT_HP
+    );
+    const hits: string[] = [];
+
+    if (action.targetId && action.damage > 0) {
+      action.damage = Math.min(action.damage, damageCap(action.targetId));
+      hits.push(action.targetId);
+    }
+
+    for (const target of action.additionalTargets || []) {
+      if (target.damage > 0) {
+        target.damage = Math.min(target.damage, damageCap(target.targetId));
+        hits.push(target.targetId);
+      }
+    }
+
+    const inputs = action.rollInputs;
+    if (inputs?.kind === 'attack' && action.targetId) {
+      inputs.damageCap = damageCap(action.targetId);
+    } else if (inputs?.kind === 'ability') {
+      inputs.targets = inputs.targets.map(target => ({ ...target, damageCap: damageCap(target.targetId) }));
+    }
+
+    return hits;
+  }
+
+  /**
+   * Add the threat an action generated to the monsters' threat tables
+   */
+  private async recordThreat(client: PoolClient, sessionId: string, action: CombatAction): Promise<void> {
+    const participants = await this.getSessionParticipants(sessionId);
+    const ability = action.abilityId ? await this.abilityService.getAbility(action.abilityId) : null;
+    const tables = this.threatTracker.applyAction(participants, action, ability?.taunts ?? false);
+
+    for (const [monsterId, table] of tables) {
+      await client.query(`
+        UPDATE combat_participants SET threat = $1
+        WHERE session_id = $2 AND character_id = $3
+      `, [JSON.stringify(table), sessionId, monsterId]);
+    }
+  }
+
+  /**
+   * Put the action (or ability) that was just used on cooldown
+   */
+  private async recordActionCooldown(
+    client: PoolClient,
+    sessionId: string,
+    actorId: string,
+    action: CombatAction
+  ): Promise<void> {
+    const ability = action.abilityId ? await this.abilityService.getAbility(action.abilityId) : null;
+    const cooldownKey = ability ? ability.id : action.actionType.toUpperCase();
+    const cooldownMs = ability ?
+      ability.cooldownMs :
+      COMBAT_CONSTANTS.ACTION_COOLDOWNS[cooldownKey as keyof typeof COMBAT_CONSTANTS.ACTION_COOLDOWNS] ?? 0;
+
+    if (cooldownMs <= 0) {
+      return;
+    }
+
+    await client.query(`
+      UPDATE combat_participants
+      SET action_cooldowns = COALESCE(action_cooldowns, '{}'::jsonb) || jsonb_build_object($1::text, $2::text)
+      WHERE session_id = $3 AND character_id = $4
+    `, [cooldownKey, new Date(Date.now() + cooldownMs).toISOString(), sessionId, actorId]);
+  }
+
+  /**
+   * Persist a participant's post-tick state and record every tick in combat_actions_log
+   */
+  private async persistStatusTicks(
+    session: CombatSession,
+    participant: CombatParticipant,
+    ticks: StatusEffectTick[]
+  ): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(`
+        UPDATE combat_participants
+        SET current_hp = $1, status = $2, status_effects = $3, damage_taken = $4
+        WHERE session_id = $5 AND character_id = $6
+      `, [
+        participant.currentHp,
+        participant.status,
+        JSON.stringify(participant.statusEffects),
+        participant.damageTaken,
+        session.id,
+        participant.characterId
+      ]);
+
+      for (const tick of ticks) {
+        await client.query(`
+          INSERT INTO combat_actions_log (
+            session_id, actor_id, target_id, action_type, action_name,
+            damage, healing, status_effect_applied, description, turn_number, is_status_tick
+          ) VALUES ($1, $2, $3, 'special', $4, $5, $6, $7, $8, $9, TRUE)
+        `, [
+          session.id,
+          tick.appliedBy,
+          tick.participantId,
+          `${tick.effectType}_tick`,
+          tick.damage,
+          tick.healing,
+          tick.effectType,
+          tick.description,
+          session.turnNumber
+        ]);
+
+        // Damage over time counts towards whoever applied it
+        if (tick.damage > 0) {
+          await client.query(`
+            UPDATE combat_participants SET damage_dealt = damage_dealt + $1
+            WHERE session_id = $2 AND character_id = $3
+          `, [tick.damage, session.id, tick.appliedBy]);
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Look up an ability from the catalog
+   */
+  async getAbility(abilityId: string): Promise<Ability | null> {
+    return this.abilityService.getAbility(abilityId);
+  }
+
+  /**
+   * Get the unfinished combat a character is still fighting in
+   */
+  async getActiveCombatForCharacter(characterId: string): Promise<CombatSession | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(`
         SELECT cs.* FROM combat_sessions cs
         JOIN combat_participants cp ON cp.session_id = cs.id
-        WHERE cp.character_id = $1 AND cs.status = 'active';
+        WHERE cp.character_id = $1
+          AND cp.status <> 'fled'
+          AND cs.status IN ('waiting', 'active', 'paused')
+        ORDER BY cs.started_at DESC
+        LIMIT 1
       `, [characterId]);
 
       return result.rows.length > 0 ? this.mapSessionRow(result.rows[0]) : null;
@@ -966,66 +2580,275 @@ export class CombatService {
     }
   }
 
+  /**
+   * Players who fell in a fight to the death die for real; duels and arena
+   * matches are spars, so the losers just walk away
+   */
+  private async handleParticipantDeaths(session: CombatSession, participants: CombatParticipant[]): Promise<void> {
+    if (session.sessionType === CombatType.DUEL || session.sessionType === CombatType.ARENA) {
+      return;
+    }
+
+    for (const participant of participants) {
+      if (participant.monsterTemplateId || participant.status !== ParticipantStatus.DEAD) {
+        continue;
+      }
+
+      try {
+        await this.deathService.handleDeath(participant.characterId, {
+          sessionId: session.id,
+          zoneId: session.zoneId
+        });
+      } catch (error) {
+        // The fight is already over; a failed death must not undo it
+        logger.error('Failed to handle participant death', {
+          sessionId: session.id,
+          characterId: participant.characterId,
+          error: error instanceof Error ? getErrorMessage(error) : error
+        });
+      }
+    }
+  }
+
   /**
    * Update character combat status
    */
-  private async updateCharacterCombatStatus(req: Request, res: Response): Promise<void> {
+  private async updateCharacterCombatStatus(characterId: string, status: string): Promise<void> {
+    if (status === 'combat') {
+      this.movementService.cancelAutoTravel(characterId, 'combat');
+    }
+
     const client = await this.db.connect();
     try {
       await client.query(`
         UPDATE characters SET status = $1, updated_at = CURRENT_TIMESTAMP
         WHERE id = $2
-      `, [status, characterId]);`
-} finally {
+      `, [status, characterId]);
+    } finally {
       client.release();
     }
   }
 
   /**
-   * Calculate and award combat rewards
+   * Calculate and award combat rewards to every player on the winning side, at most once per session
    */
-  private async awardCombatRewards(req: Request, res: Response): Promise<void> {
-    // Basic experience and gold calculation
-    const baseExperience = 100;
-    const baseGold = 50;
+  private async awardCombatRewards(sessionId: string, winner: string): Promise<void> {
+    const rewards = await this.calculateRewards(sessionId, winner);
+
+    // Claim the payout so a session that is ended again cannot pay twice
+    const claimed = await this.db.query(`
+      UPDATE combat_sessions
+      SET experience = $1, gold = $2, rewards_paid_at = CURRENT_TIMESTAMP
+      WHERE id = $3 AND rewards_paid_at IS NULL
+      RETURNING id
+    `, [rewards.experience, rewards.gold, sessionId]);
+
+    if (claimed.rows.length === 0) {
+      logger.warn('Combat rewards already paid', { sessionId });
+      return;
+    }
 
-    const client = await this.db.connect();
-    try {
-      await client.query(`
-        UPDATE combat_sessions 
-        SET experience = $1, gold = $2
-        WHERE id = $3
-      `, [baseExperience, baseGold, sessionId]);
+    for (const share of rewards.shares || []) {
+      try {
+        if (share.experience > 0) {
+          await this.progressionService.awardExperience(
+            share.characterId,
+            BigInt(share.experience),
+            'combat_kill',
+            { sessionId, contribution: share.contribution }
+          );
+        }
 
-      // Award to winner's character (integrate with progression system)
-      // This would call the ProgressionService to award experience`
-} finally {
-      client.release();
+        if (share.gold > 0) {
+          await this.db.query(
+            'UPDATE characters SET gold = gold + $1 WHERE id = $2',
+            [share.gold, share.characterId]
+          );
+        }
+
+        await this.deliverShareLoot(sessionId, share.characterId, share.loot || []);
+      } catch (error) {
+        // One failed award must not cost the rest of the party their share
+        logger.warn('Failed to award combat rewards', {
+          sessionId,
+          characterId: share.characterId,
+          error: getErrorMessage(error)
+        });
+      }
     }
   }
 
   /**
-   * Calculate combat rewards
+   * Reward pool of the fight (monster bounties, or the base reward without monsters)
+   * split among the winning side's players by damage dealt and healing done
    */
-  private async calculateRewards(req: Request, res: Response): Promise<void> {
+  private async calculateRewards(sessionId: string, winner: string): Promise<CombatRewards> {
+    // Duels are for honour only, so they cannot be farmed for experience
+    const session = await this.getSession(sessionId);
+    if (session?.sessionType === CombatType.DUEL) {
+      return { experience: 0, gold: 0, items: [], titles: [], shares: [] };
+    }
+
+    const participants = await this.getSessionParticipants(sessionId);
+    const winningSide = participants.find(p => p.characterId === winner)?.side;
+    const defeatedMonsters = participants.filter(p => p.monsterTemplateId && p.side !== winningSide);
+
+    let experience = 0;
+    let gold = 0;
+    const lootSources: LootSource[] = [];
+    if (participants.some(p => p.monsterTemplateId)) {
+      for (const monster of defeatedMonsters) {
+        const template = await this.monsterService.getTemplate(monster.monsterTemplateId!);
+        if (template) {
+          const level = monster.monsterLevel ?? template.baseLevel;
+          const bounty = this.monsterService.calculateRewards(template, level);
+          experience += bounty.experience;
+          gold += bounty.gold;
+
+          if (template.lootTableId) {
+            lootSources.push({
+              instanceId: monster.characterId,
+              templateId: template.id,
+              lootTableId: template.lootTableId,
+              level
+            });
+          }
+        }
+      }
+    } else {
+      experience = COMBAT_CONSTANTS.BASE_EXPERIENCE_REWARD;
+      gold = COMBAT_CONSTANTS.BASE_GOLD_REWARD;
+    }
+
+    const pool = {
+      experience: Math.round(experience * COMBAT_CONSTANTS.EXPERIENCE_MULTIPLIER),
+      gold: Math.round(gold * COMBAT_CONSTANTS.GOLD_MULTIPLIER)
+    };
+
+    const stats = await this.getCombatStatistics(sessionId);
+    const contributors = participants
+      .filter(p => p.side === winningSide && !p.monsterTemplateId && p.status !== ParticipantStatus.FLED)
+      .map(p => ({
+        characterId: p.characterId,
+        damageDealt: stats.participantStats[p.characterId]?.damageDealt ?? p.damageDealt,
+        healingDone: stats.participantStats[p.characterId]?.healingDone ?? 0
+      }));
+
+    // A boss pays out once per character and weekly reset
+    const lockedOut = session?.sessionType === CombatType.BOSS ?
+      await this.bossService.getLockedOutCharacters(
+        sessionId,
+        this.getDefeatedBossTemplates(participants, winningSide),
+        contributors.map(c => c.characterId)
+      ) : new Set<string>();
+
+    // Loot is rolled from the session seed, so recalculating yields the same drops
+    const looters = contributors.map(c => c.characterId).filter(id => !lockedOut.has(id));
+    const drops = session ? await this.lootService.rollLoot(session.rngSeed, lootSources, looters) : [];
+
+    const shares = this.rewardCalculator.splitRewards(pool, contributors).map(share => {
+      if (lockedOut.has(share.characterId)) {
+        return { ...share, experience: 0, gold: 0, lockedOut: true };
+      }
+
+      const loot: LootDrop[] = drops
+        .filter(drop => drop.characterId === share.characterId)
+        .map(({ characterId, ...drop }) => drop);
+      return loot.length > 0 ? { ...share, loot } : share;
+    });
+
     return {
-      experience: 100,
-      gold: 50,
-      items: [],
-      titles: []
+      experience: pool.experience,
+      gold: pool.gold,
+      items: this.summarizeLoot(drops),
+      titles: [],
+      shares
     };
   }
 
+  /**
+   * All drops of a fight, totalled per item
+   */
+  private summarizeLoot(drops: CharacterLootDrop[]): RewardItem[] {
+    const items = new Map<string, RewardItem>();
+    for (const drop of drops) {
+      const key = `${drop.itemId}:${drop.itemLevel}`;
+      const existing = items.get(key);
+      if (existing) {
+        existing.quantity += drop.quantity;
+      } else {
+        items.set(key, {
+          itemId: drop.itemId,
+          name: drop.name,
+          quantity: drop.quantity,
+          rarity: drop.rarity,
+          itemLevel: drop.itemLevel
+        });
+      }
+    }
+    return [...items.values()];
+  }
+
+  /**
+   * Hand a player their drops and tell them about anything that overflowed into the loot window
+   */
+  private async deliverShareLoot(sessionId: string, characterId: string, loot: LootDrop[]): Promise<void> {
+    const delivered = await this.lootService.deliverLoot(
+      sessionId,
+      characterId,
+      loot.map(drop => ({ ...drop, characterId }))
+    );
+
+    const overflow = delivered.filter(drop => drop.destination === 'loot_window');
+    if (overflow.length > 0) {
+      const event: LootWindowEvent = {
+        characterId,
+        sessionId,
+        items: overflow,
+        expiresAt: new Date(Date.now() + LOOT_CONSTANTS.LOOT_WINDOW_TTL),
+        message: 'Your bags are full. Some loot is waiting in your loot window.'
+      };
+      this.realtimeService.broadcastToCharacter(characterId, 'loot:window', event);
+    }
+  }
+
+  /**
+   * Lock the winning side's players out of the defeated bosses' loot for the week
+   */
+  private async recordBossLockouts(
+    client: PoolClient,
+    sessionId: string,
+    participants: CombatParticipant[],
+    winner: string
+  ): Promise<void> {
+    const winningSide = participants.find(p => p.characterId === winner)?.side;
+    await this.bossService.recordLockouts(
+      client,
+      sessionId,
+      this.getDefeatedBossTemplates(participants, winningSide),
+      participants
+        .filter(p => p.side === winningSide && !p.monsterTemplateId && p.status !== ParticipantStatus.FLED)
+        .map(p => p.characterId)
+    );
+  }
+
+  private getDefeatedBossTemplates(participants: CombatParticipant[], winningSide: CombatSide | undefined): string[] {
+    return [...new Set(participants
+      .filter(p => p.participantType === ParticipantType.BOSS && p.monsterTemplateId && p.side !== winningSide)
+      .map(p => p.monsterTemplateId!))];
+  }
+
   /**
    * Real-time broadcasting methods
    */
-  private async broadcastCombatStart(session: CombatSession, participants: CombatParticipant[]): Promise<void> { const event: CombatStartEvent = {
+  private async broadcastCombatStart(session: CombatSession, participants: CombatParticipant[]): Promise<void> {
+    const event: CombatStartEvent = {
       sessionId: session.id,
       participants,
       turnOrder: session.turnOrder,
-      currentTurn: session.turnOrder[session.currentTurn],
-      message: 'Combat has begun!' }
-};
+      currentTurn: session.turnOrder[session.currentTurn] || '',
+      message: 'Combat has begun!'
+    };
 
     this.realtimeService.broadcastToCombat(session.id, 'combat:start', event);
   }
@@ -1034,38 +2857,115 @@ export class CombatService {
     sessionId: string,
     action: CombatAction,
     participants: CombatParticipant[],
-    currentTurn: string
-  ): Promise<void> { const session = await this.getSession(sessionId);
-    if (!session) }
-    const event: CombatUpdateEvent = {
+    currentTurn: string,
+    eventName: 'combat:update' | 'combat:turn_timeout' = 'combat:update',
+    extras: Partial<Pick<CombatTurnTimeoutEvent, 'timedOutId' | 'consecutiveTimeouts' | 'forfeited' | 'statusTicks'>> = {}
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return;
+    }
+
+    const event: CombatUpdateEvent | CombatTurnTimeoutEvent = {
       sessionId,
       action,
       updatedParticipants: participants,
       currentTurn,
       turnNumber: session.turnNumber,
-      message: action.description
+      ...(session.status === CombatStatus.ACTIVE && session.turnDeadline && { turnDeadline: session.turnDeadline }),
+      message: action.description,
+      ...extras
     };
 
-    this.realtimeService.broadcastToCombat(sessionId, 'combat:update', event);
+    this.realtimeService.broadcastToCombat(sessionId, eventName, event);
   }
 
-  private async broadcastCombatEnd(req: Request, res: Response): Promise<void> {
+  private broadcastBossTransition(
+    session: CombatSession,
+    boss: CombatParticipant,
+    participants: CombatParticipant[],
+    transition: BossTransition
+  ): void {
+    const action: CombatAction = {
+      id: '',
+      sessionId: session.id,
+      actorId: boss.characterId,
+      actionType: ActionType.SPECIAL,
+      actionName: transition.type === 'phase' ? `phase_${transition.phase.phase}` : 'enrage',
+      damage: 0,
+      healing: 0,
+      mpCost: 0,
+      isCritical: false,
+      isBlocked: false,
+      isMissed: false,
+      description: transition.message,
+      turnNumber: session.turnNumber,
+      createdAt: new Date()
+    };
+
+    const event: CombatBossPhaseEvent = {
+      sessionId: session.id,
+      action,
+      updatedParticipants: participants,
+      currentTurn: session.turnOrder[session.currentTurn] || '',
+      turnNumber: session.turnNumber,
+      ...(session.turnDeadline && { turnDeadline: session.turnDeadline }),
+      message: transition.message,
+      bossId: boss.characterId,
+      transition: transition.type,
+      phase: transition.phase.phase,
+      phaseName: transition.phase.name,
+      enraged: boss.bossEnraged ?? false
+    };
+
+    this.realtimeService.broadcastToCombat(session.id, 'combat:boss_phase', event);
+  }
+
+  private async broadcastCombatEnd(
+    sessionId: string,
+    winner: string,
+    reason: CombatEndReason,
+    stats: CombatStats,
+    rewards: CombatRewards
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    const ratingChanges = session?.sessionType === CombatType.ARENA ?
+      await this.settleArenaRatings(sessionId, winner) : [];
+
     const event: CombatEndEvent = {
       sessionId,
       winner,
       reason,
       stats,
       rewards,
+      ...(ratingChanges.length > 0 && { ratingChanges }),
       message: `Combat ended! Winner: ${winner}`
     };
 
     this.realtimeService.broadcastToCombat(sessionId, 'combat:end', event);
   }
 
+  /**
+   * Apply Glicko-2 to a finished arena fight; a rating failure must not block the end broadcast
+   */
+  private async settleArenaRatings(sessionId: string, winner: string): Promise<CombatRatingChange[]> {
+    try {
+      const participants = await this.getSessionParticipants(sessionId);
+      return await this.arenaRatingService.recordMatch(sessionId, participants, winner);
+    } catch (error) {
+      logger.error('Failed to update arena ratings', {
+        sessionId,
+        winner,
+        error: getErrorMessage(error)
+      });
+      return [];
+    }
+  }
+
   /**
    * Clear combat-related cache
    */
-  private async clearCombatCache(req: Request, res: Response): Promise<void> {
+  private async clearCombatCache(sessionId: string): Promise<void> {
     await this.cacheManager.deletePattern(`combat:session:${sessionId}*`);
   }
 
@@ -1088,6 +2988,9 @@ export class CombatService {
       winner: row.winner,
       experience: row.experience || 0,
       gold: row.gold || 0,
+      turnDeadline: row.turn_deadline || undefined,
+      rngSeed: Number(row.rng_seed), // BIGINT arrives as a string
+      allowSpectators: row.allow_spectators ?? false,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -1108,11 +3011,23 @@ export class CombatService {
       maxMp: row.max_mp,
       status: row.status,
       statusEffects: row.status_effects || [],
+      immunities: row.immunities || [],
       lastActionAt: row.last_action_at,
       actionCooldowns: row.action_cooldowns || {},
       damageTaken: row.damage_taken || 0,
       damageDealt: row.damage_dealt || 0,
       actionsUsed: row.actions_used || 0,
+      consecutiveTimeouts: row.consecutive_timeouts || 0,
+      ...(row.monster_template_id && {
+        monsterTemplateId: row.monster_template_id,
+        monsterLevel: row.monster_level,
+        threat: row.threat || {}
+      }),
+      resistances: row.resistances || {},
+      ...(row.boss_phase && {
+        bossPhase: row.boss_phase,
+        bossEnraged: row.boss_enraged
+      }),
       joinedAt: row.joined_at,
       leftAt: row.left_at
     };
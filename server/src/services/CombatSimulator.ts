@@ -0,0 +1,288 @@
+/**
+ * Combat Simulator
+ * Runs seeded one-on-one fights in memory with the live combat formulas and rolls, for
+ * balancing stat blocks, gear coefficients and affinity tiers without playing
+ */
+
+import { CombatRolls } from './CombatRolls';
+import { CombatFormulas } from './CombatFormulas';
+import { RandomSource } from '../utils/random';
+import { COMBAT_CONSTANTS } from '../types/combat.types';
+import { ABILITY_CONSTANTS } from '../types/ability.types';
+import {
+  DamagePercentiles,
+  SimulationCombatant,
+  SimulationConfig,
+  SimulationReport,
+  SimulationSide,
+  SimulationSideReport,
+  SIMULATION_CONSTANTS
+} from '../types/simulation.types';
+
+interface FighterState {
+  side: SimulationSide;
+  combatant: SimulationCombatant;
+  hp: number;
+  mp: number;
+}
+
+interface SideTally {
+  wins: number;
+  hits: number;
+  misses: number;
+  blocks: number;
+  crits: number;
+  critsPerFight: Record<string, number>;
+  damage: number[];
+  totalDamage: number;
+  totalHealing: number;
+}
+
+interface FightResult {
+  winner?: SimulationSide;
+  turns: number;
+}
+
+export class CombatSimulator {
+  private rolls: CombatRolls;
+  private formulas: CombatFormulas;
+
+  constructor(rolls: CombatRolls = new CombatRolls(), formulas: CombatFormulas = new CombatFormulas()) {
+    this.rolls = rolls;
+    this.formulas = formulas;
+  }
+
+  /**
+   * Fight the attacker against the defender `config.fights` times. Every fight rolls
+   * from its own stream of the seed, so the same config always gives the same report.
+   */
+  run(config: SimulationConfig): SimulationReport {
+    const tallies: Record<SimulationSide, SideTally> = {
+      attacker: this.createTally(),
+      defender: this.createTally()
+    };
+    const turnsToKill: number[] = [];
+    let draws = 0;
+
+    for (let fight = 0; fight < config.fights; fight++) {
+      const result = this.simulateFight(config, CombatRolls.createRandom(config.seed, 'fight', fight), tallies);
+      if (result.winner) {
+        tallies[result.winner].wins++;
+        turnsToKill.push(result.turns);
+      } else {
+        draws++;
+      }
+    }
+
+    turnsToKill.sort((a, b) => a - b);
+
+    return {
+      fights: config.fights,
+      seed: config.seed,
+      draws,
+      timeToKill: {
+        averageTurns: this.round(this.average(turnsToKill)),
+        medianTurns: this.percentile(turnsToKill, 0.5),
+        p90Turns: this.percentile(turnsToKill, 0.9)
+      },
+      attacker: this.summarize(config.attacker, tallies.attacker, config.fights),
+      defender: this.summarize(config.defender, tallies.defender, config.fights)
+    };
+  }
+
+  /**
+   * One fight to the death; initiative decides who acts first each turn
+   */
+  private simulateFight(
+    config: SimulationConfig,
+    random: RandomSource,
+    tallies: Record<SimulationSide, SideTally>
+  ): FightResult {
+    const attacker = this.createFighter('attacker', config.attacker);
+    const defender = this.createFighter('defender', config.defender);
+
+    const attackerInitiative = this.rolls.rollInitiative(attacker.combatant.stats.dexterity, attacker.combatant.stats.level, random);
+    const defenderInitiative = this.rolls.rollInitiative(defender.combatant.stats.dexterity, defender.combatant.stats.level, random);
+    const order = attackerInitiative >= defenderInitiative ? [attacker, defender] : [defender, attacker];
+
+    const crits: Record<SimulationSide, number> = { attacker: 0, defender: 0 };
+    let result: FightResult = { turns: COMBAT_CONSTANTS.MAX_TURNS };
+
+    fight:
+    for (let turn = 1; turn <= COMBAT_CONSTANTS.MAX_TURNS; turn++) {
+      for (const actor of order) {
+        const target = actor === attacker ? defender : attacker;
+        if (this.act(actor, target, random, tallies[actor.side])) {
+          crits[actor.side]++;
+        }
+
+        if (target.hp <= 0) {
+          result = { winner: actor.side, turns: turn };
+          break fight;
+        }
+      }
+    }
+
+    for (const side of ['attacker', 'defender'] as SimulationSide[]) {
+      const key = String(crits[side]);
+      tallies[side].critsPerFight[key] = (tallies[side].critsPerFight[key] ?? 0) + 1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Cast the combatant's ability when it has the mana (heals only when hurt), else attack
+   * @returns whether the action landed a critical hit on the target
+   */
+  private act(actor: FighterState, target: FighterState, random: RandomSource, tally: SideTally): boolean {
+    const { stats } = actor.combatant;
+    const ability = actor.combatant.ability;
+    const critChance = this.rolls.calculateCriticalChance(stats.dexterity);
+    const magicBonus = this.formulas.getAffinityBonus(actor.combatant.magicAffinityTier);
+
+    if (ability && actor.mp >= ability.manaCost) {
+      if (ability.isHeal && actor.hp < stats.hp * SIMULATION_CONSTANTS.HEAL_THRESHOLD) {
+        actor.mp -= ability.manaCost;
+        const outcome = this.rolls.rollAbility({
+          kind: 'ability',
+          abilityId: ability.name,
+          basePower: this.formulas.calculateHealingAmount(stats, ability, magicBonus),
+          critChance: critChance * ABILITY_CONSTANTS.SPELL_CRIT_MULTIPLIER,
+          damageMultiplier: 1,
+          isHeal: true,
+          targets: [{ targetId: actor.side, shield: 0 }],
+          statusEffects: []
+        }, random).targets[0]!;
+
+        const healed = Math.min(outcome.amount, stats.hp - actor.hp);
+        actor.hp += healed;
+        tally.totalHealing += healed;
+        return false;
+      }
+
+      if (!ability.isHeal) {
+        actor.mp -= ability.manaCost;
+        const outcome = this.rolls.rollAbility({
+          kind: 'ability',
+          abilityId: ability.name,
+          basePower: this.formulas.calculateSpellDamage(stats, ability, magicBonus),
+          critChance: critChance * ABILITY_CONSTANTS.SPELL_CRIT_MULTIPLIER,
+          damageMultiplier: 1,
+          isHeal: false,
+          targets: [{ targetId: target.side, shield: 0 }],
+          statusEffects: []
+        }, random).targets[0]!;
+
+        this.recordHit(tally, target, outcome.amount, outcome.isCritical, false, false);
+        return outcome.isCritical;
+      }
+    }
+
+    const outcome = this.rolls.rollAttack({
+      kind: 'attack',
+      baseDamage: this.formulas.calculateAttackDamage(
+        stats.strength,
+        target.combatant.stats.vitality,
+        actor.combatant.weaponCoefficient,
+        this.formulas.getAffinityBonus(actor.combatant.weaponAffinityTier)
+      ),
+      critChance,
+      missChance: COMBAT_CONSTANTS.MISS_CHANCE,
+      blockChance: COMBAT_CONSTANTS.BLOCK_CHANCE,
+      damageMultiplier: 1,
+      targetShield: 0
+    }, random);
+
+    this.recordHit(tally, target, outcome.damage, outcome.isCritical, outcome.isMissed, outcome.isBlocked);
+    return outcome.isCritical && !outcome.isMissed;
+  }
+
+  private recordHit(
+    tally: SideTally,
+    target: FighterState,
+    damage: number,
+    isCritical: boolean,
+    isMissed: boolean,
+    isBlocked: boolean
+  ): void {
+    tally.hits++;
+    if (isMissed) {
+      tally.misses++;
+      return;
+    }
+
+    if (isCritical) tally.crits++;
+    if (isBlocked) tally.blocks++;
+    target.hp -= damage;
+    tally.damage.push(damage);
+    tally.totalDamage += damage;
+  }
+
+  private createFighter(side: SimulationSide, combatant: SimulationCombatant): FighterState {
+    return { side, combatant, hp: combatant.stats.hp, mp: combatant.stats.mp };
+  }
+
+  private createTally(): SideTally {
+    return {
+      wins: 0,
+      hits: 0,
+      misses: 0,
+      blocks: 0,
+      crits: 0,
+      critsPerFight: {},
+      damage: [],
+      totalDamage: 0,
+      totalHealing: 0
+    };
+  }
+
+  private summarize(combatant: SimulationCombatant, tally: SideTally, fights: number): SimulationSideReport {
+    const damage = [...tally.damage].sort((a, b) => a - b);
+    const landed = tally.hits - tally.misses;
+
+    return {
+      name: combatant.name,
+      wins: tally.wins,
+      winRate: fights > 0 ? this.round(tally.wins / fights) : 0,
+      hits: tally.hits,
+      misses: tally.misses,
+      blocks: tally.blocks,
+      crits: tally.crits,
+      critRate: landed > 0 ? this.round(tally.crits / landed) : 0,
+      critsPerFight: tally.critsPerFight,
+      damage: this.getPercentiles(damage),
+      averageDamagePerFight: fights > 0 ? this.round(tally.totalDamage / fights) : 0,
+      averageHealingPerFight: fights > 0 ? this.round(tally.totalHealing / fights) : 0
+    };
+  }
+
+  private getPercentiles(sorted: number[]): DamagePercentiles {
+    return {
+      p10: this.percentile(sorted, 0.1),
+      p25: this.percentile(sorted, 0.25),
+      p50: this.percentile(sorted, 0.5),
+      p75: this.percentile(sorted, 0.75),
+      p90: this.percentile(sorted, 0.9),
+      p99: this.percentile(sorted, 0.99)
+    };
+  }
+
+  /**
+   * Nearest-rank percentile of an ascending list; 0 for an empty one
+   */
+  private percentile(sorted: number[], fraction: number): number {
+    if (sorted.length === 0) {
+      return 0;
+    }
+    return sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)]!;
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
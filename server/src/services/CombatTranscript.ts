@@ -0,0 +1,92 @@
+/**
+ * Combat Transcript
+ * Renders an exported combat log as a plain-text, MUD-style transcript.
+ * Pure formatting: CombatAnalyticsService loads the log and this turns it into text.
+ */
+
+import { ActionType } from '../types/combat.types';
+import { CombatLogEntry, CombatLogExport } from '../types/analytics.types';
+
+export class CombatTranscript {
+  format(log: CombatLogExport): string {
+    const names = new Map(log.participants.map(p => [p.characterId, p.name]));
+    const name = (id: string | undefined) => (id && names.get(id)) || 'someone';
+
+    const lines = [
+      `=== ${log.sessionType.toUpperCase()} combat in ${log.zoneName} ===`,
+      `Session: ${log.sessionId}`,
+      `Started: ${new Date(log.startedAt).toISOString()}`,
+      ...(log.endedAt ? [`Ended:   ${new Date(log.endedAt).toISOString()}`] : []),
+      '',
+      'Combatants:',
+      ...log.participants.map(p =>
+        `  [${p.side}] ${p.name} (${p.participantType}, level ${p.level}) - ${p.status}, ` +
+        `dealt ${p.damageDealt}, took ${p.damageTaken}`
+      )
+    ];
+
+    let turn = 0;
+    for (const action of log.actions) {
+      if (action.turnNumber !== turn) {
+        turn = action.turnNumber;
+        lines.push('', `--- Turn ${turn} ---`);
+      }
+      lines.push(this.formatAction(action, name(action.actorId), name(action.targetId)));
+    }
+
+    lines.push('', log.winner ?
+      `=== ${name(log.winner)}'s side is victorious after ${log.turns} turns ===` :
+      `=== The fight ended without a victor after ${log.turns} turns (${log.status}) ===`);
+
+    return lines.join('\n');
+  }
+
+  formatAction(action: CombatLogEntry, actor: string, target: string): string {
+    if (action.isStatusTick) {
+      const effect = action.actionName.replace(/_tick$/, '');
+      return action.healing > 0 ?
+        `${target} recovers ${action.healing} HP from ${effect}.` :
+        `${target} suffers ${action.damage} damage from ${effect}.`;
+    }
+
+    switch (action.actionType) {
+      case ActionType.FLEE:
+        return action.isMissed ? `${actor} tries to flee, but cannot get away!` : `${actor} flees from combat!`;
+
+      case ActionType.DEFEND:
+        return `${actor} takes a defensive stance.`;
+
+      case ActionType.HEAL:
+        return `${actor} casts ${action.actionName} on ${target}, restoring ${action.healing} HP.` +
+          (action.isCritical ? ' Critical!' : '');
+    }
+
+    if (action.isMissed) {
+      return `${actor} misses ${target} with ${action.actionName}.`;
+    }
+
+    const afflicted = action.statusEffectApplied ? ` ${target} is afflicted with ${action.statusEffectApplied}.` : '';
+    if (action.actionType !== ActionType.ATTACK && action.damage === 0) {
+      return `${actor} casts ${action.actionName} on ${target}.${afflicted}`;
+    }
+
+    const verb = action.actionType === ActionType.ATTACK ? 'hits' : `casts ${action.actionName} on`;
+    const weapon = action.actionType === ActionType.ATTACK ? ` with ${action.actionName}` : '';
+    const damage = action.damageType ? `${action.damage} ${action.damageType} damage` : `${action.damage} damage`;
+
+    return `${actor} ${verb} ${target}${weapon} for ${damage}` +
+      this.formatResisted(action) +
+      (action.isBlocked ? `, but ${target} blocks most of it` : '') + '.' +
+      (action.isCritical ? ' Critical!' : '') +
+      afflicted;
+  }
+
+  private formatResisted(action: CombatLogEntry): string {
+    if (!action.damageType || action.resisted === 0) {
+      return '';
+    }
+    return action.resisted > 0 ?
+      ` (${action.resisted} resisted)` :
+      ` (${-action.resisted} extra, vulnerable)`;
+  }
+}
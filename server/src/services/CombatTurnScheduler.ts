@@ -0,0 +1,209 @@
+/**
+ * Combat Turn Scheduler
+ * Redis-backed turn deadline tracking so expired turns are resolved even across process restarts
+ */
+
+import { redisService } from './RedisService';
+import { distributedLock } from '../utils/distributedLock';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errorUtils';
+import { COMBAT_CONSTANTS } from '../types/combat.types';
+
+export type TurnExpiryHandler = (sessionId: string, turnKey: string) => Promise<void>;
+export type TurnSettledHandler = (sessionId: string) => Promise<void>;
+
+export class CombatTurnScheduler {
+  private readonly deadlinesKey = 'combat:turn_deadlines';
+  private readonly turnKeysKey = 'combat:turn_keys';
+  private readonly batchSize = 50;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * @param onExpired resolves an expired turn while the session lock is held
+   * @param onSettled runs after the lock is released, e.g. to play the turns that follow
+   */
+  constructor(
+    private readonly onExpired: TurnExpiryHandler,
+    private readonly pollInterval: number = COMBAT_CONSTANTS.TURN_TIMER_POLL_INTERVAL,
+    private readonly onSettled?: TurnSettledHandler
+  ) {}
+
+  /**
+   * Build the key identifying a single turn of a session.
+   * A stale deadline whose key no longer matches the session is ignored.
+   */
+  static buildTurnKey(turnNumber: number, currentTurn: number): string {
+    return `${turnNumber}:${currentTurn}`;
+  }
+
+  /**
+   * Lock held while a session's turn is resolved, by a player's action or by its timeout
+   */
+  static buildLockKey(sessionId: string): string {
+    return `combat:session:${sessionId}`;
+  }
+
+  /**
+   * Schedule (or replace) the deadline for the current turn of a session
+   */
+  async schedule(sessionId: string, turnKey: string, deadline: Date): Promise<void> {
+    const redis = redisService.getClient();
+    const previousKey = await redis.hget(this.turnKeysKey, sessionId);
+
+    const pipeline = redis.multi();
+    if (previousKey) {
+      pipeline.zrem(this.deadlinesKey, this.buildMember(sessionId, previousKey));
+    }
+    pipeline.zadd(this.deadlinesKey, deadline.getTime(), this.buildMember(sessionId, turnKey));
+    pipeline.hset(this.turnKeysKey, sessionId, turnKey);
+    await pipeline.exec();
+
+    logger.debug('Combat turn deadline scheduled', {
+      sessionId,
+      turnKey,
+      deadline: deadline.toISOString()
+    });
+  }
+
+  /**
+   * Cancel any pending deadline for a session (e.g. when combat ends)
+   */
+  async cancel(sessionId: string): Promise<void> {
+    const redis = redisService.getClient();
+    const turnKey = await redis.hget(this.turnKeysKey, sessionId);
+
+    const pipeline = redis.multi();
+    if (turnKey) {
+      pipeline.zrem(this.deadlinesKey, this.buildMember(sessionId, turnKey));
+    }
+    pipeline.hdel(this.turnKeysKey, sessionId);
+    await pipeline.exec();
+  }
+
+  /**
+   * Start polling for expired deadlines
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, this.pollInterval);
+
+    logger.info('Combat turn scheduler started', { pollInterval: this.pollInterval });
+  }
+
+  /**
+   * Stop polling. Pending deadlines stay in Redis and are picked up on the next start.
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logger.info('Combat turn scheduler stopped');
+    }
+  }
+
+  /**
+   * Resolve every deadline that is due. Safe to run on several instances at once:
+   * the per-session lock makes sure each turn expires exactly once. A deadline is only
+   * removed once its handler succeeded; a failed one is retried after a short delay.
+   */
+  async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    this.polling = true;
+    let processed = 0;
+
+    try {
+      const redis = redisService.getClient();
+      const due = await redis.zrangebyscore(this.deadlinesKey, 0, Date.now(), 'LIMIT', 0, this.batchSize);
+
+      for (const member of due) {
+        const { sessionId, turnKey } = this.parseMember(member);
+
+        try {
+          const handled = await distributedLock.withLock(
+            CombatTurnScheduler.buildLockKey(sessionId),
+            COMBAT_CONSTANTS.SESSION_LOCK_TTL,
+            async () => {
+              if (await redis.zscore(this.deadlinesKey, member) === null) {
+                return false; // Another instance already handled this turn
+              }
+
+              await this.onExpired(sessionId, turnKey);
+              await redis.zrem(this.deadlinesKey, member);
+              return true;
+            }
+          );
+
+          if (!handled) {
+            continue;
+          }
+          processed++;
+        } catch (error) {
+          logger.warn('Failed to resolve expired combat turn', {
+            sessionId,
+            turnKey,
+            error: getErrorMessage(error)
+          });
+          await this.retryLater(member);
+          continue;
+        }
+
+        // The expired turn is resolved for good; what follows it is no reason to retry
+        try {
+          await this.onSettled?.(sessionId);
+        } catch (error) {
+          logger.warn('Failed to continue combat after an expired turn', {
+            sessionId,
+            turnKey,
+            error: getErrorMessage(error)
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Combat turn scheduler poll failed', {
+        error: getErrorMessage(error)
+      });
+    } finally {
+      this.polling = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Push a deadline whose resolution failed back by the retry delay, unless it
+   * has been replaced or cancelled in the meantime
+   */
+  private async retryLater(member: string): Promise<void> {
+    try {
+      await redisService.getClient().zadd(
+        this.deadlinesKey, 'XX', Date.now() + COMBAT_CONSTANTS.TURN_EXPIRY_RETRY_DELAY, member
+      );
+    } catch (error) {
+      logger.error('Failed to reschedule expired combat turn', {
+        member,
+        error: getErrorMessage(error)
+      });
+    }
+  }
+
+  private buildMember(sessionId: string, turnKey: string): string {
+    return `${sessionId}|${turnKey}`;
+  }
+
+  private parseMember(member: string): { sessionId: string; turnKey: string } {
+    const separator = member.indexOf('|');
+    return {
+      sessionId: member.slice(0, separator),
+      turnKey: member.slice(separator + 1)
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Death Rules
+ * Death penalties, corpse contents, experience debt repayment and choosing where to respawn
+ */
+
+import {
+  DeathConfig,
+  DeathPenalty,
+  RespawnPoint,
+  DEATH_CONSTANTS
+} from '../types/death.types';
+
+// A layer apart counts as this many map squares, so cities on the same layer win ties
+const LAYER_DISTANCE = 100;
+
+export class DeathRules {
+  /**
+   * What dying costs under the configured penalty
+   */
+  calculatePenalty(config: DeathConfig, experienceToNextLevel: bigint, gold: number): DeathPenalty {
+    switch (config.penalty) {
+      case 'experience_debt':
+        return {
+          experienceDebt: Math.floor(Number(experienceToNextLevel) * config.experienceDebtFraction),
+          goldLost: 0
+        };
+      case 'gold_loss':
+        return {
+          experienceDebt: 0,
+          goldLost: Math.floor(Math.max(0, gold) * config.goldLossFraction)
+        };
+      default:
+        return { experienceDebt: 0, goldLost: 0 };
+    }
+  }
+
+  /**
+   * Share of the penalty a corpse hands back when its owner walks back to it
+   */
+  getCorpseContents(config: DeathConfig, penalty: DeathPenalty): DeathPenalty {
+    return {
+      experienceDebt: Math.floor(penalty.experienceDebt * config.corpseRecoveryFraction),
+      goldLost: Math.floor(penalty.goldLost * config.corpseRecoveryFraction)
+    };
+  }
+
+  getRespawnAt(config: DeathConfig, diedAt: Date): Date {
+    return new Date(diedAt.getTime() + config.respawnDelayMs);
+  }
+
+  /**
+   * Split an experience gain between paying off debt and the character
+   */
+  splitExperienceGain(amount: bigint, debt: bigint): { repaid: bigint; kept: bigint } {
+    if (amount <= 0n || debt <= 0n) {
+      return { repaid: 0n, kept: amount };
+    }
+
+    const share = (amount * BigInt(Math.round(DEATH_CONSTANTS.DEBT_REPAYMENT_RATE * 1000))) / 1000n;
+    const repaid = share < debt ? share : debt;
+    return { repaid, kept: amount - repaid };
+  }
+
+  /**
+   * Bound city nearest to where the character died. Cities without map coordinates,
+   * or a death zone without them, fall back to the first city bound.
+   */
+  chooseRespawnPoint(deathZone: RespawnPoint | null, boundCities: RespawnPoint[]): RespawnPoint | undefined {
+    if (!deathZone || deathZone.mapX === null || deathZone.mapY === null) {
+      return boundCities[0];
+    }
+
+    const distance = (city: RespawnPoint): number => {
+      if (city.mapX === null || city.mapY === null) {
+        return Infinity;
+      }
+      return Math.hypot(city.mapX - deathZone.mapX!, city.mapY - deathZone.mapY!) +
+        Math.abs(city.layer - deathZone.layer) * LAYER_DISTANCE;
+    };
+
+    return [...boundCities].sort((a, b) => distance(a) - distance(b))[0];
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Death Service
+ * Character death, the respawn timer, death penalties, city bindings and corpse recovery
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { CacheManager } from './CacheManager';
+import { RealtimeService } from './RealtimeService';
+import { MovementService } from './MovementService';
+import { ZoneService } from './ZoneService';
+import { DeathRules } from './DeathRules';
+import { logger } from '../utils/logger';
+import {
+  BindResult,
+  CharacterDeathState,
+  Corpse,
+  CorpseRecoveryResult,
+  DeathConfig,
+  DeathErrorCode,
+  DeathEvent,
+  RespawnPoint,
+  RespawnResult,
+  DEATH_CONSTANTS
+} from '../types/death.types';
+
+export class DeathService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+  private realtimeService: RealtimeService;
+  private movementService: MovementService;
+  private config: DeathConfig;
+  private rules: DeathRules;
+
+  constructor(
+    db: Pool,
+    cacheManager: CacheManager,
+    realtimeService: RealtimeService,
+    config: DeathConfig = DEATH_CONSTANTS.DEFAULT_CONFIG,
+    rules: DeathRules = new DeathRules()
+  ) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+    this.realtimeService = realtimeService;
+    this.movementService = new MovementService(db, new ZoneService(db, cacheManager), cacheManager, realtimeService);
+    this.config = config;
+    this.rules = rules;
+  }
+
+  /**
+   * Kill a character: mark them dead, start the respawn timer, apply the death penalty
+   * and leave a corpse in the zone they died in
+   * @returns null when the character does not exist or is already dead
+   */
+  async handleDeath(
+    characterId: string,
+    context: { sessionId?: string; zoneId?: string } = {}
+  ): Promise<DeathEvent | null> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        SELECT c.status, c.gold, c.next_level_exp, cl.zone_id
+        FROM characters c
+        LEFT JOIN character_locations cl ON cl.character_id = c.id
+        WHERE c.id = $1 AND c.deleted_at IS NULL
+        FOR UPDATE OF c
+      `, [characterId]);
+      const row = result.rows[0];
+      if (!row || row.status === 'dead') {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const diedAt = new Date();
+      const respawnAt = this.rules.getRespawnAt(this.config, diedAt);
+      const zoneId: string | undefined = context.zoneId ?? row.zone_id ?? undefined;
+      const penalty = this.rules.calculatePenalty(this.config, BigInt(row.next_level_exp), row.gold);
+
+      await client.query(`
+        UPDATE characters
+        SET status = 'dead', died_at = $2, respawn_at = $3, death_zone_id = $4,
+            experience_debt = experience_debt + $5, gold = gold - $6,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [characterId, diedAt, respawnAt, zoneId ?? null, penalty.experienceDebt, penalty.goldLost]);
+
+      let corpse: Corpse | undefined;
+      if (this.config.leaveCorpse && zoneId) {
+        corpse = await this.createCorpse(client, characterId, zoneId, context.sessionId, diedAt, penalty);
+      }
+
+      await client.query('COMMIT');
+      await this.clearCharacterCache(characterId);
+
+      const event: DeathEvent = {
+        characterId,
+        respawnAt,
+        penalty,
+        ...(context.sessionId && { sessionId: context.sessionId }),
+        ...(zoneId && { zoneId }),
+        ...(corpse && { corpse })
+      };
+
+      this.realtimeService.broadcastToCharacter(characterId, 'character:died', event);
+
+      logger.info('Character died', {
+        characterId,
+        sessionId: context.sessionId,
+        zoneId,
+        experienceDebt: penalty.experienceDebt,
+        goldLost: penalty.goldLost
+      });
+
+      return event;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async isDead(characterId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT status FROM characters WHERE id = $1',
+      [characterId]
+    );
+    return result.rows[0]?.status === 'dead';
+  }
+
+  /**
+   * Death state of a character with their unrecovered corpses
+   */
+  async getDeathState(characterId: string): Promise<CharacterDeathState | null> {
+    const result = await this.db.query(`
+      SELECT status, died_at, respawn_at, death_zone_id, experience_debt
+      FROM characters
+      WHERE id = $1 AND deleted_at IS NULL
+    `, [characterId]);
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const isDead = row.status === 'dead';
+    return {
+      characterId,
+      isDead,
+      experienceDebt: Number(row.experience_debt), // NUMERIC arrives as a string
+      corpses: await this.getCorpses(characterId),
+      ...(isDead && row.died_at && { diedAt: row.died_at }),
+      ...(isDead && row.respawn_at && { respawnAt: row.respawn_at }),
+      ...(isDead && row.death_zone_id && { deathZoneId: row.death_zone_id })
+    };
+  }
+
+  /**
+   * Bring a dead character back once the respawn timer has run out, at the bound city
+   * nearest to where they died or else at their spawn zone
+   */
+  async respawn(characterId: string): Promise<RespawnResult> {
+    const result = await this.db.query(
+      'SELECT status, respawn_at, death_zone_id, spawn_zone FROM characters WHERE id = $1 AND deleted_at IS NULL',
+      [characterId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return { success: false, message: 'Character not found', error: DeathErrorCode.CHARACTER_NOT_FOUND };
+    }
+    if (row.status !== 'dead') {
+      return { success: false, message: 'You are not dead', error: DeathErrorCode.NOT_DEAD };
+    }
+    if (row.respawn_at && new Date(row.respawn_at).getTime() > Date.now()) {
+      return {
+        success: false,
+        message: 'You cannot respawn yet',
+        error: DeathErrorCode.RESPAWN_NOT_READY,
+        respawnAt: row.respawn_at
+      };
+    }
+
+    const zoneId = await this.getRespawnZone(characterId, row.death_zone_id, row.spawn_zone);
+    if (!zoneId) {
+      return { success: false, message: 'There is nowhere to respawn', error: DeathErrorCode.NO_RESPAWN_ZONE };
+    }
+
+    const updated = await this.db.query(`
+      UPDATE characters
+      SET status = 'normal', health = max_health, mana = max_mana,
+          died_at = NULL, respawn_at = NULL, death_zone_id = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'dead'
+    `, [characterId]);
+    if (updated.rowCount === 0) {
+      // Someone else respawned them between the check and the update
+      return { success: false, message: 'You are not dead', error: DeathErrorCode.NOT_DEAD };
+    }
+
+    await this.clearCharacterCache(characterId);
+    const move = await this.movementService.teleportCharacter(characterId, zoneId, 'respawn');
+
+    this.realtimeService.broadcastToCharacter(characterId, 'character:respawned', {
+      characterId,
+      zoneId,
+      ...(move.success && { zoneInfo: move.newZoneInfo })
+    });
+
+    logger.info('Character respawned', { characterId, zoneId });
+
+    return { success: true, message: 'You return to life', zoneId };
+  }
+
+  /**
+   * Bind a character to the city they are standing in
+   */
+  async bindToCity(characterId: string): Promise<BindResult> {
+    const result = await this.db.query(`
+      SELECT c.status, z.id AS zone_id, z.zone_type, z.display_name
+      FROM characters c
+      LEFT JOIN character_locations cl ON cl.character_id = c.id
+      LEFT JOIN zones z ON z.id = cl.zone_id
+      WHERE c.id = $1 AND c.deleted_at IS NULL
+    `, [characterId]);
+    const row = result.rows[0];
+    if (!row) {
+      return { success: false, message: 'Character not found', error: DeathErrorCode.CHARACTER_NOT_FOUND };
+    }
+    if (row.status === 'dead') {
+      return { success: false, message: 'The dead cannot bind themselves', error: DeathErrorCode.STILL_DEAD };
+    }
+    if (!row.zone_id || row.zone_type !== DEATH_CONSTANTS.BINDABLE_ZONE_TYPE) {
+      return { success: false, message: 'You can only bind yourself in a city', error: DeathErrorCode.NOT_A_CITY };
+    }
+
+    await this.db.query(`
+      INSERT INTO character_bindings (character_id, zone_id)
+      VALUES ($1, $2)
+      ON CONFLICT (character_id, zone_id) DO UPDATE SET bound_at = CURRENT_TIMESTAMP
+    `, [characterId, row.zone_id]);
+
+    logger.info('Character bound to city', { characterId, zoneId: row.zone_id });
+
+    return {
+      success: true,
+      message: `You are now bound to ${row.display_name}`,
+      zoneId: row.zone_id
+    };
+  }
+
+  /**
+   * Recover the oldest unexpired corpse in the character's current zone, handing back
+   * its gold and forgiving its share of the experience debt
+   */
+  async recoverCorpse(characterId: string): Promise<CorpseRecoveryResult> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const characterResult = await client.query(`
+        SELECT c.status, cl.zone_id
+        FROM characters c
+        LEFT JOIN character_locations cl ON cl.character_id = c.id
+        WHERE c.id = $1 AND c.deleted_at IS NULL
+        FOR UPDATE OF c
+      `, [characterId]);
+      const character = characterResult.rows[0];
+      if (!character) {
+        await client.query('ROLLBACK');
+        return { success: false, message: 'Character not found', error: DeathErrorCode.CHARACTER_NOT_FOUND };
+      }
+      if (character.status === 'dead') {
+        await client.query('ROLLBACK');
+        return { success: false, message: 'You must respawn before recovering your corpse', error: DeathErrorCode.STILL_DEAD };
+      }
+
+      const corpseResult = await client.query(`
+        SELECT id, gold, experience_debt
+        FROM corpses
+        WHERE character_id = $1 AND zone_id = $2
+          AND recovered_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE
+      `, [characterId, character.zone_id]);
+      const corpse = corpseResult.rows[0];
+      if (!corpse) {
+        await client.query('ROLLBACK');
+        return { success: false, message: 'There is no corpse of yours here', error: DeathErrorCode.CORPSE_NOT_FOUND };
+      }
+
+      await client.query(
+        'UPDATE corpses SET recovered_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [corpse.id]
+      );
+      await client.query(`
+        UPDATE characters
+        SET gold = gold + $2, experience_debt = GREATEST(experience_debt - $3, 0),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [characterId, corpse.gold, corpse.experience_debt]);
+
+      await client.query('COMMIT');
+      await this.clearCharacterCache(characterId);
+
+      logger.info('Corpse recovered', {
+        characterId,
+        corpseId: corpse.id,
+        gold: corpse.gold,
+        experienceDebt: corpse.experience_debt
+      });
+
+      return {
+        success: true,
+        message: 'You recover your belongings from your corpse',
+        goldRecovered: corpse.gold,
+        experienceDebtForgiven: Number(corpse.experience_debt)
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async createCorpse(
+    client: PoolClient,
+    characterId: string,
+    zoneId: string,
+    sessionId: string | undefined,
+    diedAt: Date,
+    penalty: { experienceDebt: number; goldLost: number }
+  ): Promise<Corpse> {
+    const contents = this.rules.getCorpseContents(this.config, penalty);
+    const expiresAt = new Date(diedAt.getTime() + this.config.corpseDurationMs);
+
+    const result = await client.query(`
+      INSERT INTO corpses (character_id, zone_id, session_id, gold, experience_debt, created_at, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `, [characterId, zoneId, sessionId ?? null, contents.goldLost, contents.experienceDebt, diedAt, expiresAt]);
+
+    return {
+      id: result.rows[0].id,
+      characterId,
+      zoneId,
+      gold: contents.goldLost,
+      experienceDebt: contents.experienceDebt,
+      createdAt: diedAt,
+      expiresAt
+    };
+  }
+
+  private async getCorpses(characterId: string): Promise<Corpse[]> {
+    const result = await this.db.query(`
+      SELECT id, zone_id, gold, experience_debt, created_at, expires_at
+      FROM corpses
+      WHERE character_id = $1 AND recovered_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      ORDER BY created_at
+    `, [characterId]);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      characterId,
+      zoneId: row.zone_id,
+      gold: row.gold,
+      experienceDebt: Number(row.experience_debt),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at
+    }));
+  }
+
+  /**
+   * Nearest bound city, else the character's spawn zone, else the default spawn zone
+   */
+  private async getRespawnZone(
+    characterId: string,
+    deathZoneId: string | null,
+    spawnZone: string
+  ): Promise<string | null> {
+    const boundResult = await this.db.query(`
+      SELECT z.id, z.map_x, z.map_y, z.layer
+      FROM character_bindings b
+      JOIN zones z ON z.id = b.zone_id
+      WHERE b.character_id = $1
+      ORDER BY b.bound_at DESC
+    `, [characterId]);
+    const toPoint = (row: any): RespawnPoint => ({
+      zoneId: row.id,
+      mapX: row.map_x,
+      mapY: row.map_y,
+      layer: row.layer ?? 0
+    });
+
+    if (boundResult.rows.length > 0) {
+      let deathZone: RespawnPoint | null = null;
+      if (deathZoneId) {
+        const deathZoneResult = await this.db.query(
+          'SELECT id, map_x, map_y, layer FROM zones WHERE id = $1',
+          [deathZoneId]
+        );
+        deathZone = deathZoneResult.rows[0] ? toPoint(deathZoneResult.rows[0]) : null;
+      }
+
+      const city = this.rules.chooseRespawnPoint(deathZone, boundResult.rows.map(toPoint));
+      if (city) {
+        return city.zoneId;
+      }
+    }
+
+    const spawnResult = await this.db.query(`
+      SELECT id FROM zones
+      WHERE internal_name = ANY($1)
+      ORDER BY internal_name = $2 DESC
+      LIMIT 1
+    `, [[spawnZone, DEATH_CONSTANTS.DEFAULT_SPAWN_ZONE], spawnZone]);
+
+    return spawnResult.rows[0]?.id ?? null;
+  }
+
+  private async clearCharacterCache(characterId: string): Promise<void> {
+    await this.cacheManager.delete(`char:${characterId}:data`);
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Duel Service
+ * Consent-based PVP: a challenge is accepted, declined or left to expire,
+ * and an accepted challenge starts a DUEL combat session in the challenge's zone
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { RealtimeService } from './RealtimeService';
+import { CombatService } from './CombatService';
+import { PvpService } from './PvpService';
+import { getErrorMessage } from '../utils/errorUtils';
+import {
+  CombatErrorCode,
+  CombatSide,
+  CombatType,
+  ParticipantType
+} from '../types/combat.types';
+import {
+  DuelChallenge,
+  DuelChallengeStatus,
+  DuelResult,
+  DuelChallengeEvent,
+  DuelAcceptedEvent,
+  DUEL_CONSTANTS
+} from '../types/duel.types';
+
+export class DuelService {
+  private db: Pool;
+  private realtimeService: RealtimeService;
+  private combatService: CombatService;
+  private pvpService: PvpService;
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    db: Pool,
+    realtimeService: RealtimeService,
+    combatService: CombatService,
+    pvpService: PvpService = new PvpService(db)
+  ) {
+    this.db = db;
+    this.realtimeService = realtimeService;
+    this.combatService = combatService;
+    this.pvpService = pvpService;
+  }
+
+  /**
+   * Start expiring unanswered challenges
+   */
+  startExpiryTimer(): void {
+    if (this.expiryTimer) {
+      return;
+    }
+
+    this.expiryTimer = setInterval(() => {
+      void this.expireChallenges().catch(error => {
+        logger.error('Failed to expire duel challenges', { error: getErrorMessage(error) });
+      });
+    }, DUEL_CONSTANTS.EXPIRY_SWEEP_INTERVAL);
+  }
+
+  /**
+   * Stop expiring challenges (graceful shutdown)
+   */
+  stopExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Challenge another character in the same zone to a duel
+   */
+  async challenge(challengerId: string, targetId: string): Promise<DuelResult> {
+    if (challengerId === targetId) {
+      return {
+        success: false,
+        message: 'You cannot challenge yourself',
+        error: CombatErrorCode.INVALID_TARGET
+      };
+    }
+
+    const zoneId = await this.getSharedZone(challengerId, targetId);
+    if (!zoneId) {
+      return {
+        success: false,
+        message: 'Both characters must be in the same zone',
+        error: CombatErrorCode.ZONE_MISMATCH
+      };
+    }
+
+    const restriction = await this.pvpService.getZoneRestriction(zoneId, CombatType.DUEL);
+    if (restriction) {
+      return { success: false, message: restriction.message, error: restriction.error };
+    }
+
+    for (const characterId of [challengerId, targetId]) {
+      if (await this.combatService.getActiveCombatForCharacter(characterId)) {
+        return {
+          success: false,
+          message: characterId === challengerId ? 'You are already in combat' : 'Target is already in combat',
+          error: CombatErrorCode.ALREADY_IN_COMBAT
+        };
+      }
+    }
+
+    // An unanswered challenge the sweep has not reached yet must not block a new one
+    await this.expireChallenges();
+
+    const expiresAt = new Date(Date.now() + DUEL_CONSTANTS.CHALLENGE_TIMEOUT);
+    const result = await this.db.query(`
+      INSERT INTO duel_challenges (challenger_id, target_id, zone_id, expires_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT DO NOTHING
+      RETURNING *
+    `, [challengerId, targetId, zoneId, expiresAt]);
+
+    if (!result.rows[0]) {
+      return {
+        success: false,
+        message: 'A duel challenge between these characters is already pending',
+        error: CombatErrorCode.DUEL_ALREADY_PENDING
+      };
+    }
+
+    const challenge = this.mapChallengeRow(result.rows[0]);
+    const event: DuelChallengeEvent = {
+      challenge,
+      message: `${challengerId} challenges you to a duel!`
+    };
+    this.realtimeService.broadcastToCharacter(targetId, 'combat:duel_challenge', event);
+
+    logger.info('Duel challenge issued', {
+      challengeId: challenge.id,
+      challengerId,
+      targetId,
+      zoneId
+    });
+
+    return { success: true, message: 'Duel challenge sent', challenge };
+  }
+
+  /**
+   * Accept a pending challenge and start the duel
+   */
+  async accept(challengeId: string, characterId: string): Promise<DuelResult> {
+    const pending = await this.getPendingChallenge(challengeId, characterId);
+    if (!pending.success) {
+      return pending;
+    }
+    const challenge = pending.challenge!;
+
+    // Both duelists must still be in the zone the challenge was made in
+    const zoneId = await this.getSharedZone(challenge.challengerId, challenge.targetId);
+    if (zoneId !== challenge.zoneId) {
+      await this.closeChallenge(challengeId, DuelChallengeStatus.CANCELLED);
+      return {
+        success: false,
+        message: 'Both characters must be in the zone the challenge was made in',
+        error: CombatErrorCode.ZONE_MISMATCH
+      };
+    }
+
+    const restriction = await this.pvpService.getZoneRestriction(challenge.zoneId, CombatType.DUEL);
+    if (restriction) {
+      await this.closeChallenge(challengeId, DuelChallengeStatus.CANCELLED);
+      return { success: false, message: restriction.message, error: restriction.error };
+    }
+
+    // Claim the challenge so a second accept cannot start another duel
+    const accepted = await this.closeChallenge(challengeId, DuelChallengeStatus.ACCEPTED);
+    if (!accepted) {
+      return {
+        success: false,
+        message: 'Duel challenge is no longer pending',
+        error: CombatErrorCode.DUEL_EXPIRED
+      };
+    }
+
+    try {
+      const session = await this.combatService.startEncounter({
+        sessionType: CombatType.DUEL,
+        initiatorId: challenge.challengerId,
+        targetId: challenge.targetId,
+        zoneId: challenge.zoneId,
+        participants: [
+          {
+            characterId: challenge.challengerId,
+            participantType: ParticipantType.PLAYER,
+            side: CombatSide.ATTACKERS,
+            position: 0
+          },
+          {
+            characterId: challenge.targetId,
+            participantType: ParticipantType.PLAYER,
+            side: CombatSide.DEFENDERS,
+            position: 1
+          }
+        ]
+      });
+
+      await this.db.query(
+        'UPDATE duel_challenges SET session_id = $1 WHERE id = $2',
+        [session.id, challengeId]
+      );
+
+      const acceptedChallenge: DuelChallenge = { ...accepted, sessionId: session.id };
+      const event: DuelAcceptedEvent = {
+        challenge: acceptedChallenge,
+        sessionId: session.id,
+        message: 'The duel begins!'
+      };
+      for (const duelistId of [challenge.challengerId, challenge.targetId]) {
+        this.realtimeService.broadcastToCharacter(duelistId, 'combat:duel_accepted', event);
+      }
+
+      logger.info('Duel challenge accepted', {
+        challengeId,
+        sessionId: session.id
+      });
+
+      return { success: true, message: 'Duel accepted', challenge: acceptedChallenge, session };
+    } catch (error) {
+      await this.db.query(
+        'UPDATE duel_challenges SET status = $1 WHERE id = $2',
+        [DuelChallengeStatus.CANCELLED, challengeId]
+      );
+
+      logger.warn('Failed to start duel', {
+        challengeId,
+        error: getErrorMessage(error)
+      });
+
+      for (const duelistId of [challenge.challengerId, challenge.targetId]) {
+        if (await this.combatService.getActiveCombatForCharacter(duelistId)) {
+          return {
+            success: false,
+            message: duelistId === characterId ? 'You are already in combat' : 'Your challenger is already in combat',
+            error: CombatErrorCode.ALREADY_IN_COMBAT
+          };
+        }
+      }
+
+      return { success: false, message: 'Failed to start the duel' };
+    }
+  }
+
+  /**
+   * Decline a pending challenge
+   */
+  async decline(challengeId: string, characterId: string): Promise<DuelResult> {
+    const pending = await this.getPendingChallenge(challengeId, characterId);
+    if (!pending.success) {
+      return pending;
+    }
+
+    const declined = await this.closeChallenge(challengeId, DuelChallengeStatus.DECLINED);
+    if (!declined) {
+      return {
+        success: false,
+        message: 'Duel challenge is no longer pending',
+        error: CombatErrorCode.DUEL_EXPIRED
+      };
+    }
+
+    const event: DuelChallengeEvent = {
+      challenge: declined,
+      message: `${declined.targetId} declined your duel challenge`
+    };
+    this.realtimeService.broadcastToCharacter(declined.challengerId, 'combat:duel_declined', event);
+
+    logger.info('Duel challenge declined', { challengeId });
+
+    return { success: true, message: 'Duel declined', challenge: declined };
+  }
+
+  /**
+   * Expire every challenge that went unanswered and tell both characters
+   * @returns the number of challenges expired
+   */
+  async expireChallenges(): Promise<number> {
+    const result = await this.db.query(`
+      UPDATE duel_challenges
+      SET status = $1, responded_at = CURRENT_TIMESTAMP
+      WHERE status = 'pending' AND expires_at <= CURRENT_TIMESTAMP
+      RETURNING *
+    `, [DuelChallengeStatus.EXPIRED]);
+
+    for (const row of result.rows) {
+      const challenge = this.mapChallengeRow(row);
+      const event: DuelChallengeEvent = {
+        challenge,
+        message: 'The duel challenge expired'
+      };
+      for (const characterId of [challenge.challengerId, challenge.targetId]) {
+        this.realtimeService.broadcastToCharacter(characterId, 'combat:duel_expired', event);
+      }
+    }
+
+    if (result.rows.length > 0) {
+      logger.debug('Duel challenges expired', { count: result.rows.length });
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Pending challenges a character has issued or received
+   */
+  async getPendingChallenges(characterId: string): Promise<DuelChallenge[]> {
+    const result = await this.db.query(`
+      SELECT * FROM duel_challenges
+      WHERE status = 'pending' AND expires_at > CURRENT_TIMESTAMP
+        AND (challenger_id = $1 OR target_id = $1)
+      ORDER BY created_at DESC
+    `, [characterId]);
+
+    return result.rows.map(row => this.mapChallengeRow(row));
+  }
+
+  /**
+   * Load a challenge the character may still answer
+   */
+  private async getPendingChallenge(challengeId: string, characterId: string): Promise<DuelResult> {
+    const result = await this.db.query('SELECT * FROM duel_challenges WHERE id = $1', [challengeId]);
+    const row = result.rows[0];
+
+    // Only the challenged character may answer; to anyone else the challenge does not exist
+    if (!row || row.target_id !== characterId) {
+      return {
+        success: false,
+        message: 'Duel challenge not found',
+        error: CombatErrorCode.DUEL_NOT_FOUND
+      };
+    }
+
+    const challenge = this.mapChallengeRow(row);
+    if (challenge.status !== DuelChallengeStatus.PENDING || challenge.expiresAt <= new Date()) {
+      return {
+        success: false,
+        message: 'Duel challenge is no longer pending',
+        error: CombatErrorCode.DUEL_EXPIRED
+      };
+    }
+
+    return { success: true, message: 'Duel challenge pending', challenge };
+  }
+
+  /**
+   * Move a pending, unexpired challenge to its final status
+   * @returns the updated challenge, or null when it was no longer pending
+   */
+  private async closeChallenge(challengeId: string, status: DuelChallengeStatus): Promise<DuelChallenge | null> {
+    const result = await this.db.query(`
+      UPDATE duel_challenges
+      SET status = $1, responded_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND status = 'pending' AND expires_at > CURRENT_TIMESTAMP
+      RETURNING *
+    `, [status, challengeId]);
+
+    return result.rows[0] ? this.mapChallengeRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Zone both characters are in, or null when they are apart
+   */
+  private async getSharedZone(firstId: string, secondId: string): Promise<string | null> {
+    const result = await this.db.query(
+      'SELECT character_id, zone_id FROM character_locations WHERE character_id = ANY($1::uuid[])',
+      [[firstId, secondId]]
+    );
+
+    const zones = new Map<string, string>(result.rows.map(row => [row.character_id, row.zone_id]));
+    const zoneId = zones.get(firstId);
+
+    return zoneId && zoneId === zones.get(secondId) ? zoneId : null;
+  }
+
+  private mapChallengeRow(row: any): DuelChallenge {
+    return {
+      id: row.id,
+      challengerId: row.challenger_id,
+      targetId: row.target_id,
+      zoneId: row.zone_id,
+      status: row.status,
+      ...(row.session_id && { sessionId: row.session_id }),
+      expiresAt: new Date(row.expires_at),
+      ...(row.responded_at && { respondedAt: new Date(row.responded_at) }),
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
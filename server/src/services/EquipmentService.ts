@@ -6,12 +6,13 @@
 import { Pool } from 'pg';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/errorUtils';
+import { DamageType, Resistances } from '../types/combat.types';
 
 export interface WeaponStats {
   id: string;
   name: string;
   coefficient: number;
-  damageType: string;
+  damageType: DamageType;
   level: number;
 }
 
@@ -32,7 +33,7 @@ export class EquipmentService {
    * Get weapon coefficient for character's equipped weapon
    * Returns 1.0 as default if no weapon equipped or weapon not found
    */
-  async getWeaponCoefficient(req: Request, res: Response): Promise<void> {
+  async getWeaponCoefficient(characterId: string): Promise<number> {
     try {
       // TODO: Integrate with actual equipment/inventory system when implemented
       // For now, return default coefficient based on character level
@@ -80,19 +81,36 @@ export class EquipmentService {
 
   /**
    * Get equipped weapon stats for character
-   * Stub implementation - returns default weapon stats
+   * Falls back to a basic physical weapon when nothing is equipped
    */
-  async getEquippedWeapon(req: Request, res: Response): Promise<void> {
+  async getEquippedWeapon(characterId: string): Promise<WeaponStats | null> {
     try {
-      // TODO: Implement when equipment/inventory system exists
       const coefficient = await this.getWeaponCoefficient(characterId);
-      
+      const result = await this.db.query(`
+        SELECT i.id, i.name, i.damage_type, ci.item_level
+        FROM character_inventory ci
+        JOIN items i ON i.id = ci.item_id
+        WHERE ci.character_id = $1 AND ci.equipped = TRUE AND i.item_type = 'weapon'
+        LIMIT 1
+      `, [characterId]);
+
+      const weapon = result.rows[0];
+      if (!weapon) {
+        return {
+          id: 'default-weapon',
+          name: 'Basic Weapon',
+          coefficient,
+          damageType: DamageType.PHYSICAL,
+          level: 1
+        };
+      }
+
       return {
-        id: 'default-weapon',
-        name: 'Basic Weapon',
+        id: weapon.id,
+        name: weapon.name,
         coefficient,
-        damageType: 'physical',
-        level: 1
+        damageType: weapon.damage_type || DamageType.PHYSICAL,
+        level: weapon.item_level
       };
 
     } catch (error) {
@@ -104,6 +122,35 @@ export class EquipmentService {
     }
   }
 
+  /**
+   * Combined resistances of every equipped item
+   */
+  async getGearResistances(characterId: string): Promise<Resistances> {
+    try {
+      const result = await this.db.query(`
+        SELECT i.resistances
+        FROM character_inventory ci
+        JOIN items i ON i.id = ci.item_id
+        WHERE ci.character_id = $1 AND ci.equipped = TRUE
+      `, [characterId]);
+
+      const resistances: Resistances = {};
+      for (const row of result.rows) {
+        for (const [damageType, value] of Object.entries(row.resistances || {}) as Array<[DamageType, number]>) {
+          resistances[damageType] = (resistances[damageType] ?? 0) + value;
+        }
+      }
+      return resistances;
+
+    } catch (error) {
+      logger.error('Failed to get gear resistances', {
+        characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+      return {};
+    }
+  }
+
   /**
    * Get all equipped items for character
    * Stub implementation for future equipment system integration
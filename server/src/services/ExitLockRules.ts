@@ -0,0 +1,137 @@
+/**
+ * Exit Lock Rules
+ * Deciding whether a character gets through a zone exit and what they see when they cannot
+ */
+
+import {
+  ExitAccessContext,
+  ExitAccessProfile,
+  MovementErrorCode,
+  MovementValidation,
+  ZoneExit
+} from '../types/zone.types';
+
+export class ExitLockRules {
+  /**
+   * A locked exit is opened by whatever its lock type asks for; a lock with no type, or
+   * with its requirement left unconfigured, never opens. Every exit then still applies
+   * its own level and item requirements.
+   */
+  resolve(exit: ZoneExit, ctx: ExitAccessContext): MovementValidation {
+    if (exit.isLocked) {
+      const denial = this.resolveLock(exit, ctx);
+      if (denial) {
+        return denial;
+      }
+    }
+
+    if (exit.requiredLevel > ctx.level) {
+      return {
+        canMove: false,
+        errorCode: MovementErrorCode.LEVEL_TOO_LOW,
+        errorMessage: `You need to be level ${exit.requiredLevel} to access this area.`,
+        requiredLevel: exit.requiredLevel
+      };
+    }
+
+    if (exit.requiredItemId && !ctx.hasRequiredItem) {
+      return {
+        canMove: false,
+        errorCode: MovementErrorCode.MISSING_ITEM,
+        errorMessage: 'You need a specific item to access this area.',
+        requiredItem: exit.requiredItemId
+      };
+    }
+
+    return { canMove: true };
+  }
+
+  /**
+   * Narrow a character's access profile down to one exit. No password is ever given,
+   * so routes never lead through password locks.
+   */
+  contextFor(profile: ExitAccessProfile, exit: ZoneExit): ExitAccessContext {
+    return {
+      level: profile.level,
+      hasRequiredItem: exit.requiredItemId !== undefined && profile.itemIds.has(exit.requiredItemId),
+      questCompleted: exit.requiredQuestId !== undefined && profile.completedQuestIds.has(exit.requiredQuestId),
+      guildId: profile.guildId,
+      passwordAccepted: null,
+      affinityTier: exit.requiredAffinity ? profile.affinityTiers.get(exit.requiredAffinity) ?? 0 : 0,
+      skillValue: exit.requiredSkill ? profile.skills[exit.requiredSkill] : 0
+    };
+  }
+
+  /**
+   * What a character looking at the exit is told about its lock
+   * @returns undefined for exits that are not locked
+   */
+  getLockHint(exit: ZoneExit): string | undefined {
+    if (!exit.isLocked) {
+      return undefined;
+    }
+    if (exit.lockHint) {
+      return exit.lockHint;
+    }
+
+    switch (exit.lockType) {
+      case 'key': return 'This passage is locked and requires a key.';
+      case 'level': return `You need to be level ${exit.requiredLevel} to access this area.`;
+      case 'quest': return 'You must complete a specific quest to access this area.';
+      case 'guild': return 'This area is restricted to guild members.';
+      case 'password': return 'A voice demands a password before you may pass.';
+      case 'magic': return exit.requiredAffinity
+        ? `The way is sealed by ${exit.requiredAffinity} magic. Only adepts of tier ${exit.requiredAffinityTier ?? 1} may pass.`
+        : 'The way is sealed by magic.';
+      case 'skill': return exit.requiredSkill
+        ? `Only those with at least ${exit.requiredSkillValue ?? 0} ${exit.requiredSkill} can get through here.`
+        : 'This passage tests those who would use it.';
+      default: return 'This passage is locked.';
+    }
+  }
+
+  private resolveLock(exit: ZoneExit, ctx: ExitAccessContext): MovementValidation | null {
+    const deny = (errorCode: MovementErrorCode, errorMessage = this.getLockHint(exit)): MovementValidation => ({
+      canMove: false,
+      errorCode,
+      ...(errorMessage && { errorMessage }),
+      ...(exit.lockType && { lockType: exit.lockType })
+    });
+
+    switch (exit.lockType) {
+      case 'key':
+        if (!exit.requiredItemId) return deny(MovementErrorCode.EXIT_LOCKED);
+        return ctx.hasRequiredItem ? null : { ...deny(MovementErrorCode.MISSING_ITEM), requiredItem: exit.requiredItemId };
+
+      case 'level':
+        return exit.requiredLevel > ctx.level
+          ? { ...deny(MovementErrorCode.LEVEL_TOO_LOW), requiredLevel: exit.requiredLevel }
+          : null;
+
+      case 'quest':
+        if (!exit.requiredQuestId) return deny(MovementErrorCode.EXIT_LOCKED);
+        return ctx.questCompleted ? null : deny(MovementErrorCode.QUEST_INCOMPLETE);
+
+      case 'guild':
+        if (ctx.guildId === null) return deny(MovementErrorCode.NOT_GUILD_MEMBER);
+        return exit.requiredGuildId === undefined || exit.requiredGuildId === ctx.guildId
+          ? null
+          : deny(MovementErrorCode.NOT_GUILD_MEMBER);
+
+      case 'password':
+        if (ctx.passwordAccepted === null) return deny(MovementErrorCode.PASSWORD_REQUIRED);
+        return ctx.passwordAccepted ? null : deny(MovementErrorCode.WRONG_PASSWORD, 'That is not the password.');
+
+      case 'magic':
+        if (!exit.requiredAffinity) return deny(MovementErrorCode.EXIT_LOCKED);
+        return ctx.affinityTier >= (exit.requiredAffinityTier ?? 1) ? null : deny(MovementErrorCode.AFFINITY_TOO_LOW);
+
+      case 'skill':
+        if (!exit.requiredSkill) return deny(MovementErrorCode.EXIT_LOCKED);
+        return ctx.skillValue >= (exit.requiredSkillValue ?? 0) ? null : deny(MovementErrorCode.SKILL_TOO_LOW);
+
+      default:
+        return deny(MovementErrorCode.EXIT_LOCKED);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Glicko-2
+ * Rating updates after Glickman's "Example of the Glicko-2 system" (2013)
+ */
+
+import { ARENA_CONSTANTS, GlickoRating, GlickoResult } from '../types/arena.types';
+
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export class Glicko2 {
+  private readonly tau: number;
+
+  constructor(tau: number = ARENA_CONSTANTS.SYSTEM_TAU) {
+    this.tau = tau;
+  }
+
+  /**
+   * Rate a player after one rating period of results.
+   * Without results only the deviation grows, as for a player who sat the period out.
+   */
+  rate(player: GlickoRating, results: GlickoResult[]): GlickoRating {
+    const mu = (player.rating - ARENA_CONSTANTS.DEFAULT_RATING) / SCALE;
+    const phi = player.deviation / SCALE;
+
+    if (results.length === 0) {
+      return {
+        rating: player.rating,
+        deviation: this.capDeviation(Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE),
+        volatility: player.volatility
+      };
+    }
+
+    const opponents = results.map(result => {
+      const opponentMu = (result.opponentRating - ARENA_CONSTANTS.DEFAULT_RATING) / SCALE;
+      const g = this.g(result.opponentDeviation / SCALE);
+      const expected = 1 / (1 + Math.exp(-g * (mu - opponentMu)));
+      return { g, expected, score: result.score };
+    });
+
+    const variance = 1 / opponents.reduce((sum, o) => sum + o.g * o.g * o.expected * (1 - o.expected), 0);
+    const improvement = opponents.reduce((sum, o) => sum + o.g * (o.score - o.expected), 0);
+    const delta = variance * improvement;
+
+    const volatility = this.updateVolatility(phi, player.volatility, variance, delta);
+    const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+    const newPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / variance);
+    const newMu = mu + newPhi * newPhi * improvement;
+
+    return {
+      rating: newMu * SCALE + ARENA_CONSTANTS.DEFAULT_RATING,
+      deviation: this.capDeviation(newPhi * SCALE),
+      volatility
+    };
+  }
+
+  private g(phi: number): number {
+    return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+  }
+
+  /**
+   * New volatility via the Illinois algorithm (step 5 of the paper)
+   */
+  private updateVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+      const ex = Math.exp(x);
+      const denominator = phi * phi + variance + ex;
+      return ex * (delta * delta - phi * phi - variance - ex) / (2 * denominator * denominator) -
+        (x - a) / (this.tau * this.tau);
+    };
+
+    let lower = a;
+    let upper: number;
+    if (delta * delta > phi * phi + variance) {
+      upper = Math.log(delta * delta - phi * phi - variance);
+    } else {
+      let k = 1;
+      while (f(a - k * this.tau) < 0) {
+        k++;
+      }
+      upper = a - k * this.tau;
+    }
+
+    let fLower = f(lower);
+    let fUpper = f(upper);
+    while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+      const candidate = lower + (lower - upper) * fLower / (fUpper - fLower);
+      const fCandidate = f(candidate);
+
+      if (fCandidate * fUpper <= 0) {
+        lower = upper;
+        fLower = fUpper;
+      } else {
+        fLower /= 2;
+      }
+
+      upper = candidate;
+      fUpper = fCandidate;
+    }
+
+    return Math.exp(lower / 2);
+  }
+
+  private capDeviation(deviation: number): number {
+    return Math.min(deviation, ARENA_CONSTANTS.DEFAULT_DEVIATION);
+  }
+}
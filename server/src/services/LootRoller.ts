@@ -0,0 +1,111 @@
+/**
+ * Loot Roller
+ * Rolls a loot table for a kill: guaranteed drops, weighted rolls scaled by monster level,
+ * and stack sizes that grow with level. All randomness comes from the given RandomSource.
+ */
+
+import { RandomSource } from '../utils/random';
+import { LootDrop, LootTable, LootTableEntry, LOOT_CONSTANTS } from '../types/loot.types';
+
+export class LootRoller {
+  /**
+   * Drops from one kill of a monster at `level`, merged by item
+   */
+  roll(table: LootTable, level: number, random: RandomSource, sourceTemplateId?: string): LootDrop[] {
+    const eligible = table.entries.filter(entry => level >= entry.minLevel);
+    const drops: LootDrop[] = [];
+
+    for (const entry of eligible.filter(entry => entry.guaranteed)) {
+      drops.push(this.createDrop(entry, level, random, sourceTemplateId));
+    }
+
+    const weighted = eligible
+      .filter(entry => !entry.guaranteed)
+      .map(entry => ({ entry, weight: this.getScaledWeight(entry, level) }))
+      .filter(({ weight }) => weight > 0);
+
+    for (let roll = 0; roll < table.rolls; roll++) {
+      if (random() >= table.dropChance) {
+        continue;
+      }
+
+      const entry = this.pickEntry(weighted, random);
+      if (entry) {
+        drops.push(this.createDrop(entry, level, random, sourceTemplateId));
+      }
+    }
+
+    return this.mergeDrops(drops);
+  }
+
+  /**
+   * Entry weight with its rarity's per-level bonus applied
+   */
+  getScaledWeight(entry: LootTableEntry, level: number): number {
+    const bonus = LOOT_CONSTANTS.RARITY_LEVEL_BONUS[entry.item.rarity] ?? 0;
+    return entry.weight * (1 + Math.max(0, level - 1) * bonus);
+  }
+
+  /**
+   * Quantity between the entry's bounds; stackable items drop larger stacks at higher levels
+   */
+  rollQuantity(entry: LootTableEntry, level: number, random: RandomSource): number {
+    const base = entry.minQuantity + Math.floor(random() * (entry.maxQuantity - entry.minQuantity + 1));
+    if (entry.item.maxStack <= 1) {
+      return base;
+    }
+
+    return Math.max(1, Math.round(base * (1 + Math.max(0, level - 1) * LOOT_CONSTANTS.QUANTITY_SCALING_PER_LEVEL)));
+  }
+
+  /**
+   * Combine drops of the same item and level into one
+   */
+  mergeDrops(drops: LootDrop[]): LootDrop[] {
+    const merged = new Map<string, LootDrop>();
+    for (const drop of drops) {
+      const key = `${drop.itemId}:${drop.itemLevel}:${drop.sourceTemplateId ?? ''}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.quantity += drop.quantity;
+        existing.value += drop.value;
+      } else {
+        merged.set(key, { ...drop });
+      }
+    }
+    return [...merged.values()];
+  }
+
+  private pickEntry(
+    weighted: Array<{ entry: LootTableEntry; weight: number }>,
+    random: RandomSource
+  ): LootTableEntry | undefined {
+    const totalWeight = weighted.reduce((total, { weight }) => total + weight, 0);
+    if (totalWeight <= 0) {
+      return undefined;
+    }
+
+    let roll = random() * totalWeight;
+    for (const { entry, weight } of weighted) {
+      roll -= weight;
+      if (roll < 0) {
+        return entry;
+      }
+    }
+
+    return weighted[weighted.length - 1]?.entry;
+  }
+
+  private createDrop(entry: LootTableEntry, level: number, random: RandomSource, sourceTemplateId?: string): LootDrop {
+    const quantity = this.rollQuantity(entry, level, random);
+    return {
+      itemId: entry.itemId,
+      name: entry.item.name,
+      rarity: entry.item.rarity,
+      quantity,
+      itemLevel: level,
+      value: entry.item.value * quantity,
+      ...(sourceTemplateId && { sourceTemplateId })
+    };
+  }
+}
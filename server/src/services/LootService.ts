@@ -0,0 +1,364 @@
+/**
+ * Loot Service
+ * Loot tables, rolling drops for a won fight, delivering them to inventories or the
+ * overflow loot window, and the drop audit log
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { CacheManager } from './CacheManager';
+import { CombatRolls } from './CombatRolls';
+import { LootRoller } from './LootRoller';
+import { logger } from '../utils/logger';
+import {
+  CharacterLootDrop,
+  DeliveredLoot,
+  LootClaimResult,
+  LootErrorCode,
+  LootSource,
+  LootTable,
+  LootWindowItem,
+  LOOT_CONSTANTS
+} from '../types/loot.types';
+
+export class LootService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+  private roller: LootRoller;
+
+  constructor(db: Pool, cacheManager: CacheManager, roller: LootRoller = new LootRoller()) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+    this.roller = roller;
+  }
+
+  /**
+   * Get a loot table with its entries and their items
+   */
+  async getLootTable(lootTableId: string): Promise<LootTable | null> {
+    const cacheKey = `loot:table:${lootTableId}`;
+    const cached = await this.cacheManager.get<LootTable>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tableResult = await this.db.query(
+      'SELECT id, name, rolls, drop_chance FROM loot_tables WHERE id = $1',
+      [lootTableId]
+    );
+    const row = tableResult.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const entryResult = await this.db.query(`
+      SELECT e.item_id, e.weight, e.min_quantity, e.max_quantity, e.guaranteed, e.min_level,
+             i.name, i.description, i.item_type, i.rarity, i.max_stack, i.value
+      FROM loot_table_entries e
+      JOIN items i ON i.id = e.item_id
+      WHERE e.loot_table_id = $1
+      ORDER BY e.guaranteed DESC, e.item_id
+    `, [lootTableId]);
+
+    const table: LootTable = {
+      id: row.id,
+      name: row.name,
+      rolls: row.rolls,
+      dropChance: Number(row.drop_chance), // NUMERIC arrives as a string
+      entries: entryResult.rows.map(entry => ({
+        itemId: entry.item_id,
+        item: {
+          id: entry.item_id,
+          name: entry.name,
+          description: entry.description || '',
+          itemType: entry.item_type,
+          rarity: entry.rarity,
+          maxStack: entry.max_stack,
+          value: entry.value
+        },
+        weight: entry.weight,
+        minQuantity: entry.min_quantity,
+        maxQuantity: entry.max_quantity,
+        guaranteed: entry.guaranteed,
+        minLevel: entry.min_level
+      }))
+    };
+
+    await this.cacheManager.set(cacheKey, table, { ttl: LOOT_CONSTANTS.CACHE_TTL });
+
+    return table;
+  }
+
+  /**
+   * Personal loot: every character rolls every defeated monster's table. Each roll
+   * draws from its own stream of the session seed, so the result never changes.
+   */
+  async rollLoot(rngSeed: number, sources: LootSource[], characterIds: string[]): Promise<CharacterLootDrop[]> {
+    const drops: CharacterLootDrop[] = [];
+
+    for (const characterId of characterIds) {
+      for (const source of sources) {
+        const table = await this.getLootTable(source.lootTableId);
+        if (!table) {
+          logger.warn('Monster references a missing loot table', {
+            templateId: source.templateId,
+            lootTableId: source.lootTableId
+          });
+          continue;
+        }
+
+        const random = CombatRolls.createRandom(rngSeed, 'loot', characterId, source.instanceId);
+        for (const drop of this.roller.roll(table, source.level, random, source.templateId)) {
+          drops.push({ ...drop, characterId });
+        }
+      }
+    }
+
+    return drops;
+  }
+
+  /**
+   * Put a character's drops into their bags, stacking where possible. What does not fit
+   * goes to the loot window until it expires. Every delivery is written to the drop log.
+   */
+  async deliverLoot(sessionId: string, characterId: string, drops: CharacterLootDrop[]): Promise<DeliveredLoot[]> {
+    if (drops.length === 0) {
+      return [];
+    }
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Serialise deliveries to the same character so slot counts stay accurate
+      await client.query('SELECT id FROM characters WHERE id = $1 FOR UPDATE', [characterId]);
+
+      const delivered: DeliveredLoot[] = [];
+      const expiresAt = new Date(Date.now() + LOOT_CONSTANTS.LOOT_WINDOW_TTL);
+
+      for (const drop of drops) {
+        const maxStack = await this.getMaxStack(client, drop.itemId);
+        const leftover = await this.addToInventory(client, characterId, drop, maxStack);
+        const stored = drop.quantity - leftover;
+        const unitValue = drop.quantity > 0 ? drop.value / drop.quantity : 0;
+
+        if (stored > 0) {
+          const inInventory: DeliveredLoot = {
+            ...drop,
+            quantity: stored,
+            value: Math.round(unitValue * stored),
+            destination: 'inventory'
+          };
+          await this.logDrop(client, sessionId, inInventory);
+          delivered.push(inInventory);
+        }
+
+        if (leftover > 0) {
+          const windowResult = await client.query(`
+            INSERT INTO loot_windows (character_id, session_id, item_id, quantity, item_level, rarity, expires_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            RETURNING id
+          `, [characterId, sessionId, drop.itemId, leftover, drop.itemLevel, drop.rarity, expiresAt]);
+
+          const inWindow: DeliveredLoot = {
+            ...drop,
+            quantity: leftover,
+            value: Math.round(unitValue * leftover),
+            destination: 'loot_window',
+            lootWindowId: windowResult.rows[0].id
+          };
+          await this.logDrop(client, sessionId, inWindow);
+          delivered.push(inWindow);
+        }
+      }
+
+      await client.query('COMMIT');
+
+      logger.info('Loot delivered', {
+        sessionId,
+        characterId,
+        drops: delivered.length,
+        overflow: delivered.filter(drop => drop.destination === 'loot_window').length
+      });
+
+      return delivered;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Unclaimed, unexpired overflow loot of a character
+   */
+  async getLootWindow(characterId: string): Promise<LootWindowItem[]> {
+    const result = await this.db.query(`
+      SELECT lw.*, i.name
+      FROM loot_windows lw
+      JOIN items i ON i.id = lw.item_id
+      WHERE lw.character_id = $1 AND lw.claimed_at IS NULL AND lw.expires_at > CURRENT_TIMESTAMP
+      ORDER BY lw.created_at
+    `, [characterId]);
+
+    return result.rows.map(row => this.mapWindowRow(row));
+  }
+
+  /**
+   * Move a loot window item into the character's bags; it must fit entirely
+   */
+  async claimLoot(characterId: string, lootId: string): Promise<LootClaimResult> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT id FROM characters WHERE id = $1 FOR UPDATE', [characterId]);
+
+      const result = await client.query(`
+        SELECT lw.*, i.name, i.max_stack
+        FROM loot_windows lw
+        JOIN items i ON i.id = lw.item_id
+        WHERE lw.id = $1 AND lw.character_id = $2
+          AND lw.claimed_at IS NULL AND lw.expires_at > CURRENT_TIMESTAMP
+        FOR UPDATE OF lw
+      `, [lootId, characterId]);
+
+      const row = result.rows[0];
+      if (!row) {
+        await client.query('ROLLBACK');
+        return {
+          success: false,
+          message: 'Loot not found or expired',
+          error: LootErrorCode.LOOT_NOT_FOUND
+        };
+      }
+
+      const item = this.mapWindowRow(row);
+      const leftover = await this.addToInventory(client, characterId, item, row.max_stack);
+      if (leftover > 0) {
+        await client.query('ROLLBACK');
+        return {
+          success: false,
+          message: 'Not enough room in your bags',
+          error: LootErrorCode.INVENTORY_FULL,
+          item
+        };
+      }
+
+      await client.query(
+        'UPDATE loot_windows SET claimed_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [lootId]
+      );
+      await client.query('COMMIT');
+
+      logger.info('Loot claimed from loot window', {
+        characterId,
+        lootId,
+        itemId: item.itemId,
+        quantity: item.quantity
+      });
+
+      return {
+        success: true,
+        message: `${item.name} x${item.quantity} added to your bags`,
+        item
+      };
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Top up matching stacks, then open new slots while the bags have room
+   * @returns the quantity that did not fit
+   */
+  private async addToInventory(
+    client: PoolClient,
+    characterId: string,
+    drop: { itemId: string; quantity: number; itemLevel: number; rarity: string },
+    maxStack: number
+  ): Promise<number> {
+    let remaining = drop.quantity;
+
+    if (maxStack > 1) {
+      const stacks = await client.query(`
+        SELECT id, quantity FROM character_inventory
+        WHERE character_id = $1 AND item_id = $2 AND item_level = $3 AND rarity = $4 AND quantity < $5
+        ORDER BY acquired_at
+        FOR UPDATE
+      `, [characterId, drop.itemId, drop.itemLevel, drop.rarity, maxStack]);
+
+      for (const stack of stacks.rows) {
+        const added = Math.min(remaining, maxStack - stack.quantity);
+        await client.query(
+          'UPDATE character_inventory SET quantity = quantity + $1 WHERE id = $2',
+          [added, stack.id]
+        );
+        remaining -= added;
+        if (remaining === 0) {
+          return 0;
+        }
+      }
+    }
+
+    const slotResult = await client.query(`
+      SELECT c.inventory_slots - (SELECT COUNT(*) FROM character_inventory WHERE character_id = c.id) AS free_slots
+      FROM characters c
+      WHERE c.id = $1
+    `, [characterId]);
+    let freeSlots = Number(slotResult.rows[0]?.free_slots ?? 0);
+
+    while (remaining > 0 && freeSlots > 0) {
+      const quantity = Math.min(remaining, maxStack);
+      await client.query(`
+        INSERT INTO character_inventory (character_id, item_id, quantity, item_level, rarity)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [characterId, drop.itemId, quantity, drop.itemLevel, drop.rarity]);
+      remaining -= quantity;
+      freeSlots--;
+    }
+
+    return remaining;
+  }
+
+  private async getMaxStack(client: PoolClient, itemId: string): Promise<number> {
+    const result = await client.query('SELECT max_stack FROM items WHERE id = $1', [itemId]);
+    return result.rows[0]?.max_stack ?? 1;
+  }
+
+  private async logDrop(client: PoolClient, sessionId: string, drop: DeliveredLoot): Promise<void> {
+    await client.query(`
+      INSERT INTO loot_drop_log
+        (session_id, character_id, item_id, source_template_id, quantity, item_level, rarity, value, destination)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      sessionId,
+      drop.characterId,
+      drop.itemId,
+      drop.sourceTemplateId ?? null,
+      drop.quantity,
+      drop.itemLevel,
+      drop.rarity,
+      drop.value,
+      drop.destination
+    ]);
+  }
+
+  private mapWindowRow(row: any): LootWindowItem {
+    return {
+      id: row.id,
+      characterId: row.character_id,
+      ...(row.session_id && { sessionId: row.session_id }),
+      itemId: row.item_id,
+      name: row.name,
+      rarity: row.rarity,
+      quantity: row.quantity,
+      itemLevel: row.item_level,
+      expiresAt: row.expires_at
+    };
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Monster AI
+ * Pluggable policies that choose the action, target and ability of non-player combatants.
+ * Policies are pure: all randomness comes from the context's RandomSource, so a seeded
+ * source always produces the same decisions.
+ */
+
+import {
+  ActionType,
+  CombatActionRequest,
+  CombatParticipant,
+  StatusEffectType
+} from '../types/combat.types';
+import { Ability, AbilityTargeting } from '../types/ability.types';
+import {
+  MonsterAIBehavior,
+  MonsterAIContext,
+  MonsterAIPolicy,
+  MONSTER_AI_CONSTANTS
+} from '../types/monster.types';
+import { StatusEffectEngine } from './StatusEffectEngine';
+import { ThreatTracker } from './ThreatTracker';
+
+const hpRatio = (participant: CombatParticipant): number =>
+  participant.maxHp > 0 ? participant.currentHp / participant.maxHp : 0;
+
+const attack = (target: CombatParticipant): CombatActionRequest => ({
+  actionType: ActionType.ATTACK,
+  actionName: 'attack',
+  targetId: target.characterId
+});
+
+const defend = (): CombatActionRequest => ({
+  actionType: ActionType.DEFEND,
+  actionName: 'defend'
+});
+
+const useAbility = (ability: Ability, target?: CombatParticipant): CombatActionRequest => ({
+  actionType: ability.actionType,
+  actionName: ability.id,
+  spellId: ability.id,
+  ...(ability.targeting === AbilityTargeting.SINGLE && target && { targetId: target.characterId })
+});
+
+const pick = <T>(items: T[], random: () => number): T | undefined =>
+  items[Math.floor(random() * items.length)];
+
+/**
+ * Goes for whoever holds the most threat (the weakest enemy before anyone has any)
+ * and mixes in offensive abilities
+ */
+export class AggressivePolicy implements MonsterAIPolicy {
+  readonly behavior: string = MonsterAIBehavior.AGGRESSIVE;
+  protected statusEffectEngine: StatusEffectEngine;
+  protected threatTracker: ThreatTracker;
+
+  constructor(
+    statusEffectEngine: StatusEffectEngine = new StatusEffectEngine(),
+    threatTracker: ThreatTracker = new ThreatTracker()
+  ) {
+    this.statusEffectEngine = statusEffectEngine;
+    this.threatTracker = threatTracker;
+  }
+
+  decide(context: MonsterAIContext): CombatActionRequest {
+    const target = this.pickTarget(context.enemies, context.self);
+    if (!target) {
+      return defend();
+    }
+
+    const offensive = this.getOffensiveAbilities(context.abilities, target);
+    if (offensive.length > 0 && context.random() < MONSTER_AI_CONSTANTS.ABILITY_CHANCE) {
+      const areaAbilities = context.enemies.length > 1
+        ? offensive.filter(ability => ability.targeting === AbilityTargeting.ALL_ENEMIES)
+        : [];
+      const ability = pick(areaAbilities.length > 0 ? areaAbilities : offensive, context.random);
+      if (ability) {
+        return useAbility(ability, target);
+      }
+    }
+
+    return attack(target);
+  }
+
+  /**
+   * Top of the monster's threat table; without threat, lowest HP ratio first,
+   * preferring enemies that are not shielded.
+   * Ties break on characterId so the choice never depends on list order.
+   */
+  protected pickTarget(enemies: CombatParticipant[], self?: CombatParticipant): CombatParticipant | undefined {
+    const threatTarget = self && this.threatTracker.getTopThreat(self, enemies);
+    if (threatTarget) {
+      return threatTarget;
+    }
+
+    return [...enemies].sort((a, b) => {
+      const shieldedA = this.statusEffectEngine.hasEffect(a, StatusEffectType.SHIELD) ? 1 : 0;
+      const shieldedB = this.statusEffectEngine.hasEffect(b, StatusEffectType.SHIELD) ? 1 : 0;
+      return shieldedA - shieldedB ||
+        hpRatio(a) - hpRatio(b) ||
+        a.characterId.localeCompare(b.characterId);
+    })[0];
+  }
+
+  /**
+   * Damage abilities aimed at enemies, minus those whose every effect the target already has or resists
+   */
+  protected getOffensiveAbilities(abilities: Ability[], target: CombatParticipant): Ability[] {
+    return abilities.filter(ability => {
+      if (ability.actionType === ActionType.HEAL) {
+        return false;
+      }
+      if (ability.targeting !== AbilityTargeting.SINGLE && ability.targeting !== AbilityTargeting.ALL_ENEMIES) {
+        return false;
+      }
+      if (ability.statusEffects.length === 0) {
+        return true;
+      }
+      return ability.statusEffects.some(effect =>
+        !this.statusEffectEngine.hasEffect(target, effect.type) &&
+        !this.statusEffectEngine.isImmune(target, effect.type)
+      );
+    });
+  }
+}
+
+/**
+ * Keeps its side alive: heals wounded allies, protects itself when low, otherwise fights
+ */
+export class DefensivePolicy extends AggressivePolicy {
+  readonly behavior: string = MonsterAIBehavior.DEFENSIVE;
+
+  decide(context: MonsterAIContext): CombatActionRequest {
+    return this.decideHeal(context) ||
+      this.decideProtect(context) ||
+      super.decide(context);
+  }
+
+  private decideHeal(context: MonsterAIContext): CombatActionRequest | null {
+    const wounded = context.allies
+      .filter(ally => hpRatio(ally) < MONSTER_AI_CONSTANTS.HEAL_THRESHOLD)
+      .sort((a, b) => hpRatio(a) - hpRatio(b) || a.characterId.localeCompare(b.characterId));
+    const heals = context.abilities.filter(ability => ability.actionType === ActionType.HEAL);
+    const mostWounded = wounded[0];
+    if (!mostWounded || heals.length === 0) {
+      return null;
+    }
+
+    const areaHeal = heals.find(ability => ability.targeting === AbilityTargeting.ALL_ALLIES);
+    if (areaHeal && wounded.length > 1) {
+      return useAbility(areaHeal, mostWounded);
+    }
+
+    const singleHeal = heals.find(ability =>
+      ability.targeting === AbilityTargeting.SINGLE ||
+      (ability.targeting === AbilityTargeting.SELF && mostWounded.characterId === context.self.characterId)
+    );
+    const heal = singleHeal || areaHeal;
+    return heal ? useAbility(heal, mostWounded) : null;
+  }
+
+  private decideProtect(context: MonsterAIContext): CombatActionRequest | null {
+    if (hpRatio(context.self) >= MONSTER_AI_CONSTANTS.DEFEND_THRESHOLD) {
+      return null;
+    }
+
+    const shield = context.abilities.find(ability =>
+      ability.targeting === AbilityTargeting.SELF &&
+      ability.statusEffects.some(effect => effect.type === StatusEffectType.SHIELD)
+    );
+    if (shield && !this.statusEffectEngine.hasEffect(context.self, StatusEffectType.SHIELD)) {
+      return useAbility(shield);
+    }
+
+    return defend();
+  }
+}
+
+/**
+ * Follows its encounter script, and otherwise escalates as its HP drops:
+ * area abilities in the second phase, its strongest ability in the last
+ */
+export class BossPhasePolicy extends AggressivePolicy {
+  readonly behavior: string = MonsterAIBehavior.BOSS;
+
+  decide(context: MonsterAIContext): CombatActionRequest {
+    const target = this.pickTarget(context.enemies, context.self);
+    if (!target) {
+      return defend();
+    }
+
+    const scripted = context.abilities.find(ability => ability.id === context.scriptedAbilityId);
+    if (scripted) {
+      return useAbility(scripted, target);
+    }
+
+    const phase = this.getPhase(context.self);
+    const offensive = this.getOffensiveAbilities(context.abilities, target);
+
+    if (phase >= 3 && offensive.length > 0) {
+      const strongest = [...offensive].sort((a, b) => b.basePower - a.basePower || a.id.localeCompare(b.id))[0]!;
+      return useAbility(strongest, target);
+    }
+
+    if (phase === 2) {
+      const areaAbility = offensive.find(ability => ability.targeting === AbilityTargeting.ALL_ENEMIES);
+      if (areaAbility) {
+        return useAbility(areaAbility, target);
+      }
+    }
+
+    return super.decide(context);
+  }
+
+  /**
+   * 1-based phase: the scripted phase when the boss has one, otherwise from its remaining HP
+   */
+  getPhase(boss: CombatParticipant): number {
+    if (boss.bossPhase !== undefined) {
+      return boss.bossPhase;
+    }
+
+    const ratio = hpRatio(boss);
+    return 1 + MONSTER_AI_CONSTANTS.BOSS_PHASE_THRESHOLDS.filter(threshold => ratio <= threshold).length;
+  }
+}
+
+export class MonsterAI {
+  private policies = new Map<string, MonsterAIPolicy>();
+
+  constructor(
+    statusEffectEngine: StatusEffectEngine = new StatusEffectEngine(),
+    threatTracker: ThreatTracker = new ThreatTracker()
+  ) {
+    this.registerPolicy(new AggressivePolicy(statusEffectEngine, threatTracker));
+    this.registerPolicy(new DefensivePolicy(statusEffectEngine, threatTracker));
+    this.registerPolicy(new BossPhasePolicy(statusEffectEngine, threatTracker));
+  }
+
+  /**
+   * Add or replace the policy for a behaviour
+   */
+  registerPolicy(policy: MonsterAIPolicy): void {
+    this.policies.set(policy.behavior, policy);
+  }
+
+  /**
+   * Choose an action for a monster; unknown behaviours fall back to aggressive
+   */
+  decide(behavior: string | undefined, context: MonsterAIContext): CombatActionRequest {
+    const policy = (behavior && this.policies.get(behavior)) ||
+      this.policies.get(MonsterAIBehavior.AGGRESSIVE)!;
+    return policy.decide(context);
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Monster Service
+ * Monster templates, per-zone spawn tables and the PVE encounter generator
+ */
+
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { CacheManager } from './CacheManager';
+import { logger } from '../utils/logger';
+import {
+  MonsterTemplate,
+  ZoneSpawnEntry,
+  GeneratedMonster,
+  MONSTER_CONSTANTS
+} from '../types/monster.types';
+import {
+  CharacterCombatStats,
+  CombatSide,
+  CreateCombatParticipantDto
+} from '../types/combat.types';
+import { Zone } from '../types/zone.types';
+
+export class MonsterService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+
+  constructor(db: Pool, cacheManager: CacheManager) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Get a monster template by id
+   */
+  async getTemplate(templateId: string): Promise<MonsterTemplate | null> {
+    const cacheKey = `monster:template:${templateId}`;
+    const cached = await this.cacheManager.get<MonsterTemplate>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.db.query(
+      'SELECT * FROM monster_templates WHERE id = $1',
+      [templateId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const template = this.mapTemplateRow(result.rows[0]);
+    await this.cacheManager.set(cacheKey, template, { ttl: MONSTER_CONSTANTS.CACHE_TTL });
+
+    return template;
+  }
+
+  /**
+   * Get the weighted spawn table of a zone
+   */
+  async getSpawnTable(zoneId: string): Promise<ZoneSpawnEntry[]> {
+    const cacheKey = `monster:spawns:${zoneId}`;
+    const cached = await this.cacheManager.get<ZoneSpawnEntry[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.db.query(`
+      SELECT id, zone_id, template_id, weight, max_group_size,
+             lower(level_range) AS min_level, upper(level_range) - 1 AS max_level
+      FROM zone_spawn_tables
+      WHERE zone_id = $1
+    `, [zoneId]);
+
+    const entries: ZoneSpawnEntry[] = result.rows.map(row => ({
+      id: row.id,
+      zoneId: row.zone_id,
+      templateId: row.template_id,
+      weight: row.weight,
+      levelRange: [row.min_level, row.max_level],
+      maxGroupSize: row.max_group_size
+    }));
+
+    await this.cacheManager.set(cacheKey, entries, { ttl: MONSTER_CONSTANTS.CACHE_TTL });
+
+    return entries;
+  }
+
+  /**
+   * Roll the zone's spawn rate and generate an encounter when monsters show up
+   * @returns an empty list when nothing spawns
+   */
+  async rollEncounter(zone: Zone, partyLevel: number, random: () => number = Math.random): Promise<GeneratedMonster[]> {
+    if (zone.safeZone || random() >= zone.monsterSpawnRate) {
+      return [];
+    }
+
+    return this.generateEncounter(zone.id, partyLevel, random);
+  }
+
+  /**
+   * Pick a monster from the zone's spawn table for the party's level and build its group
+   */
+  async generateEncounter(zoneId: string, partyLevel: number, random: () => number = Math.random): Promise<GeneratedMonster[]> {
+    const entry = this.selectSpawn(await this.getSpawnTable(zoneId), partyLevel, random);
+    if (!entry) {
+      return [];
+    }
+
+    const template = await this.getTemplate(entry.templateId);
+    if (!template) {
+      logger.warn('Spawn table references a missing monster template', {
+        zoneId,
+        templateId: entry.templateId
+      });
+      return [];
+    }
+
+    const groupSize = Math.min(
+      MONSTER_CONSTANTS.MAX_ENCOUNTER_SIZE,
+      1 + Math.floor(random() * entry.maxGroupSize)
+    );
+    return Array.from({ length: groupSize }, () => this.createMonster(template, partyLevel));
+  }
+
+  /**
+   * Weighted pick among spawn entries whose level range covers the party level
+   */
+  selectSpawn(entries: ZoneSpawnEntry[], partyLevel: number, random: () => number = Math.random): ZoneSpawnEntry | null {
+    const eligible = entries.filter(
+      entry => partyLevel >= entry.levelRange[0] && partyLevel <= entry.levelRange[1]
+    );
+    const totalWeight = eligible.reduce((total, entry) => total + entry.weight, 0);
+    if (totalWeight <= 0) {
+      return null;
+    }
+
+    let roll = random() * totalWeight;
+    for (const entry of eligible) {
+      roll -= entry.weight;
+      if (roll < 0) {
+        return entry;
+      }
+    }
+
+    return eligible[eligible.length - 1] || null;
+  }
+
+  /**
+   * Instantiate a template at a level
+   */
+  createMonster(template: MonsterTemplate, level: number): GeneratedMonster {
+    return {
+      instanceId: uuidv4(),
+      template,
+      level,
+      stats: this.scaleStats(template, level)
+    };
+  }
+
+  /**
+   * Template stats scaled from the template's base level to the spawn level
+   */
+  scaleStats(template: MonsterTemplate, level: number): CharacterCombatStats {
+    const multiplier = this.getLevelMultiplier(template, level, MONSTER_CONSTANTS.STAT_SCALING_PER_LEVEL);
+    const scale = (value: number) => Math.max(1, Math.round(value * multiplier));
+
+    return {
+      level,
+      hp: scale(template.stats.hp),
+      mp: template.stats.mp > 0 ? scale(template.stats.mp) : 0,
+      strength: scale(template.stats.strength),
+      vitality: scale(template.stats.vitality),
+      dexterity: scale(template.stats.dexterity),
+      intelligence: scale(template.stats.intelligence),
+      wisdom: scale(template.stats.wisdom)
+    };
+  }
+
+  /**
+   * Experience and gold a monster is worth at a level
+   */
+  calculateRewards(template: MonsterTemplate, level: number): { experience: number; gold: number } {
+    const multiplier = this.getLevelMultiplier(template, level, MONSTER_CONSTANTS.REWARD_SCALING_PER_LEVEL);
+
+    return {
+      experience: Math.round(template.experience * multiplier),
+      gold: Math.round(template.gold * multiplier)
+    };
+  }
+
+  /**
+   * Combat participants for a generated encounter, lined up on the defending side
+   */
+  buildParticipants(
+    monsters: GeneratedMonster[],
+    side: CombatSide = CombatSide.DEFENDERS,
+    startPosition: number = 0
+  ): CreateCombatParticipantDto[] {
+    return monsters.map((monster, index) => ({
+      characterId: monster.instanceId,
+      participantType: monster.template.participantType,
+      side,
+      position: startPosition + index,
+      monsterTemplateId: monster.template.id,
+      monsterLevel: monster.level
+    }));
+  }
+
+  private getLevelMultiplier(template: MonsterTemplate, level: number, perLevel: number): number {
+    return Math.max(
+      MONSTER_CONSTANTS.MIN_STAT_MULTIPLIER,
+      1 + (level - template.baseLevel) * perLevel
+    );
+  }
+
+  private mapTemplateRow(row: any): MonsterTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || '',
+      participantType: row.participant_type,
+      baseLevel: row.base_level,
+      stats: {
+        level: row.base_level,
+        hp: row.max_hp,
+        mp: row.max_mp,
+        strength: row.strength,
+        vitality: row.vitality,
+        dexterity: row.dexterity,
+        intelligence: row.intelligence,
+        wisdom: row.wisdom
+      },
+      abilities: row.abilities || [],
+      ...(row.loot_table_id && { lootTableId: row.loot_table_id }),
+      experience: row.experience,
+      gold: row.gold,
+      immunities: row.immunities || [],
+      resistances: row.resistances || {},
+      aiBehavior: row.ai_behavior
+    };
+  }
+}
@@ -4,11 +4,17 @@
  */
 
 import { Pool } from 'pg';
+import argon2 from 'argon2';
 import { logger } from '../utils/logger';
 import { ZoneService } from './ZoneService';
 import { CacheManager } from './CacheManager';
 import { RealtimeService } from '../services/RealtimeService';
 import { getErrorMessage } from '../utils/errorUtils';
+import { RandomSource } from '../utils/random';
+import { ExitLockRules } from './ExitLockRules';
+import { ZonePathfinder } from './ZonePathfinder';
+import { ZoneInstanceService } from './ZoneInstanceService';
+import {
   MoveResult,
   Direction,
   MovementValidation,
@@ -16,31 +22,62 @@ import { getErrorMessage } from '../utils/errorUtils';
   CharacterLocation,
   MovementLogEntry,
   MovementType,
+  ZoneExit,
+  ExitAccessContext,
+  ExitAccessProfile,
+  TravelPath,
+  AutoTravelStopReason,
+  Zone,
+  ZoneInstance,
   ZONE_CONSTANTS
 } from '../types/zone.types';
 
+interface AutoTravel {
+  path: TravelPath;
+  stepsTaken: number;
+  timer: NodeJS.Timeout | null;
+}
+
+// Shared by every MovementService, so combat (which builds its own) can interrupt travel
+const autoTravels = new Map<string, AutoTravel>();
+
 export class MovementService {
   private db: Pool;
   private zoneService: ZoneService;
   private cacheManager: CacheManager;
   private realtimeService: RealtimeService;
+  private lockRules: ExitLockRules;
+  private pathfinder: ZonePathfinder;
+  private instanceService: ZoneInstanceService;
 
   constructor(
     db: Pool, 
     zoneService: ZoneService, 
     cacheManager: CacheManager,
-    realtimeService: RealtimeService
+    realtimeService: RealtimeService,
+    lockRules: ExitLockRules = new ExitLockRules(),
+    pathfinder: ZonePathfinder = new ZonePathfinder(),
+    instanceService: ZoneInstanceService = new ZoneInstanceService(db, cacheManager)
   ) {
     this.db = db;
     this.zoneService = zoneService;
     this.cacheManager = cacheManager;
     this.realtimeService = realtimeService;
+    this.lockRules = lockRules;
+    this.pathfinder = pathfinder;
+    this.instanceService = instanceService;
   }
 
   /**
    * Move character in specified direction
+   * @param password Spoken at password-locked exits
    */
-  async moveCharacter(req: Request, res: Response): Promise<void> {
+  async moveCharacter(
+    characterId: string,
+    direction: string,
+    movementType: MovementType = 'normal',
+    password?: string
+  ): Promise<MoveResult> {
     const startTime = Date.now();
     
     try {
@@ -73,7 +110,7 @@ export class MovementService {
       }
 
       // Validate movement
-      const validation = await this.validateMovement(characterId, currentLocation.zoneId, normalizedDirection);
+      const validation = await this.validateMovement(characterId, currentLocation.zoneId, normalizedDirection, password);
       if (!validation.canMove) {
         return {
           success: false,
@@ -82,8 +119,9 @@ export class MovementService {
           direction: normalizedDirection,
           travelMessage: validation.errorMessage || 'Movement not allowed.',
           newZoneInfo: null as any,
-          error: validation.errorMessage,
-          cooldownRemaining: validation.cooldownRemaining
+          ...(validation.errorMessage && { error: validation.errorMessage }),
+          ...(validation.errorCode && { errorCode: validation.errorCode }),
+          ...(validation.cooldownRemaining !== undefined && { cooldownRemaining: validation.cooldownRemaining })
         };
       }
 
@@ -103,18 +141,30 @@ export class MovementService {
         };
       }
 
+      const destination = await this.zoneService.getZoneById(exit.toZoneId);
+      if (!destination) {
+        throw new Error(`Zone ${exit.toZoneId} not found`);
+      }
+
       // Perform the movement
+      const instanceId = await this.getArrivalInstanceId(characterId, destination);
       const travelTime = Date.now() - startTime;
-      await this.executeMovement(characterId, currentLocation.zoneId, exit.toZoneId, normalizedDirection, movementType, travelTime);
+      await this.executeMovement(characterId, currentLocation.zoneId, exit.toZoneId, normalizedDirection, movementType, travelTime, instanceId);
+      await this.leaveInstance(currentLocation, instanceId);
 
       // Get new zone information
-      const newZoneInfo = await this.zoneService.getZone(exit.toZoneId);
+      const newZoneInfo = await this.zoneService.getZone(exit.toZoneId, instanceId ?? undefined);
       if (!newZoneInfo) {
-      throw new Error(errorMessage);
+        throw new Error(`Zone ${exit.toZoneId} not found`);
       }
 
       // Broadcast movement events
-      await this.broadcastMovement(characterId, currentLocation.zoneId, exit.toZoneId, normalizedDirection);
+      await this.broadcastMovement(
+        characterId,
+        currentLocation.instanceId ?? currentLocation.zoneId,
+        instanceId ?? exit.toZoneId,
+        normalizedDirection
+      );
 
       // Create successful result
       const result: MoveResult = {
@@ -124,13 +174,15 @@ export class MovementService {
         direction: normalizedDirection,
         travelMessage: exit.travelMessage || `You move ${normalizedDirection}.`,
         newZoneInfo,
-        exitInfo: exit
+        exitInfo: exit,
+        ...(instanceId && { instanceId })
       };
 
       logger.info('Character movement successful', {
         characterId,
         oldZoneId: currentLocation.zoneId,
         newZoneId: exit.toZoneId,
+        instanceId,
         direction: normalizedDirection,
         travelTime
       });
@@ -150,7 +202,7 @@ export class MovementService {
   /**
    * Get character's current location
    */
-  async getCharacterLocation(req: Request, res: Response): Promise<void> {
+  async getCharacterLocation(characterId: string): Promise<CharacterLocation | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
@@ -159,7 +211,7 @@ export class MovementService {
                 created_at, updated_at
          FROM character_locations 
          WHERE character_id = $1`,
-        [characterId];
+        [characterId]
       );
 
       if (result.rows.length === 0) return null;
@@ -168,7 +220,7 @@ export class MovementService {
       return {
         characterId: row.character_id,
         zoneId: row.zone_id,
-        instanceId: row.instance_id,
+        ...(row.instance_id && { instanceId: row.instance_id }),
         x: row.x,
         y: row.y,
         lastMovement: row.last_movement,
@@ -186,7 +238,12 @@ export class MovementService {
   /**
    * Validate if character can move in the specified direction
    */
-  async validateMovement(req: Request, res: Response): Promise<void> {
+  async validateMovement(
+    characterId: string,
+    zoneId: string,
+    direction: Direction,
+    password?: string
+  ): Promise<MovementValidation> {
     try {
       // Check movement cooldown
       const cooldownCheck = await this.checkMovementCooldown(characterId);
@@ -246,36 +303,18 @@ export class MovementService {
         };
       }
 
-      // Check if exit is locked
-      if (exit.isLocked) {
+      // Instanced zones are only entered and left through portals
+      if (exit.exitType !== 'portal' && await this.crossesInstanceBoundary(zoneId, exit.toZoneId)) {
         return {
           canMove: false,
-          errorCode: MovementErrorCode.EXIT_LOCKED,
-          errorMessage: 'This exit is locked.'
+          errorCode: MovementErrorCode.PORTAL_REQUIRED,
+          errorMessage: 'Only a portal leads that way.'
         };
       }
 
-      // Check level requirements
-      if (exit.requiredLevel > characterData.level) {
-        return {
-          canMove: false,
-          errorCode: MovementErrorCode.LEVEL_TOO_LOW,
-          errorMessage: `You need to be level ${exit.requiredLevel} to access this area.`,
-          requiredLevel: exit.requiredLevel
-        };
-      }
-
-      // Check item requirements (placeholder for future item system)
-      if (exit.requiredItemId) {
-        return {
-          canMove: false,
-          errorCode: MovementErrorCode.MISSING_ITEM,
-          errorMessage: 'You need a specific item to access this area.',
-          requiredItem: exit.requiredItemId
-        };
-      }
-
-      return { canMove: true };
+      // Check locks, level and item requirements
+      const accessContext = await this.getExitAccessContext(characterId, characterData, exit, password);
+      return this.lockRules.resolve(exit, accessContext);
     } catch (error) {
       logger.error('Movement validation failed', {
         characterId,
@@ -331,12 +370,12 @@ export class MovementService {
   /**
    * Get character level
    */
-  async getCharacterLevel(req: Request, res: Response): Promise<void> {
+  async getCharacterLevel(characterId: string): Promise<number | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
         'SELECT level FROM characters WHERE id = $1 AND deleted_at IS NULL',
-        [characterId];
+        [characterId]
       );
 
       return result.rows.length > 0 ? result.rows[0].level : null;
@@ -348,27 +387,408 @@ export class MovementService {
   /**
    * Get character data for validation
    */
-  async getCharacterData(req: Request, res: Response): Promise<void> {
+  async getCharacterData(
+    characterId: string
+  ): Promise<{ level: number; status: string; guildId: number | null } | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
-        'SELECT level, status FROM characters WHERE id = $1 AND deleted_at IS NULL',
-        [characterId];
+        'SELECT level, status, guild_id FROM characters WHERE id = $1 AND deleted_at IS NULL',
+        [characterId]
       );
 
       return result.rows.length > 0 ? {
         level: result.rows[0].level,
-        status: result.rows[0].status
+        status: result.rows[0].status,
+        guildId: result.rows[0].guild_id ?? null
       } : null;
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Gather what the character brings to an exit's requirements. Only the lookups the
+   * exit actually needs are made.
+   */
+  private async getExitAccessContext(
+    characterId: string,
+    characterData: { level: number; guildId: number | null },
+    exit: ZoneExit,
+    password?: string
+  ): Promise<ExitAccessContext> {
+    const context: ExitAccessContext = {
+      level: characterData.level,
+      hasRequiredItem: false,
+      questCompleted: false,
+      guildId: characterData.guildId,
+      passwordAccepted: null,
+      affinityTier: 0,
+      skillValue: 0
+    };
+
+    const client = await this.db.connect();
+    try {
+      if (exit.requiredItemId) {
+        const result = await client.query(
+          'SELECT 1 FROM character_inventory WHERE character_id = $1 AND item_id = $2 AND quantity > 0 LIMIT 1',
+          [characterId, exit.requiredItemId]
+        );
+        context.hasRequiredItem = result.rows.length > 0;
+      }
+
+      if (!exit.isLocked) {
+        return context;
+      }
+
+      switch (exit.lockType) {
+        case 'quest':
+          if (exit.requiredQuestId) {
+            const result = await client.query(
+              `SELECT 1 FROM character_quests
+               WHERE character_id = $1 AND quest_id = $2 AND status = 'completed'`,
+              [characterId, exit.requiredQuestId]
+            );
+            context.questCompleted = result.rows.length > 0;
+          }
+          break;
+
+        case 'password':
+          if (password !== undefined) {
+            const result = await client.query(
+              'SELECT lock_password_hash FROM zone_exits WHERE id = $1',
+              [exit.id]
+            );
+            const hash: string | null = result.rows[0]?.lock_password_hash ?? null;
+            context.passwordAccepted = hash !== null && await argon2.verify(hash, password);
+          }
+          break;
+
+        case 'magic':
+          if (exit.requiredAffinity) {
+            const result = await client.query(
+              `SELECT ca.tier
+               FROM character_affinities ca
+               JOIN affinities a ON a.id = ca.affinity_id
+               WHERE ca.character_id = $1 AND a.name = $2`,
+              [characterId, exit.requiredAffinity]
+            );
+            context.affinityTier = result.rows[0]?.tier ?? 0;
+          }
+          break;
+
+        case 'skill': {
+          // The column name comes from a fixed list, never from the exit row itself
+          const skill = ZONE_CONSTANTS.SKILL_NAMES.find(name => name === exit.requiredSkill);
+          if (skill) {
+            const result = await client.query(
+              `SELECT ${skill} AS value FROM characters WHERE id = $1`,
+              [characterId]
+            );
+            context.skillValue = result.rows[0]?.value ?? 0;
+          }
+          break;
+        }
+      }
+
+      return context;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Bring another character into the party of the instance the owner is standing in
+   * @returns the instance, or null when the owner is not inside one they own
+   */
+  async inviteToInstance(ownerCharacterId: string, characterId: string): Promise<ZoneInstance | null> {
+    return this.instanceService.addMember(ownerCharacterId, characterId);
+  }
+
+  /**
+   * Whether an exit between two zones leads into or out of an instanced zone
+   */
+  private async crossesInstanceBoundary(fromZoneId: string, toZoneId: string): Promise<boolean> {
+    const [fromZone, toZone] = await Promise.all([
+      this.zoneService.getZoneById(fromZoneId),
+      this.zoneService.getZoneById(toZoneId)
+    ]);
+
+    return (!!fromZone && this.instanceService.isInstanced(fromZone)) ||
+      (!!toZone && this.instanceService.isInstanced(toZone));
+  }
+
+  /**
+   * The instance a character is in after arriving in a zone: their party's copy of an
+   * instanced zone, and none anywhere else
+   */
+  private async getArrivalInstanceId(characterId: string, zone: Zone): Promise<string | null> {
+    if (!this.instanceService.isInstanced(zone)) {
+      return null;
+    }
+
+    const level = await this.getCharacterLevel(characterId) ?? 1;
+    return (await this.instanceService.enterInstance(characterId, zone, level)).id;
+  }
+
+  /**
+   * Start the idle clock of the instance a character just left
+   */
+  private async leaveInstance(previousLocation: CharacterLocation, instanceId: string | null): Promise<void> {
+    if (previousLocation.instanceId && previousLocation.instanceId !== instanceId) {
+      await this.instanceService.touchInstance(previousLocation.instanceId);
+    }
+  }
+
+  /**
+   * Load everything exit locks can ask of a character in one go
+   */
+  private async getExitAccessProfile(characterId: string): Promise<ExitAccessProfile | null> {
+    const client = await this.db.connect();
+    try {
+      const characterResult = await client.query(
+        `SELECT level, guild_id, strength, vitality, dexterity, intelligence, wisdom
+         FROM characters WHERE id = $1 AND deleted_at IS NULL`,
+        [characterId]
+      );
+      const character = characterResult.rows[0];
+      if (!character) {
+        return null;
+      }
+
+      const [items, quests, affinities] = await Promise.all([
+        client.query(
+          'SELECT DISTINCT item_id FROM character_inventory WHERE character_id = $1 AND quantity > 0',
+          [characterId]
+        ),
+        client.query(
+          `SELECT quest_id FROM character_quests WHERE character_id = $1 AND status = 'completed'`,
+          [characterId]
+        ),
+        client.query(
+          `SELECT a.name, ca.tier
+           FROM character_affinities ca
+           JOIN affinities a ON a.id = ca.affinity_id
+           WHERE ca.character_id = $1`,
+          [characterId]
+        )
+      ]);
+
+      return {
+        level: character.level,
+        guildId: character.guild_id ?? null,
+        itemIds: new Set(items.rows.map(row => row.item_id)),
+        completedQuestIds: new Set(quests.rows.map(row => row.quest_id)),
+        affinityTiers: new Map(affinities.rows.map(row => [row.name, row.tier])),
+        skills: {
+          strength: character.strength,
+          vitality: character.vitality,
+          dexterity: character.dexterity,
+          intelligence: character.intelligence,
+          wisdom: character.wisdom
+        }
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Find the quickest route from the character's zone to another through exits they
+   * can use right now. Password-locked exits are never routed through.
+   * @returns null when the character cannot get there
+   */
+  async findPath(characterId: string, toZoneId: string): Promise<TravelPath | null> {
+    const [location, profile, exits] = await Promise.all([
+      this.getCharacterLocation(characterId),
+      this.getExitAccessProfile(characterId),
+      this.zoneService.getAllExits()
+    ]);
+    if (!location || !profile) {
+      return null;
+    }
+
+    return this.pathfinder.findPath(exits, location.zoneId, toZoneId, exit =>
+      this.lockRules.resolve(exit, this.lockRules.contextFor(profile, exit)).canMove
+    );
+  }
+
+  /**
+   * Walk the character to a zone one exit at a time. Each step waits out the exit's
+   * travel time (never less than the movement cooldown) and goes through moveCharacter,
+   * so travel stops on its own at anything that would stop a manual move, including combat.
+   * Starting a new trip replaces the current one.
+   * @returns the route being travelled, or null when there is none
+   */
+  async startAutoTravel(characterId: string, toZoneId: string): Promise<TravelPath | null> {
+    const path = await this.findPath(characterId, toZoneId);
+    if (!path) {
+      return null;
+    }
+
+    this.cancelAutoTravel(characterId, 'replaced');
+    if (path.steps.length === 0) {
+      return path;
+    }
+
+    const travel: AutoTravel = { path, stepsTaken: 0, timer: null };
+    autoTravels.set(characterId, travel);
+    this.scheduleAutoTravelStep(characterId, travel);
+
+    logger.info('Auto-travel started', {
+      characterId,
+      fromZoneId: path.fromZoneId,
+      toZoneId: path.toZoneId,
+      steps: path.steps.length
+    });
+    await this.notifyAutoTravel(characterId, travel, 'started');
+
+    return path;
+  }
+
+  /**
+   * Stop the character's auto-travel, if any
+   * @returns whether the character was travelling
+   */
+  cancelAutoTravel(characterId: string, reason: AutoTravelStopReason = 'cancelled'): boolean {
+    const travel = autoTravels.get(characterId);
+    if (!travel) {
+      return false;
+    }
+
+    this.stopAutoTravel(characterId, travel, reason);
+    return true;
+  }
+
+  /**
+   * The route a character is auto-travelling, with how far along it they are
+   */
+  getAutoTravel(characterId: string): { path: TravelPath; stepsTaken: number } | null {
+    const travel = autoTravels.get(characterId);
+    return travel ? { path: travel.path, stepsTaken: travel.stepsTaken } : null;
+  }
+
+  private scheduleAutoTravelStep(characterId: string, travel: AutoTravel, delayMs?: number): void {
+    const step = travel.path.steps[travel.stepsTaken];
+    const delay = delayMs ??
+      Math.max(ZONE_CONSTANTS.MOVEMENT_COOLDOWN_SECONDS, step?.travelTime ?? 0) * 1000;
+
+    travel.timer = setTimeout(() => {
+      travel.timer = null;
+      this.takeAutoTravelStep(characterId, travel).catch(error => {
+        logger.error('Auto-travel step failed', {
+          characterId,
+          error: error instanceof Error ? getErrorMessage(error) : error
+        });
+        this.stopAutoTravel(characterId, travel, 'blocked');
+      });
+    }, delay);
+  }
+
+  private async takeAutoTravelStep(characterId: string, travel: AutoTravel): Promise<void> {
+    const step = travel.path.steps[travel.stepsTaken];
+    if (autoTravels.get(characterId) !== travel || !step) {
+      return;
+    }
+
+    // Anything that moved the character off the route (a flee, a teleport) ends the trip
+    const location = await this.getCharacterLocation(characterId);
+    if (location?.zoneId !== step.fromZoneId) {
+      this.stopAutoTravel(characterId, travel, 'blocked');
+      return;
+    }
+
+    const result = await this.moveCharacter(characterId, step.direction);
+    if (autoTravels.get(characterId) !== travel) {
+      return;
+    }
+
+    if (!result.success) {
+      if (result.errorCode === MovementErrorCode.COOLDOWN_ACTIVE) {
+        this.scheduleAutoTravelStep(
+          characterId,
+          travel,
+          (result.cooldownRemaining ?? ZONE_CONSTANTS.MOVEMENT_COOLDOWN_SECONDS) * 1000
+        );
+        return;
+      }
+
+      const reason = result.errorCode === MovementErrorCode.CHARACTER_IN_COMBAT ? 'combat' : 'blocked';
+      this.stopAutoTravel(characterId, travel, reason, result.travelMessage);
+      return;
+    }
+
+    travel.stepsTaken++;
+    if (travel.stepsTaken >= travel.path.steps.length) {
+      this.stopAutoTravel(characterId, travel, 'arrived');
+      return;
+    }
+
+    await this.notifyAutoTravel(characterId, travel, 'step');
+    this.scheduleAutoTravelStep(characterId, travel);
+  }
+
+  private stopAutoTravel(
+    characterId: string,
+    travel: AutoTravel,
+    reason: AutoTravelStopReason,
+    message?: string
+  ): void {
+    if (travel.timer) {
+      clearTimeout(travel.timer);
+      travel.timer = null;
+    }
+    if (autoTravels.get(characterId) === travel) {
+      autoTravels.delete(characterId);
+    }
+
+    logger.info('Auto-travel stopped', {
+      characterId,
+      toZoneId: travel.path.toZoneId,
+      stepsTaken: travel.stepsTaken,
+      reason
+    });
+    this.notifyAutoTravel(characterId, travel, 'stopped', reason, message).catch(() => undefined);
+  }
+
+  private async notifyAutoTravel(
+    characterId: string,
+    travel: AutoTravel,
+    status: 'started' | 'step' | 'stopped',
+    reason?: AutoTravelStopReason,
+    message?: string
+  ): Promise<void> {
+    try {
+      await this.realtimeService.broadcastToCharacter(characterId, 'movement:auto_travel', {
+        status,
+        toZoneId: travel.path.toZoneId,
+        stepsTaken: travel.stepsTaken,
+        totalSteps: travel.path.steps.length,
+        nextDirection: travel.path.steps[travel.stepsTaken]?.direction,
+        ...(reason && { reason }),
+        ...(message && { message })
+      });
+    } catch (error) {
+      logger.warn('Failed to notify auto-travel progress', {
+        characterId,
+        status,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+    }
+  }
+
   /**
    * Execute the movement transaction
    */
-  private async executeMovement(req: Request, res: Response): Promise<void> {
+  private async executeMovement(
+    characterId: string,
+    fromZoneId: string,
+    toZoneId: string,
+    direction: Direction,
+    movementType: MovementType,
+    travelTime: number,
+    instanceId: string | null
+  ): Promise<void> {
     const client = await this.db.connect();
     try {
       await client.query('BEGIN');
@@ -378,12 +798,16 @@ export class MovementService {
         'SELECT update_character_location($1, $2, $3, $4, $5)',
         [characterId, toZoneId, direction, movementType, travelTime]
       );
+      await client.query(
+        'UPDATE character_locations SET instance_id = $2 WHERE character_id = $1',
+        [characterId, instanceId]
+      );
 
       await client.query('COMMIT');
 
       // Clear character cache
-      await this.clearCharacterCache(characterId);`
-} catch (error) {
+      await this.clearCharacterCache(characterId);
+    } catch (error) {
       await client.query('ROLLBACK');
       throw error;
     } finally {
@@ -402,7 +826,10 @@ export class MovementService {
   ): Promise<void> { try {
       // Get character information for broadcasting
       const characterInfo = await this.getCharacterInfo(characterId);
-      if (!characterInfo) }
+      if (!characterInfo) {
+        return;
+      }
+
       // Broadcast exit message to old zone
       if (fromZoneId !== toZoneId) {
         this.realtimeService.broadcastToZone(fromZoneId, 'character_exit', {
@@ -438,12 +865,12 @@ export class MovementService {
   /**
    * Get character information for broadcasting
    */
-  private async getCharacterInfo(req: Request, res: Response): Promise<void> {
+  private async getCharacterInfo(characterId: string): Promise<{ name: string; level: number } | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
         'SELECT name, level FROM characters WHERE id = $1 AND deleted_at IS NULL',
-        [characterId];
+        [characterId]
       );
 
       return result.rows.length > 0 ? {
@@ -458,15 +885,15 @@ export class MovementService {
   /**
    * Update character's zone room membership for real-time communication
    */
-  private async updateZoneRoomMembership(req: Request, res: Response): Promise<void> {
+  private async updateZoneRoomMembership(characterId: string, fromZoneId: string, toZoneId: string): Promise<void> {
     try {
       // Broadcast zone exit if leaving a zone
       if (fromZoneId && fromZoneId !== toZoneId) {
         await this.realtimeService.broadcastToZone(fromZoneId, 'character_exit', {
           characterId,
           message: `A character has left the area.`,
-          timestamp: Date.now()`
-});
+          timestamp: Date.now()
+        });
       }
 
       // Broadcast zone entry to new zone
@@ -474,7 +901,7 @@ export class MovementService {
         await this.realtimeService.broadcastToZone(toZoneId, 'character_enter', {
           characterId,
           message: `A character has entered the area.`,
-          timestamp: Date.now();
+          timestamp: Date.now()
         });
       }
     } catch (error) {
@@ -487,6 +914,54 @@ export class MovementService {
     }
   }
 
+  /**
+   * Move a character who fled a fight through a random exit of their zone. Only exits
+   * they could take on foot count, and portals never do; movement cooldown and combat
+   * status do not apply.
+   * @returns null when there is no way out and the character stays put
+   */
+  async fleeToAdjacentZone(characterId: string, random: RandomSource): Promise<MoveResult | null> {
+    const currentLocation = await this.getCharacterLocation(characterId);
+    if (!currentLocation) {
+      return null;
+    }
+
+    const level = await this.getCharacterLevel(characterId) ?? 1;
+    const exits = (await this.zoneService.getZoneExits(currentLocation.zoneId)).filter(exit =>
+      !exit.isLocked && !exit.requiredItemId && exit.requiredLevel <= level && exit.exitType !== 'portal'
+    );
+    const exit = exits[Math.floor(random() * exits.length)];
+    if (!exit) {
+      return null;
+    }
+
+    await this.executeMovement(characterId, currentLocation.zoneId, exit.toZoneId, exit.direction, 'forced', 0, null);
+
+    const newZoneInfo = await this.zoneService.getZone(exit.toZoneId);
+    if (!newZoneInfo) {
+      throw new Error(`Zone ${exit.toZoneId} not found`);
+    }
+
+    await this.broadcastMovement(characterId, currentLocation.zoneId, exit.toZoneId, exit.direction);
+
+    logger.info('Character fled to an adjacent zone', {
+      characterId,
+      oldZoneId: currentLocation.zoneId,
+      newZoneId: exit.toZoneId,
+      direction: exit.direction
+    });
+
+    return {
+      success: true,
+      oldZoneId: currentLocation.zoneId,
+      newZoneId: exit.toZoneId,
+      direction: exit.direction,
+      travelMessage: `You flee ${exit.direction}!`,
+      newZoneInfo,
+      exitInfo: exit
+    };
+  }
+
   /**
    * Get movement history for a character
    */
@@ -522,7 +997,11 @@ export class MovementService {
   /**
    * Teleport character to a specific zone (admin/system function)
    */
-  async teleportCharacter(req: Request, res: Response): Promise<void> {
+  async teleportCharacter(
+    characterId: string,
+    targetZoneId: string,
+    movementType: MovementType = 'teleport'
+  ): Promise<MoveResult> {
     try {
       // Get current location
       const currentLocation = await this.getCharacterLocation(characterId);
@@ -553,10 +1032,16 @@ export class MovementService {
       }
 
       // Execute teleport
-      await this.executeMovement(characterId, currentLocation.zoneId, targetZoneId, 'enter', movementType, 0);
+      const instanceId = await this.getArrivalInstanceId(characterId, targetZone.zone);
+      await this.executeMovement(characterId, currentLocation.zoneId, targetZoneId, 'enter', movementType, 0, instanceId);
+      await this.leaveInstance(currentLocation, instanceId);
 
       // Broadcast teleport events
-      await this.broadcastTeleport(characterId, currentLocation.zoneId, targetZoneId);
+      await this.broadcastTeleport(
+        characterId,
+        currentLocation.instanceId ?? currentLocation.zoneId,
+        instanceId ?? targetZoneId
+      );
 
       return {
         success: true,
@@ -564,7 +1049,8 @@ export class MovementService {
         newZoneId: targetZoneId,
         direction: 'enter' as Direction,
         travelMessage: `You have been teleported to ${targetZone.zone.displayName}.`,
-        newZoneInfo: targetZone
+        newZoneInfo: targetZone,
+        ...(instanceId && { instanceId })
       };
     } catch (error) {
       logger.error('Character teleport failed', {
@@ -579,10 +1065,11 @@ export class MovementService {
   /**
    * Broadcast teleport events
    */
-  private async broadcastTeleport(req: Request, res: Response): Promise<void> {
+  private async broadcastTeleport(characterId: string, fromZoneId: string, toZoneId: string): Promise<void> {
     try {
       const characterInfo = await this.getCharacterInfo(characterId);
-      if (!characterInfo)`
+      if (!characterInfo) return;
+
       // Broadcast disappearance from old zone
       this.realtimeService.broadcastToZone(fromZoneId, 'character_teleport_out', {
         characterId,
@@ -612,10 +1099,10 @@ export class MovementService {
   /**
    * Clear character-related cache
    */
-  private async clearCharacterCache(req: Request, res: Response): Promise<void> {
+  private async clearCharacterCache(characterId: string): Promise<void> {
     const cacheKeys = [
       `character_location:${characterId}`,
-      `character_info:${characterId}`;
+      `character_info:${characterId}`
     ];
     
     await Promise.all(cacheKeys.map(key => this.cacheManager.delete(key)));
@@ -0,0 +1,237 @@
+/**
+ * Party Service
+ * Parties formed by invitation: a leader invites, the invited character accepts,
+ * and members leave when they like. A party left with one member disbands.
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { RealtimeService } from './RealtimeService';
+import {
+  Party,
+  PartyErrorCode,
+  PartyResult,
+  PartyInviteEvent,
+  PartyUpdateEvent,
+  PARTY_CONSTANTS
+} from '../types/party.types';
+
+export class PartyService {
+  private db: Pool;
+  private realtimeService: RealtimeService;
+
+  constructor(db: Pool, realtimeService: RealtimeService) {
+    this.db = db;
+    this.realtimeService = realtimeService;
+  }
+
+  /**
+   * Invite a character into the leader's party, forming the party on the first invite
+   */
+  async invite(leaderId: string, targetId: string): Promise<PartyResult> {
+    if (leaderId === targetId) {
+      return {
+        success: false,
+        message: 'You cannot invite yourself',
+        error: PartyErrorCode.INVALID_TARGET
+      };
+    }
+
+    let party = await this.getParty(leaderId);
+    if (party && party.leaderId !== leaderId) {
+      return {
+        success: false,
+        message: 'Only the party leader can invite',
+        error: PartyErrorCode.NOT_PARTY_LEADER
+      };
+    }
+
+    if (await this.getParty(targetId)) {
+      return {
+        success: false,
+        message: 'Character is already in a party',
+        error: PartyErrorCode.ALREADY_IN_PARTY
+      };
+    }
+
+    if (party && party.memberIds.length >= PARTY_CONSTANTS.MAX_SIZE) {
+      return {
+        success: false,
+        message: 'Your party is full',
+        error: PartyErrorCode.PARTY_FULL
+      };
+    }
+
+    party = party ?? await this.createParty(leaderId);
+
+    const expiresAt = new Date(Date.now() + PARTY_CONSTANTS.INVITE_TIMEOUT);
+    await this.db.query(`
+      INSERT INTO party_invites (party_id, character_id, expires_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (party_id, character_id) DO UPDATE SET expires_at = EXCLUDED.expires_at
+    `, [party.id, targetId, expiresAt]);
+
+    const event: PartyInviteEvent = {
+      partyId: party.id,
+      leaderId,
+      expiresAt,
+      message: `${leaderId} invites you to their party`
+    };
+    this.realtimeService.broadcastToCharacter(targetId, 'party:invite', event);
+
+    logger.info('Party invite sent', { partyId: party.id, leaderId, targetId });
+
+    return { success: true, message: 'Party invite sent', party };
+  }
+
+  /**
+   * Accept an unexpired invite and join the party
+   */
+  async accept(partyId: string, characterId: string): Promise<PartyResult> {
+    const invite = await this.db.query(`
+      DELETE FROM party_invites
+      WHERE party_id = $1 AND character_id = $2
+      RETURNING expires_at
+    `, [partyId, characterId]);
+
+    if (!invite.rows[0] || new Date(invite.rows[0].expires_at) <= new Date()) {
+      return {
+        success: false,
+        message: 'Party invite not found or expired',
+        error: PartyErrorCode.INVITE_NOT_FOUND
+      };
+    }
+
+    // Joins only while the party has room; a character already in a party is turned away
+    const joined = await this.db.query(`
+      INSERT INTO party_members (character_id, party_id)
+      SELECT $2, p.id FROM parties p
+      WHERE p.id = $1 AND (SELECT COUNT(*) FROM party_members WHERE party_id = $1) < $3
+      ON CONFLICT (character_id) DO NOTHING
+      RETURNING party_id
+    `, [partyId, characterId, PARTY_CONSTANTS.MAX_SIZE]);
+
+    if (!joined.rows[0]) {
+      const inParty = await this.getParty(characterId);
+      return {
+        success: false,
+        message: inParty ? 'You are already in a party' : 'The party is full or has disbanded',
+        error: inParty ? PartyErrorCode.ALREADY_IN_PARTY : PartyErrorCode.PARTY_FULL
+      };
+    }
+
+    const party = (await this.getParty(characterId))!;
+    const event: PartyUpdateEvent = {
+      party,
+      characterId,
+      message: `${characterId} joined the party`
+    };
+    for (const memberId of party.memberIds) {
+      this.realtimeService.broadcastToCharacter(memberId, 'party:joined', event);
+    }
+
+    logger.info('Party joined', { partyId, characterId });
+
+    return { success: true, message: 'Joined the party', party };
+  }
+
+  /**
+   * Leave the current party. The party disbands when its leader leaves or one member is left.
+   */
+  async leave(characterId: string): Promise<PartyResult> {
+    const party = await this.getParty(characterId);
+    if (!party) {
+      return {
+        success: false,
+        message: 'You are not in a party',
+        error: PartyErrorCode.NOT_IN_PARTY
+      };
+    }
+
+    const remaining = party.memberIds.filter(id => id !== characterId);
+    const disbanded = party.leaderId === characterId || remaining.length < 2;
+
+    if (disbanded) {
+      await this.db.query('DELETE FROM parties WHERE id = $1', [party.id]);
+    } else {
+      await this.db.query('DELETE FROM party_members WHERE character_id = $1', [characterId]);
+    }
+
+    const remainingParty = disbanded ? null : { ...party, memberIds: remaining };
+    const event: PartyUpdateEvent = {
+      party: remainingParty,
+      characterId,
+      message: disbanded ? 'The party has disbanded' : `${characterId} left the party`
+    };
+    for (const memberId of party.memberIds) {
+      this.realtimeService.broadcastToCharacter(memberId, 'party:left', event);
+    }
+
+    logger.info('Party left', { partyId: party.id, characterId, disbanded });
+
+    return { success: true, message: disbanded ? 'Party disbanded' : 'Left the party' };
+  }
+
+  /**
+   * The party a character belongs to, or null
+   */
+  async getParty(characterId: string): Promise<Party | null> {
+    const result = await this.db.query(`
+      SELECT p.id, p.leader_id, p.created_at, ARRAY_AGG(pm.character_id ORDER BY pm.joined_at) AS member_ids
+      FROM party_members me
+      JOIN parties p ON p.id = me.party_id
+      JOIN party_members pm ON pm.party_id = p.id
+      WHERE me.character_id = $1
+      GROUP BY p.id
+    `, [characterId]);
+
+    return result.rows[0] ? this.mapPartyRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Whether two characters are members of the same party
+   */
+  async areInSameParty(firstId: string, secondId: string): Promise<boolean> {
+    const result = await this.db.query(`
+      SELECT 1 FROM party_members a
+      JOIN party_members b ON b.party_id = a.party_id
+      WHERE a.character_id = $1 AND b.character_id = $2
+    `, [firstId, secondId]);
+
+    return result.rows.length > 0;
+  }
+
+  private async createParty(leaderId: string): Promise<Party> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        'INSERT INTO parties (leader_id) VALUES ($1) RETURNING *',
+        [leaderId]
+      );
+      await client.query(
+        'INSERT INTO party_members (character_id, party_id) VALUES ($1, $2)',
+        [leaderId, result.rows[0].id]
+      );
+
+      await client.query('COMMIT');
+
+      return this.mapPartyRow({ ...result.rows[0], member_ids: [leaderId] });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapPartyRow(row: any): Party {
+    return {
+      id: row.id,
+      leaderId: row.leader_id,
+      memberIds: row.member_ids,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -9,6 +9,8 @@ import { ProgressionRepository } from '../database/repositories/ProgressionRepos
 import { CharacterRepository } from '../database/repositories/CharacterRepository';
 import { CacheManager } from './CacheManager';
 import { getErrorMessage } from '../utils/errorUtils';
+import { DeathRules } from './DeathRules';
+import {
   ProgressionPhase,
   ExperienceAwardResult,
   MilestoneReward,
@@ -24,12 +26,14 @@ export class ProgressionService {
   private characterRepo: CharacterRepository;
   private cacheManager: CacheManager;
   private db: Pool;
+  private deathRules: DeathRules;
 
-  constructor(db: Pool, cacheManager: CacheManager) {
+  constructor(db: Pool, cacheManager: CacheManager, deathRules: DeathRules = new DeathRules()) {
     this.db = db;
     this.progressionRepo = new ProgressionRepository(db);
     this.characterRepo = new CharacterRepository(db);
     this.cacheManager = cacheManager;
+    this.deathRules = deathRules;
   }
 
   /**
@@ -89,7 +93,12 @@ export class ProgressionService {
   /**
    * Award experience to a character and handle level ups
    */
-  async awardExperience(req: Request, res: Response): Promise<void> {
+  async awardExperience(
+    characterId: string,
+    amount: bigint,
+    source: ExperienceSource,
+    sourceDetails?: Record<string, any>
+  ): Promise<ExperienceAwardResult> {
     try {
       // Get current character progression
       const progression = await this.progressionRepo.getCharacterProgression(characterId);
@@ -115,7 +124,15 @@ export class ProgressionService {
       
       // Calculate final experience amount
       const raceBonus = (amount * BigInt(Math.floor(raceBonusMultiplier * 1000))) / 1000n;
-      const finalAmount = (raceBonus * BigInt(Math.floor(phaseBonusMultiplier * 1000))) / 1000n;
+      const bonusAmount = (raceBonus * BigInt(Math.floor(phaseBonusMultiplier * 1000))) / 1000n;
+
+      // Part of every gain pays off experience debt from dying
+      const finalAmount = await this.repayExperienceDebt(characterId, bonusAmount);
+      const debtRepaid = bonusAmount - finalAmount;
+      const logDetails = {
+        ...sourceDetails,
+        ...(debtRepaid > 0n && { experienceDebtRepaid: debtRepaid.toString() })
+      };
 
       // Calculate new experience total
       const oldExperience = progression.experience;
@@ -141,13 +158,17 @@ export class ProgressionService {
         statPointsAwarded: 0
       };
 
+      if (finalAmount <= 0n) {
+        return result;
+      }
+
       // Handle level up if occurred
       if (levelsGained > 0) {
         const levelUpResults = await this.handleLevelUp(
           characterId,
           oldLevel,
           newLevel,
-          progression;
+          progression
         );
         
         result.newTitle = levelUpResults.newTitle;
@@ -173,7 +194,7 @@ export class ProgressionService {
             characterId,
             amount: finalAmount,
             source,
-            sourceDetails: sourceDetails || {},
+            sourceDetails: logDetails,
             oldLevel,
             newLevel,
             oldExperience,
@@ -203,7 +224,7 @@ export class ProgressionService {
           characterId,
           amount: finalAmount,
           source,
-          sourceDetails: sourceDetails || {},
+          sourceDetails: logDetails,
           oldLevel,
           newLevel,
           oldExperience,
@@ -260,6 +281,124 @@ export class ProgressionService {
     return level;
   }
 
+  /**
+   * Put the debt share of an experience gain towards the character's experience debt
+   * @returns the experience the character keeps
+   */
+  private async repayExperienceDebt(characterId: string, amount: bigint): Promise<bigint> {
+    const result = await this.db.query(
+      'SELECT experience_debt FROM characters WHERE id = $1',
+      [characterId]
+    );
+    const debt = BigInt(result.rows[0]?.experience_debt ?? 0);
+    const { repaid, kept } = this.deathRules.splitExperienceGain(amount, debt);
+    if (repaid <= 0n) {
+      return kept;
+    }
+
+    await this.db.query(
+      'UPDATE characters SET experience_debt = GREATEST(experience_debt - $1, 0) WHERE id = $2',
+      [repaid.toString(), characterId]
+    );
+
+    logger.info('Experience debt repaid', {
+      characterId,
+      repaid: repaid.toString(),
+      remainingDebt: (debt - repaid).toString()
+    });
+
+    return kept;
+  }
+
+  /**
+   * Take a fraction of the experience needed for the next level. A penalty never costs
+   * a level: experience stops at the start of the current one.
+   * @returns the experience lost
+   */
+  async applyExperiencePenalty(
+    characterId: string,
+    fraction: number,
+    source: ExperienceSource,
+    sourceDetails: Record<string, any> = {}
+  ): Promise<bigint> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        'SELECT level, experience FROM characters WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [characterId]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        await client.query('ROLLBACK');
+        return 0n;
+      }
+
+      const level: number = row.level;
+      const oldExperience = BigInt(row.experience);
+      const levelFloor = this.calculateTotalExpForLevel(level);
+      const penalty = (this.calculateExpForLevel(level + 1) * BigInt(Math.round(fraction * 1000))) / 1000n;
+      const newExperience = oldExperience - penalty > levelFloor ? oldExperience - penalty : levelFloor;
+      const lost = oldExperience - newExperience;
+      if (lost <= 0n) {
+        await client.query('ROLLBACK');
+        return 0n;
+      }
+
+      await client.query(
+        'UPDATE characters SET experience = $1 WHERE id = $2',
+        [newExperience.toString(), characterId]
+      );
+      await client.query(`
+        INSERT INTO experience_log
+          (character_id, amount, source, source_details, old_level, new_level, old_experience, new_experience)
+        VALUES ($1, $2, $3, $4, $5, $5, $6, $7)
+      `, [
+        characterId,
+        (-lost).toString(), // Losses are logged as negative amounts
+        source,
+        JSON.stringify(sourceDetails),
+        level,
+        oldExperience.toString(),
+        newExperience.toString()
+      ]);
+
+      await client.query('COMMIT');
+      await this.clearCharacterCache(characterId);
+
+      logger.info('Experience penalty applied', {
+        characterId,
+        source,
+        experienceLost: lost.toString()
+      });
+
+      return lost;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Clear character progression cache
+   */
+  private async clearCharacterCache(characterId: string): Promise<void> {
+    try {
+      await Promise.all([
+        this.cacheManager.delete(`progression:${characterId}`),
+        this.cacheManager.delete(`char:${characterId}:data`)
+      ]);
+    } catch (error) {
+      logger.warn('Failed to clear character cache', {
+        characterId,
+        error: error instanceof Error ? getErrorMessage(error) : error
+      });
+    }
+  }
+
   /**
    * Handle level up rewards and phase transitions
    */
@@ -466,23 +605,6 @@ export class ProgressionService {
     }
   }
 
-  /**
-   * Clear character progression cache
-   */
-  private async clearCharacterCache(req: Request, res: Response): Promise<void> {
-    try {
-      await Promise.all([
-        this.cacheManager.delete(`progression:${characterId}`),
-        this.cacheManager.delete(`char:${characterId}:data`);
-      ]);
-    } catch (error) {
-      logger.warn('Failed to clear character cache', {
-        characterId,
-        error: error instanceof Error ? getErrorMessage(error) : error
-      });
-    }
-  }
-
   /**
    * Get experience history for a character
    */
@@ -0,0 +1,121 @@
+/**
+ * PVP Service
+ * Zone rules for player-versus-player combat and per-character PVP records
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+import {
+  CombatErrorCode,
+  CombatParticipant,
+  CombatType,
+  ParticipantStatus
+} from '../types/combat.types';
+import { PvpRecord, PvpRestriction, ZonePvpRules } from '../types/duel.types';
+
+export class PvpService {
+  private db: Pool;
+
+  constructor(db: Pool) {
+    this.db = db;
+  }
+
+  /**
+   * Whether players may fight each other in a zone. Nobody fights in a safe zone;
+   * open-world PVP also needs pvpEnabled, while consensual duels do not.
+   * @returns null when the fight is allowed
+   */
+  checkZoneRules(zone: ZonePvpRules, sessionType: CombatType): PvpRestriction | null {
+    if (zone.safeZone) {
+      return {
+        error: CombatErrorCode.SAFE_ZONE,
+        message: 'Players cannot fight each other in a safe zone'
+      };
+    }
+
+    if (sessionType === CombatType.PVP && !zone.pvpEnabled) {
+      return {
+        error: CombatErrorCode.PVP_DISABLED,
+        message: 'PVP is disabled in this zone'
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Load a zone's flags and check them for a fight of the given type
+   */
+  async getZoneRestriction(zoneId: string, sessionType: CombatType): Promise<PvpRestriction | null> {
+    const result = await this.db.query(
+      'SELECT pvp_enabled, safe_zone FROM zones WHERE id = $1',
+      [zoneId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return {
+        error: CombatErrorCode.ZONE_MISMATCH,
+        message: 'Zone not found'
+      };
+    }
+
+    return this.checkZoneRules({ pvpEnabled: row.pvp_enabled, safeZone: row.safe_zone }, sessionType);
+  }
+
+  /**
+   * Record the outcome of a duel or open-world PVP fight for every player involved.
+   * Players on the winner's side win; everyone else, including those who fled, loses.
+   */
+  async recordResult(
+    client: PoolClient,
+    sessionType: CombatType,
+    participants: CombatParticipant[],
+    winner: string
+  ): Promise<void> {
+    if (sessionType !== CombatType.DUEL && sessionType !== CombatType.PVP) {
+      return;
+    }
+
+    const winningSide = participants.find(p => p.characterId === winner)?.side;
+    const prefix = sessionType === CombatType.DUEL ? 'duel' : 'pvp';
+
+    for (const participant of participants.filter(p => !p.monsterTemplateId)) {
+      const won = participant.side === winningSide && participant.status !== ParticipantStatus.FLED;
+      const column = `${prefix}_${won ? 'wins' : 'losses'}`;
+
+      await client.query(`
+        INSERT INTO pvp_records (character_id, ${column}, last_match_at)
+        VALUES ($1, 1, CURRENT_TIMESTAMP)
+        ON CONFLICT (character_id) DO UPDATE
+        SET ${column} = pvp_records.${column} + 1, last_match_at = CURRENT_TIMESTAMP
+      `, [participant.characterId]);
+    }
+
+    logger.info('PVP result recorded', {
+      sessionType,
+      winner,
+      participantCount: participants.length
+    });
+  }
+
+  /**
+   * Get a character's PVP record (all zeroes before their first fight)
+   */
+  async getRecord(characterId: string): Promise<PvpRecord> {
+    const result = await this.db.query(`
+      SELECT duel_wins, duel_losses, pvp_wins, pvp_losses, last_match_at
+      FROM pvp_records
+      WHERE character_id = $1
+    `, [characterId]);
+    const row = result.rows[0];
+
+    return {
+      characterId,
+      duelWins: row?.duel_wins ?? 0,
+      duelLosses: row?.duel_losses ?? 0,
+      pvpWins: row?.pvp_wins ?? 0,
+      pvpLosses: row?.pvp_losses ?? 0,
+      ...(row?.last_match_at && { lastMatchAt: row.last_match_at })
+    };
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Status Effect Engine
+ * Applies, stacks, ticks and expires combat status effects.
+ * Pure in-memory logic: CombatService loads participants, runs the engine and persists the result.
+ */
+
+import {
+  CombatParticipant,
+  StatusEffect,
+  StatusEffectType,
+  StatusEffectTick,
+  StatusEffectTickResult,
+  StatusEffectApplication,
+  ParticipantStatus,
+  DamageType,
+  COMBAT_CONSTANTS,
+  STATUS_EFFECT_RULES,
+  STATUS_EFFECT_IMMUNITIES
+} from '../types/combat.types';
+
+type DurationKey = keyof typeof COMBAT_CONSTANTS.STATUS_EFFECT_DURATIONS;
+type ValueKey = keyof typeof COMBAT_CONSTANTS.STATUS_EFFECT_VALUES;
+
+export class StatusEffectEngine {
+  /**
+   * Build a new effect with default duration and a value derived from the triggering action
+   * @param baseAmount damage or healing of the action that caused the effect
+   */
+  createEffect(
+    type: StatusEffectType,
+    appliedBy: string,
+    target: CombatParticipant,
+    baseAmount: number = 0
+  ): StatusEffect {
+    return {
+      name: type,
+      type,
+      duration: COMBAT_CONSTANTS.STATUS_EFFECT_DURATIONS[type.toUpperCase() as DurationKey],
+      value: this.calculateEffectValue(type, target, baseAmount),
+      stacks: 1,
+      appliedAt: new Date(),
+      appliedBy
+    };
+  }
+
+  /**
+   * Apply an effect to a participant following immunity, opposition and stacking rules
+   */
+  applyEffect(target: CombatParticipant, effect: StatusEffect): StatusEffectApplication {
+    if (this.isImmune(target, effect.type)) {
+      return { applied: false, reason: 'immune' };
+    }
+
+    const rule = STATUS_EFFECT_RULES[effect.type];
+
+    // Opposing effects cancel each other out instead of coexisting
+    if (rule.opposes && this.hasEffect(target, rule.opposes)) {
+      target.statusEffects = target.statusEffects.filter(e => e.type !== rule.opposes);
+      return { applied: false, reason: 'cancelled', removed: [rule.opposes] };
+    }
+
+    const existing = target.statusEffects.find(e => e.type === effect.type);
+    if (!existing) {
+      const applied = { ...effect, stacks: effect.stacks || 1 };
+      target.statusEffects.push(applied);
+      return { applied: true, effect: applied };
+    }
+
+    switch (rule.stacking) {
+      case 'ignore':
+        // Crowd control cannot be chained by re-applying it
+        return { applied: false, reason: 'already_active' };
+
+      case 'stack': {
+        const stacks = Math.min(rule.maxStacks, (existing.stacks || 1) + 1);
+        const perStack = Math.max(existing.value / (existing.stacks || 1), effect.value);
+        existing.stacks = stacks;
+        existing.value = Math.floor(perStack * stacks);
+        existing.duration = Math.max(existing.duration, effect.duration);
+        existing.appliedBy = effect.appliedBy;
+        existing.appliedAt = effect.appliedAt;
+        return { applied: true, effect: existing };
+      }
+
+      case 'refresh':
+      default:
+        existing.duration = Math.max(existing.duration, effect.duration);
+        existing.value = Math.max(existing.value, effect.value);
+        existing.appliedBy = effect.appliedBy;
+        existing.appliedAt = effect.appliedAt;
+        return { applied: true, effect: existing };
+    }
+  }
+
+  /**
+   * Process a participant's effects at the start of their turn:
+   * damage/heal over time, duration countdown, expiry and turn skipping.
+   * With a defeatHp above 0 (duels) damage stops there and the participant is incapacitated instead of killed.
+   */
+  tick(participant: CombatParticipant, defeatHp: number = 0): StatusEffectTickResult {
+    const ticks: StatusEffectTick[] = [];
+    let skipTurn = false;
+
+    for (const effect of participant.statusEffects) {
+      let damage = 0;
+      let healing = 0;
+
+      switch (effect.type) {
+        case StatusEffectType.POISON:
+        case StatusEffectType.BURN:
+          damage = Math.min(
+            Math.max(0, participant.currentHp - defeatHp),
+            Math.max(COMBAT_CONSTANTS.MIN_STATUS_TICK_DAMAGE, effect.value)
+          );
+          participant.currentHp -= damage;
+          participant.damageTaken += damage;
+          break;
+
+        case StatusEffectType.REGENERATION:
+          healing = Math.min(participant.maxHp - participant.currentHp, effect.value);
+          participant.currentHp += healing;
+          break;
+
+        default:
+          break;
+      }
+
+      if (STATUS_EFFECT_RULES[effect.type].skipsTurn) {
+        skipTurn = true;
+      }
+
+      effect.duration -= 1;
+      const expired = effect.duration <= 0 || (effect.type === StatusEffectType.SHIELD && effect.value <= 0);
+
+      ticks.push({
+        participantId: participant.characterId,
+        effectType: effect.type,
+        appliedBy: effect.appliedBy,
+        damage,
+        healing,
+        remainingDuration: Math.max(0, effect.duration),
+        expired,
+        description: this.describeTick(participant.characterId, effect.type, damage, healing, expired)
+      });
+    }
+
+    participant.statusEffects = participant.statusEffects.filter(
+      e => e.duration > 0 && !(e.type === StatusEffectType.SHIELD && e.value <= 0)
+    );
+
+    const died = participant.currentHp <= defeatHp;
+    if (died) {
+      participant.status = defeatHp > 0 ? ParticipantStatus.INCAPACITATED : ParticipantStatus.DEAD;
+      participant.statusEffects = [];
+    }
+
+    return { ticks, skipTurn: skipTurn && !died, died };
+  }
+
+  /**
+   * Soak incoming damage with active shields
+   * @returns damage remaining after absorption and the amount absorbed
+   */
+  absorbDamage(target: CombatParticipant, damage: number): { damage: number; absorbed: number } {
+    const shield = target.statusEffects.find(e => e.type === StatusEffectType.SHIELD);
+    if (!shield || damage <= 0) {
+      return { damage, absorbed: 0 };
+    }
+
+    const absorbed = Math.min(shield.value, damage);
+    shield.value -= absorbed;
+
+    if (shield.value <= 0) {
+      target.statusEffects = target.statusEffects.filter(e => e !== shield);
+    }
+
+    return { damage: damage - absorbed, absorbed };
+  }
+
+  /**
+   * Initiative after HASTE/SLOW modifiers, used to re-sort turn order each round
+   */
+  getEffectiveInitiative(participant: CombatParticipant): number {
+    return Math.max(0, Math.round(participant.initiative * this.getSpeedMultiplier(participant)));
+  }
+
+  /**
+   * Speed multiplier from HASTE/SLOW, used for initiative and flee chance
+   */
+  getSpeedMultiplier(participant: CombatParticipant): number {
+    const haste = this.getEffectValue(participant, StatusEffectType.HASTE);
+    const slow = this.getEffectValue(participant, StatusEffectType.SLOW);
+    return 1 + (haste - slow) / 100;
+  }
+
+  /**
+   * Outgoing damage multiplier from STRENGTH/WEAKNESS
+   */
+  getDamageMultiplier(participant: CombatParticipant): number {
+    const strength = this.getEffectValue(participant, StatusEffectType.STRENGTH);
+    const weakness = this.getEffectValue(participant, StatusEffectType.WEAKNESS);
+    return Math.max(0, 1 + (strength - weakness) / 100);
+  }
+
+  /**
+   * Resistance to incoming damage of a type: race and gear resistances, raised by SHIELD
+   * and lowered by WEAKNESS, clamped between the vulnerability floor and the resistance cap
+   */
+  getResistance(participant: CombatParticipant, damageType: DamageType): number {
+    let resistance = participant.resistances?.[damageType] ?? 0;
+    if (this.hasEffect(participant, StatusEffectType.SHIELD)) {
+      resistance += COMBAT_CONSTANTS.STATUS_EFFECT_RESISTANCES.SHIELD;
+    }
+    if (this.hasEffect(participant, StatusEffectType.WEAKNESS)) {
+      resistance += COMBAT_CONSTANTS.STATUS_EFFECT_RESISTANCES.WEAKNESS;
+    }
+
+    const clamped = Math.min(COMBAT_CONSTANTS.MAX_RESISTANCE, Math.max(COMBAT_CONSTANTS.MIN_RESISTANCE, resistance));
+    return Math.round(clamped * 100) / 100;
+  }
+
+  /**
+   * Additional miss chance from BLIND
+   */
+  getMissChanceBonus(participant: CombatParticipant): number {
+    return this.getEffectValue(participant, StatusEffectType.BLIND);
+  }
+
+  /**
+   * Whether the participant cannot act this turn
+   */
+  isIncapacitated(participant: CombatParticipant): boolean {
+    return participant.statusEffects.some(e => STATUS_EFFECT_RULES[e.type].skipsTurn);
+  }
+
+  hasEffect(participant: CombatParticipant, type: StatusEffectType): boolean {
+    return participant.statusEffects.some(e => e.type === type);
+  }
+
+  isImmune(participant: CombatParticipant, type: StatusEffectType): boolean {
+    return (participant.immunities || []).includes(type) ||
+      STATUS_EFFECT_IMMUNITIES[participant.participantType]?.includes(type) === true;
+  }
+
+  private getEffectValue(participant: CombatParticipant, type: StatusEffectType): number {
+    return participant.statusEffects
+      .filter(e => e.type === type)
+      .reduce((total, e) => total + e.value, 0);
+  }
+
+  private calculateEffectValue(type: StatusEffectType, target: CombatParticipant, baseAmount: number): number {
+    const key = type.toUpperCase();
+    if (!(key in COMBAT_CONSTANTS.STATUS_EFFECT_VALUES)) {
+      return 0; // Pure control effects (stun, freeze) carry no value
+    }
+
+    const factor = COMBAT_CONSTANTS.STATUS_EFFECT_VALUES[key as ValueKey];
+    switch (type) {
+      case StatusEffectType.POISON:
+      case StatusEffectType.BURN:
+        return Math.max(COMBAT_CONSTANTS.MIN_STATUS_TICK_DAMAGE, Math.floor(baseAmount * factor));
+      case StatusEffectType.REGENERATION:
+      case StatusEffectType.SHIELD:
+        return Math.max(1, Math.floor(target.maxHp * factor));
+      default:
+        return factor;
+    }
+  }
+
+  private describeTick(
+    participantId: string,
+    type: StatusEffectType,
+    damage: number,
+    healing: number,
+    expired: boolean
+  ): string {
+    let description: string;
+
+    if (damage > 0) {
+      description = `${participantId} suffers ${damage} ${type} damage.`;
+    } else if (healing > 0) {
+      description = `${participantId} regenerates ${healing} HP.`;
+    } else if (STATUS_EFFECT_RULES[type].skipsTurn) {
+      description = `${participantId} is unable to act (${type}).`;
+    } else {
+      description = `${participantId} is affected by ${type}.`;
+    }
+
+    return expired ? `${description} The ${type} wears off.` : description;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Threat Tracker
+ * Per-monster threat tables: damage, healing and taunts build threat, which decays every
+ * turn. Monsters go after whoever holds the most threat on them.
+ */
+
+import {
+  CombatAction,
+  CombatParticipant,
+  ParticipantStatus,
+  ThreatTable,
+  THREAT_CONSTANTS
+} from '../types/combat.types';
+
+export type ThreatTables = Map<string, Record<string, number>>;
+
+export class ThreatTracker {
+  /**
+   * Threat an action generates. Damage lands on the monsters it hit, healing is spread
+   * over every hostile monster, and a taunt pulls the target monsters onto the actor.
+   * @returns the tables that changed, keyed by monster
+   */
+  applyAction(participants: CombatParticipant[], action: CombatAction, taunts: boolean = false): ThreatTables {
+    const actor = participants.find(p => p.characterId === action.actorId);
+    if (!actor || actor.monsterTemplateId) {
+      return new Map();
+    }
+
+    const hostileMonsters = participants.filter(p =>
+      p.monsterTemplateId && p.side !== actor.side && p.status === ParticipantStatus.ALIVE
+    );
+    const tables: ThreatTables = new Map();
+    const tableFor = (monster: CombatParticipant): Record<string, number> => {
+      let table = tables.get(monster.characterId);
+      if (!table) {
+        table = { ...(monster.threat || {}) };
+        tables.set(monster.characterId, table);
+      }
+      return table;
+    };
+
+    const hits = [
+      ...(action.targetId ? [{ targetId: action.targetId, damage: action.damage, healing: action.healing }] : []),
+      ...(action.additionalTargets || [])
+    ];
+
+    let healing = 0;
+    for (const hit of hits) {
+      healing += hit.healing;
+      const monster = hostileMonsters.find(p => p.characterId === hit.targetId);
+      if (!monster) {
+        continue;
+      }
+
+      const table = tableFor(monster);
+      if (hit.damage > 0) {
+        table[actor.characterId] = (table[actor.characterId] ?? 0) + hit.damage * THREAT_CONSTANTS.DAMAGE_MULTIPLIER;
+      }
+      if (taunts) {
+        table[actor.characterId] = this.getTauntThreat(table, actor.characterId);
+      }
+    }
+
+    if (healing > 0 && hostileMonsters.length > 0) {
+      const share = healing * THREAT_CONSTANTS.HEALING_MULTIPLIER / hostileMonsters.length;
+      for (const monster of hostileMonsters) {
+        const table = tableFor(monster);
+        table[actor.characterId] = (table[actor.characterId] ?? 0) + share;
+      }
+    }
+
+    return tables;
+  }
+
+  /**
+   * Threat that puts a taunter clearly ahead of everyone else on the monster
+   */
+  getTauntThreat(table: Record<string, number>, taunterId: string): number {
+    const top = Math.max(0, ...Object.entries(table)
+      .filter(([characterId]) => characterId !== taunterId)
+      .map(([, threat]) => threat));
+    const taunt = Math.max(top * THREAT_CONSTANTS.TAUNT_MULTIPLIER, top + THREAT_CONSTANTS.TAUNT_MINIMUM);
+    return Math.max(table[taunterId] ?? 0, taunt);
+  }
+
+  /**
+   * Table after one turn of decay; negligible entries are forgotten
+   */
+  decay(table: Record<string, number>): Record<string, number> {
+    const decayed: Record<string, number> = {};
+    for (const [characterId, threat] of Object.entries(table)) {
+      const remaining = threat * (1 - THREAT_CONSTANTS.DECAY_PER_TURN);
+      if (remaining >= THREAT_CONSTANTS.MIN_THREAT) {
+        decayed[characterId] = remaining;
+      }
+    }
+    return decayed;
+  }
+
+  /**
+   * Living enemy with the most threat on the monster; ties break on characterId
+   * @returns undefined when no enemy holds any threat
+   */
+  getTopThreat(monster: CombatParticipant, enemies: CombatParticipant[]): CombatParticipant | undefined {
+    const table = monster.threat || {};
+    return enemies
+      .filter(enemy => enemy.status === ParticipantStatus.ALIVE && (table[enemy.characterId] ?? 0) > 0)
+      .sort((a, b) => (table[b.characterId] ?? 0) - (table[a.characterId] ?? 0) ||
+        a.characterId.localeCompare(b.characterId))[0];
+  }
+
+  /**
+   * Threat tables of every monster in the fight, for clients
+   */
+  getThreatTables(participants: CombatParticipant[]): ThreatTable[] {
+    return participants
+      .filter(p => p.monsterTemplateId && p.status === ParticipantStatus.ALIVE)
+      .map(monster => {
+        const ranked = Object.entries(monster.threat || {}).sort(
+          ([idA, a], [idB, b]) => b - a || idA.localeCompare(idB)
+        );
+        const top = ranked[0]?.[1] ?? 0;
+        return {
+          monsterId: monster.characterId,
+          entries: ranked.map(([characterId, threat]) => ({
+            characterId,
+            threat: Math.round(threat),
+            share: top > 0 ? Math.round((threat / top) * 100) / 100 : 0
+          }))
+        };
+      });
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Weather Rules
+ * The world clock, how regional weather changes, and the conditions weather and time of day
+ * create in a zone
+ */
+
+import { RandomSource } from '../utils/random';
+import { Zone, ZoneExit } from '../types/zone.types';
+import {
+  TimeOfDay,
+  WeatherCombatModifiers,
+  WeatherRegion,
+  WeatherState,
+  WorldTime,
+  ZoneConditions,
+  WORLD_CONSTANTS
+} from '../types/world.types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export class WeatherRules {
+  /**
+   * In-game time at a real moment
+   */
+  getWorldTime(now: Date): WorldTime {
+    const elapsed = now.getTime() - WORLD_CONSTANTS.CLOCK_EPOCH;
+    const elapsedMinutes = Math.floor(elapsed / WORLD_CONSTANTS.GAME_DAY_MS * MINUTES_PER_DAY);
+    const minuteOfDay = ((elapsedMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const hour = Math.floor(minuteOfDay / 60);
+
+    return {
+      day: Math.floor(elapsedMinutes / MINUTES_PER_DAY) + 1,
+      hour,
+      minute: minuteOfDay % 60,
+      timeOfDay: this.getTimeOfDay(hour)
+    };
+  }
+
+  getTimeOfDay(hour: number): TimeOfDay {
+    let timeOfDay: TimeOfDay = 'night';
+    for (const start of WORLD_CONSTANTS.TIME_OF_DAY_HOURS) {
+      if (hour >= start.hour) {
+        timeOfDay = start.timeOfDay;
+      }
+    }
+    return timeOfDay;
+  }
+
+  /**
+   * Weather a region moves on to, weighted by the current weather and limited to what
+   * its climate allows
+   */
+  rollNextWeather(current: WeatherState, climate: string, random: RandomSource): WeatherState {
+    const allowed = WORLD_CONSTANTS.CLIMATE_WEATHER[climate];
+    const candidates = (Object.entries(WORLD_CONSTANTS.WEATHER_TRANSITIONS[current]) as Array<[WeatherState, number]>)
+      .filter(([weather]) => !allowed || allowed.includes(weather));
+
+    const total = candidates.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total === 0) {
+      return 'clear';
+    }
+
+    let roll = random() * total;
+    for (const [weather, weight] of candidates) {
+      roll -= weight;
+      if (roll < 0) {
+        return weather;
+      }
+    }
+
+    return candidates[candidates.length - 1]![0];
+  }
+
+  /**
+   * How long a spell of weather lasts, in milliseconds
+   */
+  rollDuration(weather: WeatherState, random: RandomSource): number {
+    const [min, max] = WORLD_CONSTANTS.WEATHER_DURATION_MINUTES[weather];
+    return (min + Math.floor(random() * (max - min + 1))) * 60000;
+  }
+
+  /**
+   * Conditions in a zone: its own features, changed by its region's weather and, outdoors,
+   * by the time of day
+   * @param region The zone's region, or null when it is under cover
+   */
+  getConditions(zone: Zone, region: WeatherRegion | null, time: WorldTime): ZoneConditions {
+    const baseVisibility = this.parseLevel(WORLD_CONSTANTS.VISIBILITY_LEVELS, zone.features.visibility) ?? 'good';
+    const baseTemperature = this.parseLevel(WORLD_CONSTANTS.TEMPERATURE_LEVELS, zone.features.temperature) ??
+      (zone.climate ? WORLD_CONSTANTS.CLIMATE_TEMPERATURE[zone.climate] : undefined) ?? 'moderate';
+    const baseLighting = zone.lighting ?? zone.features.lighting ?? 'natural';
+
+    if (!region) {
+      return {
+        weather: null,
+        timeOfDay: time.timeOfDay,
+        visibility: baseVisibility,
+        lighting: baseLighting,
+        temperature: baseTemperature
+      };
+    }
+
+    const weather = region.weather;
+    const isLitAtNight = WORLD_CONSTANTS.NIGHT_LIT_LIGHTING.includes(baseLighting);
+    const isDark = time.timeOfDay === 'night' && !isLitAtNight;
+
+    let visibility = this.lowest(WORLD_CONSTANTS.VISIBILITY_LEVELS, baseVisibility, WORLD_CONSTANTS.WEATHER_VISIBILITY[weather]);
+    if (isDark) {
+      visibility = this.shift(WORLD_CONSTANTS.VISIBILITY_LEVELS, visibility, -1);
+    }
+
+    let temperature = baseTemperature;
+    if (time.timeOfDay === 'night') {
+      temperature = this.shift(WORLD_CONSTANTS.TEMPERATURE_LEVELS, temperature, -1);
+    }
+    if (weather === 'rain' || weather === 'storm') {
+      temperature = this.shift(WORLD_CONSTANTS.TEMPERATURE_LEVELS, temperature, -1);
+    }
+    if (weather === 'snow') {
+      temperature = this.lowest(WORLD_CONSTANTS.TEMPERATURE_LEVELS, temperature, 'cold');
+    }
+
+    return {
+      weather,
+      timeOfDay: time.timeOfDay,
+      visibility,
+      lighting: this.getLighting(baseLighting, weather, time.timeOfDay, isLitAtNight),
+      temperature
+    };
+  }
+
+  /**
+   * Whether an exit can be seen; hidden exits are lost in darkness and bad weather
+   */
+  canSeeExit(exit: ZoneExit, conditions: ZoneConditions): boolean {
+    if (exit.exitType !== 'hidden') {
+      return true;
+    }
+
+    const levels = WORLD_CONSTANTS.VISIBILITY_LEVELS;
+    return levels.indexOf(conditions.visibility) >= levels.indexOf(WORLD_CONSTANTS.HIDDEN_EXIT_MIN_VISIBILITY);
+  }
+
+  /**
+   * How conditions change a fight: poor visibility makes attacks miss, and weather
+   * strengthens or dampens some types of damage
+   */
+  getCombatModifiers(conditions: ZoneConditions): WeatherCombatModifiers {
+    return {
+      missChanceBonus: WORLD_CONSTANTS.VISIBILITY_MISS_CHANCE[conditions.visibility],
+      damageMultipliers: (conditions.weather && WORLD_CONSTANTS.WEATHER_DAMAGE_MULTIPLIERS[conditions.weather]) ?? {}
+    };
+  }
+
+  /**
+   * Sentences describing the sky and time of day, empty under cover
+   */
+  describe(conditions: ZoneConditions): string {
+    if (!conditions.weather) {
+      return '';
+    }
+
+    return `${WORLD_CONSTANTS.TIME_OF_DAY_DESCRIPTIONS[conditions.timeOfDay]} ${WORLD_CONSTANTS.WEATHER_DESCRIPTIONS[conditions.weather]}`;
+  }
+
+  private getLighting(base: string, weather: WeatherState, timeOfDay: TimeOfDay, isLitAtNight: boolean): string {
+    if (timeOfDay === 'night') {
+      return isLitAtNight ? base : 'dark';
+    }
+
+    const isBright = base === 'bright' || base === 'natural';
+    if (isBright && (timeOfDay !== 'day' || weather === 'storm')) {
+      return 'dim';
+    }
+
+    return base;
+  }
+
+  private parseLevel<T extends string>(levels: T[], value: unknown): T | undefined {
+    return levels.find(level => level === value);
+  }
+
+  private lowest<T extends string>(levels: T[], a: T, b: T): T {
+    return levels.indexOf(a) <= levels.indexOf(b) ? a : b;
+  }
+
+  private shift<T extends string>(levels: T[], value: T, steps: number): T {
+    const index = Math.min(levels.length - 1, Math.max(0, levels.indexOf(value) + steps));
+    return levels[index]!;
+  }
+}
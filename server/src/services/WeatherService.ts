@@ -0,0 +1,161 @@
+/**
+ * Weather Service
+ * Runs the world clock and regional weather, telling zones when their sky changes
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { CacheManager } from './CacheManager';
+import { RealtimeService } from './RealtimeService';
+import { ZoneService } from './ZoneService';
+import { WeatherRules } from './WeatherRules';
+import { getErrorMessage } from '../utils/errorUtils';
+import { RandomSource } from '../utils/random';
+import {
+  TimeOfDay,
+  WeatherChange,
+  WeatherState,
+  WorldTime,
+  ZoneConditionsEvent,
+  WORLD_CONSTANTS
+} from '../types/world.types';
+
+export class WeatherService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+  private realtimeService: RealtimeService;
+  private zoneService: ZoneService;
+  private weatherRules: WeatherRules;
+  private random: RandomSource;
+  private weatherTimer: NodeJS.Timeout | null = null;
+  private timeOfDay: TimeOfDay | null = null;
+
+  constructor(
+    db: Pool,
+    cacheManager: CacheManager,
+    realtimeService: RealtimeService,
+    zoneService: ZoneService = new ZoneService(db, cacheManager),
+    weatherRules: WeatherRules = new WeatherRules(),
+    random: RandomSource = Math.random
+  ) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+    this.realtimeService = realtimeService;
+    this.zoneService = zoneService;
+    this.weatherRules = weatherRules;
+    this.random = random;
+  }
+
+  /**
+   * Start moving the clock and the weather along
+   */
+  startWeatherCycle(): void {
+    if (this.weatherTimer) {
+      return;
+    }
+
+    this.weatherTimer = setInterval(() => {
+      void this.advance().catch(error => {
+        logger.error('Failed to advance world weather', { error: getErrorMessage(error) });
+      });
+    }, WORLD_CONSTANTS.WEATHER_TICK_INTERVAL);
+  }
+
+  /**
+   * Stop the weather cycle (graceful shutdown)
+   */
+  stopWeatherCycle(): void {
+    if (this.weatherTimer) {
+      clearInterval(this.weatherTimer);
+      this.weatherTimer = null;
+    }
+  }
+
+  getWorldTime(now: Date = new Date()): WorldTime {
+    return this.weatherRules.getWorldTime(now);
+  }
+
+  /**
+   * Change the weather of every region whose spell has run out, and tell the zones whose
+   * sky changed: those regions' zones, or every outdoor zone when the time of day turns
+   * @returns the weather changes made
+   */
+  async advance(now: Date = new Date()): Promise<WeatherChange[]> {
+    const changes = await this.changeDueWeather(now);
+
+    const worldTime = this.weatherRules.getWorldTime(now);
+    const timeOfDayChanged = this.timeOfDay !== null && this.timeOfDay !== worldTime.timeOfDay;
+    this.timeOfDay = worldTime.timeOfDay;
+
+    if (timeOfDayChanged) {
+      await this.notifyZones(null, worldTime, now);
+    } else if (changes.length > 0) {
+      await this.notifyZones(changes.map(change => change.region), worldTime, now);
+    }
+
+    return changes;
+  }
+
+  private async changeDueWeather(now: Date): Promise<WeatherChange[]> {
+    const result = await this.db.query(`
+      SELECT name, climate, weather
+      FROM weather_regions
+      WHERE next_change_at <= $1
+    `, [now]);
+
+    const changes: WeatherChange[] = [];
+    for (const row of result.rows) {
+      const previousWeather: WeatherState = row.weather;
+      const weather = this.weatherRules.rollNextWeather(previousWeather, row.climate, this.random);
+      const nextChangeAt = new Date(now.getTime() + this.weatherRules.rollDuration(weather, this.random));
+
+      await this.db.query(`
+        UPDATE weather_regions
+        SET weather = $2, changed_at = $3, next_change_at = $4
+        WHERE name = $1
+      `, [row.name, weather, now, nextChangeAt]);
+      await this.cacheManager.delete(`weather_region:${row.name}`);
+
+      if (weather !== previousWeather) {
+        changes.push({ region: row.name, previousWeather, weather, nextChangeAt });
+      }
+    }
+
+    if (changes.length > 0) {
+      logger.info('Weather changed', {
+        changes: changes.map(change => `${change.region}: ${change.previousWeather} -> ${change.weather}`)
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Send outdoor zones their new conditions
+   * @param regions Regions whose zones to notify, or null for every region
+   */
+  private async notifyZones(regions: string[] | null, worldTime: WorldTime, now: Date): Promise<void> {
+    const result = regions ?
+      await this.db.query('SELECT id FROM zones WHERE region = ANY($1)', [regions]) :
+      await this.db.query('SELECT id FROM zones WHERE region IS NOT NULL');
+
+    for (const { id } of result.rows) {
+      // Cached zone info carries the old sky in its description and exits
+      await this.cacheManager.delete(`zone_info:${id}`);
+
+      const zone = await this.zoneService.getZoneById(id);
+      if (!zone) {
+        continue;
+      }
+
+      const conditions = await this.zoneService.getZoneConditions(zone, now);
+      const event: ZoneConditionsEvent = {
+        zoneId: zone.id,
+        conditions,
+        worldTime,
+        message: this.weatherRules.describe(conditions)
+      };
+      this.realtimeService.broadcastToZone(zone.id, 'zone:conditions_changed', event);
+    }
+  }
+}
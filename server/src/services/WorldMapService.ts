@@ -0,0 +1,120 @@
+/**
+ * World Map Service
+ * Exports the zone graph as JSON or Graphviz DOT, with the problems validation found
+ */
+
+import { Pool } from 'pg';
+import { CacheManager } from './CacheManager';
+import { ZoneService } from './ZoneService';
+import { WorldMapValidator } from './WorldMapValidator';
+import {
+  WorldMap,
+  Zone,
+  ZoneExit,
+  ZONE_CONSTANTS
+} from '../types/zone.types';
+
+export class WorldMapService {
+  private zoneService: ZoneService;
+  private validator: WorldMapValidator;
+
+  constructor(
+    db: Pool,
+    cacheManager: CacheManager,
+    zoneService: ZoneService = new ZoneService(db, cacheManager),
+    validator: WorldMapValidator = new WorldMapValidator()
+  ) {
+    this.zoneService = zoneService;
+    this.validator = validator;
+  }
+
+  /**
+   * Every zone and exit, hidden and locked ones included, and what is wrong with them
+   */
+  async buildMap(now: Date = new Date()): Promise<WorldMap> {
+    const [zones, exits] = await Promise.all([
+      this.zoneService.getAllZones(),
+      this.zoneService.getAllExits(true)
+    ]);
+    const starterZoneId = zones.find(zone => zone.internalName === ZONE_CONSTANTS.STARTER_ZONE)?.id ?? null;
+
+    return {
+      starterZoneId,
+      zones,
+      exits,
+      issues: this.validator.validate(zones, exits, starterZoneId),
+      generatedAt: now
+    };
+  }
+
+  /**
+   * Graphviz digraph with a cluster per map layer. The starter zone is highlighted, zones and
+   * exits with issues are drawn in red, locked exits dashed and hidden ones dotted.
+   */
+  toDot(map: WorldMap): string {
+    // Exit issues mark their exits; only issues with a zone itself, like orphans, mark the zone
+    const flaggedZones = new Set(map.issues.flatMap(issue => issue.zoneId && !issue.exitIds ? [issue.zoneId] : []));
+    const flaggedExits = new Set(map.issues.flatMap(issue => issue.exitIds ?? []));
+
+    const layers = new Map<number, Zone[]>();
+    for (const zone of map.zones) {
+      layers.set(zone.layer, [...(layers.get(zone.layer) ?? []), zone]);
+    }
+
+    const lines = [
+      'digraph world {',
+      '  graph [rankdir=LR, fontname="Helvetica"];',
+      '  node [shape=box, style="rounded,filled", fillcolor=white, fontname="Helvetica"];',
+      '  edge [fontname="Helvetica", fontsize=10];'
+    ];
+
+    for (const [layer, zones] of [...layers.entries()].sort(([a], [b]) => a - b)) {
+      lines.push('', `  subgraph "cluster_layer_${layer}" {`, `    label=${this.quote(`Layer ${layer}`)};`);
+      for (const zone of zones) {
+        lines.push(`    ${this.quote(zone.id)} [${this.zoneAttributes(zone, map.starterZoneId, flaggedZones).join(', ')}];`);
+      }
+      lines.push('  }');
+    }
+
+    lines.push('');
+    for (const exit of map.exits) {
+      lines.push(`  ${this.quote(exit.fromZoneId)} -> ${this.quote(exit.toZoneId)} [${this.exitAttributes(exit, flaggedExits).join(', ')}];`);
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  private zoneAttributes(zone: Zone, starterZoneId: string | null, flaggedZones: Set<string>): string[] {
+    const levels = zone.levelRange ? ` · levels ${zone.levelRange[0]}-${zone.levelRange[1]}` : '';
+    const attributes = [`label=${this.quote(`${zone.displayName}\n${zone.internalName}${levels}`)}`];
+
+    if (zone.id === starterZoneId) {
+      attributes.push('fillcolor=lightgoldenrod');
+    }
+    if (flaggedZones.has(zone.id)) {
+      attributes.push('color=red', 'penwidth=2');
+    }
+
+    return attributes;
+  }
+
+  private exitAttributes(exit: ZoneExit, flaggedExits: Set<string>): string[] {
+    const attributes = [`label=${this.quote(exit.direction)}`];
+
+    if (exit.exitType === 'hidden' || !exit.isVisible) {
+      attributes.push('style=dotted');
+    } else if (exit.isLocked) {
+      attributes.push('style=dashed');
+    }
+    if (flaggedExits.has(exit.id)) {
+      attributes.push('color=red', 'fontcolor=red');
+    }
+
+    return attributes;
+  }
+
+  private quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  }
+}
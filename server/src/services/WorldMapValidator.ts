@@ -0,0 +1,186 @@
+/**
+ * World Map Validator
+ * Finds broken geography in the zone graph: exits that do not lead back the way they say,
+ * zones nobody can walk to, clashing exits and sudden jumps in level
+ */
+
+import {
+  Direction,
+  WorldMapIssue,
+  Zone,
+  ZoneExit,
+  ZONE_CONSTANTS
+} from '../types/zone.types';
+
+export class WorldMapValidator {
+  /**
+   * Every issue in the graph, errors before warnings
+   * @param starterZoneId Zone every other zone should be reachable from, or null if it is missing
+   */
+  validate(zones: Zone[], exits: ZoneExit[], starterZoneId: string | null): WorldMapIssue[] {
+    const zonesById = new Map(zones.map(zone => [zone.id, zone]));
+    const issues = [
+      ...this.findDuplicateDirections(exits, zonesById),
+      ...this.uniqueByExits(exits.flatMap(exit => this.checkReverse(exit, exits, zonesById))),
+      ...this.findOrphans(zones, exits, starterZoneId),
+      ...exits.flatMap(exit => this.checkLevelCliff(exit, zonesById))
+    ];
+
+    return [
+      ...issues.filter(issue => issue.severity === 'error'),
+      ...issues.filter(issue => issue.severity === 'warning')
+    ];
+  }
+
+  /**
+   * Zones reachable from a zone by following exits, locked or not
+   */
+  findReachable(exits: ZoneExit[], fromZoneId: string): Set<string> {
+    const reached = new Set([fromZoneId]);
+    const queue = [fromZoneId];
+
+    while (queue.length > 0) {
+      const zoneId = queue.shift()!;
+      for (const exit of exits) {
+        if (exit.fromZoneId === zoneId && !reached.has(exit.toZoneId)) {
+          reached.add(exit.toZoneId);
+          queue.push(exit.toZoneId);
+        }
+      }
+    }
+
+    return reached;
+  }
+
+  private findDuplicateDirections(exits: ZoneExit[], zonesById: Map<string, Zone>): WorldMapIssue[] {
+    const byDirection = new Map<string, ZoneExit[]>();
+    for (const exit of exits) {
+      const key = `${exit.fromZoneId}:${exit.direction}`;
+      byDirection.set(key, [...(byDirection.get(key) ?? []), exit]);
+    }
+
+    return [...byDirection.values()]
+      .filter(group => group.length > 1)
+      .map(group => ({
+        type: 'duplicate_direction' as const,
+        severity: 'error' as const,
+        zoneId: group[0]!.fromZoneId,
+        exitIds: group.map(exit => exit.id),
+        message: `${this.zoneName(group[0]!.fromZoneId, zonesById)} has ${group.length} exits ${group[0]!.direction}`
+      }));
+  }
+
+  /**
+   * An exit's way back should be the opposite direction, and the zone it leads to should
+   * have an exit back that way
+   */
+  private checkReverse(exit: ZoneExit, exits: ZoneExit[], zonesById: Map<string, Zone>): WorldMapIssue[] {
+    const opposite: Direction = ZONE_CONSTANTS.OPPOSITE_DIRECTIONS[exit.direction];
+    const from = this.zoneName(exit.fromZoneId, zonesById);
+    const to = this.zoneName(exit.toZoneId, zonesById);
+
+    if (exit.reverseDirection && exit.reverseDirection !== opposite) {
+      return [{
+        type: 'reverse_mismatch',
+        severity: 'error',
+        zoneId: exit.fromZoneId,
+        exitIds: [exit.id],
+        message: `The ${exit.direction} exit from ${from} leads back ${exit.reverseDirection}, not ${opposite}`
+      }];
+    }
+
+    const returns = exits.filter(candidate =>
+      candidate.fromZoneId === exit.toZoneId && candidate.toZoneId === exit.fromZoneId
+    );
+    const back = exit.reverseDirection ?? opposite;
+
+    if (returns.length > 0 && !returns.some(candidate => candidate.direction === back)) {
+      return [{
+        type: 'reverse_mismatch',
+        severity: 'error',
+        zoneId: exit.fromZoneId,
+        exitIds: [exit.id, ...returns.map(candidate => candidate.id)],
+        message: `Going ${exit.direction} from ${from} to ${to} leads back ${returns.map(candidate => candidate.direction).join(', ')}, not ${back}`
+      }];
+    }
+
+    if (returns.length === 0 && exit.reverseDirection) {
+      return [{
+        type: 'one_way_exit',
+        severity: 'warning',
+        zoneId: exit.fromZoneId,
+        exitIds: [exit.id],
+        message: `The ${exit.direction} exit from ${from} should lead back ${back}, but ${to} has no exit back`
+      }];
+    }
+
+    return [];
+  }
+
+  private findOrphans(zones: Zone[], exits: ZoneExit[], starterZoneId: string | null): WorldMapIssue[] {
+    if (!starterZoneId) {
+      return [{
+        type: 'missing_starter_zone',
+        severity: 'error',
+        message: `Starter zone ${ZONE_CONSTANTS.STARTER_ZONE} does not exist`
+      }];
+    }
+
+    const reachable = this.findReachable(exits, starterZoneId);
+
+    return zones
+      .filter(zone => !reachable.has(zone.id))
+      .map(zone => ({
+        type: 'orphan_zone' as const,
+        severity: 'error' as const,
+        zoneId: zone.id,
+        message: `${zone.displayName} cannot be reached from the starter zone`
+      }));
+  }
+
+  /**
+   * A neighbour whose levels start well above the top of this zone's, with nothing on the
+   * exit holding back characters too weak for it
+   */
+  private checkLevelCliff(exit: ZoneExit, zonesById: Map<string, Zone>): WorldMapIssue[] {
+    const fromRange = zonesById.get(exit.fromZoneId)?.levelRange;
+    const toRange = zonesById.get(exit.toZoneId)?.levelRange;
+    if (!fromRange || !toRange) {
+      return [];
+    }
+
+    const gap = toRange[0] - Math.max(fromRange[1], exit.requiredLevel);
+    if (gap <= ZONE_CONSTANTS.LEVEL_CLIFF_GAP) {
+      return [];
+    }
+
+    return [{
+      type: 'level_cliff',
+      severity: 'warning',
+      zoneId: exit.fromZoneId,
+      exitIds: [exit.id],
+      message: `Going ${exit.direction} from ${this.zoneName(exit.fromZoneId, zonesById)} ` +
+        `(levels ${fromRange[0]}-${fromRange[1]}) leads to ${this.zoneName(exit.toZoneId, zonesById)} ` +
+        `(levels ${toRange[0]}-${toRange[1]}), ${gap} levels higher`
+    }];
+  }
+
+  /**
+   * A mismatched pair of exits is found from both ends; report it once
+   */
+  private uniqueByExits(issues: WorldMapIssue[]): WorldMapIssue[] {
+    const seen = new Set<string>();
+    return issues.filter(issue => {
+      const key = [...(issue.exitIds ?? [])].sort().join(',');
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private zoneName(zoneId: string, zonesById: Map<string, Zone>): string {
+    return zonesById.get(zoneId)?.displayName ?? zoneId;
+  }
+}
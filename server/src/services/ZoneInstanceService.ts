@@ -0,0 +1,270 @@
+/**
+ * Zone Instance Service
+ * Per-party copies of instance and dungeon zones, their monsters and idle teardown
+ */
+
+import { Pool } from 'pg';
+import { CacheManager } from './CacheManager';
+import { MonsterService } from './MonsterService';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errorUtils';
+import { GeneratedMonster } from '../types/monster.types';
+import {
+  InstanceMonster,
+  Zone,
+  ZoneInstance,
+  ZONE_CONSTANTS
+} from '../types/zone.types';
+
+export class ZoneInstanceService {
+  private db: Pool;
+  private cacheManager: CacheManager;
+  private monsterService: MonsterService;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    db: Pool,
+    cacheManager: CacheManager,
+    monsterService: MonsterService = new MonsterService(db, cacheManager)
+  ) {
+    this.db = db;
+    this.cacheManager = cacheManager;
+    this.monsterService = monsterService;
+  }
+
+  /**
+   * Whether a zone is played in per-party copies
+   */
+  isInstanced(zone: Pick<Zone, 'zoneType'>): boolean {
+    return ZONE_CONSTANTS.INSTANCED_ZONE_TYPES.includes(zone.zoneType);
+  }
+
+  /**
+   * Start tearing down instances that have sat empty too long
+   */
+  startIdleSweep(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      void this.closeIdleInstances().catch(error => {
+        logger.error('Failed to close idle zone instances', { error: getErrorMessage(error) });
+      });
+    }, ZONE_CONSTANTS.INSTANCE_SWEEP_INTERVAL);
+  }
+
+  /**
+   * Stop the idle sweep (graceful shutdown)
+   */
+  stopIdleSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * The copy of a zone a character enters: the one their party already has open, or a
+   * fresh one they own, stocked with monsters for their level
+   */
+  async enterInstance(characterId: string, templateZone: Zone, partyLevel: number): Promise<ZoneInstance> {
+    const existing = await this.db.query(`
+      SELECT zi.*
+      FROM zone_instances zi
+      JOIN zone_instance_members zim ON zim.instance_id = zi.id
+      WHERE zim.character_id = $1 AND zi.template_zone_id = $2
+      ORDER BY zi.created_at DESC
+      LIMIT 1
+    `, [characterId, templateZone.id]);
+
+    if (existing.rows[0]) {
+      const instance = this.mapInstanceRow(existing.rows[0]);
+      await this.touchInstance(instance.id);
+      return instance;
+    }
+
+    const monsterGroups: GeneratedMonster[][] = [];
+    for (let i = 0; i < ZONE_CONSTANTS.INSTANCE_MONSTER_GROUPS; i++) {
+      const group = await this.monsterService.generateEncounter(templateZone.id, partyLevel);
+      if (group.length > 0) {
+        monsterGroups.push(group);
+      }
+    }
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO zone_instances (template_zone_id, owner_character_id)
+        VALUES ($1, $2)
+        RETURNING *
+      `, [templateZone.id, characterId]);
+      const instance = this.mapInstanceRow(result.rows[0]);
+
+      await client.query(
+        'INSERT INTO zone_instance_members (instance_id, character_id) VALUES ($1, $2)',
+        [instance.id, characterId]
+      );
+
+      for (const [groupNumber, group] of monsterGroups.entries()) {
+        for (const monster of group) {
+          await client.query(`
+            INSERT INTO zone_instance_monsters (id, instance_id, group_number, template_id, level)
+            VALUES ($1, $2, $3, $4, $5)
+          `, [monster.instanceId, instance.id, groupNumber, monster.template.id, monster.level]);
+        }
+      }
+
+      await client.query('COMMIT');
+
+      logger.info('Zone instance created', {
+        instanceId: instance.id,
+        templateZoneId: templateZone.id,
+        ownerCharacterId: characterId,
+        monsterGroups: monsterGroups.length
+      });
+
+      return instance;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Let another character into the instance its owner is standing in. They share it from
+   * the next time they step through its portal.
+   * @returns the instance, or null when the owner is not inside one they own
+   */
+  async addMember(ownerCharacterId: string, characterId: string): Promise<ZoneInstance | null> {
+    const result = await this.db.query(`
+      SELECT zi.*
+      FROM zone_instances zi
+      JOIN character_locations cl ON cl.instance_id = zi.id
+      WHERE cl.character_id = $1 AND zi.owner_character_id = $1
+    `, [ownerCharacterId]);
+
+    if (!result.rows[0]) {
+      return null;
+    }
+
+    const instance = this.mapInstanceRow(result.rows[0]);
+
+    // A character belongs to one copy of a zone at a time
+    await this.db.query(`
+      DELETE FROM zone_instance_members zim
+      USING zone_instances zi
+      WHERE zim.instance_id = zi.id AND zim.character_id = $1 AND zi.template_zone_id = $2
+    `, [characterId, instance.templateZoneId]);
+    await this.db.query(
+      'INSERT INTO zone_instance_members (instance_id, character_id) VALUES ($1, $2)',
+      [instance.id, characterId]
+    );
+
+    return instance;
+  }
+
+  /**
+   * Restart an instance's idle clock
+   */
+  async touchInstance(instanceId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE zone_instances SET last_activity_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [instanceId]
+    );
+  }
+
+  /**
+   * The next group of living monsters in an instance, ready to fight
+   * @returns an empty list once the instance has been cleared
+   */
+  async getNextEncounter(instanceId: string): Promise<GeneratedMonster[]> {
+    const result = await this.db.query(`
+      SELECT id, instance_id, group_number, template_id, level, defeated_at
+      FROM zone_instance_monsters
+      WHERE instance_id = $1 AND defeated_at IS NULL
+        AND group_number = (
+          SELECT MIN(group_number) FROM zone_instance_monsters
+          WHERE instance_id = $1 AND defeated_at IS NULL
+        )
+      ORDER BY id
+    `, [instanceId]);
+
+    const monsters: GeneratedMonster[] = [];
+    for (const monster of result.rows.map(row => this.mapMonsterRow(row))) {
+      const template = await this.monsterService.getTemplate(monster.templateId);
+      if (template) {
+        monsters.push({
+          instanceId: monster.id,
+          template,
+          level: monster.level,
+          stats: this.monsterService.scaleStats(template, monster.level)
+        });
+      }
+    }
+
+    return monsters;
+  }
+
+  /**
+   * Mark monsters killed in combat as dead for good. IDs that are not instance
+   * monsters are ignored, so every fight's dead can be passed in.
+   */
+  async recordMonsterDeaths(monsterIds: string[]): Promise<void> {
+    if (monsterIds.length === 0) {
+      return;
+    }
+
+    await this.db.query(`
+      UPDATE zone_instance_monsters SET defeated_at = CURRENT_TIMESTAMP
+      WHERE id::text = ANY($1) AND defeated_at IS NULL
+    `, [monsterIds]);
+  }
+
+  /**
+   * Tear down instances nobody is inside that have been idle for INSTANCE_IDLE_TIMEOUT.
+   * Members and monsters go with them.
+   * @returns the IDs of the instances torn down
+   */
+  async closeIdleInstances(now: Date = new Date()): Promise<string[]> {
+    const result = await this.db.query(`
+      DELETE FROM zone_instances zi
+      WHERE zi.last_activity_at < $1
+        AND NOT EXISTS (SELECT 1 FROM character_locations cl WHERE cl.instance_id = zi.id)
+      RETURNING zi.id
+    `, [new Date(now.getTime() - ZONE_CONSTANTS.INSTANCE_IDLE_TIMEOUT)]);
+
+    const closed: string[] = result.rows.map(row => row.id);
+    if (closed.length > 0) {
+      await Promise.all(closed.map(id => this.cacheManager.delete(`zone_info:${id}`)));
+      logger.info('Idle zone instances closed', { count: closed.length });
+    }
+
+    return closed;
+  }
+
+  private mapInstanceRow(row: any): ZoneInstance {
+    return {
+      id: row.id,
+      templateZoneId: row.template_zone_id,
+      ownerCharacterId: row.owner_character_id,
+      createdAt: row.created_at,
+      lastActivityAt: row.last_activity_at
+    };
+  }
+
+  private mapMonsterRow(row: any): InstanceMonster {
+    return {
+      id: row.id,
+      instanceId: row.instance_id,
+      groupNumber: row.group_number,
+      templateId: row.template_id,
+      level: row.level,
+      ...(row.defeated_at && { defeatedAt: row.defeated_at })
+    };
+  }
+}
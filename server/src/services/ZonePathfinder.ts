@@ -0,0 +1,80 @@
+/**
+ * Zone Pathfinder
+ * Shortest routes over the zone exit graph, weighted by travel time
+ */
+
+import { TravelPath, TravelStep, ZoneExit } from '../types/zone.types';
+
+export class ZonePathfinder {
+  /**
+   * Dijkstra from one zone to another over the exits the character can use. Ties keep
+   * the route with fewer steps, then the exit that comes first in the list.
+   * @returns null when the destination cannot be reached
+   */
+  findPath(
+    exits: ZoneExit[],
+    fromZoneId: string,
+    toZoneId: string,
+    canUse: (exit: ZoneExit) => boolean
+  ): TravelPath | null {
+    const exitsByZone = new Map<string, ZoneExit[]>();
+    for (const exit of exits) {
+      if (!canUse(exit)) continue;
+      const fromZone = exitsByZone.get(exit.fromZoneId) ?? [];
+      fromZone.push(exit);
+      exitsByZone.set(exit.fromZoneId, fromZone);
+    }
+
+    const best = new Map<string, { time: number; steps: number; via: ZoneExit | null }>([
+      [fromZoneId, { time: 0, steps: 0, via: null }]
+    ]);
+    const settled = new Set<string>();
+
+    for (;;) {
+      let current: string | null = null;
+      for (const [zoneId, entry] of best) {
+        if (settled.has(zoneId)) continue;
+        const currentEntry = current === null ? null : best.get(current)!;
+        if (!currentEntry || this.isShorter(entry, currentEntry)) {
+          current = zoneId;
+        }
+      }
+
+      if (current === null) return null;
+      if (current === toZoneId) break;
+      settled.add(current);
+
+      const reached = best.get(current)!;
+      for (const exit of exitsByZone.get(current) ?? []) {
+        if (settled.has(exit.toZoneId)) continue;
+        const candidate = { time: reached.time + exit.travelTime, steps: reached.steps + 1, via: exit };
+        const known = best.get(exit.toZoneId);
+        if (!known || this.isShorter(candidate, known)) {
+          best.set(exit.toZoneId, candidate);
+        }
+      }
+    }
+
+    const steps: TravelStep[] = [];
+    for (let via = best.get(toZoneId)!.via; via; via = best.get(via.fromZoneId)!.via) {
+      steps.unshift({
+        exitId: via.id,
+        fromZoneId: via.fromZoneId,
+        toZoneId: via.toZoneId,
+        direction: via.direction,
+        travelTime: via.travelTime
+      });
+    }
+
+    return {
+      fromZoneId,
+      toZoneId,
+      steps,
+      totalTravelTime: best.get(toZoneId)!.time
+    };
+  }
+
+  private isShorter(a: { time: number; steps: number }, b: { time: number; steps: number }): boolean {
+    return a.time < b.time || (a.time === b.time && a.steps < b.steps);
+  }
+}
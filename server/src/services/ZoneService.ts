@@ -7,6 +7,9 @@ import { Pool } from 'pg';
 import { logger } from '../utils/logger';
 import { CacheManager } from './CacheManager';
 import { getErrorMessage } from '../utils/errorUtils';
+import { ExitLockRules } from './ExitLockRules';
+import { WeatherRules } from './WeatherRules';
+import {
   Zone,
   ZoneInfo,
   ZoneExit,
@@ -19,22 +22,39 @@ import { getErrorMessage } from '../utils/errorUtils';
   UpdateZoneDto,
   ZONE_CONSTANTS
 } from '../types/zone.types';
+import { WeatherRegion, ZoneConditions } from '../types/world.types';
+
+const ZONE_EXIT_COLUMNS = `id, from_zone_id, to_zone_id, direction, exit_type,
+                is_visible, is_locked, lock_type, required_level, required_item_id,
+                required_quest_id, required_guild_id, required_affinity, required_affinity_tier,
+                required_skill, required_skill_value, lock_hint,
+                travel_message, travel_time, reverse_direction, created_at, updated_at`;
 
 export class ZoneService {
   private db: Pool;
   private cacheManager: CacheManager;
-
-  constructor(db: Pool, cacheManager: CacheManager) {
+  private lockRules: ExitLockRules;
+  private weatherRules: WeatherRules;
+
+  constructor(
+    db: Pool,
+    cacheManager: CacheManager,
+    lockRules: ExitLockRules = new ExitLockRules(),
+    weatherRules: WeatherRules = new WeatherRules()
+  ) {
     this.db = db;
     this.cacheManager = cacheManager;
+    this.lockRules = lockRules;
+    this.weatherRules = weatherRules;
   }
 
   /**
-   * Get zone information with exits and characters
+   * Get zone information with exits and characters, counting only the characters
+   * in one copy of it for instanced zones
    */
-  async getZone(req: Request, res: Response): Promise<void> {
+  async getZone(zoneId: string, instanceId?: string): Promise<ZoneInfo | null> {
     try {
-      const cacheKey = `zone_info:${zoneId}`;
+      const cacheKey = `zone_info:${instanceId ?? zoneId}`;
       const cached = await this.cacheManager.get<ZoneInfo>(cacheKey);
       if (cached) {
         return cached;
@@ -43,16 +63,18 @@ export class ZoneService {
       const zone = await this.getZoneById(zoneId);
       if (!zone) return null;
 
-      const [exits, charactersPresent] = await Promise.all([
+      const [exits, charactersPresent, conditions] = await Promise.all([
         this.getZoneExits(zoneId),
-        this.getPlayersInZone(zoneId);
+        this.getPlayersInZone(zoneId, instanceId),
+        this.getZoneConditions(zone)
       ]);
 
       const zoneInfo: ZoneInfo = {
         zone,
-        exits,
+        exits: exits.filter(exit => this.weatherRules.canSeeExit(exit, conditions)),
         charactersPresent,
-        ambientDescription: this.generateAmbientDescription(zone),
+        ambientDescription: this.generateAmbientDescription(zone, conditions),
+        conditions,
         playerCount: charactersPresent.length
       };
 
@@ -71,16 +93,16 @@ export class ZoneService {
   /**
    * Get zone by ID
    */
-  async getZoneById(req: Request, res: Response): Promise<void> {
+  async getZoneById(zoneId: string): Promise<Zone | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
         `SELECT id, internal_name, display_name, description, zone_type,
-                level_range, pvp_enabled, safe_zone, climate, terrain, lighting,
+                level_range, pvp_enabled, safe_zone, climate, terrain, lighting, region,
                 features, map_x, map_y, layer, monster_spawn_rate, ambient_sounds,
                 created_at, updated_at
          FROM zones WHERE id = $1`,
-        [zoneId];
+        [zoneId]
       );
 
       if (result.rows.length === 0) return null;
@@ -93,18 +115,20 @@ export class ZoneService {
   }
 
   /**
-   * Get zone by internal name
+   * Get zone by internal name, or by display name ignoring case
    */
-  async getZoneByName(req: Request, res: Response): Promise<void> {
+  async getZoneByName(name: string): Promise<Zone | null> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
         `SELECT id, internal_name, display_name, description, zone_type,
-                level_range, pvp_enabled, safe_zone, climate, terrain, lighting,
+                level_range, pvp_enabled, safe_zone, climate, terrain, lighting, region,
                 features, map_x, map_y, layer, monster_spawn_rate, ambient_sounds,
                 created_at, updated_at
-         FROM zones WHERE internal_name = $1`,
-        [internalName];
+         FROM zones WHERE internal_name = $1 OR LOWER(display_name) = LOWER($1)
+         ORDER BY internal_name = $1 DESC
+         LIMIT 1`,
+        [name]
       );
 
       if (result.rows.length === 0) return null;
@@ -116,20 +140,54 @@ export class ZoneService {
     }
   }
 
+  /**
+   * Current weather, time of day and what they make it like in a zone
+   */
+  async getZoneConditions(zone: Zone, now: Date = new Date()): Promise<ZoneConditions> {
+    const region = zone.region ? await this.getWeatherRegion(zone.region) : null;
+    return this.weatherRules.getConditions(zone, region, this.weatherRules.getWorldTime(now));
+  }
+
+  /**
+   * Get a weather region and its current weather
+   */
+  async getWeatherRegion(name: string): Promise<WeatherRegion | null> {
+    const cacheKey = `weather_region:${name}`;
+    const cached = await this.cacheManager.get<WeatherRegion>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const client = await this.db.connect();
+    try {
+      const result = await client.query(
+        `SELECT name, display_name, climate, weather, changed_at, next_change_at
+         FROM weather_regions WHERE name = $1`,
+        [name]
+      );
+
+      if (result.rows.length === 0) return null;
+
+      const region = this.mapRowToWeatherRegion(result.rows[0]);
+      await this.cacheManager.set(cacheKey, region, { ttl: ZONE_CONSTANTS.CACHE_TTL_SECONDS });
+      return region;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Get exits from a zone
    */
-  async getZoneExits(req: Request, res: Response): Promise<void> {
+  async getZoneExits(zoneId: string): Promise<ZoneExit[]> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
-        `SELECT id, from_zone_id, to_zone_id, direction, exit_type,
-                is_visible, is_locked, lock_type, required_level, required_item_id,
-                travel_message, reverse_direction, created_at, updated_at
+        `SELECT ${ZONE_EXIT_COLUMNS}
          FROM zone_exits 
          WHERE from_zone_id = $1 AND is_visible = true
          ORDER BY direction`,
-        [zoneId];
+        [zoneId]
       );
 
       return result.rows.map(row => this.mapRowToZoneExit(row));
@@ -139,14 +197,54 @@ export class ZoneService {
   }
 
   /**
-   * Get characters currently in a zone
+   * Get every zone in the world
    */
-  async getPlayersInZone(req: Request, res: Response): Promise<void> {
+  async getAllZones(): Promise<Zone[]> {
     const client = await this.db.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM get_characters_in_zone($1)',
-        [zoneId];
+        `SELECT id, internal_name, display_name, description, zone_type,
+                level_range, pvp_enabled, safe_zone, climate, terrain, lighting, region,
+                features, map_x, map_y, layer, monster_spawn_rate, ambient_sounds,
+                created_at, updated_at
+         FROM zones
+         ORDER BY layer, internal_name`
+      );
+
+      return result.rows.map(row => this.mapRowToZone(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get every exit in the world: the visible ones for route planning, or all of them
+   */
+  async getAllExits(includeInvisible: boolean = false): Promise<ZoneExit[]> {
+    const client = await this.db.connect();
+    try {
+      const result = await client.query(
+        `SELECT ${ZONE_EXIT_COLUMNS}
+         FROM zone_exits
+         ${includeInvisible ? '' : 'WHERE is_visible = true'}
+         ORDER BY from_zone_id, direction`
+      );
+
+      return result.rows.map(row => this.mapRowToZoneExit(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get characters currently in a zone, or in one instance of it
+   */
+  async getPlayersInZone(zoneId: string, instanceId?: string): Promise<CharacterInZone[]> {
+    const client = await this.db.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM get_characters_in_zone($1, $2)',
+        [zoneId, instanceId ?? null]
       );
 
       return result.rows.map(row => ({
@@ -167,20 +265,23 @@ export class ZoneService {
   /**
    * Look in a specific direction from a zone
    */
-  async look(req: Request, res: Response): Promise<void> {
+  async look(zoneId: string, direction: string, characterLevel: number): Promise<LookResponse> {
     try {
       const normalizedDirection = this.normalizeDirection(direction);
       if (!normalizedDirection) {
         return {
-          direction,
+          direction: direction as Direction,
           canAccess: false,
           blockReason: 'Invalid direction',
           description: 'You cannot look in that direction.'
         };
       }
 
-      const exits = await this.getZoneExits(zoneId);
-      const exit = exits.find(e => e.direction === normalizedDirection);
+      const [exits, zone] = await Promise.all([this.getZoneExits(zoneId), this.getZoneById(zoneId)]);
+      const conditions = zone ? await this.getZoneConditions(zone) : null;
+      const exit = exits.find(e =>
+        e.direction === normalizedDirection && (!conditions || this.weatherRules.canSeeExit(e, conditions))
+      );
 
       if (!exit) {
         return {
@@ -204,6 +305,7 @@ export class ZoneService {
       // Check access requirements
       const canAccess = this.canAccessExit(exit, characterLevel);
       const blockReason = canAccess ? undefined : this.getBlockReason(exit, characterLevel);
+      const lockHint = this.lockRules.getLockHint(exit);
 
       const description = this.generateLookDescription(exit, destinationZone, canAccess);
 
@@ -212,7 +314,8 @@ export class ZoneService {
         exitInfo: exit,
         destinationZone,
         canAccess,
-        blockReason,
+        ...(blockReason && { blockReason }),
+        ...(lockHint && { lockHint }),
         description
       };
     } catch (error) {
@@ -233,7 +336,7 @@ export class ZoneService {
     try {
       let query = `
         SELECT id, internal_name, display_name, description, zone_type,
-               level_range, pvp_enabled, safe_zone, climate, terrain, lighting,
+               level_range, pvp_enabled, safe_zone, climate, terrain, lighting, region,
                features, map_x, map_y, layer, monster_spawn_rate, ambient_sounds,
                created_at, updated_at;
         FROM zones WHERE 1=1`;
@@ -540,6 +643,7 @@ export class ZoneService {
       climate: row.climate,
       terrain: row.terrain,
       lighting: row.lighting,
+      ...(row.region && { region: row.region }),
       features: row.features || {},
       mapX: row.map_x,
       mapY: row.map_y,
@@ -551,6 +655,20 @@ export class ZoneService {
     };
   }
 
+  /**
+   * Map database row to WeatherRegion object
+   */
+  private mapRowToWeatherRegion(row: any): WeatherRegion {
+    return {
+      name: row.name,
+      displayName: row.display_name,
+      climate: row.climate,
+      weather: row.weather,
+      changedAt: row.changed_at,
+      nextChangeAt: row.next_change_at
+    };
+  }
+
   /**
    * Map database row to ZoneExit object
    */
@@ -565,8 +683,16 @@ export class ZoneService {
       isLocked: row.is_locked,
       lockType: row.lock_type,
       requiredLevel: row.required_level,
-      requiredItemId: row.required_item_id,
+      ...(row.required_item_id && { requiredItemId: row.required_item_id }),
+      ...(row.required_quest_id && { requiredQuestId: row.required_quest_id }),
+      ...(row.required_guild_id !== null && row.required_guild_id !== undefined && { requiredGuildId: row.required_guild_id }),
+      ...(row.required_affinity && { requiredAffinity: row.required_affinity }),
+      ...(row.required_affinity_tier && { requiredAffinityTier: row.required_affinity_tier }),
+      ...(row.required_skill && { requiredSkill: row.required_skill }),
+      ...(row.required_skill_value && { requiredSkillValue: row.required_skill_value }),
+      ...(row.lock_hint && { lockHint: row.lock_hint }),
       travelMessage: row.travel_message,
+      travelTime: row.travel_time,
       reverseDirection: row.reverse_direction,
       createdAt: row.created_at,
       updatedAt: row.updated_at
@@ -619,14 +745,9 @@ export class ZoneService {
    * Get reason why exit is blocked
    */
   private getBlockReason(exit: ZoneExit, characterLevel: number): string {
-    if (exit.isLocked) {
-      switch (exit.lockType) {
-        case 'key': return 'This passage is locked and requires a key.';
-        case 'level': return `You need to be level ${exit.requiredLevel} to access this area.`;
-        case 'quest': return 'You must complete a specific quest to access this area.';
-        case 'guild': return 'This area is restricted to guild members.';
-        default: return 'This passage is locked.';
-      }
+    const lockHint = this.lockRules.getLockHint(exit);
+    if (lockHint) {
+      return lockHint;
     }
     
     if (exit.requiredLevel > characterLevel) {
@@ -682,8 +803,13 @@ export class ZoneService {
   /**
    * Generate ambient description for zone
    */
-  private generateAmbientDescription(zone: Zone): string {
+  private generateAmbientDescription(zone: Zone, conditions: ZoneConditions): string {
     let description = zone.description;
+
+    const sky = this.weatherRules.describe(conditions);
+    if (sky) {
+      description += ` ${sky}`;
+    }
     
     if (zone.ambientSounds && zone.ambientSounds.length > 0) {
       const soundsText = zone.ambientSounds.join(', ');
@@ -66,9 +66,9 @@ export function registerCharacterHandlers(io: SocketIOServer, socket: SocketWith
       // Join character-specific rooms
       await roomManager.joinCharacterRoom(socket, data.characterId);
       
-      // Join character's current zone
+      // Join character's current zone, or their party's copy of it
       if (characterData.currentZone) {
-        await roomManager.joinZone(socket, characterData.currentZone);
+        await roomManager.joinZone(socket, characterData.currentZone, characterData.instanceId);
       }
 
       // Update presence with character info
@@ -80,7 +80,7 @@ export function registerCharacterHandlers(io: SocketIOServer, socket: SocketWith
 
       // Broadcast character online to zone
       if (characterData.currentZone) {
-        socket.to(`zone:${characterData.currentZone}`).emit('character:online', {
+        socket.to(`zone:${characterData.instanceId ?? characterData.currentZone}`).emit('character:online', {
           characterId: data.characterId,
           userId: socket.userId,
           position: characterData.position,
@@ -332,6 +332,7 @@ async function loadCharacterData(req: Request, res: Response): Promise<void> {
       class: character.class,
       level: character.level,
       currentZone: character.zone_id,
+      instanceId: character.instance_id ?? undefined,
       position: { 
         x: character.position_x, 
         y: character.position_y, 
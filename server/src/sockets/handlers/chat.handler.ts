@@ -10,8 +10,17 @@ import { getRedis } from '../../config/database';
 import { logger } from '../../utils/logger';
 import { repositories } from '../../database/repositories';
 import { getErrorMessage } from '../utils/errorUtils';
+import { DeathService } from '../../services/DeathService';
 
 const presenceManager = new PresenceManager();
+let deathService: DeathService | null = null;
+
+/**
+ * Provide the death service used to keep the dead out of zone chat
+ */
+export function setDeathService(service: DeathService): void {
+  deathService = service;
+}
 
 export interface ChatMessageData {
   channel: 'zone' | 'global' | 'guild';
@@ -61,6 +70,16 @@ export function registerChatHandlers(io: SocketIOServer, socket: SocketWithAuth)
           code: 'PERMISSION_DENIED',
           message: hasPermission.reason,
         });
+        return;
+      }
+
+      // The dead can still use global and guild chat, but cannot speak to the living around them
+      if (data.channel === 'zone' && await isCharacterDead(socket)) {
+        socket.emit('chat:error', {
+          code: 'CHARACTER_DEAD',
+          message: 'The dead cannot speak',
+        });
+        return;
       }
 
       // Store message in chat history
@@ -200,6 +219,14 @@ export function registerChatHandlers(io: SocketIOServer, socket: SocketWithAuth)
 
   socket.on('chat:emote', async (data: EmoteData) => {
     try {
+      if (await isCharacterDead(socket)) {
+        socket.emit('chat:error', {
+          code: 'CHARACTER_DEAD',
+          message: 'The dead cannot emote',
+        });
+        return;
+      }
+
       if (!socket.characterId) {
         socket.emit('chat:error', {
           code: 'NO_CHARACTER',
@@ -423,6 +450,13 @@ async function checkChatPermissions(req: Request, res: Response): Promise<void>
   }
 }
 
+async function isCharacterDead(socket: SocketWithAuth): Promise<boolean> {
+  if (!socket.characterId || !deathService) {
+    return false;
+  }
+  return deathService.isDead(socket.characterId);
+}
+
 async function storeChatMessage(req: Request, res: Response): Promise<void> {
   try {
     const redis = getRedis();
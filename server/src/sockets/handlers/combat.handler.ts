@@ -9,10 +9,24 @@ import { RoomManager } from '../rooms/RoomManager';
 import { PresenceManager } from '../presence/PresenceManager';
 import { logger } from '../../utils/logger';
 import { repositories } from '../../database/repositories';
+import { queries } from '../../database';
 import { getErrorMessage } from '../utils/errorUtils';
+import { SocketSecurityService, SecurityValidationResult } from '../security';
+import { CombatService } from '../../services/CombatService';
+import { ActionType, CombatActionRequest, CombatErrorCode, CombatJoinResult, CombatStateEvent } from '../../types/combat.types';
 
 const roomManager = new RoomManager();
 const presenceManager = new PresenceManager();
+const securityService = new SocketSecurityService();
+let combatService: CombatService | null = null;
+
+/**
+ * Provide the combat service used by the combat socket events
+ */
+export function setCombatService(service: CombatService): void {
+  combatService = service;
+  roomManager.setCombatService(service);
+}
 
 export interface CombatJoinData {
   sessionId: string;
@@ -21,6 +35,7 @@ export interface CombatJoinData {
 
 export interface CombatActionData {
   sessionId: string;
+  actionId: string; // Unique per action; a repeated ID is a replay
   actionType: 'attack' | 'defend' | 'skill' | 'item';
   targetId?: string;
   skillId?: string;
@@ -34,6 +49,10 @@ export interface CombatFleeData {
   timestamp: number;
 }
 
+export interface CombatSpectateData {
+  sessionId: string;
+}
+
 export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAuth): void {
 
   socket.on('combat:join', async (data: CombatJoinData) => {
@@ -53,28 +72,32 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
           code: 'INVALID_CHARACTER',
           message: 'Character mismatch',
         });
+        return;
       }
 
-      // Verify combat session exists and character is invited
-      const session = await getCombatSession(data.sessionId);
-      if (!session) {
+      if (!combatService) {
         socket.emit('combat:error', {
-          code: 'SESSION_NOT_FOUND',
-          message: 'Combat session not found',
+          code: 'COMBAT_UNAVAILABLE',
+          message: 'Combat service is not available',
         });
+        return;
       }
 
-      const canJoin = await validateCombatJoin(data.characterId, data.sessionId);
-      if (!canJoin.allowed) {
-        socket.emit('combat:error', {
-          code: 'JOIN_DENIED',
-          message: canJoin.reason,
-        });
+      // Fighters already in the session (whoever started it, duelists, arena teams)
+      // only subscribe to its room; anyone else joins the fight itself, where the
+      // service checks session type, party, zone and side capacity
+      let joinResult: CombatJoinResult | null = null;
+      if (!await isPlayerInCombat(data.sessionId, data.characterId)) {
+        joinResult = await combatService.joinEncounter(data.sessionId, data.characterId);
+        if (!joinResult.success) {
+          socket.emit('combat:error', {
+            code: joinResult.error ?? 'JOIN_DENIED',
+            message: joinResult.message,
+          });
+          return;
+        }
       }
 
-      // Add player to combat session
-      await addPlayerToCombat(data.sessionId, data.characterId);
-
       // Join combat room
       await roomManager.joinCombat(socket, data.sessionId);
 
@@ -90,10 +113,13 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
       io.to(`combat:${data.sessionId}`).emit('combat:state', combatState);
 
       // Broadcast player joined
-      socket.to(`combat:${data.sessionId}`).emit('combat:player_joined', {
-        characterId: data.characterId,
-        timestamp: Date.now(),
-      });
+      if (joinResult) {
+        socket.to(`combat:${data.sessionId}`).emit('combat:player_joined', {
+          characterId: data.characterId,
+          side: joinResult.participant?.side,
+          timestamp: Date.now(),
+        });
+      }
 
       const processTime = Date.now() - startTime;
 
@@ -120,6 +146,93 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
     }
   });
 
+  socket.on('combat:spectate', async (data: CombatSpectateData) => {
+    try {
+      if (!socket.characterId) {
+        socket.emit('combat:error', {
+          code: 'NO_CHARACTER',
+          message: 'No character selected',
+        });
+        return;
+      }
+
+      if (!combatService) {
+        socket.emit('combat:error', {
+          code: 'COMBAT_UNAVAILABLE',
+          message: 'Combat service is not available',
+        });
+        return;
+      }
+
+      const spectateResult = await combatService.startSpectating(data.sessionId, socket.characterId);
+      if (!spectateResult.success) {
+        socket.emit('combat:error', {
+          code: spectateResult.error ?? 'SPECTATE_DENIED',
+          message: spectateResult.message,
+        });
+        return;
+      }
+
+      // Same room as the fighters, so spectators see the same event stream; the room sends combat:state
+      await roomManager.joinCombat(socket, data.sessionId, true);
+
+      io.to(`combat:${data.sessionId}`).emit('combat:spectators', {
+        sessionId: data.sessionId,
+        spectatorCount: await combatService.getSpectatorCount(data.sessionId),
+      });
+
+      logger.info('Spectator joined combat', {
+        socketId: socket.id,
+        characterId: socket.characterId,
+        sessionId: data.sessionId,
+      });
+
+    } catch (error) {
+      logger.error('Combat spectate error', {
+        socketId: socket.id,
+        characterId: socket.characterId,
+        sessionId: data.sessionId,
+        error: error instanceof Error ? getErrorMessage(error) : error,
+      });
+
+      socket.emit('combat:error', {
+        code: 'SPECTATE_FAILED',
+        message: 'Failed to spectate combat',
+      });
+    }
+  });
+
+  socket.on('combat:stop_spectating', async (data: CombatSpectateData) => {
+    try {
+      await stopSpectating(io, socket, data.sessionId);
+    } catch (error) {
+      logger.error('Combat stop spectating error', {
+        socketId: socket.id,
+        sessionId: data.sessionId,
+        error: error instanceof Error ? getErrorMessage(error) : error,
+      });
+    }
+  });
+
+  // Rooms are already gone by the time 'disconnect' fires
+  socket.on('disconnecting', async () => {
+    const sessionIds = Array.from(socket.rooms)
+      .filter(room => room.startsWith('combat:'))
+      .map(room => room.slice('combat:'.length));
+
+    for (const sessionId of sessionIds) {
+      try {
+        await stopSpectating(io, socket, sessionId);
+      } catch (error) {
+        logger.error('Failed to stop spectating on disconnect', {
+          socketId: socket.id,
+          sessionId,
+          error: error instanceof Error ? getErrorMessage(error) : error,
+        });
+      }
+    }
+  });
+
   socket.on('combat:action', async (data: CombatActionData) => {
     const startTime = Date.now();
     
@@ -128,7 +241,17 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
         socket.emit('combat:error', {
           code: 'NO_CHARACTER',
           message: 'No character selected',
-        });`
+        });
+        return;
+      }
+
+      // Spectators are read-only
+      if (await isSpectator(data.sessionId, socket.characterId)) {
+        socket.emit('combat:error', {
+          code: CombatErrorCode.SPECTATOR_READ_ONLY,
+          message: 'Spectators cannot act in combat',
+        });
+        return;
       }
 
       // Validate action data
@@ -137,33 +260,59 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
           code: 'INVALID_ACTION',
           message: 'Invalid action data',
         });
+        return;
       }
 
-      // Check if it's player's turn
-      const turnCheck = await validateTurnOrder(data.sessionId, socket.characterId);
-      if (!turnCheck.isPlayerTurn) {
+      if (!combatService) {
         socket.emit('combat:error', {
-          code: 'NOT_YOUR_TURN',
-          message: 'It is not your turn',
-          currentTurn: turnCheck.currentPlayer,
+          code: 'COMBAT_UNAVAILABLE',
+          message: 'Combat service is not available',
         });
+        return;
       }
 
-      // Validate action against character state
-      const actionValidation = await validateCombatAction(socket.characterId, data);
-      if (!actionValidation.valid) {
+      // Anti-cheat: turn, target, cooldown and MP come from the combat engine; replays and
+      // action rate are tracked per user against server time, never the client's timestamp
+      const actionRequest = await toActionRequest(data);
+      const ruleCheck = await combatService.validateAction(data.sessionId, socket.characterId, actionRequest);
+      const securityCheck = securityService.validateCombatAction(socket, {
+        action: actionRequest.spellId ?? actionRequest.actionType,
+        ...(data.targetId && { targetId: data.targetId }),
+        parameters: data.parameters,
+        timestamp: Date.now(),
+        characterId: socket.characterId,
+        userId: socket.userId,
+        sessionId: data.sessionId,
+        actionId: data.actionId,
+      }, ruleCheck);
+
+      if (!securityCheck.isValid) {
         socket.emit('combat:error', {
-          code: 'ACTION_INVALID',
-          message: actionValidation.reason,
+          code: ruleCheck.errorCode ?? 'ACTION_REJECTED',
+          message: securityCheck.reason,
         });
-        `
+        await enforceSecurityDecision(socket, data, securityCheck);
+        return;
       }
 
-      // Process the combat action
-      const actionResult = await processCombatAction(data.sessionId, socket.characterId, data);
+      if (!ruleCheck.canAct) {
+        socket.emit('combat:error', {
+          code: ruleCheck.errorCode ?? 'ACTION_INVALID',
+          message: ruleCheck.errorMessage,
+        });
+        return;
+      }
 
-      // Update combat state
-      const updatedState = await updateCombatState(data.sessionId, actionResult);
+      // The engine resolves the action under the session lock and announces
+      // combat:update, and combat:end with rewards when the fight is over
+      const actionResult = await combatService.performAction(data.sessionId, socket.characterId, actionRequest);
+      if (!actionResult.success) {
+        socket.emit('combat:error', {
+          code: actionResult.error ?? 'ACTION_FAILED',
+          message: actionResult.message,
+        });
+        return;
+      }
 
       // Track activity
       await presenceManager.trackActivity(socket.userId, 'combat_action', {
@@ -176,15 +325,10 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
         characterId: socket.characterId,
         action: data,
         result: actionResult,
-        newState: updatedState,
+        newState: await getCombatState(data.sessionId),
         timestamp: Date.now(),
       });
 
-      // Check if combat is finished
-      if (updatedState.status === 'finished') {
-        await handleCombatEnd(data.sessionId, updatedState);
-      }
-
       const processTime = Date.now() - startTime;
 
       logger.info('Combat action processed', {
@@ -192,7 +336,7 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
         characterId: socket.characterId,
         sessionId: data.sessionId,
         actionType: data.actionType,
-        success: actionResult.success,
+        combatEnded: actionResult.combatEnded ?? false,
         processTime,
       });
 
@@ -218,26 +362,40 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
         socket.emit('combat:error', {
           code: 'NO_CHARACTER',
           message: 'No character selected',
-        });`
+        });
+        return;
       }
 
-      // Check if flee is allowed
-      const fleeCheck = await validateFleeAttempt(data.sessionId, socket.characterId);
-      if (!fleeCheck.allowed) {
+      if (!combatService) {
         socket.emit('combat:error', {
-          code: 'FLEE_DENIED',
-          message: fleeCheck.reason,
+          code: 'FLEE_FAILED',
+          message: 'Combat is not available',
         });
-        `
+        return;
       }
 
-      // Process flee attempt
-      const fleeResult = await processFleeAttempt(data.sessionId, socket.characterId);
+      if (await isSpectator(data.sessionId, socket.characterId)) {
+        socket.emit('combat:error', {
+          code: CombatErrorCode.SPECTATOR_READ_ONLY,
+          message: 'Spectators cannot act in combat',
+        });
+        return;
+      }
 
-      if (fleeResult.success) {
-        // Remove player from combat
-        await removePlayerFromCombat(data.sessionId, socket.characterId);
+      // A flee attempt is the character's action for the turn, whether or not it succeeds
+      const fleeResult = await combatService.performAction(data.sessionId, socket.characterId, {
+        actionType: ActionType.FLEE,
+        actionName: 'flee',
+      });
+      if (!fleeResult.success || !fleeResult.action) {
+        socket.emit('combat:error', {
+          code: fleeResult.error || 'FLEE_DENIED',
+          message: fleeResult.message,
+        });
+        return;
+      }
 
+      if (fleeResult.action.fled) {
         // Leave combat room
         socket.leave(`combat:${data.sessionId}`);
 
@@ -255,6 +413,7 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
         // Send success response
         socket.emit('combat:flee_result', {
           success: true,
+          ...fleeResult.flee,
           timestamp: Date.now(),
         });
 
@@ -262,13 +421,15 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
           socketId: socket.id,
           characterId: socket.characterId,
           sessionId: data.sessionId,
+          experienceLost: fleeResult.flee?.experienceLost,
+          escapedTo: fleeResult.flee?.escapedTo?.zoneId,
         });
 
       } else {
-        // Flee failed, continue combat
+        // Flee failed and the turn is spent, continue combat
         socket.emit('combat:flee_result', {
           success: false,
-          reason: fleeResult.reason,
+          reason: fleeResult.action.description,
           timestamp: Date.now(),
         });
 
@@ -276,7 +437,6 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
           socketId: socket.id,
           characterId: socket.characterId,
           sessionId: data.sessionId,
-          reason: fleeResult.reason,
         });
       }
 
@@ -297,19 +457,30 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
 
   socket.on('combat:get_state', async (data: { sessionId: string }) => {
     try {
-      if (!socket.characterId)`
-      // Verify player is in this combat session
-      const inCombat = await isPlayerInCombat(data.sessionId, socket.characterId);
+      if (!socket.characterId) {
+        return;
+      }
+
+      // Verify player is in this combat session or watching it
+      const inCombat = await isPlayerInCombat(data.sessionId, socket.characterId) ||
+        await isSpectator(data.sessionId, socket.characterId);
       if (!inCombat) {
         socket.emit('combat:error', {
           code: 'NOT_IN_COMBAT',
           message: 'You are not in this combat session',
         });
-        `
+        return;
       }
 
-      // Get current combat state
+      // Get current combat state, threat tables included
       const combatState = await getCombatState(data.sessionId);
+      if (!combatState) {
+        socket.emit('combat:error', {
+          code: 'COMBAT_NOT_FOUND',
+          message: 'Combat session not found',
+        });
+        return;
+      }
 
       // Send state to requesting player
       socket.emit('combat:state', combatState);
@@ -326,39 +497,15 @@ export function registerCombatHandlers(io: SocketIOServer, socket: SocketWithAut
 
 // Helper functions
 
-async function getCombatSession(req: Request, res: Response): Promise<void> {
-  // TODO: Implement database query to get combat session
-  return {
-    id: sessionId,
-    status: 'active',
-    participants: [],
-  }; // Placeholder
-}
-
-async function validateCombatJoin(req: Request, res: Response): Promise<void> {
-  // TODO: Implement combat join validation
-  return { allowed: true }; // Placeholder
-}
-
-async function addPlayerToCombat(req: Request, res: Response): Promise<void> {
-  // TODO: Implement database update to add player to combat
-  logger.debug('Player added to combat', { sessionId, characterId });
-}
-
-async function getCombatState(req: Request, res: Response): Promise<void> {
-  // TODO: Implement combat state retrieval
-  return {
-    sessionId,
-    status: 'active',
-    currentTurn: 'player1',
-    participants: [],
-    round: 1,
-  }; // Placeholder
+async function getCombatState(sessionId: string): Promise<CombatStateEvent | null> {
+  return combatService ? combatService.getCombatState(sessionId) : null;
 }
 
 function isValidCombatAction(data: CombatActionData): boolean {
   return (
     typeof data.sessionId === 'string' &&
+    typeof data.actionId === 'string' &&
+    data.actionId.length > 0 &&
     typeof data.actionType === 'string' &&
     ['attack', 'defend', 'skill', 'item'].includes(data.actionType) &&
     typeof data.timestamp === 'number' &&
@@ -366,57 +513,116 @@ function isValidCombatAction(data: CombatActionData): boolean {
   );
 }
 
-async function validateTurnOrder(req: Request, res: Response): Promise<void> {
-  // TODO: Implement turn order validation
-  return { isPlayerTurn: true }; // Placeholder
-}
-
-async function validateCombatAction(req: Request, res: Response): Promise<void> {
-  // TODO: Implement action validation (mana, cooldowns, etc.)
-  return { valid: true }; // Placeholder
-}
+/**
+ * The engine's view of a socket action; skills take the action type of their ability
+ */
+async function toActionRequest(data: CombatActionData): Promise<CombatActionRequest> {
+  const target = data.targetId ? { targetId: data.targetId } : {};
+
+  if (data.actionType === 'skill') {
+    const ability = data.skillId && combatService ? await combatService.getAbility(data.skillId) : null;
+    return {
+      actionType: ability?.actionType ?? ActionType.SPELL,
+      actionName: data.skillId ?? 'skill',
+      ...(data.skillId && { spellId: data.skillId }),
+      ...target,
+    };
+  }
 
-async function processCombatAction(req: Request, res: Response): Promise<void> {
-  // TODO: Implement combat action processing
   return {
-    success: true,
-    damage: 100,
-    effects: [],
-  }; // Placeholder
+    actionType: data.actionType as ActionType,
+    actionName: data.actionType,
+    ...(data.itemId && { itemId: data.itemId }),
+    ...target,
+  };
 }
 
-async function updateCombatState(req: Request, res: Response): Promise<void> {
-  // TODO: Implement combat state update
-  return {
-    sessionId,
-    status: 'active',
-    currentTurn: 'next_player',
-    participants: [],
-    round: 1,
-  }; // Placeholder
-}
+/**
+ * Write an anti-cheat decision to the audit log, then carry it out
+ */
+async function enforceSecurityDecision(
+  socket: SocketWithAuth,
+  data: CombatActionData,
+  decision: SecurityValidationResult
+): Promise<void> {
+  logger.warn('Combat action rejected by anti-cheat', {
+    socketId: socket.id,
+    userId: socket.userId,
+    characterId: socket.characterId,
+    sessionId: data.sessionId,
+    reason: decision.reason,
+    severity: decision.severity,
+    action: decision.action,
+  });
 
-async function handleCombatEnd(req: Request, res: Response): Promise<void> {
-  // TODO: Implement combat end handling (rewards, cleanup, etc.)
-  logger.info('Combat ended', { sessionId, finalState });
+  try {
+    await queries.insert('audit_log', {
+      user_id: socket.userId,
+      action: `combat_anticheat_${decision.action}`,
+      resource_type: 'combat_session',
+      resource_id: data.sessionId,
+      changes: JSON.stringify({
+        characterId: socket.characterId,
+        actionId: data.actionId,
+        actionType: data.actionType,
+        targetId: data.targetId,
+        reason: decision.reason,
+        severity: decision.severity,
+        suspiciousActivityCount: securityService.getSuspiciousActivityCount(socket.userId),
+      }),
+      ip_address: socket.handshake.address,
+      user_agent: socket.handshake.headers['user-agent'] ?? null,
+    }, 'id');
+  } catch (error) {
+    // The decision stands even if it could not be recorded
+    logger.error('Failed to write anti-cheat audit entry', {
+      userId: socket.userId,
+      sessionId: data.sessionId,
+      error: error instanceof Error ? getErrorMessage(error) : error,
+    });
+  }
+
+  if (decision.action === 'warn') {
+    return;
+  }
+
+  if (decision.action === 'ban') {
+    await queries.update('users', { status: 'banned' }, { id: socket.userId }, 'id');
+  }
+
+  socket.emit('security:enforced', {
+    action: decision.action,
+    reason: decision.reason,
+  });
+  socket.disconnect(true);
 }
 
-async function validateFleeAttempt(req: Request, res: Response): Promise<void> {
-  // TODO: Implement flee validation
-  return { allowed: true }; // Placeholder
+async function isSpectator(sessionId: string, characterId: string): Promise<boolean> {
+  return combatService ? combatService.isSpectating(sessionId, characterId) : false;
 }
 
-async function processFleeAttempt(req: Request, res: Response): Promise<void> {
-  // TODO: Implement flee processing with chance calculation
-  return { success: true}; // Placeholder
-}
+/**
+ * Leave a fight's room if the character was only watching it
+ */
+async function stopSpectating(io: SocketIOServer, socket: SocketWithAuth, sessionId: string): Promise<void> {
+  if (!combatService || !socket.characterId || !await isSpectator(sessionId, socket.characterId)) {
+    return;
+  }
 
-async function removePlayerFromCombat(req: Request, res: Response): Promise<void> {
-  // TODO: Implement database update to remove player from combat
-  logger.debug('Player removed from combat', { sessionId, characterId });
+  await combatService.stopSpectating(sessionId, socket.characterId);
+  socket.leave(`combat:${sessionId}`);
+
+  io.to(`combat:${sessionId}`).emit('combat:spectators', {
+    sessionId,
+    spectatorCount: await combatService.getSpectatorCount(sessionId),
+  });
 }
 
-async function isPlayerInCombat(req: Request, res: Response): Promise<void> {
-  // TODO: Implement database query to check combat participation
-  return true; // Placeholder
+async function isPlayerInCombat(sessionId: string, characterId: string): Promise<boolean> {
+  if (!combatService) {
+    return false;
+  }
+
+  const participants = await combatService.getSessionParticipants(sessionId);
+  return participants.some(p => p.characterId === characterId);
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Combat Restore
+ * Puts a reconnecting player's socket back into the fight they left
+ */
+
+import { SocketWithAuth } from '../middleware/auth';
+import { RoomManager } from '../rooms/RoomManager';
+import { CombatService } from '../../services/CombatService';
+import { logger } from '../../utils/logger';
+
+/**
+ * Rejoin the character's unfinished fight, which re-emits `combat:state`
+ * @returns the id of the session rejoined, or null when there was none
+ */
+export async function restoreCombatSession(
+  socket: SocketWithAuth,
+  combatService: CombatService | null,
+  roomManager: RoomManager
+): Promise<string | null> {
+  if (!combatService || !socket.characterId) {
+    return null;
+  }
+
+  const session = await combatService.getActiveCombatForCharacter(socket.characterId);
+  if (!session) {
+    return null;
+  }
+
+  await roomManager.joinCombat(socket, session.id);
+
+  logger.info('Combat session restored', {
+    socketId: socket.id,
+    userId: socket.userId,
+    characterId: socket.characterId,
+    sessionId: session.id,
+  });
+
+  return session.id;
+}
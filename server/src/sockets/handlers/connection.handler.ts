@@ -9,9 +9,20 @@ import { RoomManager } from '../rooms/RoomManager';
 import { PresenceManager } from '../presence/PresenceManager';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../utils/errorUtils';
+import { CombatService } from '../../services/CombatService';
+import { restoreCombatSession } from './combatRestore';
 
 const roomManager = new RoomManager();
 const presenceManager = new PresenceManager();
+let combatService: CombatService | null = null;
+
+/**
+ * Provide the combat service used to put reconnecting players back into their fights
+ */
+export function setCombatService(service: CombatService): void {
+  combatService = service;
+  roomManager.setCombatService(service);
+}
 
 export function handleConnection(io: SocketIOServer, socket: SocketWithAuth): void {
   const startTime = Date.now();
@@ -60,6 +71,16 @@ export function handleConnection(io: SocketIOServer, socket: SocketWithAuth): vo
       });
     });
 
+  // Put the character back into a fight that survived a disconnect or restart
+  restoreCombatSession(socket, combatService, roomManager).catch(error => {
+    logger.error('Failed to restore combat session', {
+      socketId: socket.id,
+      userId: socket.userId,
+      characterId: socket.characterId,
+      error: getErrorMessage(error),
+    });
+  });
+
   const connectionTime = Date.now() - startTime;
   
   logger.debug('Connection setup completed', {
@@ -177,6 +198,15 @@ export function handleReconnect(socket: SocketWithAuth): void {
       });
     });
 
+  restoreCombatSession(socket, combatService, roomManager).catch(error => {
+    logger.error('Failed to restore combat session on reconnect', {
+      socketId: socket.id,
+      userId: socket.userId,
+      characterId: socket.characterId,
+      error: getErrorMessage(error),
+    });
+  });
+
   const reconnectTime = Date.now() - startTime;
   
   logger.debug('Reconnect setup completed', {
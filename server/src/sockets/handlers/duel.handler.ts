@@ -0,0 +1,88 @@
+/**
+ * Duel Event Handlers
+ * Handles duel challenges, accepts and declines over the combat:duel_* events
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketWithAuth } from '../middleware/auth';
+import { logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/errorUtils';
+import { DuelService } from '../../services/DuelService';
+import { DuelChallengeData, DuelResponseData, DuelResult } from '../../types/duel.types';
+
+let duelService: DuelService | null = null;
+
+/**
+ * Provide the duel service used by the duel socket events
+ */
+export function setDuelService(service: DuelService): void {
+  duelService = service;
+}
+
+export function registerDuelHandlers(io: SocketIOServer, socket: SocketWithAuth): void {
+
+  // Challenged characters are told through their character room by the service;
+  // the socket that sent the request gets the result as an acknowledgement
+  const handle = <T>(
+    event: string,
+    operation: (service: DuelService, characterId: string, data: T) => Promise<DuelResult>
+  ) => {
+    socket.on(event, async (data: T, ack?: (result: DuelResult) => void) => {
+      try {
+        if (!socket.characterId) {
+          socket.emit('combat:error', {
+            code: 'NO_CHARACTER',
+            message: 'No character selected',
+          });
+          return;
+        }
+
+        if (!duelService) {
+          socket.emit('combat:error', {
+            code: 'COMBAT_UNAVAILABLE',
+            message: 'Duels are not available',
+          });
+          return;
+        }
+
+        const result = await operation(duelService, socket.characterId, data);
+        if (!result.success) {
+          socket.emit('combat:error', {
+            code: result.error ?? 'DUEL_FAILED',
+            message: result.message,
+          });
+        }
+
+        if (typeof ack === 'function') {
+          ack(result);
+        }
+
+      } catch (error) {
+        logger.error('Duel event error', {
+          socketId: socket.id,
+          userId: socket.userId,
+          event,
+          data,
+          error: error instanceof Error ? getErrorMessage(error) : error,
+        });
+
+        socket.emit('combat:error', {
+          code: 'DUEL_FAILED',
+          message: 'Failed to process duel request',
+        });
+      }
+    });
+  };
+
+  handle<DuelChallengeData>('combat:duel_challenge', (service, characterId, data) =>
+    service.challenge(characterId, data.targetId)
+  );
+
+  handle<DuelResponseData>('combat:duel_accept', (service, characterId, data) =>
+    service.accept(data.challengeId, characterId)
+  );
+
+  handle<DuelResponseData>('combat:duel_decline', (service, characterId, data) =>
+    service.decline(data.challengeId, characterId)
+  );
+}
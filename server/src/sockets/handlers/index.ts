@@ -5,12 +5,23 @@
 
 import { Server as SocketIOServer } from 'socket.io';
 import { SocketWithAuth } from '../middleware/auth';
-import { handleConnection, handleDisconnect, handleReconnect } from './connection.handler';
+import { handleConnection, handleDisconnect, handleReconnect, setCombatService as setConnectionCombatService } from './connection.handler';
 import { registerCharacterHandlers } from './character.handler';
-import { registerCombatHandlers } from './combat.handler';
+import { registerCombatHandlers, setCombatService as setCombatHandlerService } from './combat.handler';
+import { registerDuelHandlers } from './duel.handler';
+import { registerPartyHandlers } from './party.handler';
 import { registerChatHandlers } from './chat.handler';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../utils/errorUtils';
+import { CombatService } from '../../services/CombatService';
+
+/**
+ * Provide the combat service to the handlers that run fights and restore them on reconnect
+ */
+export function setCombatService(service: CombatService): void {
+  setConnectionCombatService(service);
+  setCombatHandlerService(service);
+}
 
 export function attachHandlers(io: SocketIOServer): void {
   logger.info('Attaching Socket.io event handlers');
@@ -35,6 +46,8 @@ export function attachHandlers(io: SocketIOServer): void {
     // Feature-specific handlers
     registerCharacterHandlers(io, socket);
     registerCombatHandlers(io, socket);
+    registerDuelHandlers(io, socket);
+    registerPartyHandlers(io, socket);
     registerChatHandlers(io, socket);
 
     // Error handling
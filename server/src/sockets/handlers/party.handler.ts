@@ -0,0 +1,88 @@
+/**
+ * Party Event Handlers
+ * Handles party invites, accepts and leaving over the party:* events
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketWithAuth } from '../middleware/auth';
+import { logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/errorUtils';
+import { PartyService } from '../../services/PartyService';
+import { PartyAcceptData, PartyInviteData, PartyResult } from '../../types/party.types';
+
+let partyService: PartyService | null = null;
+
+/**
+ * Provide the party service used by the party socket events
+ */
+export function setPartyService(service: PartyService): void {
+  partyService = service;
+}
+
+export function registerPartyHandlers(io: SocketIOServer, socket: SocketWithAuth): void {
+
+  // Members are told through their character rooms by the service;
+  // the socket that sent the request gets the result as an acknowledgement
+  const handle = <T>(
+    event: string,
+    operation: (service: PartyService, characterId: string, data: T) => Promise<PartyResult>
+  ) => {
+    socket.on(event, async (data: T, ack?: (result: PartyResult) => void) => {
+      try {
+        if (!socket.characterId) {
+          socket.emit('party:error', {
+            code: 'NO_CHARACTER',
+            message: 'No character selected',
+          });
+          return;
+        }
+
+        if (!partyService) {
+          socket.emit('party:error', {
+            code: 'PARTY_UNAVAILABLE',
+            message: 'Parties are not available',
+          });
+          return;
+        }
+
+        const result = await operation(partyService, socket.characterId, data);
+        if (!result.success) {
+          socket.emit('party:error', {
+            code: result.error ?? 'PARTY_FAILED',
+            message: result.message,
+          });
+        }
+
+        if (typeof ack === 'function') {
+          ack(result);
+        }
+
+      } catch (error) {
+        logger.error('Party event error', {
+          socketId: socket.id,
+          userId: socket.userId,
+          event,
+          data,
+          error: error instanceof Error ? getErrorMessage(error) : error,
+        });
+
+        socket.emit('party:error', {
+          code: 'PARTY_FAILED',
+          message: 'Failed to process party request',
+        });
+      }
+    });
+  };
+
+  handle<PartyInviteData>('party:invite', (service, characterId, data) =>
+    service.invite(characterId, data.targetId)
+  );
+
+  handle<PartyAcceptData>('party:accept', (service, characterId, data) =>
+    service.accept(data.partyId, characterId)
+  );
+
+  handle<void>('party:leave', (service, characterId) =>
+    service.leave(characterId)
+  );
+}
@@ -8,6 +8,8 @@ import { SocketWithAuth } from '../middleware/auth';
 import { getRedis } from '../../config/database';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../utils/errorUtils';
+import { CombatService } from '../../services/CombatService';
+import { CombatStateEvent } from '../../types/combat.types';
 
 export interface RoomAccess {
   userId: string;
@@ -18,11 +20,16 @@ export interface RoomAccess {
 
 export class RoomManager {
   private io?: SocketIOServer;
+  private combatService?: CombatService;
 
   public setIO(io: SocketIOServer): void {
     this.io = io;
   }
 
+  public setCombatService(combatService: CombatService): void {
+    this.combatService = combatService;
+  }
+
   /**
    * Join user's personal room for direct messages and notifications
    */
@@ -95,10 +102,11 @@ export class RoomManager {
   }
 
   /**
-   * Join zone room for area-specific events
+   * Join zone room for area-specific events. Characters inside an instance share a room
+   * with their party only.
    */
-  public async joinZone(req: Request, res: Response): Promise<void> {
-    const roomName = `zone:${zoneName}`;
+  public async joinZone(socket: SocketWithAuth, zoneName: string, instanceId?: string): Promise<void> {
+    const roomName = `zone:${instanceId ?? zoneName}`;
     
     try {
       // Verify character is in zone
@@ -117,17 +125,19 @@ export class RoomManager {
         userId: socket.userId,
         characterId: socket.characterId,
         zoneName,
+        instanceId,
         roomName,
       });
 
       // Track room membership
-      await this.trackRoomMembership(socket.userId, roomName, 'zone', { zoneName });
+      await this.trackRoomMembership(socket.userId, roomName, 'zone', { zoneName, ...(instanceId && { instanceId }) });
 
       // Broadcast arrival to zone
       socket.to(roomName).emit('zone:character_entered', {
         characterId: socket.characterId,
         userId: socket.userId,
         zoneName,
+        ...(instanceId && { instanceId }),
         timestamp: Date.now(),
       });
       
@@ -143,14 +153,15 @@ export class RoomManager {
   }
 
   /**
-   * Join combat room for battle instances
+   * Join combat room for battle instances. Spectators join the same room read-only
+   * and only for sessions that allow them.
    */
-  public async joinCombat(req: Request, res: Response): Promise<void> {
+  public async joinCombat(socket: SocketWithAuth, sessionId: string, asSpectator: boolean = false): Promise<void> {
     const roomName = `combat:${sessionId}`;
     
     try {
-      // Verify player is in combat session
-      const hasAccess = await this.validateCombatAccess(socket.userId, socket.characterId, sessionId);
+      // Verify player is in combat session, or may watch it
+      const hasAccess = await this.validateCombatAccess(socket.userId, socket.characterId, sessionId, asSpectator);
       if (!hasAccess) {
         throw new Error('Combat session access denied');
       }
@@ -163,10 +174,11 @@ export class RoomManager {
         characterId: socket.characterId,
         sessionId,
         roomName,
+        asSpectator,
       });
 
       // Track room membership
-      await this.trackRoomMembership(socket.userId, roomName, 'combat', { sessionId });
+      await this.trackRoomMembership(socket.userId, roomName, 'combat', { sessionId, spectator: asSpectator });
 
       // Send current combat state
       const combatState = await this.getCombatState(sessionId);
@@ -372,7 +384,12 @@ export class RoomManager {
 
   // Private helper methods
 
-  private async trackRoomMembership(req: Request, res: Response): Promise<void> {
+  private async trackRoomMembership(
+    userId: string,
+    roomName: string,
+    roomType: string,
+    metadata: Record<string, any> = {}
+  ): Promise<void> {
     try {
       const redis = getRedis();
       const key = `user_rooms:${userId}`;
@@ -380,7 +397,7 @@ export class RoomManager {
         roomName,
         roomType,
         joinedAt: Date.now(),
-        metadata,;
+        metadata,
       };
       
       await redis.hset(key, roomName, JSON.stringify(membershipData));
@@ -445,10 +462,31 @@ export class RoomManager {
     return true; // Placeholder
   }
 
-  private async validateCombatAccess(req: Request, res: Response): Promise<void> {
-    // TODO: Implement combat session validation
-    // This would check if the character is part of this combat session
-    return true; // Placeholder
+  /**
+   * Fighters may always enter their own session's room; anyone else only as a
+   * spectator of a session that allows spectators
+   */
+  private async validateCombatAccess(
+    userId: string,
+    characterId: string | undefined,
+    sessionId: string,
+    asSpectator: boolean = false
+  ): Promise<boolean> {
+    if (!this.combatService || !characterId) {
+      return false;
+    }
+
+    const participants = await this.combatService.getSessionParticipants(sessionId);
+    if (participants.some(p => p.characterId === characterId)) {
+      return true;
+    }
+
+    if (!asSpectator) {
+      return false;
+    }
+
+    const session = await this.combatService.getSession(sessionId);
+    return session?.allowSpectators === true;
   }
 
   private async validateGuildAccess(req: Request, res: Response): Promise<void> {
@@ -457,10 +495,8 @@ export class RoomManager {
     return true; // Placeholder
   }
 
-  private async getCombatState(req: Request, res: Response): Promise<void> {
-    // TODO: Implement combat state retrieval
-    // This would fetch the current state of the combat session
-    return {}; // Placeholder
+  private async getCombatState(sessionId: string): Promise<CombatStateEvent | null> {
+    return this.combatService ? this.combatService.getCombatState(sessionId) : null;
   }
 
   private async updateCharacterPresence(userId: string, characterId: string, online: boolean): Promise<void> { // TODO: Implement character presence update
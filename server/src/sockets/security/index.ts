@@ -5,7 +5,8 @@
 
 import { SocketWithAuth } from '../middleware/auth';
 import { logger } from '../../utils/logger';
-import { getErrorMessage } from '../utils/errorUtils';
+import { getErrorMessage } from '../../utils/errorUtils';
+import { CombatErrorCode, CombatValidation } from '../../types/combat.types';
 
 export interface SecurityValidationResult {
   isValid: boolean;
@@ -31,16 +32,31 @@ export interface ActionValidation {
   userId: string;
 }
 
+export interface CombatActionValidation extends ActionValidation {
+  sessionId: string;
+  actionId: string;
+}
+
 export class SocketSecurityService {
   private suspiciousActivities: Map<string, number> = new Map();
   private lastPositions: Map<string, { x: number; y: number; z: number; timestamp: number }> = new Map();
   private actionCooldowns: Map<string, Map<string, number>> = new Map();
+  private seenCombatActionIds: Map<string, string[]> = new Map();
+  private combatViolations: Map<string, number[]> = new Map();
+  private lowCombatViolations: Map<string, number[]> = new Map();
 
   // Movement validation constants
   private readonly MAX_MOVEMENT_SPEED = 10; // units per second
   private readonly MAX_TELEPORT_DISTANCE = 50; // units
   private readonly POSITION_VALIDATION_THRESHOLD = 0.1; // tolerance for floating point errors
 
+  // Combat action validation constants
+  private readonly COMBAT_ACTION_ID_MEMORY = 200; // action IDs remembered per user for replay detection
+  private readonly COMBAT_VIOLATION_WINDOW = 600000; // 10 minutes
+  private readonly COMBAT_DISCONNECT_THRESHOLD = 5; // violations in the window before disconnecting
+  private readonly COMBAT_BAN_THRESHOLD = 10; // violations in the window before banning
+  private readonly COMBAT_LOW_VIOLATION_DECAY = 60000; // low-severity violations are forgotten after a minute
+
   /**
    * Validate character movement for anti-cheat
    */
@@ -169,6 +185,86 @@ export class SocketSecurityService {
     }
   }
 
+  /**
+   * Validate a combat action for anti-cheat. `ruleCheck` is the combat engine's own
+   * verdict on the action; the engine's refusals that an honest client would never
+   * send become violations, and repeated violations escalate to disconnect and ban.
+   */
+  public validateCombatAction(
+    socket: SocketWithAuth,
+    validation: CombatActionValidation,
+    ruleCheck: CombatValidation
+  ): SecurityValidationResult {
+    const { actionId, timestamp, userId } = validation;
+
+    // A replayed action ID means the client is resending captured traffic
+    const seenIds = this.seenCombatActionIds.get(userId) || [];
+    if (seenIds.includes(actionId)) {
+      return this.recordCombatViolation(userId, timestamp, {
+        isValid: false,
+        reason: `Replayed combat action: ${actionId}`,
+        severity: 'high',
+        action: 'disconnect'
+      });
+    }
+    seenIds.push(actionId);
+    this.seenCombatActionIds.set(userId, seenIds.slice(-this.COMBAT_ACTION_ID_MEMORY));
+
+    // Turns are short, but no one acts faster than the combat action cooldown
+    const userCooldowns = this.actionCooldowns.get(userId) || new Map();
+    const lastActionTime = userCooldowns.get('combat_action') || 0;
+    if (timestamp - lastActionTime < this.getActionCooldown('combat_action')) {
+      return this.recordCombatViolation(userId, timestamp, {
+        isValid: false,
+        reason: `Impossible combat action rate: ${timestamp - lastActionTime}ms since the last action`,
+        severity: 'medium',
+        action: 'warn'
+      });
+    }
+    userCooldowns.set('combat_action', timestamp);
+    this.actionCooldowns.set(userId, userCooldowns);
+
+    if (ruleCheck.canAct) {
+      return { isValid: true };
+    }
+
+    switch (ruleCheck.errorCode) {
+      // Turn, target and cooldown refusals are usually lag racing the server: a click
+      // sent just before the turn passed, the target fell or the cooldown ran out
+      case CombatErrorCode.NOT_YOUR_TURN:
+        return this.recordCombatViolation(userId, timestamp, {
+          isValid: false,
+          reason: 'Acted out of turn',
+          severity: 'low',
+          action: 'warn'
+        });
+      case CombatErrorCode.INVALID_TARGET:
+        return this.recordCombatViolation(userId, timestamp, {
+          isValid: false,
+          reason: `Target not in session: ${validation.targetId}`,
+          severity: 'low',
+          action: 'warn'
+        });
+      case CombatErrorCode.ACTION_ON_COOLDOWN:
+        return this.recordCombatViolation(userId, timestamp, {
+          isValid: false,
+          reason: `Ability on cooldown: ${validation.action} (${ruleCheck.cooldownRemaining}s remaining)`,
+          severity: 'low',
+          action: 'warn'
+        });
+      case CombatErrorCode.INSUFFICIENT_MP:
+        return this.recordCombatViolation(userId, timestamp, {
+          isValid: false,
+          reason: `Insufficient MP for ${validation.action}: ${ruleCheck.requiredMp} required`,
+          severity: 'medium',
+          action: 'warn'
+        });
+      default:
+        // Ended fights, dead targets and the like are ordinary game errors
+        return { isValid: true };
+    }
+  }
+
   /**
    * Sanitize chat message content
    */
@@ -240,6 +336,7 @@ export class SocketSecurityService {
    */
   public resetSuspiciousActivity(userId: string): void {
     this.suspiciousActivities.delete(userId);
+    this.combatViolations.delete(userId);
   }
 
   // Private helper methods
@@ -276,6 +373,7 @@ export class SocketSecurityService {
       'use_item': 500,   // 0.5 seconds
       'chat': 100,       // 0.1 seconds
       'move': 50,        // 0.05 seconds
+      'combat_action': 250, // 0.25 seconds
     };
     
     return cooldowns[action] || 1000; // Default 1 second cooldown
@@ -299,6 +397,46 @@ export class SocketSecurityService {
     }
   }
 
+  /**
+   * Count a combat violation and escalate it by how many medium-or-higher violations
+   * the user has racked up in the window. Low-severity violations are tracked apart,
+   * decay within a minute and never count toward disconnect or ban.
+   */
+  private recordCombatViolation(
+    userId: string,
+    timestamp: number,
+    result: SecurityValidationResult
+  ): SecurityValidationResult {
+    if (result.severity === 'low') {
+      const recentLow = (this.lowCombatViolations.get(userId) || [])
+        .filter(at => timestamp - at < this.COMBAT_LOW_VIOLATION_DECAY);
+      recentLow.push(timestamp);
+      this.lowCombatViolations.set(userId, recentLow);
+
+      logger.debug('Low-severity combat violation', {
+        userId,
+        reason: result.reason,
+        recentCount: recentLow.length,
+      });
+      return result;
+    }
+
+    this.incrementSuspiciousActivity(userId);
+
+    const recent = (this.combatViolations.get(userId) || [])
+      .filter(at => timestamp - at < this.COMBAT_VIOLATION_WINDOW);
+    recent.push(timestamp);
+    this.combatViolations.set(userId, recent);
+
+    if (recent.length >= this.COMBAT_BAN_THRESHOLD) {
+      return { ...result, severity: 'critical', action: 'ban' };
+    }
+    if (recent.length >= this.COMBAT_DISCONNECT_THRESHOLD && result.action === 'warn') {
+      return { ...result, severity: 'high', action: 'disconnect' };
+    }
+    return result;
+  }
+
   private incrementSuspiciousActivity(userId: string): void {
     const current = this.suspiciousActivities.get(userId) || 0;
     this.suspiciousActivities.set(userId, current + 1);
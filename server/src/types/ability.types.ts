@@ -0,0 +1,47 @@
+/**
+ * Ability Catalog Types
+ * Type definitions for data-driven spells and combat abilities
+ */
+
+import { ActionType, DamageType, StatusEffectType } from './combat.types';
+
+export enum AbilityTargeting {
+  SINGLE = 'single',
+  SELF = 'self',
+  ALL_ENEMIES = 'all_enemies',
+  ALL_ALLIES = 'all_allies'
+}
+
+export type AbilityScalingStat = 'strength' | 'vitality' | 'dexterity' | 'intelligence' | 'wisdom';
+
+export type AbilityActionType = ActionType.SPELL | ActionType.HEAL | ActionType.SPECIAL;
+
+export interface AbilityStatusEffect {
+  type: StatusEffectType;
+  chance: number; // 0-1 chance to apply to each target
+}
+
+export interface Ability {
+  id: string;
+  name: string;
+  description: string;
+  actionType: AbilityActionType;
+  targeting: AbilityTargeting;
+  manaCost: number;
+  cooldownMs: number;
+  basePower: number;
+  scaling: Partial<Record<AbilityScalingStat, number>>; // Stat coefficient added to base power
+  affinityName?: string;
+  damageType?: DamageType; // Unset for heals and utility abilities
+  requiredAffinityTier: number;
+  statusEffects: AbilityStatusEffect[];
+  taunts?: boolean; // Pulls the targeted monsters' threat onto the caster
+  isActive: boolean;
+}
+
+export const ABILITY_CONSTANTS = {
+  CACHE_KEY: 'abilities:all',
+  CACHE_TTL: 1800, // 30 minutes
+  POWER_VARIANCE: 0.2, // Up to +20% random variance on damage and healing
+  SPELL_CRIT_MULTIPLIER: 1.5 // Abilities crit more often than weapon attacks
+};
@@ -0,0 +1,115 @@
+/**
+ * Combat Analytics Types
+ * Type definitions for per-character combat analytics and combat log exports
+ */
+
+import {
+  ActionType,
+  CombatSide,
+  CombatStatus,
+  CombatType,
+  DamageType,
+  ParticipantStatus,
+  ParticipantType
+} from './combat.types';
+
+export type CombatResult = 'win' | 'loss' | 'draw' | 'fled';
+
+export type CombatLogFormat = 'json' | 'transcript';
+
+export interface CombatAnalyticsFilters {
+  from?: Date;
+  to?: Date; // Exclusive
+}
+
+export interface CombatTypeRecord {
+  fights: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  fled: number;
+  winRate: number; // Of all fights of the type
+}
+
+export interface AbilityUsage {
+  actionName: string;
+  uses: number; // Area abilities count once per cast
+  damage: number;
+  healing: number;
+}
+
+export interface DeadlyMonster {
+  templateId: string;
+  name: string;
+  fights: number;
+  defeats: number; // Fights against the monster the character lost
+  damageTaken: number;
+}
+
+export interface CharacterCombatAnalytics {
+  characterId: string;
+  from?: Date;
+  to?: Date;
+  fights: number;
+  turns: number;
+  combatSeconds: number;
+  damageDealt: number;
+  damageTaken: number;
+  healingDone: number;
+  damagePerSecond: number;
+  healingPerSecond: number;
+  damagePerTurn: number;
+  critRate: number; // Of hits that were not missed
+  byType: Partial<Record<CombatType, CombatTypeRecord>>;
+  mostUsedAbilities: AbilityUsage[];
+  deadliestMonsters: DeadlyMonster[];
+}
+
+export interface CombatLogParticipant {
+  characterId: string;
+  name: string;
+  participantType: ParticipantType;
+  side: CombatSide;
+  level: number;
+  status: ParticipantStatus;
+  damageDealt: number;
+  damageTaken: number;
+}
+
+export interface CombatLogEntry {
+  id: string;
+  turnNumber: number;
+  actorId: string;
+  targetId?: string;
+  actionType: ActionType;
+  actionName: string;
+  damage: number;
+  healing: number;
+  isCritical: boolean;
+  isBlocked: boolean;
+  isMissed: boolean;
+  statusEffectApplied?: string;
+  damageType?: DamageType;
+  resisted: number;
+  isStatusTick: boolean;
+  description: string;
+  createdAt: Date;
+}
+
+export interface CombatLogExport {
+  sessionId: string;
+  sessionType: CombatType;
+  status: CombatStatus;
+  zoneName: string;
+  startedAt: Date;
+  endedAt?: Date;
+  winner?: string;
+  turns: number;
+  participants: CombatLogParticipant[];
+  actions: CombatLogEntry[];
+}
+
+export const ANALYTICS_CONSTANTS = {
+  MOST_USED_ABILITIES: 5,
+  DEADLIEST_MONSTERS: 5
+};
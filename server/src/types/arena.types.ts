@@ -0,0 +1,95 @@
+/**
+ * Arena Types
+ * Ranked arena seasons, Glicko-2 ratings and the matchmaking queue
+ */
+
+import { CombatErrorCode, CombatRatingChange } from './combat.types';
+
+// Glicko-2 rating on the familiar 1500 scale
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface GlickoResult {
+  opponentRating: number;
+  opponentDeviation: number;
+  score: number; // 1 win, 0.5 draw, 0 loss
+}
+
+export interface ArenaSeason {
+  id: string;
+  seasonNumber: number;
+  name: string;
+  startedAt: Date;
+  endsAt: Date;
+  endedAt?: Date;
+  isActive: boolean;
+}
+
+export interface ArenaRating extends GlickoRating {
+  characterId: string;
+  seasonId: string;
+  teamSize: number;
+  wins: number;
+  losses: number;
+  lastMatchAt?: Date;
+}
+
+export interface ArenaQueueEntry {
+  characterId: string;
+  teamSize: number;
+  rating: number;
+  deviation: number;
+  queuedAt: number; // Epoch milliseconds
+}
+
+// Two teams of equal size drawn from the queue
+export interface ArenaMatch {
+  teamSize: number;
+  teams: [ArenaQueueEntry[], ArenaQueueEntry[]];
+}
+
+export interface ArenaQueueResult {
+  success: boolean;
+  message: string;
+  error?: CombatErrorCode;
+  entry?: ArenaQueueEntry;
+}
+
+export interface ArenaLeaderboardEntry {
+  rank: number;
+  characterId: string;
+  characterName: string;
+  rating: number;
+  deviation: number;
+  wins: number;
+  losses: number;
+}
+
+export interface ArenaMatchFoundEvent {
+  sessionId: string;
+  teamSize: number;
+  teammates: string[];
+  opponents: string[];
+  message: string;
+}
+
+export type ArenaRatingChange = CombatRatingChange;
+
+export const ARENA_CONSTANTS = {
+  TEAM_SIZES: [1, 2, 3],
+  DEFAULT_RATING: 1500,
+  DEFAULT_DEVIATION: 350,
+  DEFAULT_VOLATILITY: 0.06,
+  SYSTEM_TAU: 0.5, // Constrains volatility change between matches
+  INITIAL_RATING_WINDOW: 100, // ± rating accepted as soon as a player queues
+  RATING_WINDOW_GROWTH: 10, // Extra rating accepted per second of waiting
+  MAX_RATING_WINDOW: 1000,
+  MATCHMAKING_INTERVAL: 2000, // 2 seconds
+  SEASON_LENGTH_DAYS: 90,
+  SEASON_RESET_FACTOR: 0.5, // New season keeps this share of the distance from the default rating
+  SEASON_START_DEVIATION: 250, // Minimum deviation at the start of a season
+  LEADERBOARD_PAGE_SIZE: 50
+};
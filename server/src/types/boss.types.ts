@@ -0,0 +1,66 @@
+/**
+ * Boss Types
+ * Type definitions for boss phases, enrage timers, scripted abilities and weekly loot lockouts
+ */
+
+import { CombatUpdateEvent } from './combat.types';
+
+// An ability the boss casts on a fixed rhythm while a phase lasts
+export interface BossScriptedAbility {
+  abilityId: string;
+  everyTurns: number; // Cast on rounds divisible by this
+  announcement: string; // Warning sent to the combat room before the cast
+}
+
+export interface BossPhase {
+  phase: number; // 1-based
+  hpThreshold: number; // The phase starts once the boss's HP ratio drops to this
+  name: string;
+  message: string; // Announced when the boss enters the phase
+  damageMultiplier: number;
+  script: BossScriptedAbility[];
+}
+
+export interface BossDefinition {
+  templateId: string;
+  phases: BossPhase[]; // Ordered by phase; the first has an hpThreshold of 1
+  enrageTurn: number; // Round from which the boss is enraged
+  enrageMultiplier: number; // Stacks with the phase's damage multiplier
+  enrageMessage: string;
+}
+
+// Phase and enrage state of a boss participant
+export interface BossState {
+  phase: number;
+  enraged: boolean;
+}
+
+export type BossTransitionType = 'phase' | 'enrage';
+
+export interface BossTransition {
+  type: BossTransitionType;
+  phase: BossPhase;
+  message: string;
+}
+
+export interface CombatBossPhaseEvent extends CombatUpdateEvent {
+  bossId: string;
+  transition: BossTransitionType;
+  phase: number;
+  phaseName: string;
+  enraged: boolean;
+}
+
+export interface CombatBossAbilityEvent {
+  sessionId: string;
+  bossId: string;
+  abilityId: string;
+  turnNumber: number;
+  message: string;
+}
+
+export const BOSS_CONSTANTS = {
+  CACHE_TTL: 1800, // 30 minutes
+  LOCKOUT_RESET_DAY: 2, // Lockouts reset on Tuesday...
+  LOCKOUT_RESET_HOUR: 0 // ...at midnight UTC
+};
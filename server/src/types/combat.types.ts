@@ -3,6 +3,8 @@
  * Comprehensive type definitions for turn-based combat system
  */
 
+import { LootDrop } from './loot.types';
+
 // Core Combat Types
 export interface CombatSession {
   id: string;
@@ -19,6 +21,9 @@ export interface CombatSession {
   winner?: string;
   experience: number;
   gold: number;
+  turnDeadline?: Date;
+  rngSeed: number; // Every roll in the session derives from this seed; never sent to clients
+  allowSpectators: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,11 +42,19 @@ export interface CombatParticipant {
   maxMp: number;
   status: ParticipantStatus;
   statusEffects: StatusEffect[];
+  immunities: StatusEffectType[];
   lastActionAt?: Date;
   actionCooldowns: Record<string, Date>;
   damageTaken: number;
   damageDealt: number;
   actionsUsed: number;
+  consecutiveTimeouts: number;
+  monsterTemplateId?: string; // Set for monster, NPC and boss participants
+  monsterLevel?: number;
+  bossPhase?: number; // Set once a boss's encounter script has evaluated it
+  bossEnraged?: boolean;
+  threat?: Record<string, number>; // Monsters only: threat each enemy holds on this monster
+  resistances?: Resistances; // Race and gear (or monster template) resistances, snapshotted on joining
   joinedAt: Date;
   leftAt?: Date;
 }
@@ -60,11 +73,83 @@ export interface CombatAction {
   isBlocked: boolean;
   isMissed: boolean;
   statusEffectApplied?: string;
+  statusEffectsApplied?: StatusEffectType[];
+  abilityId?: string;
+  additionalTargets?: CombatActionTarget[]; // Area abilities hit more than the primary target
+  damageType?: DamageType; // Set for attacks and damaging abilities
+  resisted?: number; // Damage the primary target resisted; negative when it was vulnerable
+  rollInputs?: CombatRollInputs; // Logged so the action can be replayed from the session seed
+  fled?: boolean; // Set when a flee attempt succeeds
   description: string;
   turnNumber: number;
   createdAt: Date;
 }
 
+export interface CombatActionTarget {
+  targetId: string;
+  damage: number;
+  healing: number;
+  isCritical: boolean;
+  statusEffectsApplied: StatusEffectType[];
+  resisted?: number;
+}
+
+// Deterministic inputs of an action's rolls. Replaying them against the
+// session seed must reproduce the outcome recorded in combat_actions_log.
+export interface AttackRollInputs {
+  kind: 'attack';
+  baseDamage: number; // Before variance, crits and status modifiers
+  critChance: number;
+  missChance: number;
+  blockChance: number;
+  damageMultiplier: number;
+  targetShield: number; // Shield on the target before the hit
+  damageCap?: number; // Most damage the target could take (duels stop short of a kill)
+  damageType?: DamageType;
+  resistance?: number; // Target's resistance to damageType; negative for a vulnerability
+}
+
+export interface AbilityRollInputs {
+  kind: 'ability';
+  abilityId: string;
+  basePower: number; // Before variance; 0 for pure utility abilities
+  critChance: number;
+  damageMultiplier: number;
+  isHeal: boolean;
+  damageType?: DamageType;
+  targets: Array<{ targetId: string; shield: number; damageCap?: number; resistance?: number }>;
+  statusEffects: Array<{ type: StatusEffectType; chance: number }>;
+}
+
+export interface FleeRollInputs {
+  kind: 'flee';
+  fleeChance: number; // A failed attempt is logged as missed
+}
+
+export type CombatRollInputs = AttackRollInputs | AbilityRollInputs | FleeRollInputs;
+
+export type CombatReplayStatus = 'match' | 'mismatch' | 'unverified';
+
+export interface CombatReplayAction {
+  actionIds: string[];
+  turnNumber: number;
+  turnIndex?: number;
+  actorId: string;
+  actionName: string;
+  status: CombatReplayStatus;
+  mismatches: string[];
+}
+
+export interface CombatReplay {
+  sessionId: string;
+  rngSeed: number;
+  verified: boolean; // No action diverged from its replay
+  actionsReplayed: number;
+  actionsUnverified: number; // Logged without roll inputs (no rolls, or recorded before replay support)
+  mismatchCount: number;
+  actions: CombatReplayAction[];
+}
+
 // Enums
 export enum CombatType {
   PVE = 'pve',
@@ -103,6 +188,19 @@ export enum ParticipantStatus {
   INCAPACITATED = 'incapacitated'
 }
 
+export enum DamageType {
+  PHYSICAL = 'physical',
+  FIRE = 'fire',
+  FROST = 'frost',
+  LIGHTNING = 'lightning',
+  HOLY = 'holy',
+  SHADOW = 'shadow',
+  POISON = 'poison'
+}
+
+// Fraction of incoming damage of each type that is resisted; negative values are vulnerabilities
+export type Resistances = Partial<Record<DamageType, number>>;
+
 export enum ActionType {
   ATTACK = 'attack',
   SPELL = 'spell',
@@ -119,6 +217,7 @@ export interface StatusEffect {
   type: StatusEffectType;
   duration: number;
   value: number;
+  stacks?: number;
   appliedAt: Date;
   appliedBy: string;
 }
@@ -137,6 +236,39 @@ export enum StatusEffectType {
   SLOW = 'slow'
 }
 
+export type StatusEffectStacking = 'stack' | 'refresh' | 'ignore';
+
+export interface StatusEffectRule {
+  stacking: StatusEffectStacking;
+  maxStacks: number;
+  skipsTurn: boolean;
+  opposes?: StatusEffectType;
+}
+
+export interface StatusEffectTick {
+  participantId: string;
+  effectType: StatusEffectType;
+  appliedBy: string;
+  damage: number;
+  healing: number;
+  remainingDuration: number;
+  expired: boolean;
+  description: string;
+}
+
+export interface StatusEffectTickResult {
+  ticks: StatusEffectTick[];
+  skipTurn: boolean;
+  died: boolean;
+}
+
+export interface StatusEffectApplication {
+  applied: boolean;
+  effect?: StatusEffect;
+  reason?: 'immune' | 'already_active' | 'cancelled';
+  removed?: StatusEffectType[];
+}
+
 // Combat Actions & Requests
 export interface CombatActionRequest {
   actionType: ActionType;
@@ -146,17 +278,43 @@ export interface CombatActionRequest {
   spellId?: string;
 }
 
+export interface CombatJoinResult {
+  success: boolean;
+  message: string;
+  error?: CombatErrorCode;
+  participant?: CombatParticipant;
+  session?: CombatSession;
+}
+
+export interface CombatSpectateResult {
+  success: boolean;
+  message: string;
+  error?: CombatErrorCode;
+  session?: CombatSession;
+}
+
 export interface CombatActionResult {
   success: boolean;
   action?: CombatAction;
   damage?: number;
   healing?: number;
   statusEffects?: StatusEffect[];
+  statusTicks?: StatusEffectTick[];
   message: string;
   error?: string;
   nextTurn?: string;
   combatEnded?: boolean;
   winner?: string;
+  flee?: CombatFleeResult;
+}
+
+export interface CombatFleeResult {
+  experienceLost: number; // PVE only
+  escapedTo?: {
+    zoneId: string;
+    direction: string;
+    travelMessage: string;
+  };
 }
 
 // Combat Statistics
@@ -170,9 +328,21 @@ export interface CombatStats {
   misses: number;
   statusEffectsApplied: number;
   turnsDuration: number;
+  spectatorCount: number;
   participantStats: Record<string, ParticipantStats>;
 }
 
+export interface CharacterCombatStats {
+  level: number;
+  hp: number;
+  mp: number;
+  strength: number;
+  vitality: number;
+  dexterity: number;
+  intelligence: number;
+  wisdom: number;
+}
+
 export interface ParticipantStats {
   characterId: string;
   characterName: string;
@@ -203,18 +373,59 @@ export interface CombatUpdateEvent {
   updatedParticipants: CombatParticipant[];
   currentTurn: string;
   turnNumber: number;
+  turnDeadline?: Date;
+  statusTicks?: StatusEffectTick[];
   message: string;
 }
 
+// How much threat each enemy holds on one monster, highest first
+export interface ThreatTable {
+  monsterId: string;
+  entries: ThreatEntry[];
+}
+
+export interface ThreatEntry {
+  characterId: string;
+  threat: number;
+  share: number; // Fraction of the top threat on the monster (1 for the current target)
+}
+
+export interface CombatStateEvent {
+  sessionId: string;
+  sessionType: CombatType;
+  status: CombatStatus;
+  participants: CombatParticipant[];
+  turnOrder: string[];
+  currentTurn: string;
+  turnNumber: number;
+  turnDeadline?: Date;
+  threat: ThreatTable[];
+  spectatorCount: number;
+}
+
+export interface CombatTurnTimeoutEvent extends CombatUpdateEvent {
+  timedOutId: string;
+  consecutiveTimeouts: number;
+  forfeited: boolean;
+}
+
 export interface CombatEndEvent {
   sessionId: string;
   winner: string;
   reason: CombatEndReason;
   stats: CombatStats;
   rewards: CombatRewards;
+  ratingChanges?: CombatRatingChange[]; // Ranked (arena) fights only
   message: string;
 }
 
+export interface CombatRatingChange {
+  characterId: string;
+  previousRating: number;
+  rating: number;
+  deviation: number;
+}
+
 export enum CombatEndReason {
   VICTORY = 'victory',
   DEFEAT = 'defeat',
@@ -224,18 +435,41 @@ export enum CombatEndReason {
   CANCELLED = 'cancelled'
 }
 
+// Restart recovery
+export type CombatRecoveryPlan =
+  | { action: 'cancel' }
+  | { action: 'resume'; turnDeadline?: Date };
+
+export interface CombatRecoveryReport {
+  resumed: string[];
+  cancelled: string[];
+  failed: string[];
+}
+
 // Combat Rewards
 export interface CombatRewards {
   experience: number;
   gold: number;
   items: RewardItem[];
   titles?: string[];
+  shares?: CombatRewardShare[]; // Per-player split of experience and gold on the winning side
+}
+
+export interface CombatRewardShare {
+  characterId: string;
+  contribution: number; // Damage dealt plus healing done
+  experience: number;
+  gold: number;
+  lockedOut?: boolean; // Already earned this boss's rewards since the weekly reset
+  loot?: LootDrop[]; // The player's personal drops
 }
 
 export interface RewardItem {
   itemId: string;
+  name: string;
   quantity: number;
   rarity: string;
+  itemLevel: number;
 }
 
 // Combat Configuration
@@ -272,21 +506,56 @@ export enum CombatErrorCode {
   NOT_PARTICIPANT = 'NOT_PARTICIPANT',
   ALREADY_IN_COMBAT = 'ALREADY_IN_COMBAT',
   INVALID_ACTION = 'INVALID_ACTION',
-  ZONE_MISMATCH = 'ZONE_MISMATCH'
+  UNKNOWN_ABILITY = 'UNKNOWN_ABILITY',
+  AFFINITY_TIER_TOO_LOW = 'AFFINITY_TIER_TOO_LOW',
+  COMBAT_IN_PROGRESS = 'COMBAT_IN_PROGRESS',
+  SESSION_NOT_JOINABLE = 'SESSION_NOT_JOINABLE',
+  SIDE_FULL = 'SIDE_FULL',
+  ZONE_MISMATCH = 'ZONE_MISMATCH',
+  NOT_IN_PARTY = 'NOT_IN_PARTY',
+  PVP_DISABLED = 'PVP_DISABLED',
+  SAFE_ZONE = 'SAFE_ZONE',
+  DUEL_NOT_FOUND = 'DUEL_NOT_FOUND',
+  DUEL_EXPIRED = 'DUEL_EXPIRED',
+  DUEL_ALREADY_PENDING = 'DUEL_ALREADY_PENDING',
+  INVALID_TEAM_SIZE = 'INVALID_TEAM_SIZE',
+  ARENA_ALREADY_QUEUED = 'ARENA_ALREADY_QUEUED',
+  ARENA_NOT_QUEUED = 'ARENA_NOT_QUEUED',
+  CHARACTER_DEAD = 'CHARACTER_DEAD',
+  SPECTATORS_NOT_ALLOWED = 'SPECTATORS_NOT_ALLOWED',
+  SPECTATOR_READ_ONLY = 'SPECTATOR_READ_ONLY',
+  NO_ENCOUNTER = 'NO_ENCOUNTER'
 }
 
 // Combat Constants
 export const COMBAT_CONSTANTS = {
   MAX_PARTICIPANTS: 8,
+  MAX_PARTICIPANTS_PER_SIDE: 4,
+  BASE_EXPERIENCE_REWARD: 100, // Reward pool for fights without monsters
+  BASE_GOLD_REWARD: 50,
   TURN_TIME_LIMIT: 30000, // 30 seconds in milliseconds
+  TURN_TIMEOUT_ACTION: 'defend' as const, // Action taken for a player who lets their turn expire
+  MAX_CONSECUTIVE_TIMEOUTS: 3, // Forfeit after this many expired turns in a row
+  TURN_TIMER_POLL_INTERVAL: 1000, // 1 second
+  TURN_EXPIRY_RETRY_DELAY: 5000, // An expired turn whose resolution failed is retried after 5 seconds
+  SESSION_LOCK_TTL: 10000, // Actions and turn timeouts of one session never run at the same time
+  RECOVERY_MAX_IDLE: 1800000, // Fights idle for 30 minutes are cancelled rather than resumed after a restart
+  RECOVERY_TURN_GRACE: 30000, // A full turn for the current actor to reconnect after a restart
   MAX_TURNS: 100,
   BASE_CRITICAL_CHANCE: 0.05, // 5% base crit chance
   CRITICAL_DAMAGE_MULTIPLIER: 1.5, // Critical hits deal 1.5x damage
   DEXTERITY_CRIT_FACTOR: 200, // DEX/200 adds to crit chance
   DAMAGE_VARIANCE: 0.3, // ±30% damage variance
   BLOCK_CHANCE: 0.1, // 10%
+  BLOCKED_DAMAGE_FACTOR: 0.3, // Blocked hits deal 30% damage
   MISS_CHANCE: 0.05, // 5%
-  FLEE_CHANCE: 0.75, // 75%
+  FLEE_CHANCE: 0.6, // 60% against one pursuer with the same dexterity and speed
+  FLEE_DEXTERITY_FACTOR: 0.02, // Per point of dexterity over the quickest pursuer
+  FLEE_SPEED_FACTOR: 0.5, // Per point of HASTE/SLOW speed multiplier over the quickest pursuer
+  FLEE_PURSUER_PENALTY: 0.1, // Per pursuer after the first
+  FLEE_MIN_CHANCE: 0.05,
+  FLEE_MAX_CHANCE: 0.95,
+  FLEE_EXPERIENCE_PENALTY: 0.05, // Fraction of the next level's experience lost fleeing a PVE fight
   EXPERIENCE_MULTIPLIER: 1.0,
   GOLD_MULTIPLIER: 1.0,
   ACTION_COOLDOWNS: {
@@ -310,7 +579,57 @@ export const COMBAT_CONSTANTS = {
     WEAKNESS: 4,
     HASTE: 3,
     SLOW: 3
-  }
+  },
+  STATUS_EFFECT_VALUES: {
+    POISON: 0.1, // Fraction of the triggering hit dealt per turn, per stack
+    BURN: 0.2, // Fraction of the triggering hit dealt per turn
+    REGENERATION: 0.05, // Fraction of max HP healed per turn
+    SHIELD: 0.25, // Fraction of max HP absorbed
+    STRENGTH: 25, // % outgoing damage
+    WEAKNESS: 25, // % outgoing damage reduction
+    HASTE: 30, // % initiative
+    SLOW: 30, // % initiative reduction
+    BLIND: 0.3 // Added miss chance
+  },
+  STATUS_EFFECT_RESISTANCES: {
+    SHIELD: 0.1, // Added to every resistance
+    WEAKNESS: -0.1
+  },
+  MAX_RESISTANCE: 0.75,
+  MIN_RESISTANCE: -0.5, // At most 50% extra damage from a vulnerability
+  MIN_STATUS_TICK_DAMAGE: 1
+};
+
+export const THREAT_CONSTANTS = {
+  DAMAGE_MULTIPLIER: 1, // Threat per point of damage dealt to the monster
+  HEALING_MULTIPLIER: 0.5, // Threat per point healed, split across every hostile monster
+  TAUNT_MULTIPLIER: 1.1, // A taunt puts the taunter 10% above the current top threat...
+  TAUNT_MINIMUM: 50, // ...and at least this far ahead of it
+  DECAY_PER_TURN: 0.1, // A monster forgets 10% of all threat at the start of each of its turns
+  MIN_THREAT: 1 // Entries that decay below this are dropped
+};
+
+// Stacking, refresh and interaction rules per status effect
+export const STATUS_EFFECT_RULES: Record<StatusEffectType, StatusEffectRule> = {
+  [StatusEffectType.POISON]: { stacking: 'stack', maxStacks: 5, skipsTurn: false },
+  [StatusEffectType.BURN]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false, opposes: StatusEffectType.FREEZE },
+  [StatusEffectType.FREEZE]: { stacking: 'ignore', maxStacks: 1, skipsTurn: true, opposes: StatusEffectType.BURN },
+  [StatusEffectType.STUN]: { stacking: 'ignore', maxStacks: 1, skipsTurn: true },
+  [StatusEffectType.BLIND]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false },
+  [StatusEffectType.REGENERATION]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false },
+  [StatusEffectType.SHIELD]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false },
+  [StatusEffectType.STRENGTH]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false, opposes: StatusEffectType.WEAKNESS },
+  [StatusEffectType.WEAKNESS]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false, opposes: StatusEffectType.STRENGTH },
+  [StatusEffectType.HASTE]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false, opposes: StatusEffectType.SLOW },
+  [StatusEffectType.SLOW]: { stacking: 'refresh', maxStacks: 1, skipsTurn: false, opposes: StatusEffectType.HASTE }
+};
+
+// Effects each participant type can never receive
+export const STATUS_EFFECT_IMMUNITIES: Record<ParticipantType, StatusEffectType[]> = {
+  [ParticipantType.PLAYER]: [],
+  [ParticipantType.MONSTER]: [],
+  [ParticipantType.NPC]: [],
+  [ParticipantType.BOSS]: [StatusEffectType.STUN, StatusEffectType.FREEZE]
 };
 
 // DTO Types
@@ -320,6 +639,7 @@ export interface CreateCombatSessionDto {
   targetId?: string;
   zoneId: string;
   participants: CreateCombatParticipantDto[];
+  allowSpectators?: boolean; // Defaults to true for arena matches only
 }
 
 export interface CreateCombatParticipantDto {
@@ -327,6 +647,8 @@ export interface CreateCombatParticipantDto {
   participantType: ParticipantType;
   side: CombatSide;
   position?: number;
+  monsterTemplateId?: string;
+  monsterLevel?: number;
 }
 
 export interface UpdateCombatSessionDto {
@@ -0,0 +1,106 @@
+/**
+ * Death Types
+ * Type definitions for character death, respawning, death penalties and corpse recovery
+ */
+
+export type DeathPenaltyType = 'experience_debt' | 'gold_loss' | 'none';
+
+export enum DeathErrorCode {
+  CHARACTER_NOT_FOUND = 'CHARACTER_NOT_FOUND',
+  NOT_DEAD = 'NOT_DEAD',
+  STILL_DEAD = 'STILL_DEAD',
+  RESPAWN_NOT_READY = 'RESPAWN_NOT_READY',
+  NO_RESPAWN_ZONE = 'NO_RESPAWN_ZONE',
+  NOT_A_CITY = 'NOT_A_CITY',
+  CORPSE_NOT_FOUND = 'CORPSE_NOT_FOUND'
+}
+
+export interface DeathConfig {
+  penalty: DeathPenaltyType;
+  experienceDebtFraction: number; // Of the experience needed for the next level
+  goldLossFraction: number; // Of the gold carried
+  respawnDelayMs: number;
+  leaveCorpse: boolean;
+  corpseDurationMs: number;
+  corpseRecoveryFraction: number; // Share of the penalty handed back by recovering the corpse
+}
+
+export interface DeathPenalty {
+  experienceDebt: number;
+  goldLost: number;
+}
+
+export interface Corpse {
+  id: string;
+  characterId: string;
+  zoneId: string;
+  gold: number; // Recovered with the corpse
+  experienceDebt: number; // Forgiven with the corpse
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface CharacterDeathState {
+  characterId: string;
+  isDead: boolean;
+  diedAt?: Date;
+  respawnAt?: Date;
+  deathZoneId?: string;
+  experienceDebt: number;
+  corpses: Corpse[];
+}
+
+// A bound city or spawn zone a character could respawn in
+export interface RespawnPoint {
+  zoneId: string;
+  mapX: number | null;
+  mapY: number | null;
+  layer: number;
+}
+
+export interface DeathEvent {
+  characterId: string;
+  sessionId?: string;
+  zoneId?: string;
+  respawnAt: Date;
+  penalty: DeathPenalty;
+  corpse?: Corpse;
+}
+
+export interface RespawnResult {
+  success: boolean;
+  message: string;
+  error?: DeathErrorCode;
+  zoneId?: string;
+  respawnAt?: Date;
+}
+
+export interface BindResult {
+  success: boolean;
+  message: string;
+  error?: DeathErrorCode;
+  zoneId?: string;
+}
+
+export interface CorpseRecoveryResult {
+  success: boolean;
+  message: string;
+  error?: DeathErrorCode;
+  goldRecovered?: number;
+  experienceDebtForgiven?: number;
+}
+
+export const DEATH_CONSTANTS = {
+  DEFAULT_CONFIG: {
+    penalty: 'experience_debt',
+    experienceDebtFraction: 0.1,
+    goldLossFraction: 0.1,
+    respawnDelayMs: 30000, // 30 seconds
+    leaveCorpse: true,
+    corpseDurationMs: 2 * 60 * 60 * 1000, // 2 hours
+    corpseRecoveryFraction: 0.5
+  } as DeathConfig,
+  DEFAULT_SPAWN_ZONE: 'starting_village', // Used when a character's spawn_zone does not exist
+  BINDABLE_ZONE_TYPE: 'city',
+  DEBT_REPAYMENT_RATE: 0.5 // Share of every experience gain that goes to paying off debt
+};
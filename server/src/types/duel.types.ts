@@ -0,0 +1,80 @@
+/**
+ * Duel and PVP Types
+ * Consent-based duel challenges, zone PVP rules and per-character PVP records
+ */
+
+import { CombatErrorCode, CombatSession } from './combat.types';
+
+export enum DuelChallengeStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled'
+}
+
+export interface DuelChallenge {
+  id: string;
+  challengerId: string;
+  targetId: string;
+  zoneId: string;
+  status: DuelChallengeStatus;
+  sessionId?: string;
+  expiresAt: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+}
+
+export interface DuelResult {
+  success: boolean;
+  message: string;
+  error?: CombatErrorCode;
+  challenge?: DuelChallenge;
+  session?: CombatSession;
+}
+
+// Zone flags that decide whether players may fight each other
+export interface ZonePvpRules {
+  pvpEnabled: boolean;
+  safeZone: boolean;
+}
+
+export interface PvpRestriction {
+  error: CombatErrorCode;
+  message: string;
+}
+
+export interface PvpRecord {
+  characterId: string;
+  duelWins: number;
+  duelLosses: number;
+  pvpWins: number;
+  pvpLosses: number;
+  lastMatchAt?: Date;
+}
+
+// Socket payloads
+export interface DuelChallengeData {
+  targetId: string;
+}
+
+export interface DuelResponseData {
+  challengeId: string;
+}
+
+export interface DuelChallengeEvent {
+  challenge: DuelChallenge;
+  message: string;
+}
+
+export interface DuelAcceptedEvent {
+  challenge: DuelChallenge;
+  sessionId: string;
+  message: string;
+}
+
+export const DUEL_CONSTANTS = {
+  CHALLENGE_TIMEOUT: 60000, // 1 minute to answer a challenge
+  EXPIRY_SWEEP_INTERVAL: 5000, // 5 seconds
+  DEFEAT_HP: 1 // A duel is lost on reaching this HP; nobody dies
+};
@@ -0,0 +1,123 @@
+/**
+ * Loot Types
+ * Type definitions for items, loot tables, rolled drops, inventories and loot windows
+ */
+
+export enum ItemRarity {
+  COMMON = 'common',
+  UNCOMMON = 'uncommon',
+  RARE = 'rare',
+  EPIC = 'epic',
+  LEGENDARY = 'legendary'
+}
+
+export enum ItemType {
+  MATERIAL = 'material',
+  CONSUMABLE = 'consumable',
+  WEAPON = 'weapon',
+  ARMOR = 'armor',
+  TRINKET = 'trinket'
+}
+
+export enum LootErrorCode {
+  LOOT_NOT_FOUND = 'LOOT_NOT_FOUND',
+  INVENTORY_FULL = 'INVENTORY_FULL'
+}
+
+export type LootDestination = 'inventory' | 'loot_window';
+
+export interface Item {
+  id: string;
+  name: string;
+  description: string;
+  itemType: ItemType;
+  rarity: ItemRarity;
+  maxStack: number;
+  value: number; // Vendor price in gold, per unit
+}
+
+export interface LootTableEntry {
+  itemId: string;
+  item: Item;
+  weight: number;
+  minQuantity: number;
+  maxQuantity: number;
+  guaranteed: boolean; // Drops on every kill, outside the weighted rolls
+  minLevel: number; // Monster level the entry needs to be eligible
+}
+
+export interface LootTable {
+  id: string;
+  name: string;
+  rolls: number; // Weighted rolls per kill
+  dropChance: number; // Chance that a roll produces anything
+  entries: LootTableEntry[];
+}
+
+export interface LootDrop {
+  itemId: string;
+  name: string;
+  rarity: ItemRarity;
+  quantity: number;
+  itemLevel: number;
+  value: number; // Total vendor value of the drop
+  sourceTemplateId?: string; // Monster template that dropped it
+}
+
+// A defeated monster whose loot table is rolled
+export interface LootSource {
+  instanceId: string;
+  templateId: string;
+  lootTableId: string;
+  level: number;
+}
+
+export interface CharacterLootDrop extends LootDrop {
+  characterId: string;
+}
+
+export interface DeliveredLoot extends CharacterLootDrop {
+  destination: LootDestination;
+  lootWindowId?: string;
+}
+
+export interface LootWindowItem {
+  id: string;
+  characterId: string;
+  sessionId?: string;
+  itemId: string;
+  name: string;
+  rarity: ItemRarity;
+  quantity: number;
+  itemLevel: number;
+  expiresAt: Date;
+}
+
+export interface LootClaimResult {
+  success: boolean;
+  message: string;
+  error?: LootErrorCode;
+  item?: LootWindowItem;
+}
+
+export interface LootWindowEvent {
+  characterId: string;
+  sessionId: string;
+  items: DeliveredLoot[];
+  expiresAt: Date;
+  message: string;
+}
+
+export const LOOT_CONSTANTS = {
+  CACHE_TTL: 1800, // 30 minutes
+  LOOT_WINDOW_TTL: 30 * 60 * 1000, // Unclaimed overflow loot is lost after 30 minutes
+  QUANTITY_SCALING_PER_LEVEL: 0.05, // +5% stack size per monster level for stackable drops
+  // Extra weight per monster level, so rarer entries become likelier on tougher monsters
+  RARITY_LEVEL_BONUS: {
+    [ItemRarity.COMMON]: 0,
+    [ItemRarity.UNCOMMON]: 0.02,
+    [ItemRarity.RARE]: 0.04,
+    [ItemRarity.EPIC]: 0.06,
+    [ItemRarity.LEGENDARY]: 0.08
+  } as Record<ItemRarity, number>
+};
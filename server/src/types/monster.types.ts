@@ -0,0 +1,86 @@
+/**
+ * Monster Types
+ * Type definitions for monster templates, zone spawn tables and generated PVE encounters
+ */
+
+import {
+  CharacterCombatStats,
+  CombatActionRequest,
+  CombatParticipant,
+  ParticipantType,
+  Resistances,
+  StatusEffectType
+} from './combat.types';
+import { Ability } from './ability.types';
+import { RandomSource } from '../utils/random';
+
+export type MonsterParticipantType = ParticipantType.MONSTER | ParticipantType.NPC | ParticipantType.BOSS;
+
+export enum MonsterAIBehavior {
+  AGGRESSIVE = 'aggressive',
+  DEFENSIVE = 'defensive',
+  BOSS = 'boss'
+}
+
+export interface MonsterTemplate {
+  id: string;
+  name: string;
+  description: string;
+  participantType: MonsterParticipantType;
+  baseLevel: number;
+  stats: CharacterCombatStats; // Stats at baseLevel
+  abilities: string[]; // Ability catalog ids
+  lootTableId?: string;
+  experience: number;
+  gold: number;
+  immunities: StatusEffectType[];
+  resistances: Resistances;
+  aiBehavior: MonsterAIBehavior;
+}
+
+export interface ZoneSpawnEntry {
+  id: string;
+  zoneId: string;
+  templateId: string;
+  weight: number;
+  levelRange: [number, number];
+  maxGroupSize: number;
+}
+
+export interface GeneratedMonster {
+  instanceId: string; // Used as the participant's characterId
+  template: MonsterTemplate;
+  level: number;
+  stats: CharacterCombatStats; // Scaled to level
+}
+
+// Everything an AI policy may look at when choosing a monster's action
+export interface MonsterAIContext {
+  self: CombatParticipant;
+  allies: CombatParticipant[]; // Alive participants on the monster's side, including itself
+  enemies: CombatParticipant[]; // Alive participants on other sides
+  abilities: Ability[]; // Abilities the monster can use right now (off cooldown, affordable)
+  turnNumber: number;
+  random: RandomSource;
+  scriptedAbilityId?: string; // Ability a boss's encounter script calls for this turn
+}
+
+export interface MonsterAIPolicy {
+  readonly behavior: string;
+  decide(context: MonsterAIContext): CombatActionRequest;
+}
+
+export const MONSTER_AI_CONSTANTS = {
+  HEAL_THRESHOLD: 0.4, // Healers heal allies below 40% HP
+  DEFEND_THRESHOLD: 0.25, // Defensive monsters protect themselves below 25% HP
+  ABILITY_CHANCE: 0.35, // Chance an aggressive monster uses an ability instead of attacking
+  BOSS_PHASE_THRESHOLDS: [0.66, 0.33] // HP ratios at which a boss enters its next phase
+};
+
+export const MONSTER_CONSTANTS = {
+  CACHE_TTL: 1800, // 30 minutes
+  STAT_SCALING_PER_LEVEL: 0.08, // +8% stats per level above the template's base level
+  REWARD_SCALING_PER_LEVEL: 0.1, // +10% XP and gold per level above the template's base level
+  MIN_STAT_MULTIPLIER: 0.5,
+  MAX_ENCOUNTER_SIZE: 4
+};
@@ -0,0 +1,57 @@
+/**
+ * Party Types
+ * Parties formed by invitation; members may join each other's PVE fights
+ */
+
+export enum PartyErrorCode {
+  PARTY_NOT_FOUND = 'PARTY_NOT_FOUND',
+  INVITE_NOT_FOUND = 'INVITE_NOT_FOUND',
+  ALREADY_IN_PARTY = 'ALREADY_IN_PARTY',
+  NOT_IN_PARTY = 'NOT_IN_PARTY',
+  NOT_PARTY_LEADER = 'NOT_PARTY_LEADER',
+  PARTY_FULL = 'PARTY_FULL',
+  INVALID_TARGET = 'INVALID_TARGET'
+}
+
+export interface Party {
+  id: string;
+  leaderId: string;
+  memberIds: string[];
+  createdAt: Date;
+}
+
+export interface PartyResult {
+  success: boolean;
+  message: string;
+  error?: PartyErrorCode;
+  party?: Party;
+}
+
+// Socket payloads
+export interface PartyInviteData {
+  targetId: string;
+}
+
+export interface PartyAcceptData {
+  partyId: string;
+}
+
+// Socket events
+export interface PartyInviteEvent {
+  partyId: string;
+  leaderId: string;
+  expiresAt: Date;
+  message: string;
+}
+
+export interface PartyUpdateEvent {
+  party: Party | null;
+  characterId: string;
+  message: string;
+}
+
+// Party Constants
+export const PARTY_CONSTANTS = {
+  MAX_SIZE: 4, // A full party fills one side of a fight
+  INVITE_TIMEOUT: 60000 // 1 minute to accept an invite
+};
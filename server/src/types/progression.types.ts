@@ -45,13 +45,14 @@ export type ExperienceSource =
   | 'training'
   | 'event'
   | 'admin_grant'
-  | 'milestone_bonus';
+  | 'milestone_bonus'
+  | 'flee_penalty';
 
 // Experience log entry
 export interface ExperienceLogEntry {
   id: string;
   characterId: string;
-  amount: bigint;
+  amount: bigint; // Negative for losses such as flee penalties
   source: ExperienceSource;
   sourceDetails?: Record<string, any>;
   oldLevel: number;
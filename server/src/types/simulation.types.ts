@@ -0,0 +1,79 @@
+/**
+ * Combat Simulation Types
+ * Type definitions for the in-memory balance simulator
+ */
+
+import { CharacterCombatStats } from './combat.types';
+import { AbilityScalingStat } from './ability.types';
+
+export type SimulationSide = 'attacker' | 'defender';
+
+export type SimulationOutputFormat = 'json' | 'csv';
+
+// A spell or heal the combatant casts whenever it has the mana
+export interface SimulationAbility {
+  name: string;
+  basePower: number;
+  scaling: Partial<Record<AbilityScalingStat, number>>;
+  manaCost: number;
+  isHeal: boolean; // Heals are only cast below SIMULATION_CONSTANTS.HEAL_THRESHOLD health
+}
+
+export interface SimulationCombatant {
+  name: string;
+  stats: CharacterCombatStats; // hp and mp are the maximums the fight starts at
+  weaponCoefficient: number;
+  weaponAffinityTier: number; // 0 when the combatant has no affinity with their weapon
+  magicAffinityTier: number;
+  ability?: SimulationAbility;
+}
+
+export interface SimulationConfig {
+  attacker: SimulationCombatant;
+  defender: SimulationCombatant;
+  fights: number;
+  seed: number;
+}
+
+export interface DamagePercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p99: number;
+}
+
+export interface SimulationSideReport {
+  name: string;
+  wins: number;
+  winRate: number;
+  hits: number; // Attacks and damaging spells that were rolled
+  misses: number;
+  blocks: number;
+  crits: number;
+  critRate: number; // Of hits that were not missed
+  critsPerFight: Record<string, number>; // Number of fights with that many crits
+  damage: DamagePercentiles; // Of damage per landed hit
+  averageDamagePerFight: number;
+  averageHealingPerFight: number;
+}
+
+export interface SimulationReport {
+  fights: number;
+  seed: number;
+  draws: number; // Fights that hit COMBAT_CONSTANTS.MAX_TURNS
+  timeToKill: {
+    averageTurns: number;
+    medianTurns: number;
+    p90Turns: number;
+  };
+  attacker: SimulationSideReport;
+  defender: SimulationSideReport;
+}
+
+export const SIMULATION_CONSTANTS = {
+  DEFAULT_FIGHTS: 1000,
+  MAX_FIGHTS: 100000,
+  HEAL_THRESHOLD: 0.5 // Heals are cast below half health
+};
@@ -1,6 +1,9 @@
 import { z } from 'zod';
 import { getErrorMessage } from '../utils/errorUtils';
 
+// Staff roles gate admin and GM routes
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 // User database schema
 export interface User {
   id: number;
@@ -14,6 +17,7 @@ export interface User {
   last_login?: Date;
   failed_login_attempts: number;
   locked_until?: Date;
+  role: UserRole;
 }
 
 // Sanitized user (without sensitive data)
@@ -22,6 +26,7 @@ export interface SafeUser {
   email: string;
   username: string;
   email_verified: boolean;
+  role: UserRole;
   created_at: Date;
   updated_at: Date;
   last_login?: Date;
@@ -163,6 +168,7 @@ export const sanitizeUser = (user: User): SafeUser => {
     email: user.email,
     username: user.username,
     email_verified: user.email_verified,
+    role: user.role,
     created_at: user.created_at,
     updated_at: user.updated_at,
     last_login: user.last_login
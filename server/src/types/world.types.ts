@@ -0,0 +1,161 @@
+/**
+ * World Types
+ * Type definitions for the world clock, regional weather and the conditions they create in zones
+ */
+
+import { DamageType } from './combat.types';
+
+export type WeatherState = 'clear' | 'rain' | 'storm' | 'fog' | 'snow';
+
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+// Worst to best is poor, fair, good, excellent
+export type Visibility = 'poor' | 'fair' | 'good' | 'excellent';
+
+export type Temperature = 'freezing' | 'cold' | 'cool' | 'moderate' | 'warm' | 'hot';
+
+// In-game time; a game day passes every GAME_DAY_MS of real time
+export interface WorldTime {
+  day: number;
+  hour: number;
+  minute: number;
+  timeOfDay: TimeOfDay;
+}
+
+// Part of the open world sharing one sky
+export interface WeatherRegion {
+  name: string;
+  displayName: string;
+  climate: string;
+  weather: WeatherState;
+  changedAt: Date;
+  nextChangeAt: Date;
+}
+
+// What it is like in a zone right now
+export interface ZoneConditions {
+  weather: WeatherState | null; // Null under cover: caves, dungeons and other zones outside a region
+  timeOfDay: TimeOfDay;
+  visibility: Visibility;
+  lighting: string;
+  temperature: Temperature;
+}
+
+export interface WeatherChange {
+  region: string;
+  previousWeather: WeatherState;
+  weather: WeatherState;
+  nextChangeAt: Date;
+}
+
+// Sent to a zone's room when its weather or time of day changes
+export interface ZoneConditionsEvent {
+  zoneId: string;
+  conditions: ZoneConditions;
+  worldTime: WorldTime;
+  message: string;
+}
+
+export interface WeatherCombatModifiers {
+  missChanceBonus: number;
+  damageMultipliers: Partial<Record<DamageType, number>>; // By the type of damage dealt
+}
+
+export const WORLD_CONSTANTS = {
+  GAME_DAY_MS: 2 * 60 * 60 * 1000, // 2 real hours
+  CLOCK_EPOCH: Date.UTC(2025, 0, 1), // Day 1, midnight
+  WEATHER_TICK_INTERVAL: 60000, // 1 minute
+
+  // Hour each part of the day starts
+  TIME_OF_DAY_HOURS: [
+    { timeOfDay: 'night', hour: 0 },
+    { timeOfDay: 'dawn', hour: 5 },
+    { timeOfDay: 'day', hour: 7 },
+    { timeOfDay: 'dusk', hour: 18 },
+    { timeOfDay: 'night', hour: 20 }
+  ] as Array<{ timeOfDay: TimeOfDay; hour: number }>,
+
+  // Relative odds of what each weather turns into
+  WEATHER_TRANSITIONS: {
+    clear: { clear: 5, rain: 2, fog: 2, snow: 1 },
+    rain: { rain: 3, clear: 3, storm: 2, fog: 1 },
+    storm: { rain: 4, storm: 1, clear: 1 },
+    fog: { clear: 4, fog: 2, rain: 1 },
+    snow: { snow: 4, clear: 3, fog: 1, storm: 1 }
+  } as Record<WeatherState, Partial<Record<WeatherState, number>>>,
+
+  // Weather each climate can have; unlisted climates have all of it
+  CLIMATE_WEATHER: {
+    temperate: ['clear', 'rain', 'storm', 'fog'],
+    tropical: ['clear', 'rain', 'storm', 'fog'],
+    arctic: ['clear', 'snow', 'storm', 'fog'],
+    desert: ['clear', 'storm'],
+    underground: ['clear'],
+    void: ['clear']
+  } as Record<string, WeatherState[]>,
+
+  // How long each weather lasts, in minutes
+  WEATHER_DURATION_MINUTES: {
+    clear: [30, 90],
+    rain: [15, 45],
+    storm: [10, 25],
+    fog: [10, 30],
+    snow: [20, 60]
+  } as Record<WeatherState, [number, number]>,
+
+  VISIBILITY_LEVELS: ['poor', 'fair', 'good', 'excellent'] as Visibility[],
+  TEMPERATURE_LEVELS: ['freezing', 'cold', 'cool', 'moderate', 'warm', 'hot'] as Temperature[],
+
+  // The best visibility possible in each weather
+  WEATHER_VISIBILITY: {
+    clear: 'excellent',
+    rain: 'fair',
+    storm: 'poor',
+    fog: 'poor',
+    snow: 'fair'
+  } as Record<WeatherState, Visibility>,
+
+  CLIMATE_TEMPERATURE: {
+    temperate: 'moderate',
+    tropical: 'hot',
+    arctic: 'freezing',
+    desert: 'hot',
+    underground: 'cool',
+    magical: 'moderate',
+    void: 'cold'
+  } as Record<string, Temperature>,
+
+  // Lighting that keeps a zone lit after dark
+  NIGHT_LIT_LIGHTING: ['artificial', 'magical'],
+
+  // Hidden exits can only be spotted in at least this visibility
+  HIDDEN_EXIT_MIN_VISIBILITY: 'good' as Visibility,
+
+  WEATHER_AFFECTS_COMBAT: true,
+  VISIBILITY_MISS_CHANCE: {
+    poor: 0.08,
+    fair: 0.03,
+    good: 0,
+    excellent: 0
+  } as Record<Visibility, number>,
+  WEATHER_DAMAGE_MULTIPLIERS: {
+    rain: { fire: 0.85, lightning: 1.1 },
+    storm: { fire: 0.8, lightning: 1.25 },
+    snow: { frost: 1.2, fire: 0.9 }
+  } as Partial<Record<WeatherState, Partial<Record<DamageType, number>>>>,
+
+  WEATHER_DESCRIPTIONS: {
+    clear: 'The sky is clear.',
+    rain: 'Rain falls steadily.',
+    storm: 'A storm rages overhead, thunder rolling across the sky.',
+    fog: 'A thick fog hangs in the air.',
+    snow: 'Snow drifts down from a grey sky.'
+  } as Record<WeatherState, string>,
+
+  TIME_OF_DAY_DESCRIPTIONS: {
+    dawn: 'The first light of dawn creeps over the horizon.',
+    day: 'It is broad daylight.',
+    dusk: 'The light fades as dusk settles in.',
+    night: 'Night has fallen.'
+  } as Record<TimeOfDay, string>
+};
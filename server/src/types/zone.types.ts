@@ -3,6 +3,8 @@
  * World navigation and character movement types
  */
 
+import { ZoneConditions } from './world.types';
+
 // Zone information
 export interface Zone {
   id: string;
@@ -16,6 +18,7 @@ export interface Zone {
   climate?: string;
   terrain?: string;
   lighting?: string;
+  region?: string; // Weather region; zones outside one are under cover
   features: Record<string, any>;
   mapX?: number;
   mapY?: number;
@@ -49,8 +52,16 @@ export interface ZoneExit {
   isLocked: boolean;
   lockType?: LockType;
   requiredLevel: number;
-  requiredItemId?: string;
+  requiredItemId?: string; // Also the key of a key lock
+  requiredQuestId?: string;
+  requiredGuildId?: number; // Unset lets any guild member through
+  requiredAffinity?: string;
+  requiredAffinityTier?: number;
+  requiredSkill?: SkillName;
+  requiredSkillValue?: number;
+  lockHint?: string;
   travelMessage?: string;
+  travelTime: number; // Seconds
   reverseDirection?: Direction;
   createdAt: Date;
   updatedAt: Date;
@@ -72,6 +83,49 @@ export type LockType =
   | 'key' | 'level' | 'quest' | 'guild' 
   | 'password' | 'magic' | 'skill';
 
+// Character stats a skill lock can test
+export type SkillName = 'strength' | 'vitality' | 'dexterity' | 'intelligence' | 'wisdom';
+
+// What a character brings to an exit's requirements
+export interface ExitAccessContext {
+  level: number;
+  hasRequiredItem: boolean;
+  questCompleted: boolean;
+  guildId: number | null;
+  passwordAccepted: boolean | null; // null when no password was given
+  affinityTier: number; // 0 without the affinity
+  skillValue: number;
+}
+
+// Everything about a character that exit locks can ask for, loaded once to plan a route
+export interface ExitAccessProfile {
+  level: number;
+  guildId: number | null;
+  itemIds: Set<string>;
+  completedQuestIds: Set<string>;
+  affinityTiers: Map<string, number>; // By affinity name
+  skills: Record<SkillName, number>;
+}
+
+// One exit taken along a route
+export interface TravelStep {
+  exitId: string;
+  fromZoneId: string;
+  toZoneId: string;
+  direction: Direction;
+  travelTime: number;
+}
+
+// Shortest route between two zones
+export interface TravelPath {
+  fromZoneId: string;
+  toZoneId: string;
+  steps: TravelStep[];
+  totalTravelTime: number;
+}
+
+export type AutoTravelStopReason = 'arrived' | 'cancelled' | 'combat' | 'blocked' | 'replaced';
+
 // Character location
 export interface CharacterLocation {
   characterId: string;
@@ -96,16 +150,38 @@ export interface MoveResult {
   travelMessage: string;
   newZoneInfo: ZoneInfo;
   exitInfo?: ZoneExit;
+  instanceId?: string; // Set while the character is inside an instance
   error?: string;
+  errorCode?: MovementErrorCode;
   cooldownRemaining?: number;
 }
 
+// A party's private copy of an instance or dungeon zone
+export interface ZoneInstance {
+  id: string;
+  templateZoneId: string;
+  ownerCharacterId: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+}
+
+// A monster spawned for one instance
+export interface InstanceMonster {
+  id: string; // Its combat participant id
+  instanceId: string;
+  groupNumber: number;
+  templateId: string;
+  level: number;
+  defeatedAt?: Date;
+}
+
 // Zone information with context
 export interface ZoneInfo {
   zone: Zone;
   exits: ZoneExit[];
   charactersPresent: CharacterInZone[];
   ambientDescription: string;
+  conditions: ZoneConditions;
   playerCount: number;
 }
 
@@ -128,6 +204,7 @@ export interface LookResponse {
   destinationZone?: Zone;
   canAccess: boolean;
   blockReason?: string;
+  lockHint?: string;
   description: string;
 }
 
@@ -161,11 +238,41 @@ export interface ZoneStatistics {
   isActive: boolean;
 }
 
+// World map export formats
+export type WorldMapFormat = 'json' | 'dot';
+
+// Broken geography found by validating the zone graph
+export type WorldMapIssueType =
+  | 'reverse_mismatch'
+  | 'one_way_exit'
+  | 'orphan_zone'
+  | 'duplicate_direction'
+  | 'level_cliff'
+  | 'missing_starter_zone';
+
+export interface WorldMapIssue {
+  type: WorldMapIssueType;
+  severity: 'error' | 'warning';
+  zoneId?: string;
+  exitIds?: string[];
+  message: string;
+}
+
+// The whole zone graph, with what is wrong with it
+export interface WorldMap {
+  starterZoneId: string | null;
+  zones: Zone[];
+  exits: ZoneExit[];
+  issues: WorldMapIssue[];
+  generatedAt: Date;
+}
+
 // Movement validation
 export interface MovementValidation {
   canMove: boolean;
   errorCode?: MovementErrorCode;
   errorMessage?: string;
+  lockType?: LockType;
   requiredLevel?: number;
   requiredItem?: string;
   cooldownRemaining?: number;
@@ -185,15 +292,33 @@ export enum MovementErrorCode {
   ZONE_NOT_FOUND = 'ZONE_NOT_FOUND',
   CHARACTER_IN_COMBAT = 'CHARACTER_IN_COMBAT',
   CHARACTER_BUSY = 'CHARACTER_BUSY',
-  CHARACTER_DEAD = 'CHARACTER_DEAD'
+  CHARACTER_DEAD = 'CHARACTER_DEAD',
+  QUEST_INCOMPLETE = 'QUEST_INCOMPLETE',
+  NOT_GUILD_MEMBER = 'NOT_GUILD_MEMBER',
+  PASSWORD_REQUIRED = 'PASSWORD_REQUIRED',
+  WRONG_PASSWORD = 'WRONG_PASSWORD',
+  AFFINITY_TOO_LOW = 'AFFINITY_TOO_LOW',
+  SKILL_TOO_LOW = 'SKILL_TOO_LOW',
+  PORTAL_REQUIRED = 'PORTAL_REQUIRED'
 }
 
 // Zone constants
 export const ZONE_CONSTANTS = {
   MOVEMENT_COOLDOWN_SECONDS: 1,
+  SKILL_NAMES: ['strength', 'vitality', 'dexterity', 'intelligence', 'wisdom'] as SkillName[],
   MAX_CHARACTERS_PER_ZONE: 100,
   DEFAULT_COORDINATES: { x: 0, y: 0 },
   CACHE_TTL_SECONDS: 300, // 5 minutes
+
+  // World map validation
+  STARTER_ZONE: 'starting_village', // Every zone should be reachable from here
+  LEVEL_CLIFF_GAP: 10, // Levels a neighbour's range may start above this zone's before it is a cliff
+
+  // Instanced zones
+  INSTANCED_ZONE_TYPES: ['instance', 'dungeon'] as ZoneType[],
+  INSTANCE_IDLE_TIMEOUT: 900000, // 15 minutes empty before an instance is torn down
+  INSTANCE_SWEEP_INTERVAL: 60000, // 1 minute
+  INSTANCE_MONSTER_GROUPS: 3, // Encounters spawned per instance
   
   // Direction mappings
   DIRECTION_ALIASES: {
@@ -280,7 +405,15 @@ export interface CreateZoneExitDto {
   lockType?: LockType;
   requiredLevel?: number;
   requiredItemId?: string;
+  requiredQuestId?: string;
+  requiredGuildId?: number;
+  requiredAffinity?: string;
+  requiredAffinityTier?: number;
+  requiredSkill?: SkillName;
+  requiredSkillValue?: number;
+  lockHint?: string;
   travelMessage?: string;
+  travelTime?: number;
   reverseDirection?: Direction;
 }
 
@@ -0,0 +1,35 @@
+/**
+ * Deterministic random number utilities
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded generator (mulberry32). The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * World Map Integration Tests
+ * Tests the admin world map export through the real authentication and role checks
+ */
+
+import request from 'supertest';
+import express, { Application } from 'express';
+import jwt from 'jsonwebtoken';
+import { createWorldMapRoutes } from '../../src/routes/worldmap.routes';
+import { WorldMapController } from '../../src/controllers/WorldMapController';
+
+const mockGetUserById = jest.fn();
+
+jest.mock('../../src/services/AuthService', () => ({
+  AuthService: jest.fn().mockImplementation(() => ({
+    getUserById: (...args: unknown[]) => mockGetUserById(...args)
+  }))
+}));
+jest.mock('../../src/middleware/rateLimitRedis', () => ({
+  apiRateLimit: (_req: unknown, _res: unknown, next: () => void) => next()
+}));
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('winston', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+describe('World Map Integration Tests', () => {
+  let app: Application;
+  let token: string;
+
+  const storedUser = (role: string) => ({
+    id: 7,
+    email: 'gm@example.com',
+    username: 'gamemaster',
+    email_verified: true,
+    role,
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    token = jwt.sign({ userId: 7, email: 'gm@example.com', username: 'gamemaster', type: 'access' }, 'test-jwt-secret');
+
+    const worldMapService = {
+      buildMap: jest.fn().mockResolvedValue({ zones: [], exits: [], issues: [] }),
+      toDot: jest.fn().mockReturnValue('digraph world {}')
+    };
+    app = express();
+    app.use('/api', createWorldMapRoutes(new WorldMapController(worldMapService as any)));
+
+    mockGetUserById.mockReset();
+  });
+
+  test('GET /api/admin/world-map should export the map for admins', async () => {
+    mockGetUserById.mockResolvedValue({ success: true, data: storedUser('admin') });
+
+    const response = await request(app)
+      .get('/api/admin/world-map')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('success', true);
+    expect(response.body.data).toHaveProperty('issues', []);
+  });
+
+  test('GET /api/admin/world-map?format=dot should download the DOT file for admins', async () => {
+    mockGetUserById.mockResolvedValue({ success: true, data: storedUser('admin') });
+
+    const response = await request(app)
+      .get('/api/admin/world-map?format=dot')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/vnd.graphviz');
+    expect(response.text).toBe('digraph world {}');
+  });
+
+  test('GET /api/admin/world-map should turn away players', async () => {
+    mockGetUserById.mockResolvedValue({ success: true, data: storedUser('user') });
+
+    await request(app)
+      .get('/api/admin/world-map')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+  });
+});
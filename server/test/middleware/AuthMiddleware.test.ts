@@ -0,0 +1,77 @@
+/**
+ * Auth Middleware Tests
+ * Unit tests for restricting routes to staff roles after authentication
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { AuthMiddleware } from '../../src/middleware/auth';
+
+const mockGetUserById = jest.fn();
+
+jest.mock('../../src/services/AuthService', () => ({
+  AuthService: jest.fn().mockImplementation(() => ({
+    getUserById: (...args: unknown[]) => mockGetUserById(...args)
+  }))
+}));
+jest.mock('winston', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+describe('Auth Middleware', () => {
+  let middleware: AuthMiddleware;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  const storedUser = (role: string) => ({
+    id: 7,
+    email: 'gm@example.com',
+    username: 'gamemaster',
+    email_verified: true,
+    role,
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  // Runs the real authenticate, then the role check, as a route would
+  const authenticateThenRequire = async (...roles: Parameters<AuthMiddleware['requireRole']>) => {
+    const afterAuthenticate = jest.fn();
+    await middleware.authenticate(mockRequest as Request, mockResponse as Response, afterAuthenticate as NextFunction);
+    expect(afterAuthenticate).toHaveBeenCalled();
+
+    const next = jest.fn();
+    middleware.requireRole(...roles)(mockRequest as Request, mockResponse as Response, next);
+    return next;
+  };
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    middleware = new AuthMiddleware();
+
+    const token = jwt.sign({ userId: 7, email: 'gm@example.com', username: 'gamemaster', type: 'access' }, 'test-jwt-secret');
+    mockRequest = { headers: { authorization: `Bearer ${token}` }, path: '/api/combat/session-1/replay' };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    mockGetUserById.mockReset();
+  });
+
+  it('should let a user whose loaded role is allowed through', async () => {
+    mockGetUserById.mockResolvedValue({ success: true, data: storedUser('admin') });
+
+    const next = await authenticateThenRequire('moderator', 'admin');
+
+    expect(mockGetUserById).toHaveBeenCalledWith(7);
+    expect(mockRequest.user?.role).toBe('admin');
+    expect(next).toHaveBeenCalled();
+    expect(mockResponse.status).not.toHaveBeenCalled();
+  });
+
+  it('should turn away users without a staff role', async () => {
+    mockGetUserById.mockResolvedValue({ success: true, data: storedUser('user') });
+
+    const next = await authenticateThenRequire('admin');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+  });
+});
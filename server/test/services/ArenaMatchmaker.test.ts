@@ -0,0 +1,80 @@
+/**
+ * Arena Matchmaker Tests
+ * Unit tests for rating windows, match forming and team balancing
+ */
+
+import { ArenaMatchmaker } from '../../src/services/ArenaMatchmaker';
+import { ArenaQueueEntry } from '../../src/types/arena.types';
+
+describe('ArenaMatchmaker', () => {
+  const now = 1_000_000;
+  let matchmaker: ArenaMatchmaker;
+
+  const entry = (characterId: string, rating: number, waitedMs = 0, teamSize = 1): ArenaQueueEntry => ({
+    characterId,
+    teamSize,
+    rating,
+    deviation: 100,
+    queuedAt: now - waitedMs
+  });
+
+  beforeEach(() => {
+    matchmaker = new ArenaMatchmaker();
+  });
+
+  describe('getRatingWindow', () => {
+    it('should widen the window the longer a player waits, up to a cap', () => {
+      expect(matchmaker.getRatingWindow(0)).toBe(100);
+      expect(matchmaker.getRatingWindow(30000)).toBe(400);
+      expect(matchmaker.getRatingWindow(3600000)).toBe(1000);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should pair players within the rating window', () => {
+      const matches = matchmaker.findMatches([entry('a', 1500), entry('b', 1560)], 1, now);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]?.teams.map(team => team.map(p => p.characterId))).toEqual([['b'], ['a']]);
+    });
+
+    it('should not pair players too far apart until the window has widened', () => {
+      const fresh = [entry('a', 1500), entry('b', 1800)];
+      const waited = [entry('a', 1500, 30000), entry('b', 1800)];
+
+      expect(matchmaker.findMatches(fresh, 1, now)).toHaveLength(0);
+      expect(matchmaker.findMatches(waited, 1, now)).toHaveLength(1);
+    });
+
+    it('should pick the closest rated opponent for the longest-waiting player', () => {
+      const matches = matchmaker.findMatches([
+        entry('veteran', 1500, 10000),
+        entry('far', 1590),
+        entry('close', 1510)
+      ], 1, now);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]?.teams.flat().map(p => p.characterId).sort()).toEqual(['close', 'veteran']);
+    });
+
+    it('should only match players queued for the same team size', () => {
+      const matches = matchmaker.findMatches([entry('a', 1500), entry('b', 1500, 0, 2)], 1, now);
+
+      expect(matches).toHaveLength(0);
+    });
+
+    it('should form balanced teams for team queues', () => {
+      const matches = matchmaker.findMatches([
+        entry('p1', 1800, 5000, 2),
+        entry('p2', 1750, 0, 2),
+        entry('p3', 1760, 0, 2),
+        entry('p4', 1710, 0, 2)
+      ], 2, now);
+
+      expect(matches).toHaveLength(1);
+      const [teamA, teamB] = matches[0]!.teams;
+      expect(teamA.map(p => p.characterId)).toEqual(['p1', 'p4']);
+      expect(teamB.map(p => p.characterId)).toEqual(['p3', 'p2']);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Boss Encounter Rules Tests
+ * Unit tests for phase transitions, enrage, scripted abilities and the lockout week
+ */
+
+import { BossEncounterRules } from '../../src/services/BossEncounterRules';
+import { BossDefinition } from '../../src/types/boss.types';
+
+describe('BossEncounterRules', () => {
+  let rules: BossEncounterRules;
+
+  const definition: BossDefinition = {
+    templateId: 'frost_wyrm',
+    phases: [
+      { phase: 1, hpThreshold: 1, name: 'One', message: 'Phase one', damageMultiplier: 1, script: [
+        { abilityId: 'freeze', everyTurns: 4, announcement: 'Freeze incoming' }
+      ] },
+      { phase: 2, hpThreshold: 0.66, name: 'Two', message: 'Phase two', damageMultiplier: 1.2, script: [
+        { abilityId: 'chain_lightning', everyTurns: 3, announcement: 'Lightning incoming' }
+      ] },
+      { phase: 3, hpThreshold: 0.33, name: 'Three', message: 'Phase three', damageMultiplier: 1.5, script: [] }
+    ],
+    enrageTurn: 10,
+    enrageMultiplier: 2,
+    enrageMessage: 'Enraged!'
+  };
+
+  beforeEach(() => {
+    rules = new BossEncounterRules();
+  });
+
+  describe('evaluate', () => {
+    it('should enter a phase once its HP threshold is reached', () => {
+      const above = rules.evaluate(definition, { phase: 1, enraged: false }, 0.7, 1);
+      const below = rules.evaluate(definition, { phase: 1, enraged: false }, 0.6, 1);
+
+      expect(above.transitions).toHaveLength(0);
+      expect(below.state).toEqual({ phase: 2, enraged: false });
+      expect(below.transitions.map(t => t.message)).toEqual(['Phase two']);
+    });
+
+    it('should announce every phase skipped by a single burst', () => {
+      const result = rules.evaluate(definition, { phase: 1, enraged: false }, 0.1, 1);
+
+      expect(result.state.phase).toBe(3);
+      expect(result.transitions.map(t => t.phase.phase)).toEqual([2, 3]);
+    });
+
+    it('should not fall back to an earlier phase when healed', () => {
+      const result = rules.evaluate(definition, { phase: 3, enraged: false }, 0.9, 1);
+
+      expect(result.state.phase).toBe(3);
+      expect(result.transitions).toHaveLength(0);
+    });
+
+    it('should enrage once after the enrage turn', () => {
+      const enraged = rules.evaluate(definition, { phase: 2, enraged: false }, 0.5, 10);
+      const again = rules.evaluate(definition, enraged.state, 0.5, 11);
+
+      expect(enraged.transitions).toEqual([
+        { type: 'enrage', phase: definition.phases[1], message: 'Enraged!' }
+      ]);
+      expect(again.transitions).toHaveLength(0);
+    });
+  });
+
+  describe('getDamageMultiplier', () => {
+    it('should compound the phase multiplier with enrage', () => {
+      expect(rules.getDamageMultiplier(definition, { phase: 1, enraged: false })).toBe(1);
+      expect(rules.getDamageMultiplier(definition, { phase: 3, enraged: true })).toBe(3);
+    });
+  });
+
+  describe('getScriptedAbility', () => {
+    it('should follow the rotation of the current phase', () => {
+      expect(rules.getScriptedAbility(definition, { phase: 1, enraged: false }, 3)).toBeNull();
+      expect(rules.getScriptedAbility(definition, { phase: 1, enraged: false }, 4)?.abilityId).toBe('freeze');
+      expect(rules.getScriptedAbility(definition, { phase: 2, enraged: false }, 6)?.abilityId).toBe('chain_lightning');
+    });
+  });
+
+  describe('getLockoutWeekStart', () => {
+    it('should start the week at the latest Tuesday reset', () => {
+      const monday = new Date('2026-10-19T12:00:00Z');
+      const tuesday = new Date('2026-10-20T00:00:00Z');
+
+      expect(rules.getLockoutWeekStart(monday).toISOString()).toBe('2026-10-13T00:00:00.000Z');
+      expect(rules.getLockoutWeekStart(tuesday).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Combat Encounter Tests
+ * Unit tests for starting PVE fights against spawn-table and instance monsters, joining running fights
+ * and ending them
+ */
+
+import { CombatService } from '../../src/services/CombatService';
+import { distributedLock } from '../../src/utils/distributedLock';
+import {
+  CombatEndReason,
+  CombatSide,
+  CombatStatus,
+  CombatType,
+  ParticipantStatus,
+  ParticipantType
+} from '../../src/types/combat.types';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../../src/utils/distributedLock', () => ({ distributedLock: { withLock: jest.fn() } }));
+jest.mock('../../src/services/RedisService', () => ({ redisService: { getClient: jest.fn() } }));
+jest.mock('../../src/services/CacheManager', () => ({ CacheManager: jest.fn() }));
+jest.mock('../../src/services/RealtimeService', () => ({ RealtimeService: jest.fn() }));
+jest.mock('../../src/services/AffinityService', () => ({ AffinityService: jest.fn() }));
+jest.mock('../../src/services/ProgressionService', () => ({ ProgressionService: jest.fn() }));
+jest.mock('../../src/services/ZoneService', () => ({ ZoneService: jest.fn() }));
+jest.mock('../../src/services/MovementService', () => ({ MovementService: jest.fn() }));
+
+describe('CombatService.startMonsterEncounter', () => {
+  let service: CombatService;
+  let mockMovement: any;
+  let mockMonsters: any;
+  let mockInstances: any;
+  let startEncounter: jest.SpyInstance;
+
+  const monster = (participantType: ParticipantType) => ({ template: { participantType } });
+  const monsterParticipant = {
+    characterId: 'wolf-1',
+    participantType: ParticipantType.MONSTER,
+    side: CombatSide.DEFENDERS,
+    position: 1
+  };
+
+  beforeEach(() => {
+    service = new CombatService({} as any, {} as any, {} as any, {} as any);
+
+    mockMovement = { getCharacterLocation: jest.fn().mockResolvedValue({ zoneId: 'zone-1' }) };
+    mockMonsters = {
+      generateEncounter: jest.fn().mockResolvedValue([monster(ParticipantType.MONSTER)]),
+      buildParticipants: jest.fn().mockReturnValue([monsterParticipant])
+    };
+    mockInstances = { getNextEncounter: jest.fn().mockResolvedValue([]) };
+    Object.assign(service as any, {
+      movementService: mockMovement,
+      monsterService: mockMonsters,
+      instanceService: mockInstances
+    });
+
+    jest.spyOn(service as any, 'getCharacterCombatStats').mockResolvedValue({ level: 7 });
+    startEncounter = jest.spyOn(service, 'startEncounter').mockResolvedValue({ id: 'session-1' } as any);
+  });
+
+  it('should fight monsters generated from the zone spawn table', async () => {
+    const session = await service.startMonsterEncounter('hero', 'zone-1');
+
+    expect(session).toEqual({ id: 'session-1' });
+    expect(mockMonsters.generateEncounter).toHaveBeenCalledWith('zone-1', 7);
+    expect(mockMonsters.buildParticipants).toHaveBeenCalledWith([monster(ParticipantType.MONSTER)], CombatSide.DEFENDERS, 1);
+    expect(startEncounter).toHaveBeenCalledWith({
+      sessionType: CombatType.PVE,
+      initiatorId: 'hero',
+      zoneId: 'zone-1',
+      participants: [
+        { characterId: 'hero', participantType: ParticipantType.PLAYER, side: CombatSide.ATTACKERS, position: 0 },
+        monsterParticipant
+      ]
+    });
+  });
+
+  it('should fight the next group of the instance, as a boss fight when a boss is in it', async () => {
+    mockMovement.getCharacterLocation.mockResolvedValue({ zoneId: 'crypt', instanceId: 'instance-1' });
+    mockInstances.getNextEncounter.mockResolvedValue([monster(ParticipantType.MONSTER), monster(ParticipantType.BOSS)]);
+
+    await service.startMonsterEncounter('hero', 'crypt');
+
+    expect(mockInstances.getNextEncounter).toHaveBeenCalledWith('instance-1');
+    expect(mockMonsters.generateEncounter).not.toHaveBeenCalled();
+    expect(startEncounter).toHaveBeenCalledWith(expect.objectContaining({ sessionType: CombatType.BOSS }));
+  });
+
+  it('should not start a fight when there is nothing to fight', async () => {
+    mockMonsters.generateEncounter.mockResolvedValue([]);
+
+    expect(await service.startMonsterEncounter('hero', 'zone-1')).toBeNull();
+    expect(startEncounter).not.toHaveBeenCalled();
+  });
+});
+
+describe('CombatService.joinEncounter', () => {
+  let service: CombatService;
+  let mockClient: any;
+  let locked: boolean;
+  let scheduleTurnDeadline: jest.SpyInstance;
+
+  const fighter = (characterId: string, initiative: number) => ({
+    characterId,
+    side: CombatSide.ATTACKERS,
+    status: 'alive',
+    initiative
+  });
+
+  beforeEach(() => {
+    locked = false;
+    (distributedLock.withLock as jest.Mock).mockImplementation(async (_resource, _ttl, fn) => {
+      locked = true;
+      try {
+        return await fn();
+      } finally {
+        locked = false;
+      }
+    });
+
+    mockClient = {
+      query: jest.fn(async (sql: string) =>
+        sql.includes('INSERT INTO combat_participants') ? { rows: [fighter('friend', 0)] } : { rows: [] }
+      ),
+      release: jest.fn()
+    };
+    const mockDb = {
+      query: jest.fn().mockResolvedValue({ rows: [{ zone_id: 'zone-1', same_instance: true }] }),
+      connect: jest.fn().mockResolvedValue(mockClient)
+    };
+    service = new CombatService(mockDb as any, {} as any, {} as any, {} as any);
+
+    Object.assign(service as any, {
+      deathService: { isDead: jest.fn().mockResolvedValue(false) },
+      partyService: { areInSameParty: jest.fn().mockResolvedValue(true) },
+      combatRolls: { rollInitiative: jest.fn().mockReturnValue(0) },
+      statusEffectEngine: { getEffectiveInitiative: (p: any) => p.initiative }
+    });
+
+    jest.spyOn(service, 'getSession').mockResolvedValue({
+      id: 'session-1',
+      sessionType: CombatType.PVE,
+      status: CombatStatus.ACTIVE,
+      initiatorId: 'hero',
+      zoneId: 'zone-1',
+      turnOrder: ['hero', 'wolf'],
+      currentTurn: 1,
+      turnNumber: 3,
+      turnDeadline: new Date(),
+      rngSeed: 1
+    } as any);
+    jest.spyOn(service, 'getSessionParticipants').mockResolvedValue([fighter('hero', 10), fighter('wolf', 5)] as any);
+    jest.spyOn(service, 'getActiveCombatForCharacter').mockResolvedValue(null);
+    jest.spyOn(service as any, 'getCharacterCombatStats').mockResolvedValue({ dexterity: 5, level: 3, hp: 50, mp: 10 });
+    jest.spyOn(service as any, 'getCharacterResistances').mockResolvedValue({});
+    jest.spyOn(service as any, 'mapParticipantRow').mockImplementation(row => row);
+    jest.spyOn(service as any, 'updateCharacterCombatStatus').mockResolvedValue(undefined);
+    jest.spyOn(service as any, 'clearCombatCache').mockResolvedValue(undefined);
+    scheduleTurnDeadline = jest.spyOn(service as any, 'scheduleTurnDeadline').mockResolvedValue(undefined);
+  });
+
+  it('should rewrite the turn order under the session lock', async () => {
+    let lockedWhileWriting = false;
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('UPDATE combat_sessions SET turn_order')) {
+        lockedWhileWriting = locked;
+      }
+      return sql.includes('INSERT INTO combat_participants') ? { rows: [fighter('friend', 0)] } : { rows: [] };
+    });
+
+    const result = await service.joinEncounter('session-1', 'friend');
+
+    expect(result.success).toBe(true);
+    expect(distributedLock.withLock).toHaveBeenCalledWith('combat:session:session-1', expect.any(Number), expect.any(Function));
+    expect(lockedWhileWriting).toBe(true);
+  });
+
+  it("should leave the current actor's deadline alone when their place in the order stays", async () => {
+    const result = await service.joinEncounter('session-1', 'friend');
+
+    expect(result.session?.turnOrder).toEqual(['hero', 'wolf', 'friend']);
+    expect(result.session?.currentTurn).toBe(1);
+    expect(scheduleTurnDeadline).not.toHaveBeenCalled();
+  });
+
+  it("should re-key the current actor's deadline when the newcomer goes before them", async () => {
+    mockClient.query.mockImplementation(async (sql: string) =>
+      sql.includes('INSERT INTO combat_participants') ? { rows: [fighter('friend', 7)] } : { rows: [] }
+    );
+
+    const result = await service.joinEncounter('session-1', 'friend');
+
+    expect(result.session?.turnOrder).toEqual(['hero', 'friend', 'wolf']);
+    expect(result.session?.currentTurn).toBe(2);
+    expect(scheduleTurnDeadline).toHaveBeenCalledWith(expect.objectContaining({ currentTurn: 2 }));
+  });
+});
+
+describe('CombatService.endEncounter', () => {
+  let service: CombatService;
+  let mockClient: any;
+  let mockBosses: any;
+  let db: any;
+  let statements: string[];
+
+  const payouts = () => db.query.mock.calls.filter(([sql]: [string]) => sql.includes('UPDATE characters SET gold'));
+
+  const fighters = [
+    { characterId: 'hero', participantType: ParticipantType.PLAYER, side: CombatSide.ATTACKERS, status: ParticipantStatus.ALIVE },
+    {
+      characterId: 'lich-1',
+      participantType: ParticipantType.BOSS,
+      side: CombatSide.DEFENDERS,
+      status: ParticipantStatus.DEAD,
+      monsterTemplateId: 'lich'
+    }
+  ];
+
+  beforeEach(() => {
+    statements = [];
+    mockClient = {
+      query: jest.fn(async (sql: string) => {
+        statements.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+        return { rows: [] };
+      }),
+      release: jest.fn()
+    };
+    const mockDb = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      connect: jest.fn().mockResolvedValue(mockClient)
+    };
+    service = new CombatService(mockDb as any, {} as any, {} as any, {} as any);
+    db = mockDb;
+
+    mockBosses = {
+      recordLockouts: jest.fn(async (client: any) => {
+        await client.query('INSERT INTO boss_lockouts');
+        return ['hero'];
+      })
+    };
+    Object.assign(service as any, {
+      bossService: mockBosses,
+      pvpService: { recordResult: jest.fn() },
+      analyticsService: { recordSession: jest.fn() },
+      progressionService: { awardExperience: jest.fn() },
+      instanceService: { recordMonsterDeaths: jest.fn() },
+      turnScheduler: { cancel: jest.fn() }
+    });
+
+    jest.spyOn(service, 'getSession').mockResolvedValue({ id: 'session-1', sessionType: CombatType.BOSS } as any);
+    jest.spyOn(service, 'getSessionParticipants').mockResolvedValue(fighters as any);
+    jest.spyOn(service as any, 'updateCharacterCombatStatus').mockResolvedValue(undefined);
+    jest.spyOn(service as any, 'clearCombatCache').mockResolvedValue(undefined);
+    jest.spyOn(service as any, 'handleParticipantDeaths').mockResolvedValue(undefined);
+    jest.spyOn(service as any, 'calculateRewards').mockResolvedValue({
+      experience: 100,
+      gold: 20,
+      items: [],
+      titles: [],
+      shares: [{ characterId: 'hero', experience: 100, gold: 20, contribution: 1, loot: [] }]
+    });
+    jest.spyOn(service as any, 'deliverShareLoot').mockResolvedValue(undefined);
+  });
+
+  it('should lock the winners out of the boss in the transaction that ends the fight', async () => {
+    await service.endEncounter('session-1', 'hero', CombatEndReason.VICTORY);
+
+    expect(mockBosses.recordLockouts).toHaveBeenCalledWith(mockClient, 'session-1', ['lich'], ['hero']);
+    expect(statements.indexOf('INSERT INTO')).toBeGreaterThan(statements.indexOf('BEGIN'));
+    expect(statements.indexOf('INSERT INTO')).toBeLessThan(statements.indexOf('COMMIT'));
+  });
+
+  it('should leave nobody locked out when the end is rolled back', async () => {
+    (service as any).analyticsService.recordSession.mockRejectedValue(new Error('db down'));
+
+    await expect(service.endEncounter('session-1', 'hero', CombatEndReason.VICTORY)).rejects.toThrow('db down');
+
+    expect(statements).toContain('ROLLBACK');
+    expect(statements).not.toContain('COMMIT');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  it('should pay the rewards only after the end is committed', async () => {
+    (service as any).analyticsService.recordSession.mockRejectedValue(new Error('db down'));
+    await expect(service.endEncounter('session-1', 'hero', CombatEndReason.VICTORY)).rejects.toThrow('db down');
+
+    expect((service as any).progressionService.awardExperience).not.toHaveBeenCalled();
+    expect(payouts()).toHaveLength(0);
+  });
+
+  it('should pay a session out once when it is ended again', async () => {
+    let paid = false;
+    db.query.mockImplementation(async (sql: string) => {
+      if (!sql.includes('rewards_paid_at IS NULL')) {
+        return { rows: [] };
+      }
+      const rows = paid ? [] : [{ id: 'session-1' }];
+      paid = true;
+      return { rows };
+    });
+
+    await service.endEncounter('session-1', 'hero', CombatEndReason.VICTORY);
+    await service.endEncounter('session-1', 'hero', CombatEndReason.VICTORY);
+
+    expect((service as any).progressionService.awardExperience).toHaveBeenCalledTimes(1);
+    expect(payouts()).toHaveLength(1);
+  });
+});
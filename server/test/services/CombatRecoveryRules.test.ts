@@ -0,0 +1,40 @@
+/**
+ * Combat Recovery Rules Tests
+ * Unit tests for resuming or cancelling fights left running by a restart
+ */
+
+import { CombatRecoveryRules } from '../../src/services/CombatRecoveryRules';
+import { CombatStatus, COMBAT_CONSTANTS } from '../../src/types/combat.types';
+
+describe('CombatRecoveryRules', () => {
+  const rules = new CombatRecoveryRules();
+  const now = new Date('2026-01-01T12:00:00Z');
+  const ago = (ms: number) => new Date(now.getTime() - ms);
+  const fromNow = (ms: number) => new Date(now.getTime() + ms);
+
+  it('should cancel fights that have been idle too long', () => {
+    expect(rules.planRecovery({ status: CombatStatus.ACTIVE, turnDeadline: ago(1000) }, ago(COMBAT_CONSTANTS.RECOVERY_MAX_IDLE), now))
+      .toEqual({ action: 'cancel' });
+    expect(rules.planRecovery({ status: CombatStatus.WAITING }, ago(COMBAT_CONSTANTS.RECOVERY_MAX_IDLE + 1), now))
+      .toEqual({ action: 'cancel' });
+  });
+
+  it('should give the current turn a full grace period after the restart', () => {
+    expect(rules.planRecovery({ status: CombatStatus.ACTIVE, turnDeadline: ago(5000) }, ago(60000), now))
+      .toEqual({ action: 'resume', turnDeadline: fromNow(COMBAT_CONSTANTS.RECOVERY_TURN_GRACE) });
+    expect(rules.planRecovery({ status: CombatStatus.ACTIVE }, ago(60000), now))
+      .toEqual({ action: 'resume', turnDeadline: fromNow(COMBAT_CONSTANTS.RECOVERY_TURN_GRACE) });
+  });
+
+  it('should never shorten a deadline that is still further away', () => {
+    const later = fromNow(COMBAT_CONSTANTS.RECOVERY_TURN_GRACE + 5000);
+
+    expect(rules.planRecovery({ status: CombatStatus.ACTIVE, turnDeadline: later }, ago(1000), now))
+      .toEqual({ action: 'resume', turnDeadline: later });
+  });
+
+  it('should resume fights that are not taking turns without a deadline', () => {
+    expect(rules.planRecovery({ status: CombatStatus.PAUSED }, ago(60000), now)).toEqual({ action: 'resume' });
+    expect(rules.planRecovery({ status: CombatStatus.WAITING }, ago(60000), now)).toEqual({ action: 'resume' });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Combat Replay Service Tests
+ * Unit tests for seeded combat rolls and replay verification of logged actions
+ */
+
+import { CombatReplayService, CombatLogRow } from '../../src/services/CombatReplayService';
+import { CombatRolls } from '../../src/services/CombatRolls';
+import { AbilityRollInputs, AttackRollInputs, FleeRollInputs, StatusEffectType } from '../../src/types/combat.types';
+
+describe('CombatReplayService', () => {
+  const seed = 123456789;
+  const rolls = new CombatRolls();
+  let service: CombatReplayService;
+
+  const attackInputs: AttackRollInputs = {
+    kind: 'attack',
+    baseDamage: 40,
+    critChance: 0.2,
+    missChance: 0.05,
+    blockChance: 0.1,
+    damageMultiplier: 1,
+    targetShield: 0
+  };
+
+  const abilityInputs: AbilityRollInputs = {
+    kind: 'ability',
+    abilityId: 'chain_lightning',
+    basePower: 60,
+    critChance: 0.3,
+    damageMultiplier: 1,
+    isHeal: false,
+    targets: [{ targetId: 'player-a', shield: 0 }, { targetId: 'player-b', shield: 10 }],
+    statusEffects: [{ type: StatusEffectType.STUN, chance: 0.5 }]
+  };
+
+  const row = (overrides: Partial<CombatLogRow>): CombatLogRow => ({
+    id: 'action-1',
+    actor_id: 'monster',
+    target_id: 'player-a',
+    action_name: 'attack',
+    damage: 0,
+    healing: 0,
+    is_critical: false,
+    is_blocked: false,
+    is_missed: false,
+    status_effect_applied: null,
+    turn_number: 1,
+    turn_index: 0,
+    roll_inputs: null,
+    ...overrides
+  });
+
+  // What the live engine would have logged for an attack at a turn slot
+  const loggedAttack = (turnNumber: number, turnIndex: number, overrides: Partial<CombatLogRow> = {}) => {
+    const outcome = rolls.rollAttack(attackInputs, CombatRolls.createTurnRandom(seed, turnNumber, turnIndex));
+    return row({
+      id: `attack-${turnNumber}-${turnIndex}`,
+      turn_number: turnNumber,
+      turn_index: turnIndex,
+      damage: outcome.damage,
+      is_critical: outcome.isCritical,
+      is_missed: outcome.isMissed,
+      is_blocked: outcome.isBlocked,
+      roll_inputs: attackInputs,
+      ...overrides
+    });
+  };
+
+  beforeEach(() => {
+    service = new CombatReplayService({} as any, rolls);
+  });
+
+  describe('Seeded rolls', () => {
+    it('should repeat the same outcome for the same turn slot', () => {
+      const first = rolls.rollAttack(attackInputs, CombatRolls.createTurnRandom(seed, 3, 1));
+      const second = rolls.rollAttack(attackInputs, CombatRolls.createTurnRandom(seed, 3, 1));
+
+      expect(second).toEqual(first);
+    });
+
+    it('should give every turn slot its own stream', () => {
+      const outcomes = Array.from({ length: 20 }, (_, turn) =>
+        rolls.rollAttack(attackInputs, CombatRolls.createTurnRandom(seed, turn + 1, 0)).damage
+      );
+
+      expect(new Set(outcomes).size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('Replay', () => {
+    it('should verify untampered attacks', () => {
+      const replay = service.replay('session-1', seed, [loggedAttack(1, 0), loggedAttack(1, 1), loggedAttack(2, 0)]);
+
+      expect(replay.verified).toBe(true);
+      expect(replay.actionsReplayed).toBe(3);
+      expect(replay.actions.every(action => action.status === 'match')).toBe(true);
+    });
+
+    it('should flag an action whose recorded damage was altered', () => {
+      const tampered = loggedAttack(1, 0);
+      tampered.damage += 25;
+
+      const replay = service.replay('session-1', seed, [tampered]);
+
+      expect(replay.verified).toBe(false);
+      expect(replay.mismatchCount).toBe(1);
+      expect(replay.actions[0]?.mismatches[0]).toMatch(/^damage: recorded/);
+    });
+
+    it('should account for shields absorbing part of the hit', () => {
+      const shielded = { ...attackInputs, targetShield: 15 };
+      const outcome = rolls.rollAttack(shielded, CombatRolls.createTurnRandom(seed, 1, 0));
+
+      const replay = service.replay('session-1', seed, [loggedAttack(1, 0, {
+        roll_inputs: shielded,
+        damage: Math.max(0, outcome.damage - 15)
+      })]);
+
+      expect(replay.verified).toBe(true);
+    });
+
+    it('should group area ability rows by turn slot and check each target', () => {
+      const outcome = rolls.rollAbility(abilityInputs, CombatRolls.createTurnRandom(seed, 2, 1));
+      const rows = outcome.targets.map((target, index) => row({
+        id: `lightning-${index}`,
+        target_id: target.targetId,
+        action_name: 'chain_lightning',
+        turn_number: 2,
+        turn_index: 1,
+        damage: Math.max(0, target.amount - (abilityInputs.targets[index]?.shield ?? 0)),
+        is_critical: target.isCritical,
+        status_effect_applied: target.statusEffectsApplied[0] ?? null,
+        roll_inputs: abilityInputs
+      }));
+
+      const replay = service.replay('session-1', seed, rows);
+
+      expect(replay.actions).toHaveLength(1);
+      expect(replay.actions[0]?.actionIds).toEqual(['lightning-0', 'lightning-1']);
+      expect(replay.verified).toBe(true);
+    });
+
+    it('should check whether a flee attempt escaped', () => {
+      const fleeInputs: FleeRollInputs = { kind: 'flee', fleeChance: 0.5 };
+      const escaped = rolls.rollFlee(fleeInputs.fleeChance, CombatRolls.createTurnRandom(seed, 3, 0));
+      const logged = row({ action_name: 'flee', target_id: null, turn_number: 3, roll_inputs: fleeInputs });
+
+      expect(service.replay('session-1', seed, [{ ...logged, is_missed: !escaped }]).verified).toBe(true);
+      expect(service.replay('session-1', seed, [{ ...logged, is_missed: escaped }]).verified).toBe(false);
+    });
+
+    it('should report actions logged without roll inputs as unverified', () => {
+      const replay = service.replay('session-1', seed, [
+        row({ action_name: 'defend' }),
+        row({ id: 'tick', turn_index: null })
+      ]);
+
+      expect(replay.verified).toBe(true);
+      expect(replay.actionsUnverified).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Combat Restore Tests
+ * Unit tests for putting a reconnecting socket back into its unfinished fight
+ */
+
+import { restoreCombatSession } from '../../src/sockets/handlers/combatRestore';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('restoreCombatSession', () => {
+  let mockCombatService: any;
+  let mockRoomManager: any;
+  let socket: any;
+
+  beforeEach(() => {
+    mockCombatService = { getActiveCombatForCharacter: jest.fn().mockResolvedValue(null) };
+    mockRoomManager = { joinCombat: jest.fn().mockResolvedValue(undefined) };
+    socket = { id: 'socket-1', userId: 'user-1', characterId: 'char-1' };
+  });
+
+  it('should rejoin the combat room of the fight the character left', async () => {
+    mockCombatService.getActiveCombatForCharacter.mockResolvedValue({ id: 'session-1' });
+
+    const sessionId = await restoreCombatSession(socket, mockCombatService, mockRoomManager);
+
+    expect(sessionId).toBe('session-1');
+    expect(mockCombatService.getActiveCombatForCharacter).toHaveBeenCalledWith('char-1');
+    expect(mockRoomManager.joinCombat).toHaveBeenCalledWith(socket, 'session-1');
+  });
+
+  it('should leave the socket alone when the character has no fight', async () => {
+    const sessionId = await restoreCombatSession(socket, mockCombatService, mockRoomManager);
+
+    expect(sessionId).toBeNull();
+    expect(mockRoomManager.joinCombat).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing before a character is selected or without a combat service', async () => {
+    expect(await restoreCombatSession({ ...socket, characterId: undefined }, mockCombatService, mockRoomManager)).toBeNull();
+    expect(await restoreCombatSession(socket, null, mockRoomManager)).toBeNull();
+
+    expect(mockCombatService.getActiveCombatForCharacter).not.toHaveBeenCalled();
+    expect(mockRoomManager.joinCombat).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Combat Reward Calculator Tests
+ * Unit tests for splitting group combat rewards by contribution
+ */
+
+import { CombatRewardCalculator } from '../../src/services/CombatRewardCalculator';
+
+describe('CombatRewardCalculator', () => {
+  let calculator: CombatRewardCalculator;
+
+  beforeEach(() => {
+    calculator = new CombatRewardCalculator();
+  });
+
+  describe('splitRewards', () => {
+    it('should split in proportion to damage dealt plus healing done', () => {
+      const shares = calculator.splitRewards({ experience: 300, gold: 90 }, [
+        { characterId: 'warrior', damageDealt: 200, healingDone: 0 },
+        { characterId: 'cleric', damageDealt: 20, healingDone: 80 }
+      ]);
+
+      expect(shares).toEqual([
+        { characterId: 'cleric', contribution: 100, experience: 100, gold: 30 },
+        { characterId: 'warrior', contribution: 200, experience: 200, gold: 60 }
+      ]);
+    });
+
+    it('should split evenly when nobody contributed', () => {
+      const shares = calculator.splitRewards({ experience: 100, gold: 10 }, [
+        { characterId: 'a', damageDealt: 0, healingDone: 0 },
+        { characterId: 'b', damageDealt: 0, healingDone: 0 }
+      ]);
+
+      expect(shares.map(share => share.experience)).toEqual([50, 50]);
+      expect(shares.map(share => share.gold)).toEqual([5, 5]);
+    });
+
+    it('should hand out the whole pool when shares do not divide evenly', () => {
+      const shares = calculator.splitRewards({ experience: 100, gold: 7 }, [
+        { characterId: 'a', damageDealt: 10, healingDone: 0 },
+        { characterId: 'b', damageDealt: 10, healingDone: 0 },
+        { characterId: 'c', damageDealt: 10, healingDone: 0 }
+      ]);
+
+      expect(shares.reduce((sum, share) => sum + share.experience, 0)).toBe(100);
+      expect(shares.reduce((sum, share) => sum + share.gold, 0)).toBe(7);
+      expect(shares.map(share => share.experience)).toEqual([34, 33, 33]);
+    });
+
+    it('should give a solo winner the entire pool', () => {
+      const shares = calculator.splitRewards({ experience: 75, gold: 20 }, [
+        { characterId: 'solo', damageDealt: 0, healingDone: 0 }
+      ]);
+
+      expect(shares).toEqual([{ characterId: 'solo', contribution: 0, experience: 75, gold: 20 }]);
+    });
+
+    it('should return no shares without contributors', () => {
+      expect(calculator.splitRewards({ experience: 100, gold: 50 }, [])).toEqual([]);
+    });
+  });
+});
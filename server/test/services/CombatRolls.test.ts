@@ -0,0 +1,94 @@
+/**
+ * Combat Rolls Tests
+ * Unit tests for the flee chance formula and damage resistances
+ */
+
+import { CombatRolls } from '../../src/services/CombatRolls';
+import { AttackRollInputs, AbilityRollInputs, COMBAT_CONSTANTS } from '../../src/types/combat.types';
+
+describe('CombatRolls', () => {
+  const rolls = new CombatRolls();
+  const even = { dexterity: 20, speed: 1 };
+
+  describe('calculateFleeChance', () => {
+    it('should use the base chance against one evenly matched pursuer', () => {
+      expect(rolls.calculateFleeChance(even, [even])).toBeCloseTo(COMBAT_CONSTANTS.FLEE_CHANCE);
+    });
+
+    it('should favour the more dexterous runner', () => {
+      const nimble = rolls.calculateFleeChance({ dexterity: 30, speed: 1 }, [even]);
+      const clumsy = rolls.calculateFleeChance({ dexterity: 10, speed: 1 }, [even]);
+
+      expect(nimble).toBeCloseTo(0.8);
+      expect(clumsy).toBeCloseTo(0.4);
+    });
+
+    it('should apply HASTE and SLOW on either side', () => {
+      expect(rolls.calculateFleeChance({ dexterity: 20, speed: 1.3 }, [even])).toBeCloseTo(0.75);
+      expect(rolls.calculateFleeChance(even, [{ dexterity: 20, speed: 1.3 }])).toBeCloseTo(0.45);
+    });
+
+    it('should measure against the quickest pursuer and drop with every extra one', () => {
+      const chance = rolls.calculateFleeChance(even, [
+        { dexterity: 25, speed: 1 },
+        { dexterity: 10, speed: 0.7 },
+        even
+      ]);
+
+      expect(chance).toBeCloseTo(0.6 - 0.1 - 0.2);
+    });
+
+    it('should stay within the minimum and maximum chance', () => {
+      expect(rolls.calculateFleeChance({ dexterity: 200, speed: 2 }, [even])).toBe(COMBAT_CONSTANTS.FLEE_MAX_CHANCE);
+      expect(rolls.calculateFleeChance({ dexterity: 1, speed: 0.5 }, [even, even, even])).toBe(COMBAT_CONSTANTS.FLEE_MIN_CHANCE);
+      expect(rolls.calculateFleeChance(even, [])).toBe(COMBAT_CONSTANTS.FLEE_MAX_CHANCE);
+    });
+  });
+
+  describe('resistances', () => {
+    const attack: AttackRollInputs = {
+      kind: 'attack',
+      baseDamage: 40,
+      critChance: 0,
+      missChance: 0,
+      blockChance: 0,
+      damageMultiplier: 1,
+      targetShield: 0
+    };
+
+    it('should resist a fraction of the damage and report the amount', () => {
+      expect(rolls.calculateResisted(50, 0.3)).toBe(15);
+      expect(rolls.calculateResisted(50, -0.5)).toBe(-25);
+      expect(rolls.calculateResisted(50)).toBe(0);
+    });
+
+    it('should apply the resistance after the attack rolls', () => {
+      const plain = rolls.rollAttack(attack, CombatRolls.createRandom(1, 'test'));
+      const resisted = rolls.rollAttack({ ...attack, resistance: 0.25 }, CombatRolls.createRandom(1, 'test'));
+
+      expect(plain.resisted).toBe(0);
+      expect(resisted.resisted).toBe(plain.damage - Math.floor(plain.damage * 0.75));
+      expect(resisted.damage + resisted.resisted).toBe(plain.damage);
+    });
+
+    it('should resist ability damage per target but never healing', () => {
+      const ability: AbilityRollInputs = {
+        kind: 'ability',
+        abilityId: 'fireball',
+        basePower: 50,
+        critChance: 0,
+        damageMultiplier: 1,
+        isHeal: false,
+        targets: [{ targetId: 'wyrm', shield: 0, resistance: 0.5 }, { targetId: 'golem', shield: 0, resistance: -0.5 }],
+        statusEffects: []
+      };
+
+      const [wyrm, golem] = rolls.rollAbility(ability, CombatRolls.createRandom(1, 'test')).targets;
+      expect(wyrm!.amount).toBeLessThan(golem!.amount);
+      expect(wyrm!.amount + wyrm!.resisted).toBe(golem!.amount + golem!.resisted);
+
+      const heal = rolls.rollAbility({ ...ability, isHeal: true }, CombatRolls.createRandom(1, 'test'));
+      expect(heal.targets.every(target => target.resisted === 0)).toBe(true);
+    });
+  });
+});
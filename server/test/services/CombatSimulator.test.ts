@@ -0,0 +1,95 @@
+/**
+ * Combat Simulator Tests
+ * Unit tests for the extracted damage formulas and the in-memory balance simulator
+ */
+
+import { CombatFormulas } from '../../src/services/CombatFormulas';
+import { CombatSimulator } from '../../src/services/CombatSimulator';
+import { CharacterCombatStats } from '../../src/types/combat.types';
+import { SimulationCombatant, SimulationConfig } from '../../src/types/simulation.types';
+
+describe('CombatSimulator', () => {
+  const stats = (overrides: Partial<CharacterCombatStats> = {}): CharacterCombatStats => ({
+    level: 10,
+    hp: 200,
+    mp: 50,
+    strength: 30,
+    vitality: 20,
+    dexterity: 15,
+    intelligence: 10,
+    wisdom: 10,
+    ...overrides
+  });
+
+  const combatant = (name: string, overrides: Partial<SimulationCombatant> = {}): SimulationCombatant => ({
+    name,
+    stats: stats(),
+    weaponCoefficient: 1,
+    weaponAffinityTier: 0,
+    magicAffinityTier: 0,
+    ...overrides
+  });
+
+  const config = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+    attacker: combatant('attacker'),
+    defender: combatant('defender'),
+    fights: 200,
+    seed: 42,
+    ...overrides
+  });
+
+  describe('CombatFormulas', () => {
+    const formulas = new CombatFormulas();
+
+    it('should scale attack damage with the weapon coefficient and affinity bonus', () => {
+      expect(formulas.calculateAttackDamage(30, 20, 1.5)).toBe(15);
+      expect(formulas.calculateAttackDamage(30, 20, 1.5, 10)).toBe(16);
+      expect(formulas.calculateAttackDamage(10, 40, 2)).toBe(1);
+    });
+
+    it('should scale spells and heals with level, stats and affinity', () => {
+      const ability = { basePower: 20, scaling: { intelligence: 1.5 } };
+
+      expect(formulas.calculateSpellDamage(stats(), ability)).toBe(45);
+      expect(formulas.calculateHealingAmount(stats(), ability, formulas.getAffinityBonus(5))).toBe(49);
+      expect(formulas.calculateSpellDamage(stats(), { basePower: 0, scaling: {} })).toBe(0);
+    });
+  });
+
+  it('should give the same report for the same seed', () => {
+    const simulator = new CombatSimulator();
+
+    expect(simulator.run(config())).toEqual(simulator.run(config()));
+  });
+
+  it('should account for every fight as a win or a draw', () => {
+    const report = new CombatSimulator().run(config());
+
+    expect(report.attacker.wins + report.defender.wins + report.draws).toBe(200);
+    expect(report.timeToKill.medianTurns).toBeLessThanOrEqual(report.timeToKill.p90Turns);
+    expect(report.attacker.damage.p10).toBeLessThanOrEqual(report.attacker.damage.p99);
+    expect(Object.values(report.attacker.critsPerFight).reduce((a, b) => a + b, 0)).toBe(200);
+  });
+
+  it('should favour the stronger stat block', () => {
+    const report = new CombatSimulator().run(config({
+      attacker: combatant('brute', { stats: stats({ strength: 60 }), weaponCoefficient: 1.5 })
+    }));
+
+    expect(report.attacker.winRate).toBeGreaterThan(0.9);
+  });
+
+  it('should cast damage spells while mana lasts and heal only when hurt', () => {
+    const report = new CombatSimulator().run(config({
+      attacker: combatant('mage', {
+        ability: { name: 'fireball', basePower: 30, scaling: { intelligence: 2 }, manaCost: 10, isHeal: false }
+      }),
+      defender: combatant('cleric', {
+        ability: { name: 'heal', basePower: 20, scaling: { wisdom: 1 }, manaCost: 10, isHeal: true }
+      })
+    }));
+
+    expect(report.attacker.damage.p99).toBeGreaterThanOrEqual(60);
+    expect(report.defender.averageHealingPerFight).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Combat Transcript Tests
+ * Unit tests for rendering exported combat logs as MUD-style transcripts
+ */
+
+import { CombatTranscript } from '../../src/services/CombatTranscript';
+import {
+  ActionType,
+  CombatSide,
+  CombatStatus,
+  CombatType,
+  DamageType,
+  ParticipantStatus,
+  ParticipantType
+} from '../../src/types/combat.types';
+import { CombatLogEntry, CombatLogExport } from '../../src/types/analytics.types';
+
+describe('CombatTranscript', () => {
+  const transcript = new CombatTranscript();
+
+  const entry = (overrides: Partial<CombatLogEntry> = {}): CombatLogEntry => ({
+    id: 'action-1',
+    turnNumber: 1,
+    actorId: 'hero',
+    targetId: 'wolf',
+    actionType: ActionType.ATTACK,
+    actionName: 'basic_attack',
+    damage: 12,
+    healing: 0,
+    isCritical: false,
+    isBlocked: false,
+    isMissed: false,
+    resisted: 0,
+    isStatusTick: false,
+    description: '',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const log = (actions: CombatLogEntry[], overrides: Partial<CombatLogExport> = {}): CombatLogExport => ({
+    sessionId: 'session-1',
+    sessionType: CombatType.PVE,
+    status: CombatStatus.ENDED,
+    zoneName: 'Whispering Woods',
+    startedAt: new Date('2026-01-01T00:00:00Z'),
+    endedAt: new Date('2026-01-01T00:01:00Z'),
+    winner: 'hero',
+    turns: 2,
+    participants: [
+      {
+        characterId: 'hero',
+        name: 'Aria',
+        participantType: ParticipantType.PLAYER,
+        side: CombatSide.ATTACKERS,
+        level: 10,
+        status: ParticipantStatus.ALIVE,
+        damageDealt: 40,
+        damageTaken: 8
+      },
+      {
+        characterId: 'wolf',
+        name: 'Shadow Wolf',
+        participantType: ParticipantType.MONSTER,
+        side: CombatSide.DEFENDERS,
+        level: 10,
+        status: ParticipantStatus.DEAD,
+        damageDealt: 8,
+        damageTaken: 40
+      }
+    ],
+    actions,
+    ...overrides
+  });
+
+  const withoutWinner = ({ winner, ...rest }: CombatLogExport): CombatLogExport => rest;
+
+  it('should use names and group actions by turn', () => {
+    const text = transcript.format(log([
+      entry(),
+      entry({ turnNumber: 1, actorId: 'wolf', targetId: 'hero', damage: 8 }),
+      entry({ turnNumber: 2, damage: 28, isCritical: true })
+    ]));
+
+    expect(text).toContain('=== PVE combat in Whispering Woods ===');
+    expect(text).toContain('[defenders] Shadow Wolf (monster, level 10) - dead, dealt 8, took 40');
+    expect(text).toContain('--- Turn 1 ---\nAria hits Shadow Wolf with basic_attack for 12 damage.\nShadow Wolf hits Aria');
+    expect(text).toContain('--- Turn 2 ---\nAria hits Shadow Wolf with basic_attack for 28 damage. Critical!');
+    expect(text).toContain("=== Aria's side is victorious after 2 turns ===");
+  });
+
+  it('should describe misses, blocks, resists and vulnerabilities', () => {
+    const names = ['Aria', 'Shadow Wolf'] as const;
+
+    expect(transcript.formatAction(entry({ isMissed: true, damage: 0 }), ...names))
+      .toBe('Aria misses Shadow Wolf with basic_attack.');
+    expect(transcript.formatAction(entry({ isBlocked: true, damage: 3 }), ...names))
+      .toBe('Aria hits Shadow Wolf with basic_attack for 3 damage, but Shadow Wolf blocks most of it.');
+    expect(transcript.formatAction(entry({
+      actionType: ActionType.SPELL,
+      actionName: 'fireball',
+      damageType: DamageType.FIRE,
+      damage: 30,
+      resisted: 10,
+      statusEffectApplied: 'burn'
+    }), ...names)).toBe('Aria casts fireball on Shadow Wolf for 30 fire damage (10 resisted). Shadow Wolf is afflicted with burn.');
+    expect(transcript.formatAction(entry({ damageType: DamageType.HOLY, damage: 15, resisted: -5 }), ...names))
+      .toBe('Aria hits Shadow Wolf with basic_attack for 15 holy damage (5 extra, vulnerable).');
+  });
+
+  it('should describe heals, status ticks, flees and draws', () => {
+    const text = transcript.format(withoutWinner(log([
+      entry({ actionType: ActionType.HEAL, actionName: 'heal', targetId: 'hero', damage: 0, healing: 20 }),
+      entry({ actionType: ActionType.SPECIAL, actionName: 'poison_tick', isStatusTick: true, damage: 4 }),
+      entry({ actionType: ActionType.FLEE, actionName: 'flee', damage: 0, isMissed: true }),
+      entry({ actionType: ActionType.FLEE, actionName: 'flee', damage: 0 })
+    ], { status: CombatStatus.CANCELLED })));
+
+    expect(text).toContain('Aria casts heal on Aria, restoring 20 HP.');
+    expect(text).toContain('Shadow Wolf suffers 4 damage from poison.');
+    expect(text).toContain('Aria tries to flee, but cannot get away!');
+    expect(text).toContain('Aria flees from combat!');
+    expect(text).toContain('=== The fight ended without a victor after 2 turns (cancelled) ===');
+  });
+});
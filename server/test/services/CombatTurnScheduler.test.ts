@@ -0,0 +1,157 @@
+/**
+ * Combat Turn Scheduler Tests
+ * Unit tests for Redis-backed turn deadline scheduling and expiry
+ */
+
+import { CombatTurnScheduler } from '../../src/services/CombatTurnScheduler';
+import { redisService } from '../../src/services/RedisService';
+import { distributedLock } from '../../src/utils/distributedLock';
+
+jest.mock('../../src/services/RedisService', () => ({
+  redisService: { getClient: jest.fn() }
+}));
+
+jest.mock('../../src/utils/distributedLock', () => ({
+  distributedLock: { withLock: jest.fn() }
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('CombatTurnScheduler', () => {
+  let mockRedis: any;
+  let mockPipeline: any;
+  let onExpired: jest.Mock;
+  let scheduler: CombatTurnScheduler;
+
+  beforeEach(() => {
+    mockPipeline = {
+      zrem: jest.fn().mockReturnThis(),
+      zadd: jest.fn().mockReturnThis(),
+      hset: jest.fn().mockReturnThis(),
+      hdel: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([])
+    };
+    mockRedis = {
+      hget: jest.fn().mockResolvedValue(null),
+      multi: jest.fn().mockReturnValue(mockPipeline),
+      zrangebyscore: jest.fn().mockResolvedValue([]),
+      zscore: jest.fn().mockResolvedValue('1700000000000'),
+      zrem: jest.fn().mockResolvedValue(1),
+      zadd: jest.fn().mockResolvedValue(0)
+    };
+
+    (redisService.getClient as jest.Mock).mockReturnValue(mockRedis);
+    (distributedLock.withLock as jest.Mock).mockImplementation((_resource, _ttl, fn) => fn());
+
+    onExpired = jest.fn().mockResolvedValue(undefined);
+    scheduler = new CombatTurnScheduler(onExpired, 1000);
+  });
+
+  describe('Scheduling', () => {
+    it('should store the deadline scored by its timestamp', async () => {
+      const deadline = new Date(1700000000000);
+
+      await scheduler.schedule('session-1', '2:1', deadline);
+
+      expect(mockPipeline.zadd).toHaveBeenCalledWith('combat:turn_deadlines', deadline.getTime(), 'session-1|2:1');
+      expect(mockPipeline.hset).toHaveBeenCalledWith('combat:turn_keys', 'session-1', '2:1');
+      expect(mockPipeline.zrem).not.toHaveBeenCalled();
+    });
+
+    it('should replace the previous deadline of the same session', async () => {
+      mockRedis.hget.mockResolvedValue('1:0');
+
+      await scheduler.schedule('session-1', '1:1', new Date());
+
+      expect(mockPipeline.zrem).toHaveBeenCalledWith('combat:turn_deadlines', 'session-1|1:0');
+    });
+
+    it('should remove the pending deadline on cancel', async () => {
+      mockRedis.hget.mockResolvedValue('3:0');
+
+      await scheduler.cancel('session-1');
+
+      expect(mockPipeline.zrem).toHaveBeenCalledWith('combat:turn_deadlines', 'session-1|3:0');
+      expect(mockPipeline.hdel).toHaveBeenCalledWith('combat:turn_keys', 'session-1');
+    });
+
+    it('should build turn keys from turn number and turn index', () => {
+      expect(CombatTurnScheduler.buildTurnKey(4, 2)).toBe('4:2');
+    });
+  });
+
+  describe('Expiry', () => {
+    it('should invoke the handler for each due deadline', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue(['session-1|1:0', 'session-2|5:3']);
+
+      const processed = await scheduler.poll();
+
+      expect(processed).toBe(2);
+      expect(onExpired).toHaveBeenCalledWith('session-1', '1:0');
+      expect(onExpired).toHaveBeenCalledWith('session-2', '5:3');
+      expect(distributedLock.withLock).toHaveBeenCalledWith('combat:session:session-1', expect.any(Number), expect.any(Function));
+      expect(mockRedis.zrem).toHaveBeenCalledWith('combat:turn_deadlines', 'session-1|1:0');
+    });
+
+    it('should skip deadlines already claimed by another instance', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue(['session-1|1:0']);
+      mockRedis.zscore.mockResolvedValue(null);
+
+      const processed = await scheduler.poll();
+
+      expect(processed).toBe(0);
+      expect(onExpired).not.toHaveBeenCalled();
+    });
+
+    it('should keep a deadline whose handler failed and retry it later', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue(['session-1|1:0']);
+      onExpired.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const processed = await scheduler.poll();
+
+      expect(processed).toBe(0);
+      expect(mockRedis.zrem).not.toHaveBeenCalled();
+      expect(mockRedis.zadd).toHaveBeenCalledWith('combat:turn_deadlines', 'XX', expect.any(Number), 'session-1|1:0');
+    });
+
+    it('should continue the fight only after releasing the session lock', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue(['session-1|1:0']);
+      let locked = false;
+      (distributedLock.withLock as jest.Mock).mockImplementation(async (_resource, _ttl, fn) => {
+        locked = true;
+        try {
+          return await fn();
+        } finally {
+          locked = false;
+        }
+      });
+      const lockedWhenSettled: boolean[] = [];
+      const onSettled = jest.fn(async () => {
+        lockedWhenSettled.push(locked);
+      });
+      scheduler = new CombatTurnScheduler(onExpired, 1000, onSettled);
+
+      const processed = await scheduler.poll();
+
+      expect(processed).toBe(1);
+      expect(onSettled).toHaveBeenCalledWith('session-1');
+      expect(lockedWhenSettled).toEqual([false]);
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+    });
+
+    it('should keep polling other sessions when one lock cannot be acquired', async () => {
+      mockRedis.zrangebyscore.mockResolvedValue(['session-1|1:0', 'session-2|1:0']);
+      (distributedLock.withLock as jest.Mock)
+        .mockRejectedValueOnce(new Error('Failed to acquire lock'))
+        .mockImplementation((_resource, _ttl, fn) => fn());
+
+      const processed = await scheduler.poll();
+
+      expect(processed).toBe(1);
+      expect(onExpired).toHaveBeenCalledTimes(1);
+      expect(onExpired).toHaveBeenCalledWith('session-2', '1:0');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Death Rules Tests
+ * Unit tests for death penalties, corpse contents, debt repayment and respawn points
+ */
+
+import { DeathRules } from '../../src/services/DeathRules';
+import { DeathConfig, RespawnPoint, DEATH_CONSTANTS } from '../../src/types/death.types';
+
+describe('DeathRules', () => {
+  let rules: DeathRules;
+
+  const config = (overrides: Partial<DeathConfig> = {}): DeathConfig => ({
+    ...DEATH_CONSTANTS.DEFAULT_CONFIG,
+    ...overrides
+  });
+
+  const city = (zoneId: string, mapX: number | null, mapY: number | null, layer = 0): RespawnPoint => ({
+    zoneId,
+    mapX,
+    mapY,
+    layer
+  });
+
+  beforeEach(() => {
+    rules = new DeathRules();
+  });
+
+  it('should charge experience debt or gold depending on the penalty', () => {
+    expect(rules.calculatePenalty(config(), 1000n, 500)).toEqual({ experienceDebt: 100, goldLost: 0 });
+    expect(rules.calculatePenalty(config({ penalty: 'gold_loss' }), 1000n, 505)).toEqual({ experienceDebt: 0, goldLost: 50 });
+    expect(rules.calculatePenalty(config({ penalty: 'none' }), 1000n, 500)).toEqual({ experienceDebt: 0, goldLost: 0 });
+  });
+
+  it('should hand back a share of the penalty with the corpse', () => {
+    expect(rules.getCorpseContents(config(), { experienceDebt: 101, goldLost: 40 }))
+      .toEqual({ experienceDebt: 50, goldLost: 20 });
+  });
+
+  it('should start the respawn timer from the time of death', () => {
+    const diedAt = new Date('2024-01-01T00:00:00Z');
+
+    expect(rules.getRespawnAt(config(), diedAt)).toEqual(new Date('2024-01-01T00:00:30Z'));
+  });
+
+  it('should put half of every gain towards experience debt until it is paid off', () => {
+    expect(rules.splitExperienceGain(100n, 1000n)).toEqual({ repaid: 50n, kept: 50n });
+    expect(rules.splitExperienceGain(100n, 20n)).toEqual({ repaid: 20n, kept: 80n });
+    expect(rules.splitExperienceGain(100n, 0n)).toEqual({ repaid: 0n, kept: 100n });
+  });
+
+  it('should respawn at the bound city nearest to the death zone', () => {
+    const cities = [city('far', 20, 20), city('near', 2, 1), city('below', 0, 0, -1)];
+
+    expect(rules.chooseRespawnPoint(city('forest', 0, 0), cities)?.zoneId).toBe('near');
+  });
+
+  it('should fall back to the first bound city without coordinates', () => {
+    const cities = [city('first', 20, 20), city('second', 1, 1)];
+
+    expect(rules.chooseRespawnPoint(city('void', null, null), cities)?.zoneId).toBe('first');
+    expect(rules.chooseRespawnPoint(null, cities)?.zoneId).toBe('first');
+    expect(rules.chooseRespawnPoint(null, [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Exit Lock Rules Tests
+ * Unit tests for resolving exit locks and the hints shown when looking at them
+ */
+
+import { ExitLockRules } from '../../src/services/ExitLockRules';
+import { ExitAccessContext, MovementErrorCode, ZoneExit } from '../../src/types/zone.types';
+
+describe('ExitLockRules', () => {
+  const rules = new ExitLockRules();
+
+  const exit = (overrides: Partial<ZoneExit> = {}): ZoneExit => ({
+    id: 'exit-1',
+    fromZoneId: 'zone-a',
+    toZoneId: 'zone-b',
+    direction: 'north',
+    exitType: 'door',
+    isVisible: true,
+    isLocked: false,
+    requiredLevel: 1,
+    travelTime: 5,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const context = (overrides: Partial<ExitAccessContext> = {}): ExitAccessContext => ({
+    level: 10,
+    hasRequiredItem: false,
+    questCompleted: false,
+    guildId: null,
+    passwordAccepted: null,
+    affinityTier: 0,
+    skillValue: 0,
+    ...overrides
+  });
+
+  it('should let characters through open exits they meet the requirements of', () => {
+    expect(rules.resolve(exit(), context())).toEqual({ canMove: true });
+    expect(rules.resolve(exit({ requiredLevel: 20 }), context()))
+      .toMatchObject({ canMove: false, errorCode: MovementErrorCode.LEVEL_TOO_LOW, requiredLevel: 20 });
+    expect(rules.resolve(exit({ requiredItemId: 'torch' }), context()))
+      .toMatchObject({ canMove: false, errorCode: MovementErrorCode.MISSING_ITEM, requiredItem: 'torch' });
+  });
+
+  it('should open key, quest and guild locks for characters who qualify', () => {
+    const keyLock = exit({ isLocked: true, lockType: 'key', requiredItemId: 'iron_key' });
+    expect(rules.resolve(keyLock, context()))
+      .toMatchObject({ canMove: false, errorCode: MovementErrorCode.MISSING_ITEM, lockType: 'key' });
+    expect(rules.resolve(keyLock, context({ hasRequiredItem: true }))).toEqual({ canMove: true });
+
+    const questLock = exit({ isLocked: true, lockType: 'quest', requiredQuestId: 'lost_crown' });
+    expect(rules.resolve(questLock, context()).errorCode).toBe(MovementErrorCode.QUEST_INCOMPLETE);
+    expect(rules.resolve(questLock, context({ questCompleted: true }))).toEqual({ canMove: true });
+
+    const anyGuild = exit({ isLocked: true, lockType: 'guild' });
+    const oneGuild = exit({ isLocked: true, lockType: 'guild', requiredGuildId: 7 });
+    expect(rules.resolve(anyGuild, context()).errorCode).toBe(MovementErrorCode.NOT_GUILD_MEMBER);
+    expect(rules.resolve(anyGuild, context({ guildId: 3 }))).toEqual({ canMove: true });
+    expect(rules.resolve(oneGuild, context({ guildId: 3 })).errorCode).toBe(MovementErrorCode.NOT_GUILD_MEMBER);
+    expect(rules.resolve(oneGuild, context({ guildId: 7 }))).toEqual({ canMove: true });
+  });
+
+  it('should tell a missing password from a wrong one', () => {
+    const passwordLock = exit({ isLocked: true, lockType: 'password' });
+
+    expect(rules.resolve(passwordLock, context()).errorCode).toBe(MovementErrorCode.PASSWORD_REQUIRED);
+    expect(rules.resolve(passwordLock, context({ passwordAccepted: false })))
+      .toMatchObject({ errorCode: MovementErrorCode.WRONG_PASSWORD, errorMessage: 'That is not the password.' });
+    expect(rules.resolve(passwordLock, context({ passwordAccepted: true }))).toEqual({ canMove: true });
+  });
+
+  it('should check affinity tiers and skill thresholds', () => {
+    const magicLock = exit({ isLocked: true, lockType: 'magic', requiredAffinity: 'fire', requiredAffinityTier: 3 });
+    expect(rules.resolve(magicLock, context({ affinityTier: 2 })).errorCode).toBe(MovementErrorCode.AFFINITY_TOO_LOW);
+    expect(rules.resolve(magicLock, context({ affinityTier: 3 }))).toEqual({ canMove: true });
+
+    const skillLock = exit({ isLocked: true, lockType: 'skill', requiredSkill: 'strength', requiredSkillValue: 25 });
+    expect(rules.resolve(skillLock, context({ skillValue: 24 })).errorCode).toBe(MovementErrorCode.SKILL_TOO_LOW);
+    expect(rules.resolve(skillLock, context({ skillValue: 25 }))).toEqual({ canMove: true });
+  });
+
+  it('should keep locks without a type or requirement shut and apply exit requirements after the lock', () => {
+    expect(rules.resolve(exit({ isLocked: true }), context({ hasRequiredItem: true })).errorCode)
+      .toBe(MovementErrorCode.EXIT_LOCKED);
+    expect(rules.resolve(exit({ isLocked: true, lockType: 'quest' }), context({ questCompleted: true })).errorCode)
+      .toBe(MovementErrorCode.EXIT_LOCKED);
+    expect(rules.resolve(exit({ isLocked: true, lockType: 'password', requiredLevel: 15 }), context({ passwordAccepted: true })).errorCode)
+      .toBe(MovementErrorCode.LEVEL_TOO_LOW);
+  });
+
+  it('should narrow a character profile down to what one exit asks for', () => {
+    const profile = {
+      level: 12,
+      guildId: 4,
+      itemIds: new Set(['iron_key']),
+      completedQuestIds: new Set(['lost_crown']),
+      affinityTiers: new Map([['fire', 3]]),
+      skills: { strength: 30, vitality: 20, dexterity: 18, intelligence: 9, wisdom: 11 }
+    };
+
+    expect(rules.contextFor(profile, exit({ requiredItemId: 'iron_key', requiredAffinity: 'fire', requiredSkill: 'wisdom' })))
+      .toEqual(context({ level: 12, guildId: 4, hasRequiredItem: true, affinityTier: 3, skillValue: 11 }));
+    expect(rules.contextFor(profile, exit({ requiredItemId: 'gold_key', requiredQuestId: 'lost_crown', requiredAffinity: 'ice' })))
+      .toEqual(context({ level: 12, guildId: 4, questCompleted: true }));
+  });
+
+  it('should hint at locks only, preferring the exit\'s own hint', () => {
+    expect(rules.getLockHint(exit())).toBeUndefined();
+    expect(rules.getLockHint(exit({ isLocked: true, lockType: 'key' }))).toBe('This passage is locked and requires a key.');
+    expect(rules.getLockHint(exit({ isLocked: true, lockType: 'magic', requiredAffinity: 'fire', requiredAffinityTier: 3 })))
+      .toBe('The way is sealed by fire magic. Only adepts of tier 3 may pass.');
+    expect(rules.getLockHint(exit({ isLocked: true, lockType: 'skill', requiredSkill: 'dexterity', requiredSkillValue: 30 })))
+      .toBe('Only those with at least 30 dexterity can get through here.');
+    expect(rules.getLockHint(exit({ isLocked: true, lockType: 'password', lockHint: 'Speak, friend, and enter.' })))
+      .toBe('Speak, friend, and enter.');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Glicko-2 Tests
+ * Unit tests for arena rating updates
+ */
+
+import { Glicko2 } from '../../src/services/Glicko2';
+
+describe('Glicko2', () => {
+  let glicko: Glicko2;
+
+  beforeEach(() => {
+    glicko = new Glicko2(0.5);
+  });
+
+  it("should reproduce Glickman's worked example", () => {
+    const updated = glicko.rate({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { opponentRating: 1400, opponentDeviation: 30, score: 1 },
+      { opponentRating: 1550, opponentDeviation: 100, score: 0 },
+      { opponentRating: 1700, opponentDeviation: 300, score: 0 }
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.deviation).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('should raise the rating of an upset winner more than that of a favourite', () => {
+    const underdog = glicko.rate({ rating: 1400, deviation: 100, volatility: 0.06 }, [
+      { opponentRating: 1600, opponentDeviation: 100, score: 1 }
+    ]);
+    const favourite = glicko.rate({ rating: 1600, deviation: 100, volatility: 0.06 }, [
+      { opponentRating: 1400, opponentDeviation: 100, score: 1 }
+    ]);
+
+    expect(underdog.rating - 1400).toBeGreaterThan(favourite.rating - 1600);
+    expect(favourite.rating).toBeGreaterThan(1600);
+  });
+
+  it('should only grow the deviation of a player without results', () => {
+    const updated = glicko.rate({ rating: 1700, deviation: 50, volatility: 0.06 }, []);
+
+    expect(updated.rating).toBe(1700);
+    expect(updated.deviation).toBeGreaterThan(50);
+  });
+
+  it('should never let the deviation exceed the default', () => {
+    const updated = glicko.rate({ rating: 1500, deviation: 350, volatility: 0.06 }, []);
+
+    expect(updated.deviation).toBe(350);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Loot Roller Tests
+ * Unit tests for guaranteed drops, weighted rolls, level scaling and determinism
+ */
+
+import { LootRoller } from '../../src/services/LootRoller';
+import { createSeededRandom } from '../../src/utils/random';
+import { ItemRarity, ItemType, LootTable, LootTableEntry } from '../../src/types/loot.types';
+
+describe('LootRoller', () => {
+  let roller: LootRoller;
+
+  const entry = (itemId: string, overrides: Partial<LootTableEntry> = {}, rarity = ItemRarity.COMMON, maxStack = 1): LootTableEntry => ({
+    itemId,
+    item: {
+      id: itemId,
+      name: itemId,
+      description: '',
+      itemType: ItemType.MATERIAL,
+      rarity,
+      maxStack,
+      value: 10
+    },
+    weight: 10,
+    minQuantity: 1,
+    maxQuantity: 1,
+    guaranteed: false,
+    minLevel: 1,
+    ...overrides
+  });
+
+  const table = (entries: LootTableEntry[], overrides: Partial<LootTable> = {}): LootTable => ({
+    id: 'test_table',
+    name: 'Test Table',
+    rolls: 1,
+    dropChance: 1,
+    entries,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    roller = new LootRoller();
+  });
+
+  it('should always include guaranteed drops', () => {
+    const drops = roller.roll(table([entry('heart', { guaranteed: true, weight: 0 })], { rolls: 0 }), 10, () => 0.99);
+
+    expect(drops).toEqual([
+      { itemId: 'heart', name: 'heart', rarity: ItemRarity.COMMON, quantity: 1, itemLevel: 10, value: 10 }
+    ]);
+  });
+
+  it('should drop nothing when the drop chance fails', () => {
+    expect(roller.roll(table([entry('pelt')], { dropChance: 0.5 }), 1, () => 0.75)).toEqual([]);
+  });
+
+  it('should skip entries above the monster level', () => {
+    const drops = roller.roll(table([entry('blade', { minLevel: 40 }), entry('pelt')]), 10, () => 0);
+
+    expect(drops.map(drop => drop.itemId)).toEqual(['pelt']);
+  });
+
+  it('should make rarer entries likelier at higher levels', () => {
+    const common = entry('pelt');
+    const legendary = entry('blade', {}, ItemRarity.LEGENDARY);
+
+    expect(roller.getScaledWeight(common, 50)).toBe(10);
+    expect(roller.getScaledWeight(legendary, 1)).toBe(10);
+    expect(roller.getScaledWeight(legendary, 51)).toBe(50);
+  });
+
+  it('should scale stack sizes with level only for stackable items', () => {
+    const stackable = entry('shard', { minQuantity: 4, maxQuantity: 4 }, ItemRarity.COMMON, 50);
+    const unique = entry('blade', { minQuantity: 1, maxQuantity: 1 });
+
+    expect(roller.rollQuantity(stackable, 21, () => 0)).toBe(8);
+    expect(roller.rollQuantity(unique, 21, () => 0)).toBe(1);
+  });
+
+  it('should merge repeated drops of the same item', () => {
+    const drops = roller.roll(table([entry('pelt')], { rolls: 3 }), 1, () => 0);
+
+    expect(drops).toHaveLength(1);
+    expect(drops[0]).toMatchObject({ itemId: 'pelt', quantity: 3, value: 30 });
+  });
+
+  it('should roll the same loot from the same seed', () => {
+    const lootTable = table([
+      entry('pelt', { weight: 60 }),
+      entry('fang', { weight: 30 }),
+      entry('necklace', { weight: 10 }, ItemRarity.RARE)
+    ], { rolls: 3, dropChance: 0.7 });
+
+    const first = roller.roll(lootTable, 15, createSeededRandom('loot:seed'));
+    const second = roller.roll(lootTable, 15, createSeededRandom('loot:seed'));
+
+    expect(second).toEqual(first);
+  });
+});
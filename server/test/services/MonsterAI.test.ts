@@ -0,0 +1,215 @@
+/**
+ * Monster AI Tests
+ * Unit tests for the built-in monster behaviours and seeded determinism
+ */
+
+import { MonsterAI, BossPhasePolicy } from '../../src/services/MonsterAI';
+import { createSeededRandom } from '../../src/utils/random';
+import { Ability, AbilityTargeting } from '../../src/types/ability.types';
+import { MonsterAIBehavior, MonsterAIContext } from '../../src/types/monster.types';
+import {
+  ActionType,
+  CombatParticipant,
+  CombatSide,
+  ParticipantStatus,
+  ParticipantType,
+  StatusEffectType
+} from '../../src/types/combat.types';
+
+describe('MonsterAI', () => {
+  let ai: MonsterAI;
+
+  const participant = (
+    characterId: string,
+    side: CombatSide,
+    currentHp: number,
+    overrides: Partial<CombatParticipant> = {}
+  ): CombatParticipant => ({
+    id: characterId,
+    sessionId: 'session-1',
+    characterId,
+    participantType: side === CombatSide.ATTACKERS ? ParticipantType.PLAYER : ParticipantType.MONSTER,
+    side,
+    initiative: 10,
+    position: 0,
+    currentHp,
+    maxHp: 100,
+    currentMp: 100,
+    maxMp: 100,
+    status: ParticipantStatus.ALIVE,
+    statusEffects: [],
+    immunities: [],
+    actionCooldowns: {},
+    damageTaken: 0,
+    damageDealt: 0,
+    actionsUsed: 0,
+    consecutiveTimeouts: 0,
+    joinedAt: new Date(),
+    ...overrides
+  });
+
+  const ability = (id: string, overrides: Partial<Ability> = {}): Ability => ({
+    id,
+    name: id,
+    description: '',
+    actionType: ActionType.SPELL,
+    targeting: AbilityTargeting.SINGLE,
+    manaCost: 10,
+    cooldownMs: 0,
+    basePower: 20,
+    scaling: {},
+    requiredAffinityTier: 1,
+    statusEffects: [],
+    isActive: true,
+    ...overrides
+  });
+
+  const context = (overrides: Partial<MonsterAIContext> = {}): MonsterAIContext => {
+    const self = overrides.self || participant('monster', CombatSide.DEFENDERS, 100);
+    return {
+      self,
+      allies: [self],
+      enemies: [
+        participant('player-a', CombatSide.ATTACKERS, 80),
+        participant('player-b', CombatSide.ATTACKERS, 30)
+      ],
+      abilities: [],
+      turnNumber: 1,
+      random: () => 0.99,
+      ...overrides
+    };
+  };
+
+  beforeEach(() => {
+    ai = new MonsterAI();
+  });
+
+  describe('Aggressive', () => {
+    it('should attack the weakest enemy', () => {
+      expect(ai.decide(MonsterAIBehavior.AGGRESSIVE, context())).toEqual({
+        actionType: ActionType.ATTACK,
+        actionName: 'attack',
+        targetId: 'player-b'
+      });
+    });
+
+    it('should go after whoever holds the most threat', () => {
+      const decision = ai.decide(MonsterAIBehavior.AGGRESSIVE, context({
+        self: participant('monster', CombatSide.DEFENDERS, 100, { threat: { 'player-a': 120, 'player-b': 40 } })
+      }));
+
+      expect(decision.targetId).toBe('player-a');
+    });
+
+    it('should prefer enemies without a shield', () => {
+      const shielded = participant('player-b', CombatSide.ATTACKERS, 30, {
+        statusEffects: [{
+          name: 'shield', type: StatusEffectType.SHIELD, duration: 3, value: 50, stacks: 1,
+          appliedAt: new Date(), appliedBy: 'player-b'
+        }]
+      });
+
+      const decision = ai.decide(MonsterAIBehavior.AGGRESSIVE, context({
+        enemies: [participant('player-a', CombatSide.ATTACKERS, 80), shielded]
+      }));
+
+      expect(decision.targetId).toBe('player-a');
+    });
+
+    it('should skip abilities whose effects the target is immune to', () => {
+      const decision = ai.decide(MonsterAIBehavior.AGGRESSIVE, context({
+        enemies: [participant('player-a', CombatSide.ATTACKERS, 50, { immunities: [StatusEffectType.POISON] })],
+        abilities: [ability('poison', { statusEffects: [{ type: StatusEffectType.POISON, chance: 1 }] })],
+        random: () => 0
+      }));
+
+      expect(decision.actionType).toBe(ActionType.ATTACK);
+    });
+
+    it('should fall back to aggressive for unknown behaviours', () => {
+      expect(ai.decide('cowardly', context()).actionType).toBe(ActionType.ATTACK);
+    });
+  });
+
+  describe('Defensive', () => {
+    it('should heal the most wounded ally', () => {
+      const self = participant('shaman', CombatSide.DEFENDERS, 90);
+      const decision = ai.decide(MonsterAIBehavior.DEFENSIVE, context({
+        self,
+        allies: [self, participant('golem', CombatSide.DEFENDERS, 20)],
+        abilities: [ability('heal', { actionType: ActionType.HEAL })]
+      }));
+
+      expect(decision).toEqual({
+        actionType: ActionType.HEAL,
+        actionName: 'heal',
+        spellId: 'heal',
+        targetId: 'golem'
+      });
+    });
+
+    it('should defend itself when low and unable to heal', () => {
+      const self = participant('golem', CombatSide.DEFENDERS, 10);
+      const decision = ai.decide(MonsterAIBehavior.DEFENSIVE, context({ self, allies: [self] }));
+
+      expect(decision.actionType).toBe(ActionType.DEFEND);
+    });
+  });
+
+  describe('Boss', () => {
+    const abilities = [
+      ability('freeze', { basePower: 30 }),
+      ability('chain_lightning', { targeting: AbilityTargeting.ALL_ENEMIES, basePower: 50 })
+    ];
+
+    it('should move through phases as its HP drops', () => {
+      const policy = new BossPhasePolicy();
+
+      expect(policy.getPhase(participant('wyrm', CombatSide.DEFENDERS, 100))).toBe(1);
+      expect(policy.getPhase(participant('wyrm', CombatSide.DEFENDERS, 50))).toBe(2);
+      expect(policy.getPhase(participant('wyrm', CombatSide.DEFENDERS, 20))).toBe(3);
+    });
+
+    it('should use area abilities in the second phase', () => {
+      const decision = ai.decide(MonsterAIBehavior.BOSS, context({
+        self: participant('wyrm', CombatSide.DEFENDERS, 50),
+        abilities
+      }));
+
+      expect(decision).toEqual({
+        actionType: ActionType.SPELL,
+        actionName: 'chain_lightning',
+        spellId: 'chain_lightning'
+      });
+    });
+
+    it('should cast the ability its encounter script calls for', () => {
+      const decision = ai.decide(MonsterAIBehavior.BOSS, context({
+        self: participant('wyrm', CombatSide.DEFENDERS, 50, { bossPhase: 1 }),
+        abilities,
+        scriptedAbilityId: 'freeze'
+      }));
+
+      expect(decision).toEqual({
+        actionType: ActionType.SPELL,
+        actionName: 'freeze',
+        spellId: 'freeze',
+        targetId: 'player-b'
+      });
+    });
+  });
+
+  describe('Determinism', () => {
+    it('should make the same decisions from the same seed', () => {
+      const decide = (seed: string) => {
+        const random = createSeededRandom(seed);
+        return Array.from({ length: 10 }, () => ai.decide(MonsterAIBehavior.AGGRESSIVE, context({
+          abilities: [ability('fireball'), ability('chain_lightning', { targeting: AbilityTargeting.ALL_ENEMIES })],
+          random
+        })));
+      };
+
+      expect(decide('session-1:1:0')).toEqual(decide('session-1:1:0'));
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Monster Service Tests
+ * Unit tests for spawn table selection, level scaling and encounter generation
+ */
+
+import { MonsterService } from '../../src/services/MonsterService';
+import { MonsterAIBehavior, MonsterTemplate, ZoneSpawnEntry } from '../../src/types/monster.types';
+import { CombatSide, ParticipantType } from '../../src/types/combat.types';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('MonsterService', () => {
+  let mockDb: any;
+  let mockCache: any;
+  let service: MonsterService;
+
+  const template: MonsterTemplate = {
+    id: 'forest_wolf',
+    name: 'Shadow Wolf',
+    description: '',
+    participantType: ParticipantType.MONSTER,
+    baseLevel: 10,
+    stats: { level: 10, hp: 100, mp: 0, strength: 20, vitality: 10, dexterity: 25, intelligence: 5, wisdom: 5 },
+    abilities: [],
+    experience: 80,
+    gold: 20,
+    immunities: [],
+    resistances: {},
+    aiBehavior: MonsterAIBehavior.AGGRESSIVE
+  };
+
+  const entries: ZoneSpawnEntry[] = [
+    { id: 's1', zoneId: 'zone-1', templateId: 'forest_wolf', weight: 60, levelRange: [10, 25], maxGroupSize: 3 },
+    { id: 's2', zoneId: 'zone-1', templateId: 'forest_bandit', weight: 40, levelRange: [12, 25], maxGroupSize: 2 }
+  ];
+
+  beforeEach(() => {
+    mockDb = { query: jest.fn() };
+    mockCache = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue(undefined)
+    };
+    service = new MonsterService(mockDb, mockCache);
+  });
+
+  describe('Spawn selection', () => {
+    it('should only pick entries whose level range covers the party level', () => {
+      expect(service.selectSpawn(entries, 11, () => 0.99)?.templateId).toBe('forest_wolf');
+    });
+
+    it('should pick entries by weight', () => {
+      expect(service.selectSpawn(entries, 15, () => 0.5)?.templateId).toBe('forest_wolf');
+      expect(service.selectSpawn(entries, 15, () => 0.7)?.templateId).toBe('forest_bandit');
+    });
+
+    it('should return null when nothing fits the party level', () => {
+      expect(service.selectSpawn(entries, 5)).toBeNull();
+    });
+  });
+
+  describe('Scaling', () => {
+    it('should scale stats and rewards from the base level', () => {
+      const stats = service.scaleStats(template, 15);
+
+      expect(stats.level).toBe(15);
+      expect(stats.hp).toBe(140);
+      expect(stats.mp).toBe(0);
+      expect(service.calculateRewards(template, 15)).toEqual({ experience: 120, gold: 30 });
+    });
+
+    it('should not scale below the minimum multiplier', () => {
+      expect(service.scaleStats(template, 1).hp).toBe(50);
+    });
+  });
+
+  describe('Encounter generation', () => {
+    it('should build a monster group at the party level', async () => {
+      mockCache.get
+        .mockResolvedValueOnce(entries)
+        .mockResolvedValueOnce(template);
+
+      const rolls = [0.1, 0.99];
+      const monsters = await service.generateEncounter('zone-1', 20, () => rolls.shift() ?? 0);
+
+      expect(monsters).toHaveLength(3);
+      expect(monsters.every(monster => monster.level === 20)).toBe(true);
+      expect(new Set(monsters.map(monster => monster.instanceId)).size).toBe(3);
+    });
+
+    it('should turn generated monsters into defending participants', () => {
+      const participants = service.buildParticipants([service.createMonster(template, 12)], CombatSide.DEFENDERS, 1);
+
+      expect(participants[0]).toMatchObject({
+        participantType: ParticipantType.MONSTER,
+        side: CombatSide.DEFENDERS,
+        position: 1,
+        monsterTemplateId: 'forest_wolf',
+        monsterLevel: 12
+      });
+    });
+
+    it('should not spawn anything in safe zones', async () => {
+      const zone: any = { id: 'zone-1', safeZone: true, monsterSpawnRate: 1 };
+
+      expect(await service.rollEncounter(zone, 15, () => 0)).toEqual([]);
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+  });
+});
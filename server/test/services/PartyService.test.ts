@@ -0,0 +1,97 @@
+/**
+ * Party Service Tests
+ * Unit tests for forming parties by invitation, joining and leaving them
+ */
+
+import { PartyService } from '../../src/services/PartyService';
+import { PartyErrorCode } from '../../src/types/party.types';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('PartyService', () => {
+  let mockDb: any;
+  let mockClient: any;
+  let mockRealtime: any;
+  let service: PartyService;
+
+  const partyRow = (leaderId: string, memberIds: string[]) => ({
+    id: 'party-1',
+    leader_id: leaderId,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    member_ids: memberIds
+  });
+
+  beforeEach(() => {
+    mockClient = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+    mockDb = { query: jest.fn().mockResolvedValue({ rows: [] }), connect: jest.fn().mockResolvedValue(mockClient) };
+    mockRealtime = { broadcastToCharacter: jest.fn() };
+    service = new PartyService(mockDb, mockRealtime);
+  });
+
+  it('should form a party on the first invite and tell the invited character', async () => {
+    mockClient.query.mockImplementation(async (sql: string) =>
+      sql.includes('INSERT INTO parties') ? { rows: [partyRow('leader', [])] } : { rows: [] }
+    );
+
+    const result = await service.invite('leader', 'friend');
+
+    expect(result).toMatchObject({ success: true, party: { id: 'party-1', leaderId: 'leader', memberIds: ['leader'] } });
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO party_members'), ['leader', 'party-1']);
+    expect(mockDb.query).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO party_invites'), ['party-1', 'friend', expect.any(Date)]);
+    expect(mockRealtime.broadcastToCharacter).toHaveBeenCalledWith('friend', 'party:invite', expect.objectContaining({ partyId: 'party-1' }));
+  });
+
+  it('should only let the leader invite, and only characters without a party', async () => {
+    mockDb.query.mockResolvedValueOnce({ rows: [partyRow('leader', ['leader', 'member'])] });
+    expect(await service.invite('member', 'friend')).toMatchObject({ success: false, error: PartyErrorCode.NOT_PARTY_LEADER });
+
+    mockDb.query
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [partyRow('other', ['other', 'friend'])] });
+    expect(await service.invite('leader', 'friend')).toMatchObject({ success: false, error: PartyErrorCode.ALREADY_IN_PARTY });
+    expect(mockDb.connect).not.toHaveBeenCalled();
+  });
+
+  it('should turn away expired invites', async () => {
+    mockDb.query.mockResolvedValueOnce({ rows: [{ expires_at: new Date(Date.now() - 1000) }] });
+
+    const result = await service.accept('party-1', 'friend');
+
+    expect(result).toMatchObject({ success: false, error: PartyErrorCode.INVITE_NOT_FOUND });
+    expect(mockDb.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add the character to the party and tell every member', async () => {
+    mockDb.query
+      .mockResolvedValueOnce({ rows: [{ expires_at: new Date(Date.now() + 60000) }] })
+      .mockResolvedValueOnce({ rows: [{ party_id: 'party-1' }] })
+      .mockResolvedValueOnce({ rows: [partyRow('leader', ['leader', 'friend'])] });
+
+    const result = await service.accept('party-1', 'friend');
+
+    expect(result).toMatchObject({ success: true, party: { memberIds: ['leader', 'friend'] } });
+    expect(mockRealtime.broadcastToCharacter).toHaveBeenCalledWith('leader', 'party:joined', expect.objectContaining({ characterId: 'friend' }));
+    expect(mockRealtime.broadcastToCharacter).toHaveBeenCalledWith('friend', 'party:joined', expect.anything());
+  });
+
+  it('should disband the party when its leader leaves', async () => {
+    mockDb.query.mockResolvedValueOnce({ rows: [partyRow('leader', ['leader', 'friend', 'third'])] });
+
+    const result = await service.leave('leader');
+
+    expect(result).toMatchObject({ success: true, message: 'Party disbanded' });
+    expect(mockDb.query).toHaveBeenLastCalledWith('DELETE FROM parties WHERE id = $1', ['party-1']);
+    expect(mockRealtime.broadcastToCharacter).toHaveBeenCalledWith('third', 'party:left', expect.objectContaining({ party: null }));
+  });
+
+  it('should keep the party together when another member leaves', async () => {
+    mockDb.query.mockResolvedValueOnce({ rows: [partyRow('leader', ['leader', 'friend', 'third'])] });
+
+    const result = await service.leave('third');
+
+    expect(result).toMatchObject({ success: true, message: 'Left the party' });
+    expect(mockDb.query).toHaveBeenLastCalledWith('DELETE FROM party_members WHERE character_id = $1', ['third']);
+  });
+});
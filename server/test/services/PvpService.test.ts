@@ -0,0 +1,93 @@
+/**
+ * PVP Service Tests
+ * Unit tests for zone PVP rules and recording duel and PVP results
+ */
+
+import { PvpService } from '../../src/services/PvpService';
+import {
+  CombatErrorCode,
+  CombatParticipant,
+  CombatSide,
+  CombatType,
+  ParticipantStatus,
+  ParticipantType
+} from '../../src/types/combat.types';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('PvpService', () => {
+  let service: PvpService;
+
+  const participant = (characterId: string, side: CombatSide, overrides: Partial<CombatParticipant> = {}) => ({
+    characterId,
+    side,
+    participantType: ParticipantType.PLAYER,
+    status: ParticipantStatus.ALIVE,
+    ...overrides
+  }) as CombatParticipant;
+
+  beforeEach(() => {
+    service = new PvpService({} as any);
+  });
+
+  describe('checkZoneRules', () => {
+    it('should reject any player fight in a safe zone', () => {
+      const zone = { pvpEnabled: true, safeZone: true };
+
+      expect(service.checkZoneRules(zone, CombatType.PVP)?.error).toBe(CombatErrorCode.SAFE_ZONE);
+      expect(service.checkZoneRules(zone, CombatType.DUEL)?.error).toBe(CombatErrorCode.SAFE_ZONE);
+    });
+
+    it('should reject open-world PVP where it is disabled', () => {
+      const zone = { pvpEnabled: false, safeZone: false };
+
+      expect(service.checkZoneRules(zone, CombatType.PVP)?.error).toBe(CombatErrorCode.PVP_DISABLED);
+    });
+
+    it('should allow consensual duels outside safe zones', () => {
+      expect(service.checkZoneRules({ pvpEnabled: false, safeZone: false }, CombatType.DUEL)).toBeNull();
+      expect(service.checkZoneRules({ pvpEnabled: true, safeZone: false }, CombatType.PVP)).toBeNull();
+    });
+  });
+
+  describe('recordResult', () => {
+    it('should record a win for the winning side and a loss for everyone else', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      await service.recordResult(client as any, CombatType.DUEL, [
+        participant('winner', CombatSide.ATTACKERS),
+        participant('loser', CombatSide.DEFENDERS, { status: ParticipantStatus.INCAPACITATED })
+      ], 'winner');
+
+      expect(client.query).toHaveBeenCalledTimes(2);
+      expect(client.query.mock.calls[0][0]).toContain('duel_wins');
+      expect(client.query.mock.calls[0][1]).toEqual(['winner']);
+      expect(client.query.mock.calls[1][0]).toContain('duel_losses');
+      expect(client.query.mock.calls[1][1]).toEqual(['loser']);
+    });
+
+    it('should count fleeing from open-world PVP as a loss and skip monsters', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      await service.recordResult(client as any, CombatType.PVP, [
+        participant('winner', CombatSide.ATTACKERS),
+        participant('runner', CombatSide.ATTACKERS, { status: ParticipantStatus.FLED }),
+        participant('wolf', CombatSide.DEFENDERS, { monsterTemplateId: 'wolf' })
+      ], 'winner');
+
+      expect(client.query).toHaveBeenCalledTimes(2);
+      expect(client.query.mock.calls[1][0]).toContain('pvp_losses');
+      expect(client.query.mock.calls[1][1]).toEqual(['runner']);
+    });
+
+    it('should ignore fights that are not duels or PVP', async () => {
+      const client = { query: jest.fn() };
+
+      await service.recordResult(client as any, CombatType.PVE, [participant('winner', CombatSide.ATTACKERS)], 'winner');
+
+      expect(client.query).not.toHaveBeenCalled();
+    });
+  });
+});
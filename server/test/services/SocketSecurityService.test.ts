@@ -0,0 +1,114 @@
+/**
+ * Socket Security Service Tests
+ * Unit tests for combat action anti-cheat validation and escalation
+ */
+
+import { SocketSecurityService, CombatActionValidation } from '../../src/sockets/security';
+import { SocketWithAuth } from '../../src/sockets/middleware/auth';
+import { CombatErrorCode, CombatValidation } from '../../src/types/combat.types';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('SocketSecurityService', () => {
+  let security: SocketSecurityService;
+  let clock: number;
+  let nextId: number;
+
+  const socket = { id: 'socket-1', userId: 'user-1' } as unknown as SocketWithAuth;
+  const allowed: CombatValidation = { canAct: true };
+
+  const action = (overrides: Partial<CombatActionValidation> = {}): CombatActionValidation => {
+    clock += 1000;
+    return {
+      action: 'attack',
+      targetId: 'wolf',
+      timestamp: clock,
+      characterId: 'hero',
+      userId: 'user-1',
+      sessionId: 'session-1',
+      actionId: `action-${nextId++}`,
+      ...overrides
+    };
+  };
+
+  beforeEach(() => {
+    security = new SocketSecurityService();
+    clock = 1_000_000;
+    nextId = 1;
+  });
+
+  it('should allow actions the combat engine accepts', () => {
+    expect(security.validateCombatAction(socket, action(), allowed)).toEqual({ isValid: true });
+    expect(security.validateCombatAction(socket, action(), allowed)).toEqual({ isValid: true });
+    expect(security.getSuspiciousActivityCount('user-1')).toBe(0);
+  });
+
+  it('should reject replayed action IDs and impossible action rates', () => {
+    const first = action();
+    security.validateCombatAction(socket, first, allowed);
+
+    expect(security.validateCombatAction(socket, { ...first, timestamp: clock + 5000 }, allowed))
+      .toMatchObject({ isValid: false, severity: 'high', action: 'disconnect' });
+    expect(security.validateCombatAction(socket, action({ timestamp: clock + 10 }), allowed))
+      .toMatchObject({ isValid: false, severity: 'medium', action: 'warn' });
+  });
+
+  it('should turn engine refusals an honest client never sends into violations', () => {
+    expect(security.validateCombatAction(socket, action(), { canAct: false, errorCode: CombatErrorCode.NOT_YOUR_TURN }))
+      .toMatchObject({ isValid: false, severity: 'low', reason: 'Acted out of turn' });
+    expect(security.validateCombatAction(socket, action(), { canAct: false, errorCode: CombatErrorCode.INVALID_TARGET }))
+      .toMatchObject({ isValid: false, severity: 'low', reason: 'Target not in session: wolf' });
+    expect(security.validateCombatAction(socket, action(), {
+      canAct: false,
+      errorCode: CombatErrorCode.ACTION_ON_COOLDOWN,
+      cooldownRemaining: 2
+    })).toMatchObject({ isValid: false, severity: 'low', action: 'warn' });
+    expect(security.validateCombatAction(socket, action(), {
+      canAct: false,
+      errorCode: CombatErrorCode.INSUFFICIENT_MP,
+      requiredMp: 30
+    })).toMatchObject({ isValid: false, severity: 'medium', reason: 'Insufficient MP for attack: 30 required' });
+
+    // Ordinary game errors are left to the combat engine
+    expect(security.validateCombatAction(socket, action(), { canAct: false, errorCode: CombatErrorCode.TARGET_DEAD }))
+      .toEqual({ isValid: true });
+  });
+
+  it('should escalate repeated violations to disconnect and then ban', () => {
+    const insufficientMp: CombatValidation = { canAct: false, errorCode: CombatErrorCode.INSUFFICIENT_MP, requiredMp: 30 };
+    const actions = Array.from({ length: 10 }, () =>
+      security.validateCombatAction(socket, action(), insufficientMp).action
+    );
+
+    expect(actions.slice(0, 4)).toEqual(['warn', 'warn', 'warn', 'warn']);
+    expect(actions.slice(4, 9)).toEqual(Array(5).fill('disconnect'));
+    expect(actions[9]).toBe('ban');
+  });
+
+  it('should never escalate lag races or count them toward a ban', () => {
+    const lagRaces: CombatValidation[] = [
+      { canAct: false, errorCode: CombatErrorCode.NOT_YOUR_TURN },
+      { canAct: false, errorCode: CombatErrorCode.INVALID_TARGET },
+      { canAct: false, errorCode: CombatErrorCode.ACTION_ON_COOLDOWN, cooldownRemaining: 1 }
+    ];
+    for (let i = 0; i < 30; i++) {
+      expect(security.validateCombatAction(socket, action(), lagRaces[i % 3]!).action).toBe('warn');
+    }
+    expect(security.getSuspiciousActivityCount('user-1')).toBe(0);
+
+    const insufficientMp: CombatValidation = { canAct: false, errorCode: CombatErrorCode.INSUFFICIENT_MP, requiredMp: 30 };
+    expect(security.validateCombatAction(socket, action(), insufficientMp).action).toBe('warn');
+  });
+
+  it('should forget old violations', () => {
+    const insufficientMp: CombatValidation = { canAct: false, errorCode: CombatErrorCode.INSUFFICIENT_MP, requiredMp: 30 };
+    for (let i = 0; i < 4; i++) {
+      security.validateCombatAction(socket, action(), insufficientMp);
+    }
+
+    clock += 600000;
+    expect(security.validateCombatAction(socket, action(), insufficientMp).action).toBe('warn');
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Status Effect Engine Tests
+ * Unit tests for applying, stacking, ticking and expiring combat status effects
+ */
+
+import { StatusEffectEngine } from '../../src/services/StatusEffectEngine';
+import {
+  CombatParticipant,
+  CombatSide,
+  DamageType,
+  ParticipantType,
+  ParticipantStatus,
+  StatusEffectType,
+  COMBAT_CONSTANTS
+} from '../../src/types/combat.types';
+
+describe('StatusEffectEngine', () => {
+  let engine: StatusEffectEngine;
+
+  const createParticipant = (overrides: Partial<CombatParticipant> = {}): CombatParticipant => ({
+    id: 'p-1',
+    sessionId: 'session-1',
+    characterId: 'char-1',
+    participantType: ParticipantType.PLAYER,
+    side: CombatSide.ATTACKERS,
+    position: 0,
+    initiative: 100,
+    currentHp: 100,
+    maxHp: 100,
+    currentMp: 50,
+    maxMp: 50,
+    statusEffects: [],
+    immunities: [],
+    actionCooldowns: {},
+    status: ParticipantStatus.ALIVE,
+    damageDealt: 0,
+    damageTaken: 0,
+    actionsUsed: 0,
+    consecutiveTimeouts: 0,
+    joinedAt: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    engine = new StatusEffectEngine();
+  });
+
+  describe('Applying effects', () => {
+    it('should stack poison up to the maximum number of stacks', () => {
+      const target = createParticipant();
+
+      for (let i = 0; i < 7; i++) {
+        engine.applyEffect(target, engine.createEffect(StatusEffectType.POISON, 'char-2', target, 50));
+      }
+
+      expect(target.statusEffects).toHaveLength(1);
+      expect(target.statusEffects[0]?.stacks).toBe(5);
+      expect(target.statusEffects[0]?.value).toBe(25);
+    });
+
+    it('should refresh the duration of a refreshing effect', () => {
+      const target = createParticipant();
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.BURN, 'char-2', target, 40));
+      target.statusEffects[0]!.duration = 1;
+
+      const result = engine.applyEffect(target, engine.createEffect(StatusEffectType.BURN, 'char-3', target, 40));
+
+      expect(result.applied).toBe(true);
+      expect(target.statusEffects).toHaveLength(1);
+      expect(target.statusEffects[0]?.duration).toBeGreaterThan(1);
+      expect(target.statusEffects[0]?.appliedBy).toBe('char-3');
+    });
+
+    it('should not chain crowd control effects', () => {
+      const target = createParticipant();
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.STUN, 'char-2', target));
+
+      const result = engine.applyEffect(target, engine.createEffect(StatusEffectType.STUN, 'char-2', target));
+
+      expect(result).toEqual({ applied: false, reason: 'already_active' });
+    });
+
+    it('should cancel opposing effects', () => {
+      const target = createParticipant();
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.HASTE, 'char-1', target));
+
+      const result = engine.applyEffect(target, engine.createEffect(StatusEffectType.SLOW, 'char-2', target));
+
+      expect(result).toEqual({ applied: false, reason: 'cancelled', removed: [StatusEffectType.HASTE] });
+      expect(target.statusEffects).toHaveLength(0);
+    });
+
+    it('should respect participant and participant type immunities', () => {
+      const boss = createParticipant({ participantType: ParticipantType.BOSS });
+      const warded = createParticipant({ immunities: [StatusEffectType.POISON] });
+
+      expect(engine.applyEffect(boss, engine.createEffect(StatusEffectType.STUN, 'char-2', boss)).reason).toBe('immune');
+      expect(engine.applyEffect(warded, engine.createEffect(StatusEffectType.POISON, 'char-2', warded, 10)).reason).toBe('immune');
+    });
+  });
+
+  describe('Ticking', () => {
+    it('should deal damage over time and expire finished effects', () => {
+      const target = createParticipant();
+      target.statusEffects.push({
+        name: 'poison', type: StatusEffectType.POISON, duration: 1, value: 8, appliedAt: new Date(), appliedBy: 'char-2'
+      });
+
+      const result = engine.tick(target);
+
+      expect(target.currentHp).toBe(92);
+      expect(target.damageTaken).toBe(8);
+      expect(target.statusEffects).toHaveLength(0);
+      expect(result.ticks[0]).toMatchObject({ damage: 8, expired: true, appliedBy: 'char-2' });
+    });
+
+    it('should heal over time without exceeding max HP', () => {
+      const target = createParticipant({ currentHp: 97 });
+      target.statusEffects.push({
+        name: 'regeneration', type: StatusEffectType.REGENERATION, duration: 3, value: 5, appliedAt: new Date(), appliedBy: 'char-1'
+      });
+
+      const result = engine.tick(target);
+
+      expect(target.currentHp).toBe(100);
+      expect(result.ticks[0]?.healing).toBe(3);
+      expect(target.statusEffects[0]?.duration).toBe(2);
+    });
+
+    it('should skip the turn of a stunned participant', () => {
+      const target = createParticipant();
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.STUN, 'char-2', target));
+
+      expect(engine.tick(target).skipTurn).toBe(true);
+    });
+
+    it('should mark a participant killed by damage over time as dead', () => {
+      const target = createParticipant({ currentHp: 3 });
+      target.statusEffects.push({
+        name: 'burn', type: StatusEffectType.BURN, duration: 2, value: 10, appliedAt: new Date(), appliedBy: 'char-2'
+      });
+
+      const result = engine.tick(target);
+
+      expect(result).toMatchObject({ died: true, skipTurn: false });
+      expect(target.currentHp).toBe(0);
+      expect(target.status).toBe(ParticipantStatus.DEAD);
+    });
+
+    it('should stop damage over time at the defeat threshold in a duel', () => {
+      const target = createParticipant({ currentHp: 3 });
+      target.statusEffects.push({
+        name: 'burn', type: StatusEffectType.BURN, duration: 2, value: 10, appliedAt: new Date(), appliedBy: 'char-2'
+      });
+
+      const result = engine.tick(target, 1);
+
+      expect(result.died).toBe(true);
+      expect(result.ticks[0]?.damage).toBe(2);
+      expect(target.currentHp).toBe(1);
+      expect(target.status).toBe(ParticipantStatus.INCAPACITATED);
+    });
+  });
+
+  describe('Modifiers', () => {
+    it('should absorb damage with a shield until it breaks', () => {
+      const target = createParticipant();
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.SHIELD, 'char-1', target));
+
+      expect(engine.absorbDamage(target, 10)).toEqual({ damage: 0, absorbed: 10 });
+      expect(engine.absorbDamage(target, 30)).toEqual({ damage: 15, absorbed: 15 });
+      expect(target.statusEffects).toHaveLength(0);
+    });
+
+    it('should adjust initiative for haste and slow', () => {
+      const hasted = createParticipant();
+      const slowed = createParticipant();
+      engine.applyEffect(hasted, engine.createEffect(StatusEffectType.HASTE, 'char-1', hasted));
+      engine.applyEffect(slowed, engine.createEffect(StatusEffectType.SLOW, 'char-2', slowed));
+
+      expect(engine.getEffectiveInitiative(hasted)).toBe(130);
+      expect(engine.getEffectiveInitiative(slowed)).toBe(70);
+    });
+
+    it('should raise resistances with a shield and lower them with weakness', () => {
+      const target = createParticipant({ resistances: { [DamageType.FIRE]: 0.3, [DamageType.HOLY]: -0.2 } });
+
+      expect(engine.getResistance(target, DamageType.FIRE)).toBe(0.3);
+      expect(engine.getResistance(target, DamageType.FROST)).toBe(0);
+
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.SHIELD, 'char-1', target));
+      expect(engine.getResistance(target, DamageType.FIRE)).toBe(0.4);
+
+      target.statusEffects = [];
+      engine.applyEffect(target, engine.createEffect(StatusEffectType.WEAKNESS, 'char-1', target));
+      expect(engine.getResistance(target, DamageType.HOLY)).toBe(-0.3);
+    });
+
+    it('should clamp resistances between the vulnerability floor and the cap', () => {
+      const target = createParticipant({ resistances: { [DamageType.FROST]: 0.9, [DamageType.FIRE]: -0.8 } });
+
+      expect(engine.getResistance(target, DamageType.FROST)).toBe(COMBAT_CONSTANTS.MAX_RESISTANCE);
+      expect(engine.getResistance(target, DamageType.FIRE)).toBe(COMBAT_CONSTANTS.MIN_RESISTANCE);
+    });
+  });
+});
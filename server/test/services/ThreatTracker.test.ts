@@ -0,0 +1,130 @@
+/**
+ * Threat Tracker Tests
+ * Unit tests for threat from damage, healing and taunts, decay and the client view
+ */
+
+import { ThreatTracker } from '../../src/services/ThreatTracker';
+import {
+  ActionType,
+  CombatAction,
+  CombatParticipant,
+  CombatSide,
+  ParticipantStatus,
+  ParticipantType
+} from '../../src/types/combat.types';
+
+describe('ThreatTracker', () => {
+  let tracker: ThreatTracker;
+
+  const participant = (characterId: string, side: CombatSide, overrides: Partial<CombatParticipant> = {}): CombatParticipant => ({
+    id: characterId,
+    sessionId: 'session-1',
+    characterId,
+    participantType: side === CombatSide.ATTACKERS ? ParticipantType.PLAYER : ParticipantType.MONSTER,
+    side,
+    initiative: 10,
+    position: 0,
+    currentHp: 100,
+    maxHp: 100,
+    currentMp: 100,
+    maxMp: 100,
+    status: ParticipantStatus.ALIVE,
+    statusEffects: [],
+    immunities: [],
+    actionCooldowns: {},
+    damageTaken: 0,
+    damageDealt: 0,
+    actionsUsed: 0,
+    consecutiveTimeouts: 0,
+    ...(side === CombatSide.DEFENDERS && { monsterTemplateId: 'wolf', threat: {} }),
+    joinedAt: new Date(),
+    ...overrides
+  });
+
+  const action = (actorId: string, overrides: Partial<CombatAction> = {}): CombatAction => ({
+    id: 'action-1',
+    sessionId: 'session-1',
+    actorId,
+    actionType: ActionType.ATTACK,
+    actionName: 'attack',
+    damage: 0,
+    healing: 0,
+    mpCost: 0,
+    isCritical: false,
+    isBlocked: false,
+    isMissed: false,
+    description: '',
+    turnNumber: 1,
+    createdAt: new Date(),
+    ...overrides
+  });
+
+  const tank = participant('tank', CombatSide.ATTACKERS);
+  const healer = participant('healer', CombatSide.ATTACKERS);
+
+  beforeEach(() => {
+    tracker = new ThreatTracker();
+  });
+
+  describe('applyAction', () => {
+    it('should add damage dealt to the threat of the monster hit', () => {
+      const wolf = participant('wolf', CombatSide.DEFENDERS, { threat: { tank: 10 } });
+      const tables = tracker.applyAction([tank, wolf], action('tank', { targetId: 'wolf', damage: 25 }));
+
+      expect(tables.get('wolf')).toEqual({ tank: 35 });
+    });
+
+    it('should spread healing threat over every hostile monster', () => {
+      const wolves = [participant('wolf-a', CombatSide.DEFENDERS), participant('wolf-b', CombatSide.DEFENDERS)];
+      const tables = tracker.applyAction(
+        [healer, tank, ...wolves],
+        action('healer', { actionType: ActionType.SPELL, targetId: 'tank', healing: 40 })
+      );
+
+      expect(tables.get('wolf-a')).toEqual({ healer: 10 });
+      expect(tables.get('wolf-b')).toEqual({ healer: 10 });
+    });
+
+    it('should put a taunter ahead of the current top threat', () => {
+      const wolf = participant('wolf', CombatSide.DEFENDERS, { threat: { healer: 300, tank: 20 } });
+      const tables = tracker.applyAction(
+        [tank, healer, wolf],
+        action('tank', { actionType: ActionType.SPECIAL, targetId: 'wolf' }),
+        true
+      );
+
+      expect(tables.get('wolf')).toEqual({ healer: 300, tank: 350 });
+    });
+
+    it('should ignore actions taken by monsters', () => {
+      const wolf = participant('wolf', CombatSide.DEFENDERS);
+
+      expect(tracker.applyAction([tank, wolf], action('wolf', { targetId: 'tank', damage: 30 })).size).toBe(0);
+    });
+  });
+
+  it('should decay threat every turn and forget negligible entries', () => {
+    expect(tracker.decay({ tank: 100, healer: 1 })).toEqual({ tank: 90 });
+  });
+
+  it('should pick the living enemy with the most threat', () => {
+    const wolf = participant('wolf', CombatSide.DEFENDERS, { threat: { tank: 50, healer: 80 } });
+    const downedHealer = participant('healer', CombatSide.ATTACKERS, { status: ParticipantStatus.DEAD });
+
+    expect(tracker.getTopThreat(wolf, [tank, healer])?.characterId).toBe('healer');
+    expect(tracker.getTopThreat(wolf, [tank, downedHealer])?.characterId).toBe('tank');
+    expect(tracker.getTopThreat(participant('wolf', CombatSide.DEFENDERS), [tank])).toBeUndefined();
+  });
+
+  it('should rank threat tables with each share of the top threat', () => {
+    const wolf = participant('wolf', CombatSide.DEFENDERS, { threat: { healer: 50, tank: 200 } });
+
+    expect(tracker.getThreatTables([tank, healer, wolf])).toEqual([{
+      monsterId: 'wolf',
+      entries: [
+        { characterId: 'tank', threat: 200, share: 1 },
+        { characterId: 'healer', threat: 50, share: 0.25 }
+      ]
+    }]);
+  });
+});
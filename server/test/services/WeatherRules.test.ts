@@ -0,0 +1,133 @@
+/**
+ * Weather Rules Tests
+ * Unit tests for the world clock, weather transitions and zone conditions
+ */
+
+import { WeatherRules } from '../../src/services/WeatherRules';
+import { Zone, ZoneExit } from '../../src/types/zone.types';
+import { WeatherRegion, WeatherState, WorldTime, WORLD_CONSTANTS } from '../../src/types/world.types';
+
+describe('WeatherRules', () => {
+  const rules = new WeatherRules();
+
+  const zone = (overrides: Partial<Zone> = {}): Zone => ({
+    id: 'meadow',
+    internalName: 'meadow_path',
+    displayName: 'Sunlit Meadow',
+    description: 'A serene meadow.',
+    zoneType: 'normal',
+    levelRange: [1, 15],
+    pvpEnabled: false,
+    safeZone: false,
+    climate: 'temperate',
+    terrain: 'plains',
+    lighting: 'bright',
+    region: 'heartlands',
+    features: {},
+    layer: 0,
+    monsterSpawnRate: 0.1,
+    ambientSounds: [],
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const region = (weather: WeatherState): WeatherRegion => ({
+    name: 'heartlands',
+    displayName: 'The Heartlands',
+    climate: 'temperate',
+    weather,
+    changedAt: new Date('2026-01-01T00:00:00Z'),
+    nextChangeAt: new Date('2026-01-01T01:00:00Z')
+  });
+
+  const at = (hour: number): WorldTime => ({ day: 1, hour, minute: 0, timeOfDay: rules.getTimeOfDay(hour) });
+
+  const hiddenExit = { exitType: 'hidden' } as ZoneExit;
+
+  it('should run a game day every GAME_DAY_MS from the clock epoch', () => {
+    const epoch = WORLD_CONSTANTS.CLOCK_EPOCH;
+    const hour = WORLD_CONSTANTS.GAME_DAY_MS / 24;
+
+    expect(rules.getWorldTime(new Date(epoch))).toEqual({ day: 1, hour: 0, minute: 0, timeOfDay: 'night' });
+    expect(rules.getWorldTime(new Date(epoch + 6.5 * hour))).toEqual({ day: 1, hour: 6, minute: 30, timeOfDay: 'dawn' });
+    expect(rules.getWorldTime(new Date(epoch + WORLD_CONSTANTS.GAME_DAY_MS + 19 * hour)))
+      .toEqual({ day: 2, hour: 19, minute: 0, timeOfDay: 'dusk' });
+    expect(rules.getTimeOfDay(12)).toBe('day');
+    expect(rules.getTimeOfDay(22)).toBe('night');
+  });
+
+  it('should only roll weather the climate allows', () => {
+    const rolls = Array.from({ length: 20 }, (_, i) => i / 20);
+
+    const temperate = new Set(rolls.map(roll => rules.rollNextWeather('clear', 'temperate', () => roll)));
+    expect([...temperate].sort()).toEqual(['clear', 'fog', 'rain']);
+
+    const arctic = new Set(rolls.map(roll => rules.rollNextWeather('clear', 'arctic', () => roll)));
+    expect([...arctic].sort()).toEqual(['clear', 'fog', 'snow']);
+
+    expect(rules.rollNextWeather('fog', 'desert', () => 0.99)).toBe('clear');
+    expect(rules.rollNextWeather('rain', 'underground', () => 0.5)).toBe('clear');
+  });
+
+  it('should keep weather within its duration range', () => {
+    expect(rules.rollDuration('storm', () => 0)).toBe(10 * 60000);
+    expect(rules.rollDuration('storm', () => 0.999)).toBe(25 * 60000);
+  });
+
+  it('should darken and chill outdoor zones with the weather and the night', () => {
+    expect(rules.getConditions(zone(), region('clear'), at(12))).toEqual({
+      weather: 'clear',
+      timeOfDay: 'day',
+      visibility: 'good',
+      lighting: 'bright',
+      temperature: 'moderate'
+    });
+    expect(rules.getConditions(zone(), region('rain'), at(22))).toEqual({
+      weather: 'rain',
+      timeOfDay: 'night',
+      visibility: 'poor',
+      lighting: 'dark',
+      temperature: 'cold'
+    });
+    expect(rules.getConditions(zone({ climate: 'arctic', features: { visibility: 'excellent' } }), region('snow'), at(6)))
+      .toMatchObject({ visibility: 'fair', lighting: 'dim', temperature: 'freezing' });
+  });
+
+  it('should keep lamplit zones lit after dark and leave covered zones as they are', () => {
+    expect(rules.getConditions(zone({ lighting: 'artificial' }), region('clear'), at(23)))
+      .toMatchObject({ visibility: 'good', lighting: 'artificial' });
+    expect(rules.getConditions(zone({ lighting: 'magical', climate: 'underground' }), null, at(23))).toEqual({
+      weather: null,
+      timeOfDay: 'night',
+      visibility: 'good',
+      lighting: 'magical',
+      temperature: 'cool'
+    });
+  });
+
+  it('should hide hidden exits unless visibility is good', () => {
+    const clearDay = rules.getConditions(zone(), region('clear'), at(12));
+    const foggyDay = rules.getConditions(zone(), region('fog'), at(12));
+    const clearNight = rules.getConditions(zone(), region('clear'), at(2));
+
+    expect(rules.canSeeExit(hiddenExit, clearDay)).toBe(true);
+    expect(rules.canSeeExit(hiddenExit, foggyDay)).toBe(false);
+    expect(rules.canSeeExit(hiddenExit, clearNight)).toBe(false);
+    expect(rules.canSeeExit({ exitType: 'normal' } as ZoneExit, foggyDay)).toBe(true);
+  });
+
+  it('should turn conditions into combat modifiers and ambient text', () => {
+    const storm = rules.getConditions(zone(), region('storm'), at(12));
+
+    expect(rules.getCombatModifiers(storm)).toEqual({
+      missChanceBonus: WORLD_CONSTANTS.VISIBILITY_MISS_CHANCE.poor,
+      damageMultipliers: { fire: 0.8, lightning: 1.25 }
+    });
+    expect(rules.getCombatModifiers(rules.getConditions(zone(), null, at(12))))
+      .toEqual({ missChanceBonus: 0, damageMultipliers: {} });
+
+    expect(rules.describe(storm)).toBe('It is broad daylight. A storm rages overhead, thunder rolling across the sky.');
+    expect(rules.describe(rules.getConditions(zone(), null, at(12)))).toBe('');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * World Map Validator Tests
+ * Unit tests for finding broken geography in the zone graph
+ */
+
+import { WorldMapValidator } from '../../src/services/WorldMapValidator';
+import { Direction, Zone, ZoneExit } from '../../src/types/zone.types';
+
+describe('WorldMapValidator', () => {
+  const validator = new WorldMapValidator();
+
+  const zone = (id: string, levelRange: [number, number] | null = [1, 10]): Zone => ({
+    id,
+    internalName: id,
+    displayName: id,
+    description: '',
+    zoneType: 'normal',
+    levelRange,
+    pvpEnabled: false,
+    safeZone: false,
+    features: {},
+    layer: 0,
+    monsterSpawnRate: 0,
+    ambientSounds: [],
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z')
+  });
+
+  const exit = (fromZoneId: string, toZoneId: string, direction: Direction, overrides: Partial<ZoneExit> = {}): ZoneExit => ({
+    id: `${fromZoneId}-${direction}`,
+    fromZoneId,
+    toZoneId,
+    direction,
+    exitType: 'normal',
+    isVisible: true,
+    isLocked: false,
+    requiredLevel: 1,
+    travelTime: 5,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const zones = [zone('village'), zone('meadow'), zone('forest', [8, 20])];
+  const roads = [
+    exit('village', 'meadow', 'north', { reverseDirection: 'south' }),
+    exit('meadow', 'village', 'south', { reverseDirection: 'north' }),
+    exit('meadow', 'forest', 'east'),
+    exit('forest', 'meadow', 'west')
+  ];
+
+  it('should find nothing wrong with a consistent world', () => {
+    expect(validator.validate(zones, roads, 'village')).toEqual([]);
+  });
+
+  it('should flag exits that do not lead back the opposite way, once per pair', () => {
+    const issues = validator.validate(zones, [
+      ...roads.slice(0, 2),
+      exit('meadow', 'forest', 'east'),
+      exit('forest', 'meadow', 'north'),
+      exit('village', 'forest', 'up', { reverseDirection: 'west' })
+    ], 'village');
+
+    expect(issues.map(issue => [issue.type, issue.exitIds])).toEqual([
+      ['reverse_mismatch', ['meadow-east', 'forest-north']],
+      ['reverse_mismatch', ['village-up']]
+    ]);
+  });
+
+  it('should warn about exits declaring a way back that does not exist', () => {
+    const issues = validator.validate(zones, [...roads, exit('forest', 'village', 'down', { reverseDirection: 'up' })], 'village');
+
+    expect(issues).toEqual([expect.objectContaining({
+      type: 'one_way_exit',
+      severity: 'warning',
+      exitIds: ['forest-down']
+    })]);
+  });
+
+  it('should flag zones unreachable from the starter zone, and a missing starter zone', () => {
+    const issues = validator.validate([...zones, zone('island')], [...roads, exit('island', 'village', 'south')], 'village');
+    expect(issues).toEqual([expect.objectContaining({ type: 'orphan_zone', zoneId: 'island' })]);
+
+    expect(validator.validate(zones, roads, null).map(issue => issue.type)).toEqual(['missing_starter_zone']);
+    expect([...validator.findReachable(roads, 'forest')].sort()).toEqual(['forest', 'meadow', 'village']);
+  });
+
+  it('should flag two exits the same way out of one zone', () => {
+    const issues = validator.validate(zones, [...roads, exit('meadow', 'village', 'east', { id: 'meadow-east-2' })], 'village');
+
+    expect(issues.find(issue => issue.type === 'duplicate_direction')).toMatchObject({
+      severity: 'error',
+      zoneId: 'meadow',
+      exitIds: ['meadow-east', 'meadow-east-2']
+    });
+  });
+
+  it('should warn about level cliffs unless the exit itself guards them', () => {
+    const world = [...zones, zone('peak', [25, 50])];
+    const cliff = validator.validate(world, [
+      ...roads,
+      exit('meadow', 'peak', 'up', { reverseDirection: 'down' }),
+      exit('peak', 'meadow', 'down')
+    ], 'village');
+
+    expect(cliff).toEqual([expect.objectContaining({
+      type: 'level_cliff',
+      severity: 'warning',
+      exitIds: ['meadow-up'],
+      message: 'Going up from meadow (levels 1-10) leads to peak (levels 25-50), 15 levels higher'
+    })]);
+
+    expect(validator.validate(world, [
+      ...roads,
+      exit('meadow', 'peak', 'up', { requiredLevel: 20 }),
+      exit('peak', 'meadow', 'down')
+    ], 'village')).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Zone Instance Service Tests
+ * Unit tests for per-party zone copies, their monsters and idle teardown
+ */
+
+import { ZoneInstanceService } from '../../src/services/ZoneInstanceService';
+import { MonsterAIBehavior, MonsterTemplate } from '../../src/types/monster.types';
+import { ParticipantType } from '../../src/types/combat.types';
+import { Zone, ZONE_CONSTANTS } from '../../src/types/zone.types';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+describe('ZoneInstanceService', () => {
+  let mockDb: any;
+  let mockClient: any;
+  let mockCache: any;
+  let mockMonsters: any;
+  let service: ZoneInstanceService;
+
+  const template: MonsterTemplate = {
+    id: 'crypt_ghoul',
+    name: 'Crypt Ghoul',
+    description: '',
+    participantType: ParticipantType.MONSTER,
+    baseLevel: 10,
+    stats: { level: 10, hp: 100, mp: 0, strength: 20, vitality: 10, dexterity: 10, intelligence: 5, wisdom: 5 },
+    abilities: [],
+    experience: 80,
+    gold: 20,
+    immunities: [],
+    resistances: {},
+    aiBehavior: MonsterAIBehavior.AGGRESSIVE
+  };
+
+  const crypt = { id: 'crypt', zoneType: 'dungeon' } as Zone;
+
+  const instanceRow = {
+    id: 'instance-1',
+    template_zone_id: 'crypt',
+    owner_character_id: 'hero',
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    last_activity_at: new Date('2026-01-01T00:00:00Z')
+  };
+
+  beforeEach(() => {
+    mockClient = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+    mockDb = { query: jest.fn().mockResolvedValue({ rows: [] }), connect: jest.fn().mockResolvedValue(mockClient) };
+    mockCache = { delete: jest.fn().mockResolvedValue(undefined) };
+    mockMonsters = {
+      generateEncounter: jest.fn(),
+      getTemplate: jest.fn().mockResolvedValue(template),
+      scaleStats: jest.fn().mockReturnValue(template.stats)
+    };
+    service = new ZoneInstanceService(mockDb, mockCache, mockMonsters);
+  });
+
+  it('should only instance instance and dungeon zones', () => {
+    expect(service.isInstanced({ zoneType: 'dungeon' })).toBe(true);
+    expect(service.isInstanced({ zoneType: 'instance' })).toBe(true);
+    expect(service.isInstanced({ zoneType: 'city' })).toBe(false);
+  });
+
+  it('should send party members back into the copy they already share', async () => {
+    mockDb.query.mockResolvedValueOnce({ rows: [instanceRow] });
+
+    const instance = await service.enterInstance('hero', crypt, 12);
+
+    expect(instance).toMatchObject({ id: 'instance-1', ownerCharacterId: 'hero' });
+    expect(mockDb.query).toHaveBeenLastCalledWith(expect.stringContaining('last_activity_at'), ['instance-1']);
+    expect(mockDb.connect).not.toHaveBeenCalled();
+  });
+
+  it('should open a fresh copy stocked with monster groups for the party level', async () => {
+    mockMonsters.generateEncounter
+      .mockResolvedValueOnce([{ instanceId: 'ghoul-1', template, level: 12 }, { instanceId: 'ghoul-2', template, level: 12 }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ instanceId: 'ghoul-3', template, level: 13 }]);
+    mockClient.query.mockImplementation(async (sql: string) =>
+      sql.includes('INSERT INTO zone_instances') ? { rows: [instanceRow] } : { rows: [] }
+    );
+
+    await service.enterInstance('hero', crypt, 12);
+
+    expect(mockMonsters.generateEncounter).toHaveBeenCalledTimes(ZONE_CONSTANTS.INSTANCE_MONSTER_GROUPS);
+    expect(mockMonsters.generateEncounter).toHaveBeenCalledWith('crypt', 12);
+
+    const monsterInserts = mockClient.query.mock.calls.filter(([sql]: [string]) => sql.includes('zone_instance_monsters'));
+    expect(monsterInserts.map(([, params]: [string, unknown[]]) => params)).toEqual([
+      ['ghoul-1', 'instance-1', 0, 'crypt_ghoul', 12],
+      ['ghoul-2', 'instance-1', 0, 'crypt_ghoul', 12],
+      ['ghoul-3', 'instance-1', 1, 'crypt_ghoul', 13]
+    ]);
+    expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  it('should rebuild the next living group as fightable monsters', async () => {
+    mockDb.query.mockResolvedValueOnce({
+      rows: [{ id: 'ghoul-3', instance_id: 'instance-1', group_number: 1, template_id: 'crypt_ghoul', level: 13, defeated_at: null }]
+    });
+
+    const monsters = await service.getNextEncounter('instance-1');
+
+    expect(monsters).toEqual([{ instanceId: 'ghoul-3', template, level: 13, stats: template.stats }]);
+    expect(mockMonsters.scaleStats).toHaveBeenCalledWith(template, 13);
+  });
+
+  it('should tear down only instances idle past the timeout', async () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    mockDb.query.mockResolvedValueOnce({ rows: [{ id: 'instance-1' }] });
+
+    expect(await service.closeIdleInstances(now)).toEqual(['instance-1']);
+    expect(mockDb.query).toHaveBeenCalledWith(
+      expect.stringContaining('NOT EXISTS'),
+      [new Date(now.getTime() - ZONE_CONSTANTS.INSTANCE_IDLE_TIMEOUT)]
+    );
+    expect(mockCache.delete).toHaveBeenCalledWith('zone_info:instance-1');
+  });
+
+  it('should not touch the database when no monsters died', async () => {
+    await service.recordMonsterDeaths([]);
+    expect(mockDb.query).not.toHaveBeenCalled();
+  });
+});
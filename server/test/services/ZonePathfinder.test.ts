@@ -0,0 +1,75 @@
+/**
+ * Zone Pathfinder Tests
+ * Unit tests for shortest routes over the zone exit graph
+ */
+
+import { ZonePathfinder } from '../../src/services/ZonePathfinder';
+import { Direction, ZoneExit } from '../../src/types/zone.types';
+
+describe('ZonePathfinder', () => {
+  const pathfinder = new ZonePathfinder();
+
+  const exit = (fromZoneId: string, toZoneId: string, direction: Direction, travelTime = 5, overrides: Partial<ZoneExit> = {}): ZoneExit => ({
+    id: `${fromZoneId}-${direction}`,
+    fromZoneId,
+    toZoneId,
+    direction,
+    exitType: 'normal',
+    isVisible: true,
+    isLocked: false,
+    requiredLevel: 1,
+    travelTime,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  // village -> meadow -> forest -> caves, with a long shortcut from the meadow to the caves
+  const world = [
+    exit('village', 'meadow', 'north'),
+    exit('meadow', 'village', 'south'),
+    exit('meadow', 'forest', 'east'),
+    exit('forest', 'meadow', 'west'),
+    exit('forest', 'caves', 'down', 10),
+    exit('meadow', 'caves', 'down', 30, { requiredLevel: 10 })
+  ];
+  const anyExit = () => true;
+
+  it('should follow the quickest route rather than the fewest steps', () => {
+    const path = pathfinder.findPath(world, 'village', 'caves', anyExit);
+
+    expect(path?.steps.map(step => step.direction)).toEqual(['north', 'east', 'down']);
+    expect(path?.totalTravelTime).toBe(20);
+    expect(path?.steps[2]).toEqual({
+      exitId: 'forest-down',
+      fromZoneId: 'forest',
+      toZoneId: 'caves',
+      direction: 'down',
+      travelTime: 10
+    });
+  });
+
+  it('should prefer fewer steps when travel times tie', () => {
+    const path = pathfinder.findPath([...world, exit('meadow', 'caves', 'northeast', 15)], 'village', 'caves', anyExit);
+
+    expect(path?.steps.map(step => step.direction)).toEqual(['north', 'northeast']);
+  });
+
+  it('should route around exits the character cannot use', () => {
+    const withoutForestStairs = (candidate: ZoneExit) => candidate.id !== 'forest-down';
+
+    expect(pathfinder.findPath(world, 'village', 'caves', withoutForestStairs)?.steps.map(step => step.direction))
+      .toEqual(['north', 'down']);
+    expect(pathfinder.findPath(world, 'village', 'caves', candidate => candidate.toZoneId !== 'caves')).toBeNull();
+  });
+
+  it('should return an empty route to the current zone and none to unknown zones', () => {
+    expect(pathfinder.findPath(world, 'forest', 'forest', anyExit)).toEqual({
+      fromZoneId: 'forest',
+      toZoneId: 'forest',
+      steps: [],
+      totalTravelTime: 0
+    });
+    expect(pathfinder.findPath(world, 'village', 'atlantis', anyExit)).toBeNull();
+  });
+});